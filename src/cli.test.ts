@@ -58,6 +58,16 @@ describe("cli", () => {
       expect(options.host).toBe("0.0.0.0");
     });
 
+    it("disables read-only mode by default", () => {
+      expect(parseArgs([]).readOnly).toBe(false);
+    });
+
+    it("enables read-only mode with --read-only flag", () => {
+      const options = parseArgs(["--http", "--read-only"]);
+      expect(options.readOnly).toBe(true);
+      expect(options.transport).toBe("http");
+    });
+
     it("reads port from ODOO_MCP_PORT env var", () => {
       process.env.ODOO_MCP_PORT = "9000";
       const options = parseArgs([]);
@@ -6,6 +6,10 @@ export interface CliOptions {
   transport: "stdio" | "http";
   port: number;
   host: string;
+  /**
+   * Disable tools and methods that modify Odoo data
+   */
+  readOnly: boolean;
 }
 
 /**
@@ -17,6 +21,7 @@ export function parseArgs(argv: string[] = process.argv.slice(2)): CliOptions {
     transport: "stdio",
     port: Number.parseInt(process.env.ODOO_MCP_PORT ?? "3000", 10),
     host: process.env.ODOO_MCP_HOST ?? "127.0.0.1",
+    readOnly: false,
   };
 
   for (let i = 0; i < argv.length; i++) {
@@ -25,6 +30,8 @@ export function parseArgs(argv: string[] = process.argv.slice(2)): CliOptions {
 
     if (arg === "--http") {
       options.transport = "http";
+    } else if (arg === "--read-only") {
+      options.readOnly = true;
     } else if (arg === "--port" && nextArg !== undefined) {
       options.port = Number.parseInt(nextArg, 10);
       i++;
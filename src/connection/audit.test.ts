@@ -0,0 +1,261 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MockClientBuilder } from "../test-utils/mock-client.js";
+import {
+  type AuditEntry,
+  AuditingClient,
+  AuditLog,
+  affectedRecordIds,
+  redactArgs,
+  redactSecrets,
+} from "./audit.js";
+
+function entry(overrides: Partial<AuditEntry> = {}): AuditEntry {
+  return {
+    timestamp: "2025-01-14T10:00:00.000Z",
+    session_id: "s1",
+    tool: "execute_method",
+    profile: "default",
+    model: "res.partner",
+    method: "write",
+    args: [[1], { name: "Acme" }],
+    kwargs: {},
+    record_ids: [1],
+    outcome: "success",
+    duration_ms: 5,
+    ...overrides,
+  };
+}
+
+describe("redactSecrets", () => {
+  it("redacts secret-looking keys at any depth", () => {
+    expect(
+      redactSecrets([
+        [1],
+        { password: "hunter2", name: "Bob", nested: { api_key: "k" } },
+      ]),
+    ).toEqual([
+      [1],
+      { password: "***", name: "Bob", nested: { api_key: "***" } },
+    ]);
+  });
+
+  it("leaves keys that only contain a secret word", () => {
+    expect(
+      redactSecrets({
+        passport_id: "X1",
+        passenger_count: 2,
+        bypass_reason: "audit",
+        new_password: "p",
+        access_token: "t",
+      }),
+    ).toEqual({
+      passport_id: "X1",
+      passenger_count: 2,
+      bypass_reason: "audit",
+      new_password: "***",
+      access_token: "***",
+    });
+  });
+});
+
+describe("redactArgs", () => {
+  it("redacts every positional argument of credential methods", () => {
+    expect(redactArgs("change_password", ["old", "new"])).toEqual([
+      "***",
+      "***",
+    ]);
+  });
+
+  it("redacts secret-looking keys for other methods", () => {
+    expect(redactArgs("write", [[1], { password: "p", name: "A" }])).toEqual([
+      [1],
+      { password: "***", name: "A" },
+    ]);
+  });
+});
+
+describe("affectedRecordIds", () => {
+  it("uses the result for creates", () => {
+    expect(affectedRecordIds("create", [{ name: "A" }], 42)).toEqual([42]);
+    expect(affectedRecordIds("create", [[{}, {}]], [7, 8])).toEqual([7, 8]);
+  });
+
+  it("uses the first argument for other methods", () => {
+    expect(affectedRecordIds("write", [[1, 2], {}])).toEqual([1, 2]);
+    expect(affectedRecordIds("action_post", [5])).toEqual([5]);
+    expect(affectedRecordIds("write", [{ name: "A" }])).toEqual([]);
+    expect(affectedRecordIds("unlink", [], undefined, { ids: [3, 4] })).toEqual(
+      [3, 4],
+    );
+  });
+});
+
+describe("AuditLog", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "odoo-audit-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("appends entries as JSON lines", () => {
+    const log = new AuditLog({ directory: dir, maxFileSize: 1e6, maxFiles: 3 });
+
+    log.append(entry());
+    log.append(entry({ method: "unlink" }));
+
+    const lines = fs
+      .readFileSync(path.join(dir, "audit.jsonl"), "utf-8")
+      .trim()
+      .split("\n");
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1] ?? "").method).toBe("unlink");
+  });
+
+  it("filters by model, session and time, newest first", () => {
+    const log = new AuditLog({ directory: dir, maxFileSize: 1e6, maxFiles: 3 });
+    log.append(entry({ timestamp: "2025-01-13T09:00:00.000Z" }));
+    log.append(entry({ timestamp: "2025-01-14T09:00:00.000Z" }));
+    log.append(
+      entry({ timestamp: "2025-01-14T10:00:00.000Z", model: "sale.order" }),
+    );
+    log.append(
+      entry({ timestamp: "2025-01-14T11:00:00.000Z", session_id: "s2" }),
+    );
+
+    const results = log.query({
+      model: "res.partner",
+      session_id: "s1",
+      since: new Date("2025-01-14T00:00:00Z"),
+      until: new Date("2025-01-15T00:00:00Z"),
+    });
+
+    expect(results.map((e) => e.timestamp)).toEqual([
+      "2025-01-14T09:00:00.000Z",
+    ]);
+    expect(log.query().map((e) => e.timestamp)).toEqual([
+      "2025-01-14T11:00:00.000Z",
+      "2025-01-14T10:00:00.000Z",
+      "2025-01-14T09:00:00.000Z",
+      "2025-01-13T09:00:00.000Z",
+    ]);
+    expect(log.query({ limit: 1 })).toHaveLength(1);
+  });
+
+  it("rotates full files and keeps the newest ones", () => {
+    const log = new AuditLog({ directory: dir, maxFileSize: 10, maxFiles: 2 });
+
+    for (let i = 1; i <= 5; i++) {
+      log.append(entry({ record_ids: [i] }));
+    }
+
+    const files = fs.readdirSync(dir);
+    expect(files).toContain("audit.jsonl");
+    expect(files.filter((f) => f.startsWith("audit-"))).toHaveLength(2);
+    expect(log.query().map((e) => e.record_ids[0])).toEqual([5, 4, 3]);
+  });
+
+  it("does not fail the caller when the log cannot be written", () => {
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const file = path.join(dir, "not-a-dir");
+    fs.writeFileSync(file, "");
+    const log = new AuditLog({
+      directory: file,
+      maxFileSize: 1e6,
+      maxFiles: 1,
+    });
+
+    expect(() => log.append(entry())).not.toThrow();
+    expect(consoleSpy).toHaveBeenCalledWith(
+      expect.stringContaining("Could not write audit log"),
+    );
+    consoleSpy.mockRestore();
+  });
+});
+
+describe("AuditingClient", () => {
+  const context = { sessionId: "s1", tool: "bulk_operation", profile: "prod" };
+  let log: AuditLog;
+  let append: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    log = new AuditLog({ directory: "/unused", maxFileSize: 1, maxFiles: 1 });
+    append = vi.spyOn(log, "append").mockImplementation(() => {});
+  });
+
+  it("records successful writes with redacted arguments", async () => {
+    const inner = new MockClientBuilder()
+      .withExecuteResult("res.users", "write", true)
+      .build();
+    let time = 1000;
+    const client = new AuditingClient(inner, log, context, () => time++);
+
+    await client.execute("res.users", "write", [[3], { password: "secret" }]);
+
+    expect(append).toHaveBeenCalledWith({
+      timestamp: new Date(1000).toISOString(),
+      session_id: "s1",
+      tool: "bulk_operation",
+      profile: "prod",
+      model: "res.users",
+      method: "write",
+      args: [[3], { password: "***" }],
+      kwargs: {},
+      record_ids: [3],
+      outcome: "success",
+      duration_ms: 1,
+    });
+  });
+
+  it("redacts positional passwords", async () => {
+    const inner = new MockClientBuilder()
+      .withExecuteResult("res.users", "change_password", true)
+      .build();
+    const client = new AuditingClient(inner, log, context);
+
+    await client.execute("res.users", "change_password", ["old", "new"]);
+
+    expect(append).toHaveBeenCalledWith(
+      expect.objectContaining({
+        method: "change_password",
+        args: ["***", "***"],
+      }),
+    );
+  });
+
+  it("records failures and rethrows", async () => {
+    const inner = new MockClientBuilder()
+      .withExecuteError("account.move", "unlink", new Error("Posted entry"))
+      .build();
+    const client = new AuditingClient(inner, log, context);
+
+    await expect(
+      client.execute("account.move", "unlink", [[9]]),
+    ).rejects.toThrow("Posted entry");
+    expect(append).toHaveBeenCalledWith(
+      expect.objectContaining({
+        outcome: "error",
+        error: "Error: Posted entry",
+        record_ids: [9],
+      }),
+    );
+  });
+
+  it("does not record reads", async () => {
+    const inner = new MockClientBuilder()
+      .withExecuteResult("res.partner", "search_read", [])
+      .build();
+    const client = new AuditingClient(inner, log, context);
+
+    await client.execute("res.partner", "search_read", [[]]);
+    await client.searchRead("res.partner", []);
+
+    expect(append).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,359 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type {
+  Domain,
+  GetModelsResult,
+  IOdooClient,
+  OdooFieldDef,
+  OdooModelInfo,
+  OdooServerInfo,
+  SearchReadOptions,
+} from "../types/index.js";
+import { classifyMethod } from "./policy.js";
+
+export interface AuditLogOptions {
+  /**
+   * Directory holding audit.jsonl and its rotated files
+   */
+  directory: string;
+  /**
+   * Size in bytes at which audit.jsonl is rotated
+   */
+  maxFileSize: number;
+  /**
+   * Rotated files to keep; older ones are deleted
+   */
+  maxFiles: number;
+}
+
+export const DEFAULT_AUDIT_DIR = path.join(process.cwd(), ".odoo-mcp", "audit");
+
+export const DEFAULT_AUDIT_MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+export const DEFAULT_AUDIT_MAX_FILES = 10;
+
+const CURRENT_FILE = "audit.jsonl";
+
+const ROTATED_FILE = /^audit-(\d+)\.jsonl$/;
+
+/**
+ * One mutating call made through the server
+ */
+export interface AuditEntry {
+  timestamp: string;
+  session_id: string | null;
+  tool: string | null;
+  profile: string | null;
+  model: string;
+  method: string;
+  args: unknown[];
+  kwargs: Record<string, unknown>;
+  record_ids: number[];
+  outcome: "success" | "error";
+  error?: string;
+  duration_ms: number;
+}
+
+export interface AuditQuery {
+  model?: string;
+  session_id?: string;
+  tool?: string;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+/**
+ * Who made a call: the MCP session, tool and profile behind it
+ */
+export interface AuditContext {
+  sessionId: string | null;
+  tool: string | null;
+  profile: string | null;
+}
+
+const SECRET_KEY =
+  /(^|_)(password|passwd|secret|token|api_?key|credentials?)($|_)/i;
+
+/**
+ * Methods that take credentials positionally, e.g.
+ * `res.users.change_password(old, new)`
+ */
+const CREDENTIAL_METHODS = new Set([
+  "change_password",
+  "check_credentials",
+  "_check_credentials",
+]);
+
+/**
+ * Replace values stored under secret-looking keys, at any depth
+ */
+export function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets);
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [
+        key,
+        SECRET_KEY.test(key) ? "***" : redactSecrets(v),
+      ]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Redact a call's positional arguments: every argument of a method that
+ * takes credentials, and secret-looking keys for everything else
+ */
+export function redactArgs(method: string, args: unknown[]): unknown[] {
+  if (CREDENTIAL_METHODS.has(method)) {
+    return args.map(() => "***");
+  }
+  return redactSecrets(args) as unknown[];
+}
+
+function toIds(value: unknown): number[] {
+  if (typeof value === "number") {
+    return [value];
+  }
+  if (Array.isArray(value) && value.every((v) => typeof v === "number")) {
+    return value;
+  }
+  return [];
+}
+
+/**
+ * Record IDs a call touched: the new IDs for creates, otherwise the IDs it
+ * was called on, positionally or as the `ids` keyword argument
+ */
+export function affectedRecordIds(
+  method: string,
+  args: unknown[],
+  result?: unknown,
+  kwargs: Record<string, unknown> = {},
+): number[] {
+  if (classifyMethod(method) === "create") {
+    return toIds(result);
+  }
+  const ids = toIds(args[0]);
+  return ids.length > 0 ? ids : toIds(kwargs.ids);
+}
+
+/**
+ * Append-only JSONL audit log. audit.jsonl is rotated to
+ * audit-<timestamp>.jsonl once it reaches maxFileSize.
+ */
+export class AuditLog {
+  private currentFile: string;
+
+  constructor(private options: AuditLogOptions) {
+    this.currentFile = path.join(options.directory, CURRENT_FILE);
+  }
+
+  /**
+   * Append an entry. Write failures are logged rather than failing the call
+   * that was audited.
+   */
+  append(entry: AuditEntry): void {
+    try {
+      fs.mkdirSync(this.options.directory, { recursive: true });
+      this.rotateIfNeeded();
+      fs.appendFileSync(this.currentFile, `${JSON.stringify(entry)}\n`);
+    } catch (error) {
+      console.error(`Could not write audit log: ${error}`);
+    }
+  }
+
+  /**
+   * Find entries matching every given filter, newest first
+   */
+  query(filter: AuditQuery = {}): AuditEntry[] {
+    const limit = filter.limit ?? 50;
+    const matches: AuditEntry[] = [];
+
+    for (const file of this.filesNewestFirst()) {
+      const lines = fs.readFileSync(file, "utf-8").split("\n").reverse();
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(line) as AuditEntry;
+        } catch {
+          continue;
+        }
+        if (matchesQuery(entry, filter)) {
+          matches.push(entry);
+          if (matches.length >= limit) {
+            return matches;
+          }
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  private rotateIfNeeded(): void {
+    if (!fs.existsSync(this.currentFile)) {
+      return;
+    }
+    if (fs.statSync(this.currentFile).size < this.options.maxFileSize) {
+      return;
+    }
+
+    let stamp = Date.now();
+    while (fs.existsSync(this.rotatedFile(stamp))) {
+      stamp++;
+    }
+    fs.renameSync(this.currentFile, this.rotatedFile(stamp));
+
+    const excess = this.rotatedFiles().slice(this.options.maxFiles);
+    for (const file of excess) {
+      fs.rmSync(file, { force: true });
+    }
+  }
+
+  private rotatedFile(stamp: number): string {
+    return path.join(this.options.directory, `audit-${stamp}.jsonl`);
+  }
+
+  /**
+   * Rotated files, newest first
+   */
+  private rotatedFiles(): string[] {
+    if (!fs.existsSync(this.options.directory)) {
+      return [];
+    }
+    return fs
+      .readdirSync(this.options.directory)
+      .map((name) => ROTATED_FILE.exec(name))
+      .filter((m): m is RegExpExecArray => m !== null)
+      .sort((a, b) => Number(b[1]) - Number(a[1]))
+      .map((m) => path.join(this.options.directory, m[0]));
+  }
+
+  private filesNewestFirst(): string[] {
+    const files = this.rotatedFiles();
+    return fs.existsSync(this.currentFile)
+      ? [this.currentFile, ...files]
+      : files;
+  }
+}
+
+function matchesQuery(entry: AuditEntry, filter: AuditQuery): boolean {
+  if (filter.model && entry.model !== filter.model) return false;
+  if (filter.session_id && entry.session_id !== filter.session_id) return false;
+  if (filter.tool && entry.tool !== filter.tool) return false;
+
+  const time = Date.parse(entry.timestamp);
+  if (filter.since && time < filter.since.getTime()) return false;
+  if (filter.until && time > filter.until.getTime()) return false;
+  return true;
+}
+
+/**
+ * IOdooClient decorator recording every non-read execute() call, whether it
+ * succeeds or fails, to the audit log
+ */
+export class AuditingClient implements IOdooClient {
+  constructor(
+    private inner: IOdooClient,
+    private log: AuditLog,
+    private context: AuditContext,
+    private now: () => number = Date.now,
+  ) {}
+
+  async execute<T>(
+    model: string,
+    method: string,
+    args: unknown[] = [],
+    kwargs: Record<string, unknown> = {},
+  ): Promise<T> {
+    if (classifyMethod(method) === "read") {
+      return this.inner.execute<T>(model, method, args, kwargs);
+    }
+
+    const started = this.now();
+    const record = (
+      outcome: AuditEntry["outcome"],
+      recordIds: number[],
+      error?: unknown,
+    ) => {
+      this.log.append({
+        timestamp: new Date(started).toISOString(),
+        session_id: this.context.sessionId,
+        tool: this.context.tool,
+        profile: this.context.profile,
+        model,
+        method,
+        args: redactArgs(method, args),
+        kwargs: redactSecrets(kwargs) as Record<string, unknown>,
+        record_ids: recordIds,
+        outcome,
+        ...(error !== undefined && { error: String(error) }),
+        duration_ms: this.now() - started,
+      });
+    };
+
+    try {
+      const result = await this.inner.execute<T>(model, method, args, kwargs);
+      record("success", affectedRecordIds(method, args, result, kwargs));
+      return result;
+    } catch (error) {
+      record(
+        "error",
+        affectedRecordIds(method, args, undefined, kwargs),
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async getModels(): Promise<GetModelsResult> {
+    return this.inner.getModels();
+  }
+
+  async getModelInfo(
+    modelName: string,
+  ): Promise<OdooModelInfo | { error: string }> {
+    return this.inner.getModelInfo(modelName);
+  }
+
+  async getModelFields(
+    modelName: string,
+  ): Promise<Record<string, OdooFieldDef> | { error: string }> {
+    return this.inner.getModelFields(modelName);
+  }
+
+  async searchRead(
+    modelName: string,
+    domain: Domain,
+    options: SearchReadOptions = {},
+  ): Promise<unknown[]> {
+    return this.inner.searchRead(modelName, domain, options);
+  }
+
+  async readRecords(
+    modelName: string,
+    ids: number[],
+    fields?: string[],
+  ): Promise<unknown[]> {
+    return this.inner.readRecords(modelName, ids, fields);
+  }
+
+  async clearSchemaCache(model?: string): Promise<number> {
+    if (!this.inner.clearSchemaCache) {
+      throw new Error("Schema caching is not enabled on this server");
+    }
+    return this.inner.clearSchemaCache(model);
+  }
+
+  async getServerInfo(): Promise<OdooServerInfo> {
+    if (!this.inner.getServerInfo) {
+      throw new Error("Server information is not available");
+    }
+    return this.inner.getServerInfo();
+  }
+}
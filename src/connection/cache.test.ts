@@ -0,0 +1,203 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { IOdooClient } from "../types/index.js";
+import { CachingOdooClient } from "./cache.js";
+
+const identity = {
+  url: "https://example.com",
+  db: "test",
+  username: "admin",
+};
+
+const partnerFields = {
+  name: { type: "char", string: "Name" },
+};
+
+describe("CachingOdooClient", () => {
+  let inner: IOdooClient;
+  let modules: Array<{ name: string; latest_version: string }>;
+  let now: number;
+
+  beforeEach(() => {
+    now = 0;
+    modules = [{ name: "base", latest_version: "17.0.1.3" }];
+    inner = {
+      execute: vi.fn(async (model: string, method: string) =>
+        model === "ir.module.module" && method === "search_read"
+          ? modules
+          : true,
+      ) as IOdooClient["execute"],
+      getModels: vi.fn().mockResolvedValue({
+        model_names: ["res.partner"],
+        models_details: { "res.partner": { name: "Contact" } },
+      }),
+      getModelInfo: vi.fn().mockResolvedValue({
+        id: 1,
+        name: "Contact",
+        model: "res.partner",
+      }),
+      getModelFields: vi.fn().mockResolvedValue(partnerFields),
+      searchRead: vi.fn().mockResolvedValue([]),
+      readRecords: vi.fn().mockResolvedValue([]),
+    };
+  });
+
+  function createCache(directory?: string): CachingOdooClient {
+    return new CachingOdooClient(
+      inner,
+      { ttl: 1000, moduleCheckInterval: 100, identity, directory },
+      () => now,
+    );
+  }
+
+  it("serves repeated metadata lookups from the cache", async () => {
+    const cache = createCache();
+
+    expect(await cache.getModelFields("res.partner")).toEqual(partnerFields);
+    expect(await cache.getModelFields("res.partner")).toEqual(partnerFields);
+    await cache.getModels();
+    await cache.getModels();
+    await cache.getModelInfo("res.partner");
+    await cache.getModelInfo("res.partner");
+
+    expect(inner.getModelFields).toHaveBeenCalledTimes(1);
+    expect(inner.getModels).toHaveBeenCalledTimes(1);
+    expect(inner.getModelInfo).toHaveBeenCalledTimes(1);
+  });
+
+  it("refetches entries older than the TTL", async () => {
+    const cache = createCache();
+
+    await cache.getModelFields("res.partner");
+    now += 1000;
+    await cache.getModelFields("res.partner");
+
+    expect(inner.getModelFields).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not cache error results", async () => {
+    vi.mocked(inner.getModelFields).mockResolvedValueOnce({
+      error: "Request timeout after 30000ms",
+    });
+    const cache = createCache();
+
+    await cache.getModelFields("res.partner");
+    expect(await cache.getModelFields("res.partner")).toEqual(partnerFields);
+    expect(inner.getModelFields).toHaveBeenCalledTimes(2);
+  });
+
+  it("passes record reads and writes through", async () => {
+    const cache = createCache();
+
+    await cache.searchRead("res.partner", [], { limit: 1 });
+    await cache.readRecords("res.partner", [1]);
+    await cache.execute("res.partner", "write", [[1], { name: "x" }]);
+
+    expect(inner.searchRead).toHaveBeenCalledWith("res.partner", [], {
+      limit: 1,
+    });
+    expect(inner.readRecords).toHaveBeenCalledWith(
+      "res.partner",
+      [1],
+      undefined,
+    );
+    expect(inner.execute).toHaveBeenCalledWith(
+      "res.partner",
+      "write",
+      [[1], { name: "x" }],
+      undefined,
+    );
+  });
+
+  it("invalidates when installed module versions change", async () => {
+    const cache = createCache();
+
+    await cache.getModelFields("res.partner");
+    modules = [
+      { name: "base", latest_version: "17.0.1.3" },
+      { name: "sale", latest_version: "17.0.1.2" },
+    ];
+
+    // Within the check interval the old schema is still served
+    now += 50;
+    await cache.getModelFields("res.partner");
+    expect(inner.getModelFields).toHaveBeenCalledTimes(1);
+
+    now += 100;
+    await cache.getModelFields("res.partner");
+    expect(inner.getModelFields).toHaveBeenCalledTimes(2);
+  });
+
+  it("invalidates after installing a module through the client", async () => {
+    const cache = createCache();
+
+    await cache.getModelFields("res.partner");
+    await cache.execute("ir.module.module", "button_immediate_install", [[5]]);
+    await cache.getModelFields("res.partner");
+
+    expect(inner.getModelFields).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps caching by TTL when modules cannot be read", async () => {
+    vi.mocked(inner.execute).mockRejectedValue(new Error("Access denied"));
+    const cache = createCache();
+
+    await cache.getModelFields("res.partner");
+    now += 500;
+    await cache.getModelFields("res.partner");
+
+    expect(inner.getModelFields).toHaveBeenCalledTimes(1);
+  });
+
+  it("clears a single model or everything", async () => {
+    const cache = createCache();
+
+    await cache.getModels();
+    await cache.getModelInfo("res.partner");
+    await cache.getModelFields("res.partner");
+
+    expect(await cache.clearSchemaCache("res.partner")).toBe(2);
+    expect(await cache.clearSchemaCache()).toBe(1);
+  });
+
+  describe("disk cache", () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), "odoo-cache-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it("reuses metadata saved by a previous process", async () => {
+      await createCache(directory).getModelFields("res.partner");
+
+      const restarted = createCache(directory);
+      expect(await restarted.getModelFields("res.partner")).toEqual(
+        partnerFields,
+      );
+      expect(inner.getModelFields).toHaveBeenCalledTimes(1);
+    });
+
+    it("ignores metadata saved for other module versions", async () => {
+      await createCache(directory).getModelFields("res.partner");
+
+      modules = [{ name: "base", latest_version: "17.0.1.4" }];
+      await createCache(directory).getModelFields("res.partner");
+
+      expect(inner.getModelFields).toHaveBeenCalledTimes(2);
+    });
+
+    it("keeps one file per connection", async () => {
+      await createCache(directory).getModelFields("res.partner");
+
+      const files = fs.readdirSync(directory);
+      expect(files).toHaveLength(1);
+      expect(files[0]).toMatch(/^[0-9a-f]{16}\.json$/);
+    });
+  });
+});
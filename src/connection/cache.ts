@@ -0,0 +1,301 @@
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type {
+  Domain,
+  GetModelsResult,
+  IOdooClient,
+  OdooFieldDef,
+  OdooModelInfo,
+  OdooServerInfo,
+  SearchReadOptions,
+} from "../types/index.js";
+
+export interface SchemaCacheOptions {
+  /**
+   * How long cached metadata stays fresh, in ms
+   */
+  ttl: number;
+  /**
+   * Directory for the on-disk cache. Without one the cache is memory-only.
+   */
+  directory?: string | undefined;
+  /**
+   * How often to re-check installed module versions, in ms
+   */
+  moduleCheckInterval?: number;
+  /**
+   * Connection the cache belongs to; keys the on-disk cache file
+   */
+  identity: { url: string; db: string; username: string };
+}
+
+export const DEFAULT_SCHEMA_CACHE_TTL = 60 * 60 * 1000;
+
+export const DEFAULT_MODULE_CHECK_INTERVAL = 60 * 1000;
+
+export const DEFAULT_SCHEMA_CACHE_DIR = path.join(
+  process.cwd(),
+  ".odoo-mcp",
+  "cache",
+);
+
+/**
+ * ir.module.module methods that change the installed modules, and with
+ * them the models and fields
+ */
+const MODULE_STATE_METHODS = new Set([
+  "button_immediate_install",
+  "button_immediate_upgrade",
+  "button_immediate_uninstall",
+  "button_install",
+  "button_upgrade",
+  "button_uninstall",
+  "module_uninstall",
+]);
+
+interface CacheEntry {
+  value: unknown;
+  storedAt: number;
+}
+
+interface CacheFile {
+  fingerprint: string | null;
+  entries: Record<string, CacheEntry>;
+}
+
+function hash(value: string): string {
+  return createHash("sha256").update(value).digest("hex").slice(0, 16);
+}
+
+function isErrorResult(value: unknown): boolean {
+  return typeof value === "object" && value !== null && "error" in value;
+}
+
+/**
+ * IOdooClient decorator caching model metadata (getModels, getModelInfo,
+ * getModelFields). Entries expire after the TTL and are dropped whenever the
+ * installed module versions change. Record reads and writes pass through.
+ */
+export class CachingOdooClient implements IOdooClient {
+  private entries = new Map<string, CacheEntry>();
+  private fingerprint: string | null = null;
+  private checkedAt: number | null = null;
+  private pendingCheck: Promise<void> | null = null;
+  private moduleCheckInterval: number;
+  private cacheFile: string | undefined;
+
+  constructor(
+    private inner: IOdooClient,
+    private options: SchemaCacheOptions,
+    private now: () => number = Date.now,
+  ) {
+    this.moduleCheckInterval =
+      options.moduleCheckInterval ?? DEFAULT_MODULE_CHECK_INTERVAL;
+
+    if (options.directory) {
+      const { url, db, username } = options.identity;
+      this.cacheFile = path.join(
+        options.directory,
+        `${hash(`${url}|${db}|${username}`)}.json`,
+      );
+    }
+  }
+
+  async execute<T>(
+    model: string,
+    method: string,
+    args?: unknown[],
+    kwargs?: Record<string, unknown>,
+  ): Promise<T> {
+    if (model !== "ir.module.module" || !MODULE_STATE_METHODS.has(method)) {
+      return this.inner.execute<T>(model, method, args, kwargs);
+    }
+
+    try {
+      return await this.inner.execute<T>(model, method, args, kwargs);
+    } finally {
+      // Module changes alter the schema, whether or not the call succeeded
+      await this.clearSchemaCache();
+    }
+  }
+
+  async getModels(): Promise<GetModelsResult> {
+    return this.cached("models", () => this.inner.getModels());
+  }
+
+  async getModelInfo(
+    modelName: string,
+  ): Promise<OdooModelInfo | { error: string }> {
+    return this.cached(`model:${modelName}`, () =>
+      this.inner.getModelInfo(modelName),
+    );
+  }
+
+  async getModelFields(
+    modelName: string,
+  ): Promise<Record<string, OdooFieldDef> | { error: string }> {
+    return this.cached(`fields:${modelName}`, () =>
+      this.inner.getModelFields(modelName),
+    );
+  }
+
+  async searchRead(
+    modelName: string,
+    domain: Domain,
+    options?: SearchReadOptions,
+  ): Promise<unknown[]> {
+    return this.inner.searchRead(modelName, domain, options);
+  }
+
+  async readRecords(
+    modelName: string,
+    ids: number[],
+    fields?: string[],
+  ): Promise<unknown[]> {
+    return this.inner.readRecords(modelName, ids, fields);
+  }
+
+  async getServerInfo(): Promise<OdooServerInfo> {
+    if (!this.inner.getServerInfo) {
+      throw new Error("Server information is not available");
+    }
+    return this.inner.getServerInfo();
+  }
+
+  /**
+   * Drop cached metadata for one model, or everything when no model is given.
+   * Returns the number of entries removed.
+   */
+  async clearSchemaCache(model?: string): Promise<number> {
+    let cleared = 0;
+
+    if (model) {
+      for (const key of [`model:${model}`, `fields:${model}`]) {
+        if (this.entries.delete(key)) cleared++;
+      }
+    } else {
+      cleared = this.entries.size;
+      this.entries.clear();
+      // Pick up module changes on the next lookup
+      this.checkedAt = null;
+    }
+
+    this.persist();
+    return cleared;
+  }
+
+  private async cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+    await this.checkModules();
+
+    const entry = this.entries.get(key);
+    if (entry && this.now() - entry.storedAt < this.options.ttl) {
+      return entry.value as T;
+    }
+
+    const value = await load();
+    // Errors are often transient; never cache them
+    if (!isErrorResult(value)) {
+      this.entries.set(key, { value, storedAt: this.now() });
+      this.persist();
+    }
+    return value;
+  }
+
+  /**
+   * Re-check installed module versions at most once per interval
+   */
+  private async checkModules(): Promise<void> {
+    if (
+      this.checkedAt !== null &&
+      this.now() - this.checkedAt < this.moduleCheckInterval
+    ) {
+      return;
+    }
+
+    this.pendingCheck ??= this.refreshFingerprint().finally(() => {
+      this.pendingCheck = null;
+    });
+    return this.pendingCheck;
+  }
+
+  private async refreshFingerprint(): Promise<void> {
+    const isFirstCheck = this.checkedAt === null && this.fingerprint === null;
+    let fingerprint: string | null = null;
+
+    try {
+      const modules = await this.inner.execute<
+        Array<{ name: string; latest_version: string | false }>
+      >("ir.module.module", "search_read", [[["state", "=", "installed"]]], {
+        fields: ["name", "latest_version"],
+      });
+      fingerprint = hash(
+        modules
+          .map((m) => `${m.name}@${m.latest_version || ""}`)
+          .sort()
+          .join(","),
+      );
+    } catch (error) {
+      // Users without access to ir.module.module still get TTL-based caching
+      console.error(`Could not check installed modules: ${error}`);
+    }
+
+    this.checkedAt = this.now();
+
+    if (isFirstCheck) {
+      this.fingerprint = fingerprint;
+      this.load();
+      return;
+    }
+
+    if (fingerprint !== null && fingerprint !== this.fingerprint) {
+      if (this.fingerprint !== null) {
+        console.error("Installed modules changed, clearing schema cache");
+      }
+      this.fingerprint = fingerprint;
+      this.entries.clear();
+      this.persist();
+    }
+  }
+
+  /**
+   * Load entries saved for the same set of installed modules
+   */
+  private load(): void {
+    if (!this.cacheFile || !fs.existsSync(this.cacheFile)) {
+      return;
+    }
+
+    try {
+      const file = JSON.parse(
+        fs.readFileSync(this.cacheFile, "utf-8"),
+      ) as CacheFile;
+      if (file.fingerprint === null || file.fingerprint !== this.fingerprint) {
+        return;
+      }
+      for (const [key, entry] of Object.entries(file.entries)) {
+        this.entries.set(key, entry);
+      }
+    } catch (error) {
+      console.error(`Ignoring unreadable schema cache: ${error}`);
+    }
+  }
+
+  private persist(): void {
+    if (!this.cacheFile) {
+      return;
+    }
+
+    const file: CacheFile = {
+      fingerprint: this.fingerprint,
+      entries: Object.fromEntries(this.entries),
+    };
+
+    try {
+      fs.mkdirSync(path.dirname(this.cacheFile), { recursive: true });
+      fs.writeFileSync(this.cacheFile, JSON.stringify(file));
+    } catch (error) {
+      console.error(`Could not write schema cache: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { CircuitBreaker, CircuitOpenError } from "./circuit-breaker.js";
+
+function createBreaker(failureThreshold = 3, resetTimeout = 1000) {
+  let now = 0;
+  const breaker = new CircuitBreaker(
+    { failureThreshold, resetTimeout },
+    () => now,
+  );
+  return {
+    breaker,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+describe("CircuitBreaker", () => {
+  it("starts closed", () => {
+    const { breaker } = createBreaker();
+
+    expect(breaker.state).toBe("closed");
+    expect(() => breaker.beforeCall()).not.toThrow();
+  });
+
+  it("opens after consecutive failures reach the threshold", () => {
+    const { breaker } = createBreaker(3);
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.state).toBe("closed");
+
+    breaker.recordFailure();
+    expect(breaker.state).toBe("open");
+    expect(() => breaker.beforeCall()).toThrow(CircuitOpenError);
+  });
+
+  it("resets the failure count on success", () => {
+    const { breaker } = createBreaker(2);
+
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe("closed");
+  });
+
+  it("reports when the next attempt is allowed", () => {
+    const { breaker, advance } = createBreaker(1, 30000);
+
+    breaker.recordFailure();
+    advance(10000);
+
+    expect(() => breaker.beforeCall()).toThrow("next attempt allowed in 20s");
+  });
+
+  it("lets a single trial call through after the reset timeout", () => {
+    const { breaker, advance } = createBreaker(1, 1000);
+
+    breaker.recordFailure();
+    advance(1000);
+
+    expect(breaker.state).toBe("half-open");
+    expect(() => breaker.beforeCall()).not.toThrow();
+    // Concurrent callers still fail fast while the trial runs
+    expect(() => breaker.beforeCall()).toThrow(CircuitOpenError);
+  });
+
+  it("closes when the trial call succeeds", () => {
+    const { breaker, advance } = createBreaker(1, 1000);
+
+    breaker.recordFailure();
+    advance(1000);
+    breaker.beforeCall();
+    breaker.recordSuccess();
+
+    expect(breaker.state).toBe("closed");
+  });
+
+  it("re-opens when the trial call fails", () => {
+    const { breaker, advance } = createBreaker(1, 1000);
+
+    breaker.recordFailure();
+    advance(1000);
+    breaker.beforeCall();
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe("open");
+  });
+
+  it("never opens with a threshold of 0", () => {
+    const { breaker } = createBreaker(0);
+
+    for (let i = 0; i < 10; i++) {
+      breaker.recordFailure();
+    }
+
+    expect(breaker.state).toBe("closed");
+  });
+});
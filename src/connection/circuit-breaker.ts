@@ -0,0 +1,106 @@
+export interface CircuitBreakerOptions {
+  /**
+   * Consecutive connection failures before the circuit opens (0 disables it)
+   */
+  failureThreshold: number;
+  /**
+   * How long to fail fast before letting a trial call through, in ms
+   */
+  resetTimeout: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  resetTimeout: 30000,
+};
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Error raised instead of calling Odoo while the circuit is open
+ */
+export class CircuitOpenError extends Error {
+  readonly retryAfter: number;
+
+  constructor(retryAfter: number, failures: number) {
+    super(
+      `Odoo appears to be unavailable (${failures} consecutive connection failures). ` +
+        `Failing fast; next attempt allowed in ${Math.ceil(retryAfter / 1000)}s`,
+    );
+    this.name = "CircuitOpenError";
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Stops calling Odoo after repeated connection failures so callers fail
+ * fast instead of each waiting for a timeout. After resetTimeout a single
+ * trial call is let through; its outcome closes or re-opens the circuit.
+ */
+export class CircuitBreaker {
+  private options: CircuitBreakerOptions;
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(
+    options: Partial<CircuitBreakerOptions> = {},
+    private now: () => number = Date.now,
+  ) {
+    this.options = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...options };
+  }
+
+  get state(): CircuitState {
+    if (this.openedAt === null) {
+      return "closed";
+    }
+    return this.now() - this.openedAt >= this.options.resetTimeout
+      ? "half-open"
+      : "open";
+  }
+
+  /**
+   * Throw CircuitOpenError if a call may not go through right now
+   */
+  beforeCall(): void {
+    const state = this.state;
+    if (state === "closed") {
+      return;
+    }
+
+    if (state === "half-open" && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+
+    const elapsed = this.now() - (this.openedAt ?? 0);
+    throw new CircuitOpenError(
+      Math.max(this.options.resetTimeout - elapsed, 0),
+      this.failures,
+    );
+  }
+
+  /**
+   * Record that Odoo answered (even with a fault)
+   */
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Record that Odoo could not be reached
+   */
+  recordFailure(): void {
+    this.failures++;
+    this.trialInFlight = false;
+
+    if (
+      this.options.failureThreshold > 0 &&
+      (this.openedAt !== null || this.failures >= this.options.failureThreshold)
+    ) {
+      this.openedAt = this.now();
+    }
+  }
+}
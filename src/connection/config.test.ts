@@ -2,7 +2,18 @@ import * as fs from "node:fs";
 import * as os from "node:os";
 import * as path from "node:path";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import { getClientOptions, loadConfig } from "./config.js";
+import {
+  getAuditOptions,
+  getClientOptions,
+  getConfirmationOptions,
+  getPolicyPath,
+  getSchemaCacheOptions,
+  getSnapshotOptions,
+  getSubscriptionOptions,
+  isReadOnly,
+  loadConfig,
+  loadProfiles,
+} from "./config.js";
 
 // Mock fs module
 vi.mock("node:fs", () => ({
@@ -46,6 +57,83 @@ describe("config", () => {
       });
     });
 
+    it("should load protocol from environment variables", () => {
+      process.env.ODOO_URL = "https://example.odoo.com";
+      process.env.ODOO_DB = "testdb";
+      process.env.ODOO_USERNAME = "admin";
+      process.env.ODOO_PASSWORD = "secret";
+      process.env.ODOO_PROTOCOL = "JSONRPC";
+
+      const config = loadConfig();
+
+      expect(config.protocol).toBe("jsonrpc");
+    });
+
+    it("should load API key from environment variables without a password", () => {
+      process.env.ODOO_URL = "https://example.odoo.com";
+      process.env.ODOO_DB = "testdb";
+      process.env.ODOO_USERNAME = "admin";
+      process.env.ODOO_API_KEY = "api-key-123";
+
+      const config = loadConfig();
+
+      expect(config).toEqual({
+        url: "https://example.odoo.com",
+        db: "testdb",
+        username: "admin",
+        api_key: "api-key-123",
+      });
+    });
+
+    it("should reject config files with neither password nor api_key", () => {
+      vi.mocked(fs.existsSync).mockImplementation((p) => {
+        return p === "./odoo_config.json";
+      });
+      vi.mocked(fs.readFileSync).mockReturnValue(
+        JSON.stringify({
+          url: "https://file.odoo.com",
+          db: "filedb",
+          username: "fileuser",
+        }),
+      );
+
+      expect(() => loadConfig()).toThrow(
+        "Either password or api_key must be provided",
+      );
+    });
+
+    it("should require an api_key for the json2 protocol", () => {
+      process.env.ODOO_URL = "https://example.odoo.com";
+      process.env.ODOO_DB = "testdb";
+      process.env.ODOO_USERNAME = "admin";
+      process.env.ODOO_PASSWORD = "secret";
+      process.env.ODOO_PROTOCOL = "json2";
+
+      expect(() => loadConfig()).toThrow(
+        "The json2 protocol requires an api_key",
+      );
+    });
+
+    it("should require a password for the jsonrpc-session protocol", () => {
+      process.env.ODOO_URL = "https://example.odoo.com";
+      process.env.ODOO_DB = "testdb";
+      process.env.ODOO_USERNAME = "admin";
+      process.env.ODOO_API_KEY = "key";
+      process.env.ODOO_PROTOCOL = "jsonrpc-session";
+
+      expect(() => loadConfig()).toThrow("API keys cannot open web sessions");
+    });
+
+    it("should reject unknown protocols", () => {
+      process.env.ODOO_URL = "https://example.odoo.com";
+      process.env.ODOO_DB = "testdb";
+      process.env.ODOO_USERNAME = "admin";
+      process.env.ODOO_PASSWORD = "secret";
+      process.env.ODOO_PROTOCOL = "soap";
+
+      expect(() => loadConfig()).toThrow();
+    });
+
     it("should load config from first available config file", () => {
       vi.mocked(fs.existsSync).mockImplementation((p) => {
         return p === "./odoo_config.json";
@@ -163,7 +251,134 @@ describe("config", () => {
     });
   });
 
+  describe("loadProfiles", () => {
+    const profilesFile = {
+      profiles: {
+        prod: {
+          url: "https://prod.odoo.com",
+          db: "prod",
+          username: "admin",
+          api_key: "prod-key",
+        },
+        staging: {
+          url: "https://staging.odoo.com",
+          db: "staging",
+          username: "admin",
+          password: "secret",
+        },
+      },
+      default_profile: "staging",
+    };
+
+    it("should load named profiles from a config file", () => {
+      vi.mocked(fs.existsSync).mockImplementation(
+        (p) => p === "./odoo_config.json",
+      );
+      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(profilesFile));
+
+      const profiles = loadProfiles();
+
+      expect(Object.keys(profiles.profiles)).toEqual(["prod", "staging"]);
+      expect(profiles.defaultProfile).toBe("staging");
+      expect(loadConfig().url).toBe("https://staging.odoo.com");
+    });
+
+    it("should default to the first profile without default_profile", () => {
+      vi.mocked(fs.existsSync).mockImplementation(
+        (p) => p === "./odoo_config.json",
+      );
+      vi.mocked(fs.readFileSync).mockReturnValue(
+        JSON.stringify({ profiles: profilesFile.profiles }),
+      );
+
+      expect(loadProfiles().defaultProfile).toBe("prod");
+    });
+
+    it("should let ODOO_PROFILE choose the default profile", () => {
+      process.env.ODOO_PROFILE = "prod";
+      vi.mocked(fs.existsSync).mockImplementation(
+        (p) => p === "./odoo_config.json",
+      );
+      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(profilesFile));
+
+      expect(loadProfiles().defaultProfile).toBe("prod");
+    });
+
+    it("should reject an unknown default profile", () => {
+      process.env.ODOO_PROFILE = "dev";
+      vi.mocked(fs.existsSync).mockImplementation(
+        (p) => p === "./odoo_config.json",
+      );
+      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(profilesFile));
+
+      expect(() => loadProfiles()).toThrow('"dev"');
+    });
+
+    it("should wrap a single config as the default profile", () => {
+      process.env.ODOO_URL = "https://env.odoo.com";
+      process.env.ODOO_DB = "envdb";
+      process.env.ODOO_USERNAME = "envuser";
+      process.env.ODOO_PASSWORD = "envpass";
+
+      const profiles = loadProfiles();
+
+      expect(profiles.defaultProfile).toBe("default");
+      expect(profiles.profiles.default?.url).toBe("https://env.odoo.com");
+    });
+  });
+
   describe("getClientOptions", () => {
+    it("should disable lazy connect by default", () => {
+      expect(getClientOptions().lazyConnect).toBe(false);
+    });
+
+    it("should parse lazy connect from environment variable", () => {
+      process.env.ODOO_LAZY_CONNECT = "true";
+
+      expect(getClientOptions().lazyConnect).toBe(true);
+    });
+
+    it("should leave retry and circuit breaker settings to the client by default", () => {
+      const options = getClientOptions();
+
+      expect(options.retry).toEqual({});
+      expect(options.circuitBreaker).toEqual({});
+    });
+
+    it("should parse retry and circuit breaker settings", () => {
+      process.env.ODOO_MAX_RETRIES = "5";
+      process.env.ODOO_RETRY_METHODS = "read, search_read,name_search";
+      process.env.ODOO_CIRCUIT_BREAKER_THRESHOLD = "10";
+      process.env.ODOO_CIRCUIT_BREAKER_RESET = "60";
+
+      const options = getClientOptions();
+
+      expect(options.retry).toEqual({
+        maxRetries: 5,
+        methods: ["read", "search_read", "name_search"],
+      });
+      expect(options.circuitBreaker).toEqual({
+        failureThreshold: 10,
+        resetTimeout: 60000,
+      });
+    });
+
+    it("should ignore retry and circuit breaker settings that are not counts", () => {
+      const error = vi.spyOn(console, "error").mockImplementation(() => {});
+      process.env.ODOO_MAX_RETRIES = "abc";
+      process.env.ODOO_CIRCUIT_BREAKER_THRESHOLD = "-1";
+      process.env.ODOO_CIRCUIT_BREAKER_RESET = "2.5";
+
+      const options = getClientOptions();
+
+      expect(options.retry).toEqual({});
+      expect(options.circuitBreaker).toEqual({});
+      expect(error).toHaveBeenCalledWith(
+        'Ignoring ODOO_MAX_RETRIES="abc": expected a non-negative integer',
+      );
+      error.mockRestore();
+    });
+
     it("should return default timeout when not set", () => {
       const options = getClientOptions();
 
@@ -240,4 +455,181 @@ describe("config", () => {
       expect(options.verifySsl).toBe(false);
     });
   });
+
+  describe("getSchemaCacheOptions", () => {
+    it("should cache in memory for an hour by default", () => {
+      expect(getSchemaCacheOptions()).toEqual({ ttl: 3600000, disk: false });
+    });
+
+    it("should parse TTL and disk settings", () => {
+      process.env.ODOO_SCHEMA_CACHE_TTL = "0";
+      process.env.ODOO_SCHEMA_CACHE_DISK = "true";
+
+      expect(getSchemaCacheOptions()).toEqual({ ttl: 0, disk: true });
+    });
+
+    it("should keep the default TTL when it is not a count", () => {
+      const error = vi.spyOn(console, "error").mockImplementation(() => {});
+      process.env.ODOO_SCHEMA_CACHE_TTL = "1h";
+
+      expect(getSchemaCacheOptions().ttl).toBe(3600000);
+      expect(error).toHaveBeenCalled();
+      error.mockRestore();
+    });
+  });
+
+  describe("isReadOnly", () => {
+    it("should allow writes by default", () => {
+      expect(isReadOnly()).toBe(false);
+    });
+
+    it("should parse read-only mode from environment variable", () => {
+      process.env.ODOO_READ_ONLY = "1";
+
+      expect(isReadOnly()).toBe(true);
+    });
+  });
+
+  describe("getPolicyPath", () => {
+    it("should default to the project policy file", () => {
+      expect(getPolicyPath()).toBe(
+        path.join(process.cwd(), ".odoo-mcp", "policy.json"),
+      );
+    });
+
+    it("should read the path from environment variable", () => {
+      process.env.ODOO_POLICY_FILE = "/etc/odoo-mcp/policy.json";
+
+      expect(getPolicyPath()).toBe("/etc/odoo-mcp/policy.json");
+    });
+  });
+
+  describe("getAuditOptions", () => {
+    it("should audit to the project directory by default", () => {
+      expect(getAuditOptions()).toEqual({
+        enabled: true,
+        directory: path.join(process.cwd(), ".odoo-mcp", "audit"),
+        maxFileSize: 10 * 1024 * 1024,
+        maxFiles: 10,
+      });
+    });
+
+    it("should parse audit settings from environment variables", () => {
+      process.env.ODOO_AUDIT_LOG = "false";
+      process.env.ODOO_AUDIT_DIR = "/var/log/odoo-mcp";
+      process.env.ODOO_AUDIT_MAX_SIZE = "5";
+      process.env.ODOO_AUDIT_MAX_FILES = "3";
+
+      expect(getAuditOptions()).toEqual({
+        enabled: false,
+        directory: "/var/log/odoo-mcp",
+        maxFileSize: 5 * 1024 * 1024,
+        maxFiles: 3,
+      });
+    });
+
+    it("should keep the default sizes when they are not counts", () => {
+      const error = vi.spyOn(console, "error").mockImplementation(() => {});
+      process.env.ODOO_AUDIT_MAX_SIZE = "5MB";
+      process.env.ODOO_AUDIT_MAX_FILES = "many";
+
+      expect(getAuditOptions()).toMatchObject({
+        maxFileSize: 10 * 1024 * 1024,
+        maxFiles: 10,
+      });
+      expect(error).toHaveBeenCalledTimes(2);
+      error.mockRestore();
+    });
+  });
+
+  describe("getSnapshotOptions", () => {
+    it("should keep snapshots for 30 days by default", () => {
+      expect(getSnapshotOptions()).toEqual({
+        enabled: true,
+        directory: path.join(process.cwd(), ".odoo-mcp", "snapshots"),
+        retention: 30 * 24 * 60 * 60 * 1000,
+      });
+    });
+
+    it("should parse snapshot settings from environment variables", () => {
+      process.env.ODOO_SNAPSHOTS = "0";
+      process.env.ODOO_SNAPSHOT_DIR = "/var/lib/odoo-mcp";
+      process.env.ODOO_SNAPSHOT_RETENTION_DAYS = "7";
+
+      expect(getSnapshotOptions()).toEqual({
+        enabled: false,
+        directory: "/var/lib/odoo-mcp",
+        retention: 7 * 24 * 60 * 60 * 1000,
+      });
+    });
+
+    it("should keep the default retention when it is not a count", () => {
+      const error = vi.spyOn(console, "error").mockImplementation(() => {});
+      process.env.ODOO_SNAPSHOT_RETENTION_DAYS = "a month";
+
+      expect(getSnapshotOptions().retention).toBe(30 * 24 * 60 * 60 * 1000);
+      expect(error).toHaveBeenCalled();
+      error.mockRestore();
+    });
+  });
+
+  describe("getConfirmationOptions", () => {
+    it("should confirm writes to more than 50 records by default", () => {
+      expect(getConfirmationOptions()).toEqual({
+        enabled: true,
+        writeThreshold: 50,
+      });
+    });
+
+    it("should parse confirmation settings from environment variables", () => {
+      process.env.ODOO_CONFIRM = "false";
+      process.env.ODOO_CONFIRM_WRITE_THRESHOLD = "10";
+
+      expect(getConfirmationOptions()).toEqual({
+        enabled: false,
+        writeThreshold: 10,
+      });
+    });
+
+    it("should keep the default threshold when it is not a count", () => {
+      const error = vi.spyOn(console, "error").mockImplementation(() => {});
+      process.env.ODOO_CONFIRM_WRITE_THRESHOLD = "fifty";
+
+      expect(getConfirmationOptions().writeThreshold).toBe(50);
+      expect(error).toHaveBeenCalled();
+      error.mockRestore();
+    });
+  });
+
+  describe("getSubscriptionOptions", () => {
+    it("should poll every 30 seconds for up to 200 records by default", () => {
+      expect(getSubscriptionOptions()).toEqual({
+        interval: 30 * 1000,
+        maxRecords: 200,
+      });
+    });
+
+    it("should parse subscription settings from environment variables", () => {
+      process.env.ODOO_SUBSCRIPTION_INTERVAL = "5";
+      process.env.ODOO_SUBSCRIPTION_MAX_RECORDS = "20";
+
+      expect(getSubscriptionOptions()).toEqual({
+        interval: 5 * 1000,
+        maxRecords: 20,
+      });
+    });
+
+    it("should keep the defaults when settings are not counts", () => {
+      const error = vi.spyOn(console, "error").mockImplementation(() => {});
+      process.env.ODOO_SUBSCRIPTION_INTERVAL = "5s";
+      process.env.ODOO_SUBSCRIPTION_MAX_RECORDS = "-20";
+
+      expect(getSubscriptionOptions()).toEqual({
+        interval: 30 * 1000,
+        maxRecords: 200,
+      });
+      expect(error).toHaveBeenCalledTimes(2);
+      error.mockRestore();
+    });
+  });
 });
@@ -3,10 +3,37 @@ import * as os from "node:os";
 import * as path from "node:path";
 import {
   CONFIG_PATHS,
+  DEFAULT_PROFILE,
   ENV_VARS,
   type OdooConfig,
   OdooConfigSchema,
+  type OdooProfiles,
+  OdooProfilesFileSchema,
 } from "../types/index.js";
+import {
+  type AuditLogOptions,
+  DEFAULT_AUDIT_DIR,
+  DEFAULT_AUDIT_MAX_FILE_SIZE,
+  DEFAULT_AUDIT_MAX_FILES,
+} from "./audit.js";
+import { DEFAULT_SCHEMA_CACHE_TTL } from "./cache.js";
+import type { CircuitBreakerOptions } from "./circuit-breaker.js";
+import {
+  type ConfirmationOptions,
+  DEFAULT_CONFIRM_WRITE_THRESHOLD,
+} from "./confirmation.js";
+import { DEFAULT_POLICY_PATH } from "./policy.js";
+import type { RetryOptions } from "./retry.js";
+import {
+  DEFAULT_SNAPSHOT_DIR,
+  DEFAULT_SNAPSHOT_RETENTION,
+  type SnapshotStoreOptions,
+} from "./snapshots.js";
+import {
+  DEFAULT_SUBSCRIPTION_INTERVAL,
+  DEFAULT_SUBSCRIPTION_MAX_RECORDS,
+  type SubscriptionOptions,
+} from "./subscriptions.js";
 
 /**
  * Expand ~ to home directory
@@ -18,6 +45,26 @@ function expandPath(p: string): string {
   return p;
 }
 
+/**
+ * Read a whole-number setting from the environment. Unset values, and
+ * values that are not a non-negative integer (with a warning), give
+ * undefined so the caller falls back to its default.
+ */
+function readCount(name: string): number | undefined {
+  const value = process.env[name];
+  if (!value) {
+    return undefined;
+  }
+  const count = Number(value.trim());
+  if (!Number.isInteger(count) || count < 0) {
+    console.error(
+      `Ignoring ${name}="${value}": expected a non-negative integer`,
+    );
+    return undefined;
+  }
+  return count;
+}
+
 /**
  * Load config from environment variables
  */
@@ -26,26 +73,67 @@ function loadFromEnv(): OdooConfig | null {
   const db = process.env[ENV_VARS.DB];
   const username = process.env[ENV_VARS.USERNAME];
   const password = process.env[ENV_VARS.PASSWORD];
+  const apiKey = process.env[ENV_VARS.API_KEY];
+  const protocol = process.env[ENV_VARS.PROTOCOL];
 
-  if (url && db && username && password) {
-    return OdooConfigSchema.parse({ url, db, username, password });
+  if (url && db && username && (password || apiKey)) {
+    return OdooConfigSchema.parse({
+      url,
+      db,
+      username,
+      ...(password && { password }),
+      ...(apiKey && { api_key: apiKey }),
+      ...(protocol && { protocol: protocol.toLowerCase() }),
+    });
   }
 
   return null;
 }
 
 /**
- * Load Odoo configuration from environment variables or config files
+ * Parse a config file that holds either a single connection or named profiles
+ */
+function parseConfigFile(parsed: unknown): OdooProfiles {
+  if (typeof parsed === "object" && parsed !== null && "profiles" in parsed) {
+    const file = OdooProfilesFileSchema.parse(parsed);
+    const names = Object.keys(file.profiles);
+    const defaultProfile =
+      process.env[ENV_VARS.PROFILE] ?? file.default_profile ?? names[0];
+
+    if (!defaultProfile || !(defaultProfile in file.profiles)) {
+      throw new Error(
+        `Default profile "${defaultProfile}" is not configured. Available profiles: ${names.join(", ")}`,
+      );
+    }
+
+    return { profiles: file.profiles, defaultProfile };
+  }
+
+  return {
+    profiles: { [DEFAULT_PROFILE]: OdooConfigSchema.parse(parsed) },
+    defaultProfile: DEFAULT_PROFILE,
+  };
+}
+
+/**
+ * Load all Odoo connection profiles from environment variables or config files
  *
  * Priority:
- * 1. Environment variables (ODOO_URL, ODOO_DB, ODOO_USERNAME, ODOO_PASSWORD)
+ * 1. Environment variables (ODOO_URL, ODOO_DB, ODOO_USERNAME, and ODOO_API_KEY or ODOO_PASSWORD),
+ *    exposed as a single "default" profile
  * 2. Config files in order: ./odoo_config.json, ~/.config/odoo/config.json, ~/.odoo_config.json
+ *
+ * A config file may hold a single connection or `{ profiles: { name: {...} }, default_profile }`.
+ * ODOO_PROFILE overrides which profile is the default.
  */
-export function loadConfig(): OdooConfig {
+export function loadProfiles(): OdooProfiles {
   // Try environment variables first
   const envConfig = loadFromEnv();
   if (envConfig) {
-    return envConfig;
+    return {
+      profiles: { [DEFAULT_PROFILE]: envConfig },
+      defaultProfile: DEFAULT_PROFILE,
+    };
   }
 
   // Try config files
@@ -54,24 +142,176 @@ export function loadConfig(): OdooConfig {
     if (fs.existsSync(expandedPath)) {
       const content = fs.readFileSync(expandedPath, "utf-8");
       const parsed: unknown = JSON.parse(content);
-      return OdooConfigSchema.parse(parsed);
+      return parseConfigFile(parsed);
     }
   }
 
   throw new Error(
-    "No Odoo configuration found. Please set environment variables (ODOO_URL, ODOO_DB, ODOO_USERNAME, ODOO_PASSWORD) or create an odoo_config.json file.",
+    "No Odoo configuration found. Please set environment variables (ODOO_URL, ODOO_DB, ODOO_USERNAME, ODOO_API_KEY or ODOO_PASSWORD) or create an odoo_config.json file.",
   );
 }
 
+/**
+ * Load the Odoo configuration of the default profile
+ */
+export function loadConfig(): OdooConfig {
+  const { profiles, defaultProfile } = loadProfiles();
+  const config = profiles[defaultProfile];
+  if (!config) {
+    throw new Error(`Default profile "${defaultProfile}" is not configured`);
+  }
+  return config;
+}
+
 /**
  * Get client options from environment variables
  */
-export function getClientOptions(): { timeout: number; verifySsl: boolean } {
+export function getClientOptions(): {
+  timeout: number;
+  verifySsl: boolean;
+  lazyConnect: boolean;
+  retry: Partial<RetryOptions>;
+  circuitBreaker: Partial<CircuitBreakerOptions>;
+} {
   const timeoutStr = process.env[ENV_VARS.TIMEOUT];
   const timeout = timeoutStr ? parseInt(timeoutStr, 10) * 1000 : 30000;
 
   const verifySslStr = process.env[ENV_VARS.VERIFY_SSL] ?? "1";
   const verifySsl = ["1", "true", "yes"].includes(verifySslStr.toLowerCase());
 
-  return { timeout, verifySsl };
+  const lazyConnectStr = process.env[ENV_VARS.LAZY_CONNECT] ?? "0";
+  const lazyConnect = ["1", "true", "yes"].includes(
+    lazyConnectStr.toLowerCase(),
+  );
+
+  // Unset values fall back to the client's defaults
+  const retry: Partial<RetryOptions> = {};
+  const maxRetries = readCount(ENV_VARS.MAX_RETRIES);
+  if (maxRetries !== undefined) {
+    retry.maxRetries = maxRetries;
+  }
+  const retryMethodsStr = process.env[ENV_VARS.RETRY_METHODS];
+  if (retryMethodsStr) {
+    retry.methods = retryMethodsStr
+      .split(",")
+      .map((m) => m.trim())
+      .filter(Boolean);
+  }
+
+  const circuitBreaker: Partial<CircuitBreakerOptions> = {};
+  const threshold = readCount(ENV_VARS.CIRCUIT_BREAKER_THRESHOLD);
+  if (threshold !== undefined) {
+    circuitBreaker.failureThreshold = threshold;
+  }
+  const reset = readCount(ENV_VARS.CIRCUIT_BREAKER_RESET);
+  if (reset !== undefined) {
+    circuitBreaker.resetTimeout = reset * 1000;
+  }
+
+  return { timeout, verifySsl, lazyConnect, retry, circuitBreaker };
+}
+
+/**
+ * Get schema cache settings from environment.
+ * A TTL of 0 disables caching.
+ */
+export function getSchemaCacheOptions(): { ttl: number; disk: boolean } {
+  const ttlSeconds = readCount(ENV_VARS.SCHEMA_CACHE_TTL);
+  const ttl =
+    ttlSeconds !== undefined ? ttlSeconds * 1000 : DEFAULT_SCHEMA_CACHE_TTL;
+
+  const diskStr = process.env[ENV_VARS.SCHEMA_CACHE_DISK] ?? "0";
+  const disk = ["1", "true", "yes"].includes(diskStr.toLowerCase());
+
+  return { ttl, disk };
+}
+
+/**
+ * Whether the server should refuse to modify Odoo data
+ */
+export function isReadOnly(): boolean {
+  const readOnlyStr = process.env[ENV_VARS.READ_ONLY] ?? "0";
+  return ["1", "true", "yes"].includes(readOnlyStr.toLowerCase());
+}
+
+/**
+ * Get the path of the model/method policy file
+ */
+export function getPolicyPath(): string {
+  return process.env[ENV_VARS.POLICY_FILE] ?? DEFAULT_POLICY_PATH;
+}
+
+/**
+ * Get audit log settings from environment.
+ * Auditing is on unless ODOO_AUDIT_LOG is set to a false value.
+ */
+export function getAuditOptions(): AuditLogOptions & { enabled: boolean } {
+  const enabledStr = process.env[ENV_VARS.AUDIT_LOG] ?? "1";
+  const enabled = !["0", "false", "no"].includes(enabledStr.toLowerCase());
+
+  const directory = process.env[ENV_VARS.AUDIT_DIR] ?? DEFAULT_AUDIT_DIR;
+
+  const maxSize = readCount(ENV_VARS.AUDIT_MAX_SIZE);
+  const maxFileSize =
+    maxSize !== undefined ? maxSize * 1024 * 1024 : DEFAULT_AUDIT_MAX_FILE_SIZE;
+
+  const maxFiles =
+    readCount(ENV_VARS.AUDIT_MAX_FILES) ?? DEFAULT_AUDIT_MAX_FILES;
+
+  return { enabled, directory, maxFileSize, maxFiles };
+}
+
+/**
+ * Get undo snapshot settings from environment.
+ * Snapshots are on unless ODOO_SNAPSHOTS is set to a false value.
+ */
+export function getSnapshotOptions(): SnapshotStoreOptions & {
+  enabled: boolean;
+} {
+  const enabledStr = process.env[ENV_VARS.SNAPSHOTS] ?? "1";
+  const enabled = !["0", "false", "no"].includes(enabledStr.toLowerCase());
+
+  const directory = process.env[ENV_VARS.SNAPSHOT_DIR] ?? DEFAULT_SNAPSHOT_DIR;
+
+  const retentionDays = readCount(ENV_VARS.SNAPSHOT_RETENTION_DAYS);
+  const retention =
+    retentionDays !== undefined
+      ? retentionDays * 24 * 60 * 60 * 1000
+      : DEFAULT_SNAPSHOT_RETENTION;
+
+  return { enabled, directory, retention };
+}
+
+/**
+ * Get destructive-change confirmation settings from environment.
+ * Confirmation is on unless ODOO_CONFIRM is set to a false value.
+ */
+export function getConfirmationOptions(): ConfirmationOptions & {
+  enabled: boolean;
+} {
+  const enabledStr = process.env[ENV_VARS.CONFIRM] ?? "1";
+  const enabled = !["0", "false", "no"].includes(enabledStr.toLowerCase());
+
+  const writeThreshold =
+    readCount(ENV_VARS.CONFIRM_WRITE_THRESHOLD) ??
+    DEFAULT_CONFIRM_WRITE_THRESHOLD;
+
+  return { enabled, writeThreshold };
+}
+
+/**
+ * Get resource subscription settings from environment
+ */
+export function getSubscriptionOptions(): SubscriptionOptions {
+  const intervalSeconds = readCount(ENV_VARS.SUBSCRIPTION_INTERVAL);
+  const interval =
+    intervalSeconds !== undefined
+      ? intervalSeconds * 1000
+      : DEFAULT_SUBSCRIPTION_INTERVAL;
+
+  const maxRecords =
+    readCount(ENV_VARS.SUBSCRIPTION_MAX_RECORDS) ??
+    DEFAULT_SUBSCRIPTION_MAX_RECORDS;
+
+  return { interval, maxRecords };
 }
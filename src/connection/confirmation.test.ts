@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { ConfirmTokenStore } from "./confirmation.js";
+
+describe("ConfirmTokenStore", () => {
+  it("accepts a token once, for the request it was issued for", () => {
+    const store = new ConfirmTokenStore();
+    const token = store.issue("delete 3 res.partner records");
+
+    expect(store.consume(token, "delete 4 res.partner records")).toBe(false);
+    expect(store.consume(token, "delete 3 res.partner records")).toBe(true);
+    expect(store.consume(token, "delete 3 res.partner records")).toBe(false);
+  });
+
+  it("rejects unknown tokens", () => {
+    const store = new ConfirmTokenStore();
+
+    expect(store.consume("nope", "delete 3 res.partner records")).toBe(false);
+  });
+
+  it("rejects expired tokens", () => {
+    let now = 1_000;
+    const store = new ConfirmTokenStore(60_000, () => now);
+    const token = store.issue("request");
+
+    now += 120_000;
+
+    expect(store.consume(token, "request")).toBe(false);
+  });
+});
@@ -0,0 +1,70 @@
+import { randomUUID } from "node:crypto";
+
+export interface ConfirmationOptions {
+  /**
+   * Writes touching more records than this need confirmation
+   */
+  writeThreshold: number;
+}
+
+export const DEFAULT_CONFIRM_WRITE_THRESHOLD = 50;
+
+/**
+ * How long an issued confirm token stays valid, in ms
+ */
+export const CONFIRM_TOKEN_TTL = 10 * 60 * 1000;
+
+/**
+ * Server-provided confirmation settings passed to tool handlers
+ */
+export interface ConfirmationContext extends ConfirmationOptions {
+  tokens: ConfirmTokenStore;
+  /**
+   * Ask the user directly, when the client supports elicitation.
+   * Resolves true only if the user accepted.
+   */
+  elicit?: (summary: string) => Promise<boolean>;
+}
+
+/**
+ * One-time tokens for the two-step confirm flow used when the client cannot
+ * ask the user itself. A token is bound to the exact request it was issued
+ * for, so it cannot approve a different change.
+ */
+export class ConfirmTokenStore {
+  private tokens = new Map<string, { request: string; expires: number }>();
+
+  constructor(
+    private ttl: number = CONFIRM_TOKEN_TTL,
+    private now: () => number = Date.now,
+  ) {}
+
+  issue(request: string): string {
+    this.pruneExpired();
+    const token = randomUUID();
+    this.tokens.set(token, { request, expires: this.now() + this.ttl });
+    return token;
+  }
+
+  /**
+   * Use up a token; true when it was issued for this request and is still
+   * valid
+   */
+  consume(token: string, request: string): boolean {
+    const entry = this.tokens.get(token);
+    if (!entry || entry.request !== request || entry.expires < this.now()) {
+      return false;
+    }
+    this.tokens.delete(token);
+    return true;
+  }
+
+  private pruneExpired(): void {
+    const now = this.now();
+    for (const [token, entry] of this.tokens) {
+      if (entry.expires < now) {
+        this.tokens.delete(token);
+      }
+    }
+  }
+}
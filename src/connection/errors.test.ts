@@ -0,0 +1,252 @@
+import { describe, expect, it } from "vitest";
+import {
+  AccessDenied,
+  AccessError,
+  isConnectionError,
+  isSessionError,
+  isTransientError,
+  MissingError,
+  OdooFault,
+  parseOdooFault,
+  UserError,
+  ValidationError,
+} from "./errors.js";
+import { Json2Error } from "./json2.js";
+import { JsonRpcError } from "./jsonrpc.js";
+
+function xmlRpcFault(faultCode: number, faultString: string): Error {
+  return Object.assign(new Error(`XML-RPC fault: ${faultString}`), {
+    faultCode,
+    faultString,
+  });
+}
+
+describe("isSessionError", () => {
+  it("detects XML-RPC AccessDenied faults", () => {
+    expect(isSessionError(xmlRpcFault(3, "Access Denied"))).toBe(true);
+  });
+
+  it("detects XML-RPC session expiry messages", () => {
+    expect(isSessionError(xmlRpcFault(1, "Session expired"))).toBe(true);
+  });
+
+  it("ignores other XML-RPC faults", () => {
+    expect(
+      isSessionError(
+        xmlRpcFault(4, "You are not allowed to access 'Contact' records."),
+      ),
+    ).toBe(false);
+    expect(isSessionError(xmlRpcFault(2, "Invalid value"))).toBe(false);
+  });
+
+  it("detects JSON-RPC AccessDenied and SessionExpired errors", () => {
+    expect(
+      isSessionError(
+        new JsonRpcError(200, "Odoo Server Error", {
+          name: "odoo.exceptions.AccessDenied",
+          message: "Access Denied",
+        }),
+      ),
+    ).toBe(true);
+    expect(
+      isSessionError(
+        new JsonRpcError(100, "Odoo Session Expired", {
+          name: "odoo.http.SessionExpiredException",
+          message: "Session expired",
+        }),
+      ),
+    ).toBe(true);
+  });
+
+  it("ignores JSON-RPC AccessError", () => {
+    expect(
+      isSessionError(
+        new JsonRpcError(200, "Odoo Server Error", {
+          name: "odoo.exceptions.AccessError",
+          message: "Not allowed",
+        }),
+      ),
+    ).toBe(false);
+  });
+
+  it("detects JSON-2 401 responses only", () => {
+    expect(
+      isSessionError(new Json2Error(401, "Unauthorized", { message: "x" })),
+    ).toBe(true);
+    expect(
+      isSessionError(new Json2Error(403, "Forbidden", { message: "x" })),
+    ).toBe(false);
+  });
+
+  it("ignores plain errors and non-errors", () => {
+    expect(isSessionError(new Error("Request timeout after 30000ms"))).toBe(
+      false,
+    );
+    expect(isSessionError(null)).toBe(false);
+    expect(isSessionError("Access Denied")).toBe(false);
+  });
+});
+
+describe("isConnectionError", () => {
+  it("detects socket errors by code", () => {
+    expect(
+      isConnectionError(
+        Object.assign(new Error("read ECONNRESET"), { code: "ECONNRESET" }),
+      ),
+    ).toBe(true);
+  });
+
+  it("detects transport timeouts", () => {
+    expect(isConnectionError(new Error("Request timeout after 30000ms"))).toBe(
+      true,
+    );
+  });
+
+  it("detects gateway errors from every transport", () => {
+    const xmlRpc = new Error("Unknown XML-RPC tag 'html'");
+    Object.defineProperty(xmlRpc, "res", { value: { statusCode: 502 } });
+
+    expect(isConnectionError(xmlRpc)).toBe(true);
+    expect(isConnectionError(new Error("HTTP 503 Service Unavailable"))).toBe(
+      true,
+    );
+    expect(isConnectionError(new Json2Error(504, "Gateway Timeout"))).toBe(
+      true,
+    );
+  });
+
+  it("ignores Odoo faults", () => {
+    expect(isConnectionError(xmlRpcFault(2, "Invalid value"))).toBe(false);
+    expect(isConnectionError(new Json2Error(403, "Forbidden"))).toBe(false);
+  });
+});
+
+describe("isTransientError", () => {
+  it("treats serialization failures as transient", () => {
+    expect(
+      isTransientError(
+        xmlRpcFault(
+          1,
+          "psycopg2.errors.SerializationFailure: could not serialize access due to concurrent update",
+        ),
+      ),
+    ).toBe(true);
+  });
+
+  it("treats connection errors as transient", () => {
+    expect(isTransientError(new Error("socket hang up"))).toBe(true);
+  });
+
+  it("does not treat validation errors as transient", () => {
+    expect(isTransientError(xmlRpcFault(2, "Missing required field"))).toBe(
+      false,
+    );
+  });
+});
+
+describe("parseOdooFault", () => {
+  const traceback = [
+    "Traceback (most recent call last):",
+    '  File "/odoo/odoo/service/model.py", line 156, in retrying',
+    "    result = func()",
+    '  File "/odoo/odoo/models.py", line 1500, in _validate_fields',
+    "    check(self)",
+    "odoo.exceptions.ValidationError: The email address is invalid",
+  ].join("\n");
+
+  it("maps XML-RPC fault codes to typed errors", () => {
+    expect(parseOdooFault(xmlRpcFault(3, "Access Denied"))).toBeInstanceOf(
+      AccessDenied,
+    );
+    expect(
+      parseOdooFault(xmlRpcFault(4, "You are not allowed to modify 'Contact'")),
+    ).toBeInstanceOf(AccessError);
+    expect(
+      parseOdooFault(xmlRpcFault(2, "Cannot confirm an empty order")),
+    ).toBeInstanceOf(UserError);
+    expect(
+      parseOdooFault(
+        xmlRpcFault(
+          2,
+          "Record does not exist or has been deleted.\n(Record: res.partner(99,), User: 2)",
+        ),
+      ),
+    ).toBeInstanceOf(MissingError);
+  });
+
+  it("reads the exception class from an XML-RPC traceback", () => {
+    const fault = parseOdooFault(xmlRpcFault(1, traceback), {
+      model: "res.partner",
+      method: "write",
+    });
+
+    expect(fault).toBeInstanceOf(ValidationError);
+    expect(fault?.type).toBe("validation_error");
+    expect(fault?.exception).toBe("odoo.exceptions.ValidationError");
+    expect(fault?.message).toBe("The email address is invalid");
+    expect(fault?.traceback).toContain("_validate_fields");
+    expect(fault?.traceback?.split("\n").length).toBeLessThanOrEqual(6);
+    expect(fault?.model).toBe("res.partner");
+    expect(fault?.method).toBe("write");
+  });
+
+  it("keeps other Python exceptions as generic faults", () => {
+    const fault = parseOdooFault(
+      xmlRpcFault(
+        1,
+        "Traceback (most recent call last):\nAttributeError: The method 'foo' does not exist on the model 'res.partner'",
+      ),
+    );
+
+    expect(fault).toBeInstanceOf(OdooFault);
+    expect(fault?.type).toBe("fault");
+    expect(fault?.exception).toBe("AttributeError");
+  });
+
+  it("maps JSON-RPC error data", () => {
+    const fault = parseOdooFault(
+      new JsonRpcError(200, "Odoo Server Error", {
+        name: "odoo.exceptions.MissingError",
+        message: "Record does not exist or has been deleted.",
+        debug: traceback,
+      }),
+    );
+
+    expect(fault).toBeInstanceOf(MissingError);
+    expect(fault?.message).toBe("Record does not exist or has been deleted.");
+    expect(fault?.traceback).toContain("Traceback");
+  });
+
+  it("maps JSON-2 error data", () => {
+    const fault = parseOdooFault(
+      new Json2Error(422, "Unprocessable Entity", {
+        name: "odoo.exceptions.UserError",
+        message: "Nothing to invoice",
+      }),
+    );
+
+    expect(fault).toBeInstanceOf(UserError);
+    expect(String(fault)).toBe("UserError: Nothing to invoice");
+  });
+
+  it("keeps the original error as the cause", () => {
+    const original = xmlRpcFault(4, "Not allowed");
+
+    expect(parseOdooFault(original)?.cause).toBe(original);
+  });
+
+  it("returns existing faults unchanged", () => {
+    const fault = new AccessError({
+      message: "Not allowed",
+      exception: "odoo.exceptions.AccessError",
+    });
+
+    expect(parseOdooFault(fault)).toBe(fault);
+  });
+
+  it("returns null for errors that did not come from Odoo", () => {
+    expect(parseOdooFault(new Error("read ECONNRESET"))).toBeNull();
+    expect(parseOdooFault(new Json2Error(502, "Bad Gateway"))).toBeNull();
+    expect(parseOdooFault("oops")).toBeNull();
+  });
+});
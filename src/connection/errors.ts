@@ -0,0 +1,387 @@
+/**
+ * Classification of errors raised by the Odoo RPC transports, and typed
+ * errors for the faults Odoo itself raises
+ */
+
+/**
+ * Names of Odoo exceptions that mean the credentials or session were rejected
+ */
+const SESSION_EXCEPTION_PATTERN = /AccessDenied|SessionExpired/;
+
+/**
+ * XML-RPC fault code Odoo uses for AccessDenied
+ */
+const ACCESS_DENIED_FAULT_CODE = 3;
+
+/**
+ * Check whether an RPC error means the stored session is no longer valid,
+ * e.g. the password or API key was rotated or the database was restored.
+ * Re-authenticating may recover from these; other faults are left alone.
+ */
+export function isSessionError(error: unknown): boolean {
+  if (!error || typeof error !== "object") {
+    return false;
+  }
+
+  const candidate = error as {
+    name?: unknown;
+    status?: unknown;
+    data?: { name?: unknown } | null;
+    faultCode?: unknown;
+    faultString?: unknown;
+  };
+
+  // JSON-2 rejects a bad bearer key with 401 Unauthorized
+  if (candidate.name === "Json2Error" && candidate.status === 401) {
+    return true;
+  }
+
+  // JSON-RPC carries the Python exception name
+  if (
+    typeof candidate.data?.name === "string" &&
+    SESSION_EXCEPTION_PATTERN.test(candidate.data.name)
+  ) {
+    return true;
+  }
+
+  // XML-RPC faults carry a numeric code and the exception message
+  if (candidate.faultCode === ACCESS_DENIED_FAULT_CODE) {
+    return true;
+  }
+  return (
+    typeof candidate.faultString === "string" &&
+    /^Access Denied$|Session expired/i.test(candidate.faultString.trim())
+  );
+}
+
+/**
+ * Node.js socket error codes raised when the connection drops or times out
+ */
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+]);
+
+/**
+ * HTTP statuses a reverse proxy returns while Odoo is restarting or overloaded
+ */
+const GATEWAY_STATUSES = new Set([502, 503, 504]);
+
+/**
+ * Check whether an error means Odoo could not be reached at all, as opposed
+ * to Odoo answering with a fault. These count towards the circuit breaker.
+ */
+export function isConnectionError(error: unknown): boolean {
+  if (!error || typeof error !== "object") {
+    return false;
+  }
+
+  const candidate = error as {
+    code?: unknown;
+    status?: unknown;
+    message?: unknown;
+    res?: { statusCode?: unknown };
+  };
+
+  if (typeof candidate.code === "string") {
+    if (NETWORK_ERROR_CODES.has(candidate.code)) {
+      return true;
+    }
+  }
+
+  // JSON-2 errors carry the status, XML-RPC errors the raw response
+  const status = candidate.status ?? candidate.res?.statusCode;
+  if (typeof status === "number" && GATEWAY_STATUSES.has(status)) {
+    return true;
+  }
+
+  const message =
+    typeof candidate.message === "string" ? candidate.message : "";
+  return (
+    /^Request timeout after \d+ms$/.test(message) ||
+    /^HTTP 50[234]\b/.test(message) ||
+    /socket hang up/i.test(message)
+  );
+}
+
+/**
+ * Check whether a failed call is likely to succeed if repeated: connection
+ * problems, plus PostgreSQL serialization failures from concurrent updates.
+ */
+export function isTransientError(error: unknown): boolean {
+  if (isConnectionError(error)) {
+    return true;
+  }
+
+  const text =
+    error instanceof Error
+      ? `${error.message} ${(error as { faultString?: unknown }).faultString ?? ""}`
+      : "";
+  return /could not serialize access|TransactionRollbackError|SerializationFailure/i.test(
+    text,
+  );
+}
+
+// ============ Typed Odoo faults ============
+
+/**
+ * Machine-readable kind of an Odoo fault
+ */
+export type OdooFaultType =
+  | "access_error"
+  | "validation_error"
+  | "user_error"
+  | "missing_error"
+  | "access_denied"
+  | "fault";
+
+/**
+ * Model and method the failing call targeted
+ */
+export interface OdooFaultContext {
+  model?: string;
+  method?: string;
+}
+
+export interface OdooFaultDetails extends OdooFaultContext {
+  /**
+   * User-facing message raised by Odoo
+   */
+  message: string;
+  /**
+   * Python exception class, e.g. "odoo.exceptions.ValidationError"
+   */
+  exception: string;
+  /**
+   * Last lines of the server traceback, when Odoo sent one
+   */
+  traceback?: string | undefined;
+  /**
+   * Original transport error
+   */
+  cause?: unknown;
+}
+
+/**
+ * Generic fault raised by Odoo while running a method.
+ * Subclasses cover the exceptions an agent can act on.
+ */
+export class OdooFault extends Error {
+  readonly type: OdooFaultType = "fault";
+  readonly exception: string;
+  readonly traceback: string | undefined;
+  readonly model: string | undefined;
+  readonly method: string | undefined;
+
+  constructor(details: OdooFaultDetails) {
+    super(details.message, { cause: details.cause });
+    this.name = "OdooFault";
+    this.exception = details.exception;
+    this.traceback = details.traceback;
+    this.model = details.model;
+    this.method = details.method;
+  }
+}
+
+/**
+ * The user lacks the access rights or record rules for the operation
+ */
+export class AccessError extends OdooFault {
+  override readonly type = "access_error";
+  override name = "AccessError";
+}
+
+/**
+ * Values violate a constraint
+ */
+export class ValidationError extends OdooFault {
+  override readonly type = "validation_error";
+  override name = "ValidationError";
+}
+
+/**
+ * Odoo refused the operation for a business reason
+ */
+export class UserError extends OdooFault {
+  override readonly type = "user_error";
+  override name = "UserError";
+}
+
+/**
+ * The record does not exist or was deleted
+ */
+export class MissingError extends OdooFault {
+  override readonly type = "missing_error";
+  override name = "MissingError";
+}
+
+/**
+ * The credentials were rejected
+ */
+export class AccessDenied extends OdooFault {
+  override readonly type = "access_denied";
+  override name = "AccessDenied";
+}
+
+const FAULT_CLASSES: Record<
+  string,
+  new (
+    details: OdooFaultDetails,
+  ) => OdooFault
+> = {
+  AccessError,
+  ValidationError,
+  UserError,
+  MissingError,
+  AccessDenied,
+  // Older and specialised spellings of UserError
+  Warning: UserError,
+  RedirectWarning: UserError,
+  except_orm: UserError,
+};
+
+/**
+ * XML-RPC fault codes used by Odoo's RPC dispatcher
+ */
+const FAULT_CODES = {
+  WARNING: 2,
+  ACCESS_DENIED: 3,
+  ACCESS_ERROR: 4,
+} as const;
+
+const TRACEBACK_EXCERPT_LINES = 6;
+
+/**
+ * Last line of a Python traceback naming the exception, e.g.
+ * "odoo.exceptions.ValidationError: Invalid value"
+ */
+const EXCEPTION_LINE_PATTERN =
+  /^([A-Za-z_][\w.]*(?:Error|Exception|Warning|Denied|except_orm)): ?/gm;
+
+function tracebackExcerpt(text: string | undefined): string | undefined {
+  if (!text?.includes("Traceback")) {
+    return undefined;
+  }
+  return text
+    .split("\n")
+    .filter((line) => line.trim())
+    .slice(-TRACEBACK_EXCERPT_LINES)
+    .join("\n");
+}
+
+function parseExceptionLine(
+  text: string,
+): { exception: string; message: string } | null {
+  let last: RegExpExecArray | null = null;
+  for (const match of text.matchAll(EXCEPTION_LINE_PATTERN)) {
+    last = match;
+  }
+  if (!last?.[1]) {
+    return null;
+  }
+  return {
+    exception: last[1],
+    message: text.slice(last.index + last[0].length).trim(),
+  };
+}
+
+function createFault(details: OdooFaultDetails): OdooFault {
+  const shortName = details.exception.split(".").pop() ?? "";
+  const FaultClass = FAULT_CLASSES[shortName] ?? OdooFault;
+  return new FaultClass(details);
+}
+
+/**
+ * Turn a transport error carrying an Odoo fault into a typed OdooFault.
+ * Returns null for errors that did not come from Odoo (network, timeouts).
+ */
+export function parseOdooFault(
+  error: unknown,
+  context: OdooFaultContext = {},
+): OdooFault | null {
+  if (error instanceof OdooFault) {
+    return error;
+  }
+  if (!error || typeof error !== "object") {
+    return null;
+  }
+
+  const candidate = error as {
+    message?: unknown;
+    data?: { name?: unknown; message?: unknown; debug?: unknown } | null;
+    faultCode?: unknown;
+    faultString?: unknown;
+  };
+
+  // JSON-RPC and JSON-2 carry the Python exception details
+  if (typeof candidate.data?.name === "string") {
+    const message =
+      typeof candidate.data.message === "string"
+        ? candidate.data.message
+        : String(candidate.message ?? "");
+    const debug =
+      typeof candidate.data.debug === "string"
+        ? candidate.data.debug
+        : undefined;
+    return createFault({
+      ...context,
+      message,
+      exception: candidate.data.name,
+      traceback: tracebackExcerpt(debug),
+      cause: error,
+    });
+  }
+
+  // XML-RPC only carries a fault code and string
+  if (typeof candidate.faultCode !== "number") {
+    return null;
+  }
+
+  const faultString = String(candidate.faultString ?? "").trim();
+  const base = {
+    ...context,
+    traceback: tracebackExcerpt(faultString),
+    cause: error,
+  };
+
+  const parsed = parseExceptionLine(faultString);
+  if (parsed) {
+    return createFault({ ...base, ...parsed });
+  }
+
+  switch (candidate.faultCode) {
+    case FAULT_CODES.ACCESS_DENIED:
+      return createFault({
+        ...base,
+        message: faultString || "Access Denied",
+        exception: "odoo.exceptions.AccessDenied",
+      });
+    case FAULT_CODES.ACCESS_ERROR:
+      return createFault({
+        ...base,
+        message: faultString,
+        exception: "odoo.exceptions.AccessError",
+      });
+    case FAULT_CODES.WARNING:
+      // UserError and its subclasses all share this code
+      return createFault({
+        ...base,
+        message: faultString,
+        exception: /does not exist or has been deleted/i.test(faultString)
+          ? "odoo.exceptions.MissingError"
+          : "odoo.exceptions.UserError",
+      });
+    default:
+      return createFault({
+        ...base,
+        message: faultString,
+        exception: "Exception",
+      });
+  }
+}
@@ -0,0 +1,77 @@
+import * as http from "node:http";
+import * as https from "node:https";
+import { URL } from "node:url";
+
+export interface PostJsonOptions {
+  timeout: number;
+  verifySsl: boolean;
+  headers?: Record<string, string>;
+}
+
+export interface HttpResponse {
+  status: number;
+  statusText: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * POST a JSON payload and collect the raw response.
+ * Resolves for any HTTP status; callers decide how to treat error codes.
+ */
+export function postJson(
+  url: string,
+  payload: unknown,
+  options: PostJsonOptions,
+): Promise<HttpResponse> {
+  const target = new URL(url);
+  const isHttps = target.protocol === "https:";
+  const body = JSON.stringify(payload);
+
+  const requestOptions: https.RequestOptions = {
+    method: "POST",
+    headers: {
+      ...options.headers,
+      "Content-Type": "application/json",
+      "Content-Length": Buffer.byteLength(body),
+    },
+  };
+
+  // Handle SSL verification
+  if (isHttps && !options.verifySsl) {
+    requestOptions.rejectUnauthorized = false;
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = (isHttps ? https : http).request(
+      target,
+      requestOptions,
+      (res) => {
+        const chunks: Buffer[] = [];
+        res.on("data", (chunk: Buffer) => chunks.push(chunk));
+        res.on("end", () => {
+          clearTimeout(timeoutId);
+          resolve({
+            status: res.statusCode ?? 0,
+            statusText: res.statusMessage ?? "",
+            headers: res.headers,
+            body: Buffer.concat(chunks).toString("utf-8"),
+          });
+        });
+      },
+    );
+
+    const timeoutId = setTimeout(() => {
+      request.destroy();
+      reject(new Error(`Request timeout after ${options.timeout}ms`));
+    }, options.timeout);
+
+    request.on("error", (error) => {
+      clearTimeout(timeoutId);
+      reject(error);
+    });
+
+    request.write(body);
+    request.end();
+  });
+}
@@ -1,3 +1,17 @@
+export * from "./audit.js";
+export * from "./cache.js";
+export * from "./circuit-breaker.js";
 export * from "./config.js";
+export * from "./confirmation.js";
+export * from "./errors.js";
+export * from "./json2.js";
+export * from "./jsonrpc.js";
 export * from "./odoo-client.js";
+export * from "./policy.js";
+export * from "./profiles.js";
+export * from "./retry.js";
+export * from "./snapshots.js";
+export * from "./subscriptions.js";
+export * from "./transport.js";
+export * from "./version.js";
 export * from "./xmlrpc.js";
@@ -0,0 +1,299 @@
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { Json2Client, Json2Error, toJson2Params } from "./json2.js";
+
+type Handler = (
+  req: http.IncomingMessage,
+  body: Record<string, unknown>,
+  res: http.ServerResponse,
+) => void;
+
+describe("toJson2Params", () => {
+  it("maps positional args of known ORM methods to names", () => {
+    expect(
+      toJson2Params("search_read", [[["is_company", "=", true]]], {
+        limit: 5,
+      }),
+    ).toEqual({ domain: [["is_company", "=", true]], limit: 5 });
+  });
+
+  it("maps read ids and fields", () => {
+    expect(toJson2Params("read", [[1, 2], ["name"]], {})).toEqual({
+      ids: [1, 2],
+      fields: ["name"],
+    });
+  });
+
+  it("maps write ids and vals", () => {
+    expect(toJson2Params("write", [[1], { name: "New" }], {})).toEqual({
+      ids: [1],
+      vals: { name: "New" },
+    });
+  });
+
+  it("treats unknown methods as record methods taking ids", () => {
+    expect(
+      toJson2Params("action_confirm", [[7]], { context: { lang: "en_US" } }),
+    ).toEqual({ ids: [7], context: { lang: "en_US" } });
+  });
+
+  it("rejects extra positional args it cannot name", () => {
+    expect(() => toJson2Params("action_confirm", [[7], "extra"], {})).toThrow(
+      "does not accept 2 positional arguments over JSON-2",
+    );
+  });
+});
+
+describe("Json2Client", () => {
+  let server: http.Server;
+  let url: string;
+  let handler: Handler;
+  let requests: Array<{
+    path: string;
+    headers: http.IncomingHttpHeaders;
+    body: Record<string, unknown>;
+  }>;
+
+  beforeEach(async () => {
+    requests = [];
+    handler = (_req, _body, res) => {
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify(true));
+    };
+
+    // Local stand-in for an Odoo 19 server's /json/2 endpoints
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => chunks.push(chunk));
+      req.on("end", () => {
+        const body = JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+        requests.push({ path: req.url ?? "", headers: req.headers, body });
+        handler(req, body, res);
+      });
+    });
+
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+    url = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  describe("object service", () => {
+    it("translates execute_kw into a bearer-authenticated JSON-2 request", async () => {
+      handler = (_req, _body, res) => {
+        res.end(JSON.stringify([{ id: 1, name: "Acme" }]));
+      };
+      const client = new Json2Client({ url, service: "object" });
+
+      const result = await client.methodCall("execute_kw", [
+        "testdb",
+        2,
+        "my-api-key",
+        "res.partner",
+        "search_read",
+        [[["is_company", "=", true]]],
+        { fields: ["name"], limit: 1 },
+      ]);
+
+      expect(result).toEqual([{ id: 1, name: "Acme" }]);
+      expect(requests[0]?.path).toBe("/json/2/res.partner/search_read");
+      expect(requests[0]?.headers.authorization).toBe("bearer my-api-key");
+      expect(requests[0]?.headers["x-odoo-database"]).toBe("testdb");
+      expect(requests[0]?.body).toEqual({
+        domain: [["is_company", "=", true]],
+        fields: ["name"],
+        limit: 1,
+      });
+    });
+
+    it("returns null for methods returning nothing", async () => {
+      handler = (_req, _body, res) => {
+        res.end("null");
+      };
+      const client = new Json2Client({ url, service: "object" });
+
+      const result = await client.methodCall("execute_kw", [
+        "testdb",
+        2,
+        "key",
+        "sale.order",
+        "action_confirm",
+        [[5]],
+      ]);
+
+      expect(result).toBeNull();
+      expect(requests[0]?.body).toEqual({ ids: [5] });
+    });
+
+    it("rejects with Json2Error carrying the Odoo error payload", async () => {
+      handler = (_req, _body, res) => {
+        res.statusCode = 403;
+        res.statusMessage = "Forbidden";
+        res.end(
+          JSON.stringify({
+            name: "odoo.exceptions.AccessError",
+            message: "You are not allowed to modify this document",
+            debug: "Traceback ...",
+          }),
+        );
+      };
+      const client = new Json2Client({ url, service: "object" });
+
+      const error = await client
+        .methodCall("execute_kw", [
+          "testdb",
+          2,
+          "key",
+          "res.partner",
+          "write",
+          [[1], { name: "x" }],
+        ])
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(Json2Error);
+      expect((error as Json2Error).status).toBe(403);
+      expect((error as Json2Error).message).toBe(
+        "JSON-2 fault: You are not allowed to modify this document",
+      );
+      expect((error as Json2Error).data?.name).toBe(
+        "odoo.exceptions.AccessError",
+      );
+    });
+
+    it("rejects with the HTTP status when the error body is not JSON", async () => {
+      handler = (_req, _body, res) => {
+        res.statusCode = 502;
+        res.statusMessage = "Bad Gateway";
+        res.end("<html>Bad Gateway</html>");
+      };
+      const client = new Json2Client({ url, service: "object" });
+
+      await expect(
+        client.methodCall("execute_kw", [
+          "testdb",
+          2,
+          "key",
+          "res.partner",
+          "search",
+          [[]],
+        ]),
+      ).rejects.toThrow("JSON-2 fault: HTTP 502 Bad Gateway");
+    });
+  });
+
+  describe("common service", () => {
+    it("authenticates with the uid from context_get", async () => {
+      handler = (_req, _body, res) => {
+        res.end(JSON.stringify({ uid: 7, lang: "en_US", tz: "UTC" }));
+      };
+      const client = new Json2Client({ url, service: "common" });
+
+      const uid = await client.methodCall("authenticate", [
+        "testdb",
+        "portal-user",
+        "my-api-key",
+        {},
+      ]);
+
+      expect(uid).toBe(7);
+      expect(requests).toHaveLength(1);
+      expect(requests[0]?.path).toBe("/json/2/res.users/context_get");
+      expect(requests[0]?.body).toEqual({});
+    });
+
+    it("falls back to searching the login when context_get gives no uid", async () => {
+      handler = (req, _body, res) => {
+        if (req.url?.endsWith("/context_get")) {
+          res.statusCode = 500;
+          res.end(JSON.stringify({ message: "Server error" }));
+          return;
+        }
+        res.end(JSON.stringify([7]));
+      };
+      const client = new Json2Client({ url, service: "common" });
+
+      const uid = await client.methodCall("authenticate", [
+        "testdb",
+        "admin",
+        "my-api-key",
+        {},
+      ]);
+
+      expect(uid).toBe(7);
+      expect(requests[1]?.path).toBe("/json/2/res.users/search");
+      expect(requests[1]?.body).toEqual({
+        domain: [["login", "=", "admin"]],
+        limit: 1,
+      });
+    });
+
+    it("returns false when the API key is rejected", async () => {
+      handler = (_req, _body, res) => {
+        res.statusCode = 401;
+        res.end(JSON.stringify({ message: "Invalid apikey" }));
+      };
+      const client = new Json2Client({ url, service: "common" });
+
+      const uid = await client.methodCall("authenticate", [
+        "testdb",
+        "admin",
+        "bad-key",
+        {},
+      ]);
+
+      expect(uid).toBe(false);
+    });
+
+    it("returns false when the login is unknown", async () => {
+      handler = (_req, _body, res) => {
+        res.end(JSON.stringify([]));
+      };
+      const client = new Json2Client({ url, service: "common" });
+
+      const uid = await client.methodCall("authenticate", [
+        "testdb",
+        "ghost",
+        "key",
+        {},
+      ]);
+
+      expect(uid).toBe(false);
+    });
+
+    it("reads the version over JSON-RPC", async () => {
+      handler = (_req, _body, res) => {
+        res.end(
+          JSON.stringify({
+            jsonrpc: "2.0",
+            id: 1,
+            result: { server_version: "19.0", server_serie: "19.0" },
+          }),
+        );
+      };
+      const client = new Json2Client({ url, service: "common" });
+
+      const version = await client.methodCall("version", []);
+
+      expect(version).toEqual({ server_version: "19.0", server_serie: "19.0" });
+      expect(requests[0]?.path).toBe("/jsonrpc");
+      expect(requests[0]?.body).toMatchObject({
+        params: { service: "common", method: "version", args: [] },
+      });
+    });
+
+    it("rejects unsupported service methods", async () => {
+      const client = new Json2Client({ url, service: "common" });
+
+      await expect(client.methodCall("login", [])).rejects.toThrow(
+        "Method 'common.login' is not available over JSON-2",
+      );
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import { URL } from "node:url";
+import { postJson } from "./http.js";
+import { JsonRpcClient, type JsonRpcErrorData } from "./jsonrpc.js";
+
+export interface Json2ClientOptions {
+  url: string;
+  /**
+   * Odoo RPC service being emulated ("common" or "object")
+   */
+  service: string;
+  timeout?: number;
+  verifySsl?: boolean;
+}
+
+/**
+ * Error raised when the JSON-2 API answers with a non-2xx status
+ */
+export class Json2Error extends Error {
+  readonly status: number;
+  readonly data: JsonRpcErrorData | undefined;
+
+  constructor(status: number, statusText: string, data?: JsonRpcErrorData) {
+    super(`JSON-2 fault: ${data?.message || `HTTP ${status} ${statusText}`}`);
+    this.name = "Json2Error";
+    this.status = status;
+    this.data = data;
+  }
+}
+
+/**
+ * Names of the positional execute_kw arguments for common ORM methods.
+ * JSON-2 only accepts named parameters, so positional args are mapped
+ * through this table before sending.
+ */
+const POSITIONAL_PARAMS: Record<string, string[]> = {
+  search: ["domain"],
+  search_read: ["domain", "fields"],
+  search_count: ["domain"],
+  read: ["ids", "fields"],
+  write: ["ids", "vals"],
+  create: ["vals_list"],
+  unlink: ["ids"],
+  copy: ["ids", "default"],
+  fields_get: ["allfields", "attributes"],
+  default_get: ["fields_list"],
+  name_search: ["name", "domain", "operator", "limit"],
+  read_group: ["domain", "fields", "groupby"],
+  check_access_rights: ["operation", "raise_exception"],
+  check_access_rule: ["ids", "operation"],
+};
+
+/**
+ * Convert execute_kw style positional args + kwargs into a JSON-2 body.
+ * Methods not in POSITIONAL_PARAMS are treated as record methods whose
+ * first positional argument is the list of record IDs.
+ */
+export function toJson2Params(
+  method: string,
+  args: unknown[],
+  kwargs: Record<string, unknown>,
+): Record<string, unknown> {
+  const names = POSITIONAL_PARAMS[method] ?? ["ids"];
+  const params: Record<string, unknown> = {};
+
+  args.forEach((value, index) => {
+    const name = names[index];
+    if (name === undefined) {
+      throw new Error(
+        `Method '${method}' does not accept ${args.length} positional arguments over JSON-2; pass them as kwargs`,
+      );
+    }
+    params[name] = value;
+  });
+
+  return { ...params, ...kwargs };
+}
+
+/**
+ * Client for the Odoo 19+ JSON-2 external API (/json/2/<model>/<method>).
+ *
+ * Exposes the same methodCall() surface as XmlRpcClient by translating the
+ * classic "common" and "object" service calls into bearer-token requests,
+ * so OdooClient can use it without knowing about JSON-2. The API key is taken
+ * from the credential slot of each call, exactly like XML-RPC.
+ */
+export class Json2Client {
+  private options: Required<Json2ClientOptions>;
+
+  constructor(options: Json2ClientOptions) {
+    this.options = {
+      timeout: options.timeout ?? 30000,
+      verifySsl: options.verifySsl ?? true,
+      url: options.url,
+      service: options.service,
+    };
+  }
+
+  async methodCall<T>(method: string, params: unknown[]): Promise<T> {
+    if (this.options.service === "common" && method === "authenticate") {
+      const [db, login, apiKey] = params as [string, string, string];
+      return (await this.authenticate(db, login, apiKey)) as T;
+    }
+
+    if (this.options.service === "common" && method === "version") {
+      // JSON-2 has no version endpoint; common.version needs no credentials
+      return new JsonRpcClient(this.options).methodCall<T>("version", []);
+    }
+
+    if (
+      this.options.service === "object" &&
+      (method === "execute_kw" || method === "execute")
+    ) {
+      const [db, , apiKey, model, ormMethod, args = [], kwargs = {}] =
+        params as [
+          string,
+          number,
+          string,
+          string,
+          string,
+          unknown[]?,
+          Record<string, unknown>?,
+        ];
+      return this.call<T>(
+        db,
+        apiKey,
+        model,
+        ormMethod,
+        toJson2Params(ormMethod, args, kwargs),
+      );
+    }
+
+    throw new Error(
+      `Method '${this.options.service}.${method}' is not available over JSON-2`,
+    );
+  }
+
+  /**
+   * Resolve the uid of the API key owner. Returns false when the key is
+   * rejected, mirroring common.authenticate.
+   *
+   * context_get works for every user, including portal and integration
+   * users without read access to res.users; searching by login is the
+   * fallback for servers where it does not return the uid.
+   */
+  private async authenticate(
+    db: string,
+    login: string,
+    apiKey: string,
+  ): Promise<number | false> {
+    try {
+      const context = await this.call<{ uid?: unknown } | null>(
+        db,
+        apiKey,
+        "res.users",
+        "context_get",
+        {},
+      );
+      if (typeof context?.uid === "number") {
+        return context.uid;
+      }
+    } catch (error) {
+      if (error instanceof Json2Error && error.status === 401) {
+        return false;
+      }
+    }
+
+    try {
+      const ids = await this.call<number[]>(db, apiKey, "res.users", "search", {
+        domain: [["login", "=", login]],
+        limit: 1,
+      });
+      return ids[0] ?? false;
+    } catch (error) {
+      if (error instanceof Json2Error && error.status === 401) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private async call<T>(
+    db: string,
+    apiKey: string,
+    model: string,
+    method: string,
+    body: Record<string, unknown>,
+  ): Promise<T> {
+    const url = new URL(
+      `/json/2/${encodeURIComponent(model)}/${encodeURIComponent(method)}`,
+      `${this.options.url}/`,
+    ).toString();
+
+    const response = await postJson(url, body, {
+      timeout: this.options.timeout,
+      verifySsl: this.options.verifySsl,
+      headers: {
+        Authorization: `bearer ${apiKey}`,
+        "X-Odoo-Database": db,
+      },
+    });
+
+    let parsed: unknown = null;
+    if (response.body) {
+      try {
+        parsed = JSON.parse(response.body);
+      } catch {
+        if (response.status < 400) {
+          throw new Error(
+            `Invalid JSON-2 response: ${response.body.slice(0, 200)}`,
+          );
+        }
+      }
+    }
+
+    if (response.status >= 400) {
+      throw new Json2Error(
+        response.status,
+        response.statusText,
+        (parsed ?? undefined) as JsonRpcErrorData | undefined,
+      );
+    }
+
+    return parsed as T;
+  }
+}
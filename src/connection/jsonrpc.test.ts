@@ -0,0 +1,343 @@
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { JsonRpcClient, JsonRpcError, WebSessionClient } from "./jsonrpc.js";
+
+type Handler = (
+  body: Record<string, unknown>,
+  res: http.ServerResponse,
+  req: http.IncomingMessage,
+) => void;
+
+describe("JSON-RPC clients", () => {
+  let server: http.Server;
+  let url: string;
+  let handler: Handler;
+  let requests: Array<{
+    path: string;
+    body: Record<string, unknown>;
+    cookie?: string;
+  }>;
+
+  beforeEach(async () => {
+    requests = [];
+    handler = (body, res) => {
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ jsonrpc: "2.0", id: body.id, result: true }));
+    };
+
+    // Local stand-in for an Odoo server's /jsonrpc endpoint
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => chunks.push(chunk));
+      req.on("end", () => {
+        const body = JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+        requests.push({
+          path: req.url ?? "",
+          body,
+          ...(req.headers.cookie && { cookie: req.headers.cookie }),
+        });
+        handler(body, res, req);
+      });
+    });
+
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+    url = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  describe("JsonRpcClient.methodCall", () => {
+    it("posts a JSON-RPC call envelope to /jsonrpc", async () => {
+      const client = new JsonRpcClient({ url, service: "object" });
+
+      await client.methodCall("execute_kw", [
+        "testdb",
+        2,
+        "secret",
+        "res.partner",
+        "search",
+        [[]],
+      ]);
+
+      expect(requests).toHaveLength(1);
+      expect(requests[0]?.path).toBe("/jsonrpc");
+      expect(requests[0]?.body).toMatchObject({
+        jsonrpc: "2.0",
+        method: "call",
+        params: {
+          service: "object",
+          method: "execute_kw",
+          args: ["testdb", 2, "secret", "res.partner", "search", [[]]],
+        },
+      });
+    });
+
+    it("uses a custom path when configured", async () => {
+      const client = new JsonRpcClient({
+        url,
+        service: "common",
+        path: "/custom/jsonrpc",
+      });
+
+      await client.methodCall("version", []);
+
+      expect(requests[0]?.path).toBe("/custom/jsonrpc");
+    });
+
+    it("returns the result value", async () => {
+      handler = (body, res) => {
+        res.end(
+          JSON.stringify({ jsonrpc: "2.0", id: body.id, result: [1, 2, 3] }),
+        );
+      };
+      const client = new JsonRpcClient({ url, service: "object" });
+
+      const result = await client.methodCall("execute_kw", []);
+
+      expect(result).toEqual([1, 2, 3]);
+    });
+
+    it("returns null when the method returns None", async () => {
+      handler = (body, res) => {
+        res.end(JSON.stringify({ jsonrpc: "2.0", id: body.id, result: null }));
+      };
+      const client = new JsonRpcClient({ url, service: "object" });
+
+      const result = await client.methodCall("execute_kw", []);
+
+      expect(result).toBeNull();
+    });
+
+    it("preserves nested dicts in results", async () => {
+      const nested = {
+        partner: { id: 1, tags: [{ id: 2, meta: { color: null } }] },
+      };
+      handler = (body, res) => {
+        res.end(
+          JSON.stringify({ jsonrpc: "2.0", id: body.id, result: nested }),
+        );
+      };
+      const client = new JsonRpcClient({ url, service: "object" });
+
+      const result = await client.methodCall("execute_kw", []);
+
+      expect(result).toEqual(nested);
+    });
+
+    it("uses incrementing request ids", async () => {
+      const client = new JsonRpcClient({ url, service: "common" });
+
+      await client.methodCall("version", []);
+      await client.methodCall("version", []);
+
+      expect(requests[0]?.body.id).toBe(1);
+      expect(requests[1]?.body.id).toBe(2);
+    });
+
+    it("rejects with JsonRpcError on Odoo error responses", async () => {
+      handler = (body, res) => {
+        res.end(
+          JSON.stringify({
+            jsonrpc: "2.0",
+            id: body.id,
+            error: {
+              code: 200,
+              message: "Odoo Server Error",
+              data: {
+                name: "odoo.exceptions.AccessError",
+                message: "You are not allowed to access this document",
+                debug: "Traceback (most recent call last): ...",
+              },
+            },
+          }),
+        );
+      };
+      const client = new JsonRpcClient({ url, service: "object" });
+
+      const error = await client
+        .methodCall("execute_kw", [])
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(JsonRpcError);
+      expect((error as JsonRpcError).message).toBe(
+        "JSON-RPC fault: You are not allowed to access this document",
+      );
+      expect((error as JsonRpcError).code).toBe(200);
+      expect((error as JsonRpcError).data?.name).toBe(
+        "odoo.exceptions.AccessError",
+      );
+    });
+
+    it("rejects on HTTP error status", async () => {
+      handler = (_body, res) => {
+        res.statusCode = 502;
+        res.statusMessage = "Bad Gateway";
+        res.end("<html>Bad Gateway</html>");
+      };
+      const client = new JsonRpcClient({ url, service: "object" });
+
+      await expect(client.methodCall("execute_kw", [])).rejects.toThrow(
+        "HTTP 502 Bad Gateway",
+      );
+    });
+
+    it("rejects on malformed JSON responses", async () => {
+      handler = (_body, res) => {
+        res.end("not json");
+      };
+      const client = new JsonRpcClient({ url, service: "object" });
+
+      await expect(client.methodCall("execute_kw", [])).rejects.toThrow(
+        "Invalid JSON-RPC response",
+      );
+    });
+
+    it("rejects on connection errors", async () => {
+      const client = new JsonRpcClient({
+        url: "http://127.0.0.1:1",
+        service: "common",
+      });
+
+      await expect(client.methodCall("version", [])).rejects.toThrow();
+    });
+
+    it("times out after configured duration", async () => {
+      handler = () => {
+        // Never respond to simulate a hanging request
+      };
+      const client = new JsonRpcClient({ url, service: "object", timeout: 50 });
+
+      await expect(client.methodCall("execute_kw", [])).rejects.toThrow(
+        "Request timeout after 50ms",
+      );
+    });
+  });
+
+  describe("WebSessionClient", () => {
+    const login = (session = "abc123") => {
+      handler = (body, res, req) => {
+        if (req.url === "/web/session/authenticate") {
+          res.setHeader("Set-Cookie", [
+            `session_id=${session}; Expires=Wed, 01 Jan 2031 00:00:00 GMT; HttpOnly; Path=/`,
+          ]);
+          res.end(
+            JSON.stringify({ jsonrpc: "2.0", id: body.id, result: { uid: 2 } }),
+          );
+          return;
+        }
+        res.end(
+          JSON.stringify({ jsonrpc: "2.0", id: body.id, result: [{ id: 1 }] }),
+        );
+      };
+    };
+
+    it("logs in and calls /web/dataset/call_kw with the session cookie", async () => {
+      login();
+      const common = new WebSessionClient({ url, service: "common" });
+      const object = new WebSessionClient({ url, service: "object" });
+
+      const uid = await common.methodCall("authenticate", [
+        "testdb",
+        "admin",
+        "secret",
+        {},
+      ]);
+      const result = await object.methodCall("execute_kw", [
+        "testdb",
+        uid,
+        "secret",
+        "res.partner",
+        "search_read",
+        [[]],
+        { fields: ["name"] },
+      ]);
+
+      expect(uid).toBe(2);
+      expect(result).toEqual([{ id: 1 }]);
+      expect(requests[0]?.body.params).toEqual({
+        db: "testdb",
+        login: "admin",
+        password: "secret",
+      });
+      expect(requests[1]).toMatchObject({
+        path: "/web/dataset/call_kw/res.partner/search_read",
+        cookie: "session_id=abc123",
+        body: {
+          params: {
+            model: "res.partner",
+            method: "search_read",
+            args: [[]],
+            kwargs: { fields: ["name"] },
+          },
+        },
+      });
+    });
+
+    it("returns false when the credentials are rejected", async () => {
+      handler = (body, res) => {
+        res.end(
+          JSON.stringify({
+            jsonrpc: "2.0",
+            id: body.id,
+            error: {
+              code: 200,
+              message: "Odoo Server Error",
+              data: {
+                name: "odoo.exceptions.AccessDenied",
+                message: "Access Denied",
+              },
+            },
+          }),
+        );
+      };
+      const client = new WebSessionClient({ url, service: "common" });
+
+      await expect(
+        client.methodCall("authenticate", ["testdb", "admin", "bad", {}]),
+      ).resolves.toBe(false);
+    });
+
+    it("reports an expired session so the caller logs in again", async () => {
+      const client = new WebSessionClient({ url, service: "object" });
+
+      const error = await client
+        .methodCall("execute_kw", [
+          "otherdb",
+          9,
+          "secret",
+          "res.partner",
+          "search",
+          [[]],
+        ])
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(JsonRpcError);
+      expect((error as JsonRpcError).data?.name).toBe(
+        "odoo.http.SessionExpiredException",
+      );
+      expect(requests).toHaveLength(0);
+    });
+
+    it("gets the version from the web client's version route", async () => {
+      const version = { server_version: "17.0", server_version_info: [17, 0] };
+      handler = (body, res) => {
+        res.end(
+          JSON.stringify({ jsonrpc: "2.0", id: body.id, result: version }),
+        );
+      };
+      const client = new WebSessionClient({ url, service: "common" });
+
+      await expect(client.methodCall("version", [])).resolves.toEqual(version);
+
+      expect(requests).toHaveLength(1);
+      expect(requests[0]?.path).toBe("/web/webclient/version_info");
+    });
+  });
+});
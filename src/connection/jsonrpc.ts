@@ -0,0 +1,257 @@
+import type { IncomingHttpHeaders } from "node:http";
+import { URL } from "node:url";
+import { postJson } from "./http.js";
+
+export interface JsonRpcClientOptions {
+  url: string;
+  /**
+   * Odoo RPC service to dispatch to ("common" or "object")
+   */
+  service: string;
+  path?: string;
+  timeout?: number;
+  verifySsl?: boolean;
+}
+
+/**
+ * Error payload returned by Odoo in a JSON-RPC error response
+ */
+export interface JsonRpcErrorData {
+  name?: string;
+  message?: string;
+  debug?: string;
+  arguments?: unknown[];
+}
+
+/**
+ * Error raised when Odoo answers a JSON-RPC call with an error object
+ */
+export class JsonRpcError extends Error {
+  readonly code: number;
+  readonly data: JsonRpcErrorData | undefined;
+
+  constructor(code: number, message: string, data?: JsonRpcErrorData) {
+    super(`JSON-RPC fault: ${data?.message || message}`);
+    this.name = "JsonRpcError";
+    this.code = code;
+    this.data = data;
+  }
+}
+
+interface JsonRpcResponse {
+  jsonrpc: string;
+  id: number | null;
+  result?: unknown;
+  error?: {
+    code: number;
+    message: string;
+    data?: JsonRpcErrorData;
+  };
+}
+
+/**
+ * POST a JSON-RPC "call" envelope and return its result, with the response
+ * headers for callers that need the session cookie
+ * @throws JsonRpcError when Odoo answers with an error object
+ */
+async function callJsonRpc(
+  options: { url: string; timeout: number; verifySsl: boolean },
+  path: string,
+  params: Record<string, unknown>,
+  id: number,
+  headers: Record<string, string> = {},
+): Promise<{ result: unknown; headers: IncomingHttpHeaders }> {
+  const url = new URL(path, `${options.url}/`).toString();
+  const response = await postJson(
+    url,
+    { jsonrpc: "2.0", method: "call", params, id },
+    { timeout: options.timeout, verifySsl: options.verifySsl, headers },
+  );
+
+  if (response.status >= 400) {
+    throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+  }
+
+  let parsed: JsonRpcResponse;
+  try {
+    parsed = JSON.parse(response.body) as JsonRpcResponse;
+  } catch {
+    throw new Error(
+      `Invalid JSON-RPC response: ${response.body.slice(0, 200)}`,
+    );
+  }
+
+  if (parsed.error) {
+    throw new JsonRpcError(
+      parsed.error.code,
+      parsed.error.message,
+      parsed.error.data,
+    );
+  }
+  return { result: parsed.result ?? null, headers: response.headers };
+}
+
+/**
+ * JSON-RPC client for Odoo's /jsonrpc endpoint.
+ *
+ * Exposes the same methodCall() surface as XmlRpcClient, so it can be swapped
+ * in wherever the XML-RPC transport is used. Unlike XML-RPC, JSON has native
+ * null and nested object support, so methods returning None or deeply nested
+ * dicts come back intact.
+ */
+export class JsonRpcClient {
+  private options: Required<JsonRpcClientOptions>;
+  private requestId = 0;
+
+  constructor(options: JsonRpcClientOptions) {
+    this.options = {
+      timeout: options.timeout ?? 30000,
+      verifySsl: options.verifySsl ?? true,
+      path: options.path ?? "/jsonrpc",
+      url: options.url,
+      service: options.service,
+    };
+  }
+
+  /**
+   * Make a JSON-RPC method call against the configured service with timeout
+   */
+  async methodCall<T>(method: string, params: unknown[]): Promise<T> {
+    const { result } = await callJsonRpc(
+      this.options,
+      this.options.path,
+      { service: this.options.service, method, args: params },
+      ++this.requestId,
+    );
+    return result as T;
+  }
+}
+
+/**
+ * Session cookies by server, database and uid. The common and object
+ * clients of a connection are separate instances, so the session opened
+ * by authenticate reaches execute_kw through here.
+ */
+const webSessions = new Map<string, string>();
+
+function sessionKey(url: string, db: string, uid: unknown): string {
+  return `${url}|${db}|${String(uid)}`;
+}
+
+function sessionCookie(headers: IncomingHttpHeaders): string | null {
+  for (const cookie of headers["set-cookie"] ?? []) {
+    const match = /^session_id=([^;]*)/.exec(cookie);
+    if (match?.[1]) {
+      return match[1];
+    }
+  }
+  return null;
+}
+
+/**
+ * Client for Odoo's web-client JSON-RPC routes: logs in through
+ * /web/session/authenticate and calls /web/dataset/call_kw with the session
+ * cookie, as the browser does. Useful where /jsonrpc and /xmlrpc are blocked
+ * by a proxy but the web client is reachable.
+ *
+ * Exposes the same methodCall() surface as XmlRpcClient by translating the
+ * "common" and "object" service calls. A missing or expired session fails
+ * with SessionExpiredException, so OdooClient logs in again and retries.
+ */
+export class WebSessionClient {
+  private options: Required<Omit<JsonRpcClientOptions, "path">>;
+  private requestId = 0;
+
+  constructor(options: Omit<JsonRpcClientOptions, "path">) {
+    this.options = {
+      timeout: options.timeout ?? 30000,
+      verifySsl: options.verifySsl ?? true,
+      url: options.url,
+      service: options.service,
+    };
+  }
+
+  async methodCall<T>(method: string, params: unknown[]): Promise<T> {
+    if (this.options.service === "common" && method === "authenticate") {
+      const [db, login, password] = params as [string, string, string];
+      return (await this.authenticate(db, login, password)) as T;
+    }
+
+    if (this.options.service === "common" && method === "version") {
+      // The web client's own route, which needs no session
+      const { result } = await callJsonRpc(
+        this.options,
+        "/web/webclient/version_info",
+        {},
+        ++this.requestId,
+      );
+      return result as T;
+    }
+
+    if (this.options.service === "object" && method === "execute_kw") {
+      const [db, uid, , model, ormMethod, args = [], kwargs = {}] = params as [
+        string,
+        number,
+        string,
+        string,
+        string,
+        unknown[]?,
+        Record<string, unknown>?,
+      ];
+      const session = webSessions.get(sessionKey(this.options.url, db, uid));
+      if (!session) {
+        throw new JsonRpcError(100, "Odoo Session Expired", {
+          name: "odoo.http.SessionExpiredException",
+          message: "No web session for this user; log in again",
+        });
+      }
+
+      const { result } = await callJsonRpc(
+        this.options,
+        `/web/dataset/call_kw/${encodeURIComponent(model)}/${encodeURIComponent(ormMethod)}`,
+        { model, method: ormMethod, args, kwargs },
+        ++this.requestId,
+        { Cookie: `session_id=${session}` },
+      );
+      return result as T;
+    }
+
+    throw new Error(
+      `Method '${this.options.service}.${method}' is not available over a web session`,
+    );
+  }
+
+  /**
+   * Open a web session and keep its cookie. Returns false when the
+   * credentials are rejected, mirroring common.authenticate.
+   */
+  private async authenticate(
+    db: string,
+    login: string,
+    password: string,
+  ): Promise<number | false> {
+    try {
+      const { result, headers } = await callJsonRpc(
+        this.options,
+        "/web/session/authenticate",
+        { db, login, password },
+        ++this.requestId,
+      );
+      const uid = (result as { uid?: unknown } | null)?.uid;
+      const session = sessionCookie(headers);
+      if (typeof uid !== "number" || !session) {
+        return false;
+      }
+      webSessions.set(sessionKey(this.options.url, db, uid), session);
+      return uid;
+    } catch (error) {
+      if (
+        error instanceof JsonRpcError &&
+        /AccessDenied/.test(error.data?.name ?? "")
+      ) {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
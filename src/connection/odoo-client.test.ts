@@ -19,6 +19,24 @@ vi.mock("./xmlrpc.js", () => ({
   },
 }));
 
+// Mock the JsonRpcClient module
+vi.mock("./jsonrpc.js", () => ({
+  JsonRpcClient: class MockJsonRpcClient {
+    options: unknown;
+    constructor(options: unknown) {
+      this.options = options;
+      MockJsonRpcClient.instances.push(this);
+    }
+    methodCall = mockMethodCall;
+    static instances: MockJsonRpcClient[] = [];
+    static clear() {
+      MockJsonRpcClient.instances = [];
+    }
+  },
+}));
+
+import { AccessError } from "./errors.js";
+import { JsonRpcClient } from "./jsonrpc.js";
 import { OdooClient } from "./odoo-client.js";
 import { XmlRpcClient } from "./xmlrpc.js";
 
@@ -28,10 +46,16 @@ const MockXmlRpcClient = XmlRpcClient as unknown as {
   clear: () => void;
 };
 
+const MockJsonRpcClient = JsonRpcClient as unknown as {
+  instances: Array<{ options: unknown; methodCall: typeof mockMethodCall }>;
+  clear: () => void;
+};
+
 describe("OdooClient", () => {
   beforeEach(() => {
     vi.clearAllMocks();
     MockXmlRpcClient.clear();
+    MockJsonRpcClient.clear();
   });
 
   describe("constructor", () => {
@@ -125,6 +149,31 @@ describe("OdooClient", () => {
         path: "/xmlrpc/2/object",
       });
     });
+
+    it("creates JSON-RPC clients when protocol is jsonrpc", () => {
+      new OdooClient(
+        {
+          url: "https://example.com",
+          db: "test",
+          username: "admin",
+          password: "admin",
+          protocol: "jsonrpc",
+        },
+        { timeout: 60000, verifySsl: false },
+      );
+
+      expect(MockXmlRpcClient.instances).toHaveLength(0);
+      expect(MockJsonRpcClient.instances).toHaveLength(2);
+      expect(MockJsonRpcClient.instances[0].options).toMatchObject({
+        url: "https://example.com",
+        service: "common",
+        timeout: 60000,
+        verifySsl: false,
+      });
+      expect(MockJsonRpcClient.instances[1].options).toMatchObject({
+        service: "object",
+      });
+    });
   });
 
   describe("connect", () => {
@@ -148,6 +197,42 @@ describe("OdooClient", () => {
       ]);
     });
 
+    it("authenticates with the API key in place of the password", async () => {
+      mockMethodCall.mockResolvedValue(42);
+
+      const client = new OdooClient({
+        url: "https://example.com",
+        db: "test",
+        username: "admin",
+        password: "secret",
+        api_key: "api-key-123",
+      });
+
+      await client.connect();
+
+      expect(mockMethodCall).toHaveBeenCalledWith("authenticate", [
+        "test",
+        "admin",
+        "api-key-123",
+        {},
+      ]);
+    });
+
+    it("reports an invalid API key when API key authentication fails", async () => {
+      mockMethodCall.mockResolvedValue(false);
+
+      const client = new OdooClient({
+        url: "https://example.com",
+        db: "test",
+        username: "admin",
+        api_key: "revoked",
+      });
+
+      await expect(client.connect()).rejects.toThrow(
+        "Authentication failed: Invalid username or API key",
+      );
+    });
+
     it("throws error when authentication returns false", async () => {
       mockMethodCall.mockResolvedValue(false);
 
@@ -263,6 +348,256 @@ describe("OdooClient", () => {
     });
   });
 
+  describe("session recovery", () => {
+    const config = {
+      url: "https://example.com",
+      db: "test",
+      username: "admin",
+      password: "secret",
+    };
+
+    function accessDenied(): Error {
+      return Object.assign(new Error("XML-RPC fault: Access Denied"), {
+        faultCode: 3,
+        faultString: "Access Denied",
+      });
+    }
+
+    it("re-authenticates and retries when the session is rejected", async () => {
+      mockMethodCall
+        .mockResolvedValueOnce(42) // auth
+        .mockRejectedValueOnce(accessDenied()) // stale session
+        .mockResolvedValueOnce(43) // re-auth
+        .mockResolvedValueOnce([1]); // retry
+
+      const client = new OdooClient(config);
+      await client.connect();
+      const result = await client.execute("res.partner", "search", [[]]);
+
+      expect(result).toEqual([1]);
+      expect(mockMethodCall).toHaveBeenCalledTimes(4);
+      expect(mockMethodCall).toHaveBeenLastCalledWith("execute_kw", [
+        "test",
+        43,
+        "secret",
+        "res.partner",
+        "search",
+        [[]],
+        {},
+      ]);
+    });
+
+    it("only retries once", async () => {
+      mockMethodCall
+        .mockResolvedValueOnce(42) // auth
+        .mockRejectedValueOnce(accessDenied())
+        .mockResolvedValueOnce(42) // re-auth
+        .mockRejectedValueOnce(accessDenied());
+
+      const client = new OdooClient(config);
+      await client.connect();
+
+      await expect(
+        client.execute("res.partner", "search", [[]]),
+      ).rejects.toThrow("Access Denied");
+      expect(mockMethodCall).toHaveBeenCalledTimes(4);
+    });
+
+    it("reports a clear error when re-authentication fails", async () => {
+      mockMethodCall
+        .mockResolvedValueOnce(42) // auth
+        .mockRejectedValueOnce(accessDenied())
+        .mockResolvedValueOnce(false); // credentials rotated
+
+      const client = new OdooClient(config);
+      await client.connect();
+
+      await expect(
+        client.execute("res.partner", "search", [[]]),
+      ).rejects.toThrow(
+        "Odoo rejected the session and re-authentication failed: Authentication failed: Invalid username or password",
+      );
+      expect(client.isConnected).toBe(false);
+    });
+
+    it("does not re-authenticate on other faults", async () => {
+      mockMethodCall
+        .mockResolvedValueOnce(42) // auth
+        .mockRejectedValueOnce(
+          Object.assign(new Error("XML-RPC fault: Not allowed"), {
+            faultCode: 4,
+            faultString: "Not allowed",
+          }),
+        );
+
+      const client = new OdooClient(config);
+      await client.connect();
+
+      await expect(
+        client.execute("res.partner", "write", [[1], {}]),
+      ).rejects.toThrow("Not allowed");
+      expect(mockMethodCall).toHaveBeenCalledTimes(2);
+    });
+
+    it("shares one re-authentication between concurrent calls", async () => {
+      mockMethodCall.mockImplementation(async (method: string, params) => {
+        if (method === "authenticate") {
+          return 42;
+        }
+        // First use of each call fails until a fresh uid is issued
+        return (params as unknown[])[1] === 42 &&
+          mockMethodCall.mock.calls.filter((c) => c[0] === "authenticate")
+            .length < 2
+          ? Promise.reject(accessDenied())
+          : "ok";
+      });
+
+      const client = new OdooClient(config);
+      await client.connect();
+
+      const results = await Promise.all([
+        client.execute("res.partner", "search", [[]]),
+        client.execute("res.partner", "search", [[]]),
+      ]);
+
+      expect(results).toEqual(["ok", "ok"]);
+      expect(
+        mockMethodCall.mock.calls.filter((c) => c[0] === "authenticate"),
+      ).toHaveLength(2);
+    });
+  });
+
+  describe("faults", () => {
+    it("rethrows Odoo faults as typed errors with call context", async () => {
+      mockMethodCall.mockResolvedValueOnce(42).mockRejectedValueOnce(
+        Object.assign(new Error("XML-RPC fault: Not allowed"), {
+          faultCode: 4,
+          faultString: "Not allowed",
+        }),
+      );
+
+      const client = new OdooClient({
+        url: "https://example.com",
+        db: "test",
+        username: "admin",
+        password: "secret",
+      });
+      await client.connect();
+
+      const error = await client
+        .execute("res.partner", "write", [[1], {}])
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(AccessError);
+      expect((error as AccessError).model).toBe("res.partner");
+      expect((error as AccessError).method).toBe("write");
+    });
+  });
+
+  describe("retries", () => {
+    it("retries idempotent calls after connection failures", async () => {
+      mockMethodCall
+        .mockResolvedValueOnce(42) // auth
+        .mockRejectedValueOnce(
+          Object.assign(new Error("read ECONNRESET"), { code: "ECONNRESET" }),
+        )
+        .mockResolvedValueOnce(7);
+
+      const client = new OdooClient(
+        {
+          url: "https://example.com",
+          db: "test",
+          username: "admin",
+          password: "secret",
+        },
+        { retry: { baseDelay: 0 } },
+      );
+      await client.connect();
+
+      expect(await client.execute("res.partner", "search_count", [[]])).toBe(7);
+      expect(mockMethodCall).toHaveBeenCalledTimes(3);
+    });
+
+    it("fails fast once the circuit breaker opens", async () => {
+      mockMethodCall
+        .mockResolvedValueOnce(42) // auth
+        .mockRejectedValue(
+          Object.assign(new Error("read ECONNRESET"), { code: "ECONNRESET" }),
+        );
+
+      const client = new OdooClient(
+        {
+          url: "https://example.com",
+          db: "test",
+          username: "admin",
+          password: "secret",
+        },
+        { circuitBreaker: { failureThreshold: 1 } },
+      );
+      await client.connect();
+
+      await expect(
+        client.execute("res.partner", "create", [{}]),
+      ).rejects.toThrow("ECONNRESET");
+      await expect(
+        client.execute("res.partner", "read", [[1]]),
+      ).rejects.toThrow("Odoo appears to be unavailable");
+      expect(mockMethodCall).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("lazy connect", () => {
+    it("authenticates on the first request", async () => {
+      mockMethodCall
+        .mockResolvedValueOnce(42) // auth
+        .mockResolvedValueOnce([1]); // execute
+
+      const client = new OdooClient(
+        {
+          url: "https://example.com",
+          db: "test",
+          username: "admin",
+          password: "secret",
+        },
+        { lazyConnect: true },
+      );
+
+      expect(client.isConnected).toBe(false);
+      const result = await client.execute("res.partner", "search", [[]]);
+
+      expect(result).toEqual([1]);
+      expect(client.isConnected).toBe(true);
+      expect(mockMethodCall).toHaveBeenNthCalledWith(1, "authenticate", [
+        "test",
+        "admin",
+        "secret",
+        {},
+      ]);
+    });
+
+    it("retries the connection on the next request after a failure", async () => {
+      mockMethodCall
+        .mockRejectedValueOnce(new Error("connect ECONNREFUSED"))
+        .mockResolvedValueOnce(42)
+        .mockResolvedValueOnce([1]);
+
+      const client = new OdooClient(
+        {
+          url: "https://example.com",
+          db: "test",
+          username: "admin",
+          password: "secret",
+        },
+        { lazyConnect: true },
+      );
+
+      await expect(
+        client.execute("res.partner", "search", [[]]),
+      ).rejects.toThrow("ECONNREFUSED");
+      expect(await client.execute("res.partner", "search", [[]])).toEqual([1]);
+    });
+  });
+
   describe("getModels", () => {
     it("returns list of models", async () => {
       mockMethodCall
@@ -497,4 +832,105 @@ describe("OdooClient", () => {
       ]);
     });
   });
+
+  describe("getServerInfo", () => {
+    const version = {
+      server_version: "17.0+e",
+      server_version_info: [17, 0, 0, "final", 0, "e"],
+      server_serie: "17.0",
+      protocol_version: 1,
+    };
+
+    function createClient() {
+      return new OdooClient({
+        url: "https://example.com",
+        db: "test",
+        username: "admin",
+        password: "secret",
+      });
+    }
+
+    it("reads the version and installed modules", async () => {
+      mockMethodCall
+        .mockResolvedValueOnce(42) // auth
+        .mockResolvedValueOnce(version)
+        .mockResolvedValueOnce([
+          { name: "base", latest_version: "17.0.1.3" },
+          { name: "web_enterprise", latest_version: "17.0.1.0" },
+        ]);
+
+      const client = createClient();
+      await client.connect();
+      const info = await client.getServerInfo();
+
+      expect(info).toEqual({
+        server_version: "17.0+e",
+        server_serie: "17.0",
+        major: 17,
+        minor: 0,
+        protocol_version: 1,
+        edition: "enterprise",
+        modules: { base: "17.0.1.3", web_enterprise: "17.0.1.0" },
+      });
+      expect(mockMethodCall).toHaveBeenNthCalledWith(2, "version", []);
+      expect(mockMethodCall).toHaveBeenNthCalledWith(3, "execute_kw", [
+        "test",
+        42,
+        "secret",
+        "ir.module.module",
+        "search_read",
+        [[["state", "=", "installed"]]],
+        { fields: ["name", "latest_version"] },
+      ]);
+    });
+
+    it("fetches once per session", async () => {
+      mockMethodCall
+        .mockResolvedValueOnce(42)
+        .mockResolvedValueOnce(version)
+        .mockResolvedValueOnce([]);
+
+      const client = createClient();
+      await client.connect();
+      await client.getServerInfo();
+      await client.getServerInfo();
+
+      expect(mockMethodCall).toHaveBeenCalledTimes(3);
+    });
+
+    it("leaves modules unknown when they cannot be read", async () => {
+      const consoleSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      mockMethodCall
+        .mockResolvedValueOnce(42)
+        .mockResolvedValueOnce(version)
+        .mockRejectedValueOnce(new Error("not allowed"));
+
+      const client = createClient();
+      await client.connect();
+      const info = await client.getServerInfo();
+
+      expect(info.major).toBe(17);
+      expect(info.modules).toBeNull();
+      expect(info.edition).toBeNull();
+      consoleSpy.mockRestore();
+    });
+
+    it("tries again after the version call fails", async () => {
+      mockMethodCall
+        .mockResolvedValueOnce(42)
+        .mockRejectedValueOnce(new Error("boom"))
+        .mockResolvedValueOnce(version)
+        .mockResolvedValueOnce([]);
+
+      const client = createClient();
+      await client.connect();
+
+      await expect(client.getServerInfo()).rejects.toThrow("boom");
+      await expect(client.getServerInfo()).resolves.toMatchObject({
+        major: 17,
+      });
+    });
+  });
 });
@@ -5,46 +5,86 @@ import type {
   OdooConnection,
   OdooFieldDef,
   OdooModelInfo,
+  OdooServerInfo,
+  OdooVersionInfo,
   SearchReadOptions,
 } from "../types/index.js";
-import { XmlRpcClient } from "./xmlrpc.js";
+import {
+  CircuitBreaker,
+  type CircuitBreakerOptions,
+} from "./circuit-breaker.js";
+import { isSessionError, parseOdooFault } from "./errors.js";
+import {
+  DEFAULT_RETRY_OPTIONS,
+  ResilientRpcClient,
+  type RetryOptions,
+} from "./retry.js";
+import { createRpcClient, type RpcClient } from "./transport.js";
+import { parseServerInfo } from "./version.js";
 
 export interface OdooClientOptions {
   timeout?: number;
   verifySsl?: boolean;
+  /**
+   * Authenticate on the first request instead of requiring connect() first
+   */
+  lazyConnect?: boolean;
+  /**
+   * Retry policy for transient failures of idempotent calls
+   */
+  retry?: Partial<RetryOptions>;
+  /**
+   * Fail fast after repeated connection failures
+   */
+  circuitBreaker?: Partial<CircuitBreakerOptions>;
 }
 
 /**
- * Odoo XML-RPC client for authentication and method execution
+ * Odoo RPC client for authentication and method execution.
+ * Talks XML-RPC by default, or JSON-RPC when config.protocol is "jsonrpc".
+ * Re-authenticates once and retries when Odoo rejects the stored session.
+ * Transient failures of idempotent calls are retried with backoff, and a
+ * circuit breaker fails fast while Odoo is unreachable.
  */
 export class OdooClient implements IOdooClient {
   private config: OdooConfig;
-  private options: Required<OdooClientOptions>;
+  private options: Required<
+    Omit<OdooClientOptions, "retry" | "circuitBreaker">
+  >;
+  private retryOptions: RetryOptions;
   private connection: OdooConnection | null = null;
-  private commonClient: XmlRpcClient;
-  private objectClient: XmlRpcClient;
+  private pendingConnect: Promise<void> | null = null;
+  private serverInfo: Promise<OdooServerInfo> | null = null;
+  private commonClient: RpcClient;
+  private objectClient: RpcClient;
+  private breaker: CircuitBreaker;
 
   constructor(config: OdooConfig, options: OdooClientOptions = {}) {
     this.config = this.normalizeConfig(config);
     this.options = {
       timeout: options.timeout ?? 30000,
       verifySsl: options.verifySsl ?? true,
+      lazyConnect: options.lazyConnect ?? false,
     };
+    this.retryOptions = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
 
-    // Create XML-RPC clients for both endpoints
-    this.commonClient = new XmlRpcClient({
-      url: this.config.url,
-      path: "/xmlrpc/2/common",
-      timeout: this.options.timeout,
-      verifySsl: this.options.verifySsl,
-    });
+    // Both services share one breaker: either failing means Odoo is down
+    this.breaker = new CircuitBreaker(options.circuitBreaker);
+
+    // Create RPC clients for both services
+    this.commonClient = this.createServiceClient("common");
+    this.objectClient = this.createServiceClient("object");
+  }
 
-    this.objectClient = new XmlRpcClient({
+  private createServiceClient(service: string): RpcClient {
+    const client = createRpcClient(this.config.protocol ?? "xmlrpc", {
       url: this.config.url,
-      path: "/xmlrpc/2/object",
+      service,
       timeout: this.options.timeout,
       verifySsl: this.options.verifySsl,
     });
+
+    return new ResilientRpcClient(client, this.retryOptions, this.breaker);
   }
 
   private normalizeConfig(config: OdooConfig): OdooConfig {
@@ -61,6 +101,14 @@ export class OdooClient implements IOdooClient {
     return { ...config, url };
   }
 
+  /**
+   * Credential used for authenticate/execute_kw. Odoo accepts an API key
+   * anywhere a password is expected, so the key takes precedence.
+   */
+  private get secret(): string {
+    return this.config.api_key ?? this.config.password ?? "";
+  }
+
   /**
    * Authenticate with Odoo and store the uid
    */
@@ -68,24 +116,32 @@ export class OdooClient implements IOdooClient {
     console.error(`Connecting to Odoo at: ${this.config.url}`);
     console.error(`  Database: ${this.config.db}`);
     console.error(`  Username: ${this.config.username}`);
+    console.error(`  Protocol: ${this.config.protocol ?? "xmlrpc"}`);
+    console.error(`  Auth: ${this.config.api_key ? "API key" : "password"}`);
     console.error(`  Timeout: ${this.options.timeout}ms`);
 
     try {
       const uid = await this.commonClient.methodCall<number | false>(
         "authenticate",
-        [this.config.db, this.config.username, this.config.password, {}],
+        [this.config.db, this.config.username, this.secret, {}],
       );
 
       if (uid === false || uid === 0) {
-        throw new Error("Authentication failed: Invalid username or password");
+        throw new Error(
+          this.config.api_key
+            ? "Authentication failed: Invalid username or API key"
+            : "Authentication failed: Invalid username or password",
+        );
       }
 
       this.connection = {
         url: this.config.url,
         db: this.config.db,
         uid,
-        password: this.config.password,
+        password: this.secret,
       };
+      // A new session may point at an upgraded or restored database
+      this.serverInfo = null;
 
       console.error(`Successfully authenticated with UID: ${uid}`);
     } catch (error) {
@@ -94,6 +150,13 @@ export class OdooClient implements IOdooClient {
     }
   }
 
+  /**
+   * Whether the client currently holds an authenticated session
+   */
+  get isConnected(): boolean {
+    return this.connection !== null;
+  }
+
   private ensureConnected(): OdooConnection {
     if (!this.connection) {
       throw new Error("Not connected. Call connect() first.");
@@ -102,7 +165,49 @@ export class OdooClient implements IOdooClient {
   }
 
   /**
-   * Execute a method on an Odoo model via execute_kw
+   * Run connect(), sharing a single attempt between concurrent callers
+   */
+  private authenticate(): Promise<void> {
+    this.pendingConnect ??= this.connect().finally(() => {
+      this.pendingConnect = null;
+    });
+    return this.pendingConnect;
+  }
+
+  /**
+   * Get the current session, connecting first in lazy-connect mode
+   */
+  private async getConnection(): Promise<OdooConnection> {
+    if (!this.connection && this.options.lazyConnect) {
+      await this.authenticate();
+    }
+    return this.ensureConnected();
+  }
+
+  /**
+   * Replace a session Odoo rejected with a freshly authenticated one
+   */
+  private async reconnect(stale: OdooConnection): Promise<OdooConnection> {
+    // A concurrent call may already have refreshed the session
+    if (this.connection && this.connection !== stale) {
+      return this.connection;
+    }
+
+    this.connection = null;
+    try {
+      await this.authenticate();
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `Odoo rejected the session and re-authentication failed: ${reason}`,
+      );
+    }
+    return this.ensureConnected();
+  }
+
+  /**
+   * Execute a method on an Odoo model via execute_kw.
+   * Faults raised by Odoo are rethrown as typed OdooFault errors.
    */
   async execute<T>(
     model: string,
@@ -110,17 +215,76 @@ export class OdooClient implements IOdooClient {
     args: unknown[] = [],
     kwargs: Record<string, unknown> = {},
   ): Promise<T> {
-    const conn = this.ensureConnected();
-
-    return this.objectClient.methodCall<T>("execute_kw", [
-      conn.db,
-      conn.uid,
-      conn.password,
-      model,
-      method,
-      args,
-      kwargs,
-    ]);
+    try {
+      return await this.executeWithSession<T>(model, method, args, kwargs);
+    } catch (error) {
+      throw parseOdooFault(error, { model, method }) ?? error;
+    }
+  }
+
+  private async executeWithSession<T>(
+    model: string,
+    method: string,
+    args: unknown[],
+    kwargs: Record<string, unknown>,
+  ): Promise<T> {
+    const conn = await this.getConnection();
+    const call = (session: OdooConnection) =>
+      this.objectClient.methodCall<T>("execute_kw", [
+        session.db,
+        session.uid,
+        session.password,
+        model,
+        method,
+        args,
+        kwargs,
+      ]);
+
+    try {
+      return await call(conn);
+    } catch (error) {
+      if (!isSessionError(error)) {
+        throw error;
+      }
+      console.error(`Session rejected by Odoo (${error}), re-authenticating`);
+      return call(await this.reconnect(conn));
+    }
+  }
+
+  /**
+   * Get the server version and installed modules.
+   * Fetched once per session and shared between callers.
+   */
+  async getServerInfo(): Promise<OdooServerInfo> {
+    this.serverInfo ??= this.fetchServerInfo().catch((error: unknown) => {
+      this.serverInfo = null;
+      throw error;
+    });
+    return this.serverInfo;
+  }
+
+  private async fetchServerInfo(): Promise<OdooServerInfo> {
+    const version = await this.commonClient.methodCall<OdooVersionInfo>(
+      "version",
+      [],
+    );
+
+    let modules: Record<string, string> | null = null;
+    try {
+      const records = await this.execute<
+        Array<{ name: string; latest_version: string | false }>
+      >("ir.module.module", "search_read", [[["state", "=", "installed"]]], {
+        fields: ["name", "latest_version"],
+      });
+      modules = Object.fromEntries(
+        records.map((r) => [r.name, r.latest_version || ""]),
+      );
+    } catch (error) {
+      // Non-admin users may not be able to read ir.module.module
+      console.error(`Could not read installed modules: ${error}`);
+    }
+
+    return parseServerInfo(version, modules);
   }
 
   /**
@@ -0,0 +1,268 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MockClientBuilder } from "../test-utils/mock-client.js";
+import {
+  classifyMethod,
+  evaluatePolicy,
+  loadPolicy,
+  type Policy,
+  PolicyEnforcingClient,
+  PolicySchema,
+  PolicyViolationError,
+} from "./policy.js";
+
+function policy(raw: unknown): Policy {
+  return PolicySchema.parse(raw);
+}
+
+describe("classifyMethod", () => {
+  it("classifies CRUD and business methods", () => {
+    expect(classifyMethod("search_read")).toBe("read");
+    expect(classifyMethod("copy")).toBe("create");
+    expect(classifyMethod("write")).toBe("write");
+    expect(classifyMethod("unlink")).toBe("unlink");
+    expect(classifyMethod("action_post")).toBe("execute");
+  });
+});
+
+describe("evaluatePolicy", () => {
+  it("allows everything with an empty policy", () => {
+    expect(evaluatePolicy(policy({}), "res.partner", "unlink")).toEqual({
+      allowed: true,
+      rule: null,
+      ruleIndex: null,
+    });
+  });
+
+  it("matches models and methods with globs", () => {
+    const p = policy({
+      rules: [{ effect: "deny", model: "account.*", method: "action_?ost" }],
+    });
+
+    expect(evaluatePolicy(p, "account.move", "action_post").allowed).toBe(
+      false,
+    );
+    expect(evaluatePolicy(p, "account.move", "write").allowed).toBe(true);
+    expect(evaluatePolicy(p, "accountXmove", "action_post").allowed).toBe(true);
+  });
+
+  it("matches on operation", () => {
+    const p = policy({
+      rules: [{ effect: "deny", model: "account.move", operation: "unlink" }],
+    });
+
+    expect(evaluatePolicy(p, "account.move", "unlink").allowed).toBe(false);
+    expect(evaluatePolicy(p, "account.move", "read").allowed).toBe(true);
+  });
+
+  it("lets deny rules win over allow rules", () => {
+    const p = policy({
+      rules: [
+        { effect: "allow", model: "*" },
+        { name: "no-users", effect: "deny", model: ["res.users"] },
+      ],
+    });
+
+    const decision = evaluatePolicy(p, "res.users", "read");
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.rule?.name).toBe("no-users");
+    expect(decision.ruleIndex).toBe(2);
+  });
+
+  it("denies unmatched calls when the default is deny", () => {
+    const p = policy({
+      default: "deny",
+      rules: [{ effect: "allow", operation: ["read"] }],
+    });
+
+    expect(evaluatePolicy(p, "res.partner", "read").allowed).toBe(true);
+    expect(evaluatePolicy(p, "res.partner", "write")).toEqual({
+      allowed: false,
+      rule: null,
+      ruleIndex: null,
+    });
+  });
+});
+
+describe("PolicyViolationError", () => {
+  it("names the rule and its reason", () => {
+    const p = policy({
+      rules: [
+        {
+          name: "protect-config",
+          effect: "deny",
+          model: "ir.config_parameter",
+          reason: "System parameters are managed by IT",
+        },
+      ],
+    });
+    const error = new PolicyViolationError(
+      "ir.config_parameter",
+      "write",
+      "write",
+      evaluatePolicy(p, "ir.config_parameter", "write"),
+    );
+
+    expect(error.message).toBe(
+      'Policy rule "protect-config" (#1) blocks ir.config_parameter.write (write): System parameters are managed by IT',
+    );
+  });
+
+  it("explains default denials", () => {
+    const p = policy({ default: "deny" });
+    const error = new PolicyViolationError(
+      "res.partner",
+      "read",
+      "read",
+      evaluatePolicy(p, "res.partner", "read"),
+    );
+
+    expect(error.message).toBe(
+      "Policy blocks res.partner.read (read): no rule allows it and the default is deny",
+    );
+  });
+});
+
+describe("loadPolicy", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "odoo-policy-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("returns null when there is no policy file", () => {
+    expect(loadPolicy(path.join(dir, "policy.json"))).toBeNull();
+  });
+
+  it("parses the policy file", () => {
+    const file = path.join(dir, "policy.json");
+    fs.writeFileSync(
+      file,
+      JSON.stringify({
+        rules: [{ effect: "deny", model: "res.users", method: "write" }],
+      }),
+    );
+
+    expect(loadPolicy(file)).toEqual({
+      default: "allow",
+      rules: [{ effect: "deny", model: ["res.users"], method: ["write"] }],
+    });
+  });
+
+  it("rejects invalid policy files", () => {
+    const file = path.join(dir, "policy.json");
+    fs.writeFileSync(file, JSON.stringify({ rules: [{ effect: "maybe" }] }));
+
+    expect(() => loadPolicy(file)).toThrow(`Invalid policy file ${file}`);
+  });
+});
+
+describe("PolicyEnforcingClient", () => {
+  const p = policy({
+    rules: [
+      { effect: "deny", model: "ir.config_parameter" },
+      { effect: "deny", model: "account.move", operation: "unlink" },
+    ],
+  });
+
+  it("blocks denied execute calls before they reach Odoo", async () => {
+    const inner = new MockClientBuilder()
+      .withExecuteResult("account.move", "unlink", true)
+      .build();
+    const spy = vi.spyOn(inner, "execute");
+    const client = new PolicyEnforcingClient(inner, p);
+
+    await expect(
+      client.execute("account.move", "unlink", [[1]]),
+    ).rejects.toBeInstanceOf(PolicyViolationError);
+    expect(spy).not.toHaveBeenCalled();
+  });
+
+  it("passes allowed calls through", async () => {
+    const inner = new MockClientBuilder()
+      .withExecuteResult("account.move", "action_post", true)
+      .build();
+    const client = new PolicyEnforcingClient(inner, p);
+
+    await expect(
+      client.execute("account.move", "action_post", [[1]]),
+    ).resolves.toBe(true);
+  });
+
+  it("checks helper reads against the policy", async () => {
+    const client = new PolicyEnforcingClient(
+      new MockClientBuilder().build(),
+      p,
+    );
+
+    await expect(
+      client.searchRead("ir.config_parameter", []),
+    ).rejects.toBeInstanceOf(PolicyViolationError);
+    await expect(
+      client.readRecords("ir.config_parameter", [1]),
+    ).rejects.toBeInstanceOf(PolicyViolationError);
+    await expect(
+      client.getModelFields("ir.config_parameter"),
+    ).rejects.toBeInstanceOf(PolicyViolationError);
+    await expect(client.searchRead("res.partner", [])).resolves.toEqual([]);
+  });
+
+  it("checks the model list as a search_read on ir.model", async () => {
+    const inner = new MockClientBuilder()
+      .withModels({ model_names: ["res.partner"], models_details: {} })
+      .build();
+    const spy = vi.spyOn(inner, "getModels");
+
+    await expect(
+      new PolicyEnforcingClient(
+        inner,
+        policy({ rules: [{ effect: "deny", model: "ir.model" }] }),
+      ).getModels(),
+    ).rejects.toBeInstanceOf(PolicyViolationError);
+    await expect(
+      new PolicyEnforcingClient(
+        inner,
+        policy({
+          rules: [{ effect: "deny", model: "*", method: "search_read" }],
+        }),
+      ).getModels(),
+    ).rejects.toBeInstanceOf(PolicyViolationError);
+    expect(spy).not.toHaveBeenCalled();
+
+    await expect(
+      new PolicyEnforcingClient(inner, p).getModels(),
+    ).resolves.toEqual({
+      model_names: ["res.partner"],
+      models_details: {},
+    });
+  });
+
+  it("checks model info as a search_read on ir.model", async () => {
+    const info = { id: 1, name: "Contact", model: "res.partner" };
+    const inner = new MockClientBuilder()
+      .withModelInfo("res.partner", info)
+      .build();
+    const spy = vi.spyOn(inner, "getModelInfo");
+
+    await expect(
+      new PolicyEnforcingClient(
+        inner,
+        policy({
+          rules: [{ effect: "deny", model: "ir.model", method: "search_read" }],
+        }),
+      ).getModelInfo("res.partner"),
+    ).rejects.toBeInstanceOf(PolicyViolationError);
+    expect(spy).not.toHaveBeenCalled();
+
+    await expect(
+      new PolicyEnforcingClient(inner, p).getModelInfo("res.partner"),
+    ).resolves.toEqual(info);
+  });
+});
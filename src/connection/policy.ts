@@ -0,0 +1,318 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { z } from "zod";
+import type {
+  Domain,
+  GetModelsResult,
+  IOdooClient,
+  OdooFieldDef,
+  OdooModelInfo,
+  OdooServerInfo,
+  SearchReadOptions,
+} from "../types/index.js";
+
+export const DEFAULT_POLICY_PATH = path.join(
+  process.cwd(),
+  ".odoo-mcp",
+  "policy.json",
+);
+
+/**
+ * What a method does to data, for rules that match on operation
+ */
+export type PolicyOperation =
+  | "read"
+  | "create"
+  | "write"
+  | "unlink"
+  | "execute";
+
+/**
+ * ORM methods that only read data
+ */
+export const READ_METHODS: readonly string[] = [
+  "search",
+  "search_read",
+  "search_count",
+  "search_fetch",
+  "read",
+  "read_group",
+  "formatted_read_group",
+  "web_search_read",
+  "web_read",
+  "web_read_group",
+  "fields_get",
+  "name_search",
+  "name_get",
+  "default_get",
+  "get_views",
+  "fields_view_get",
+  "check_access_rights",
+  "check_access_rule",
+  "has_access",
+];
+
+const CREATE_METHODS = new Set(["create", "copy", "name_create", "load"]);
+
+const WRITE_METHODS = new Set([
+  "write",
+  "toggle_active",
+  "action_archive",
+  "action_unarchive",
+]);
+
+/**
+ * Classify a method; anything not known to be CRUD is a business "execute"
+ */
+export function classifyMethod(method: string): PolicyOperation {
+  if (READ_METHODS.includes(method)) return "read";
+  if (CREATE_METHODS.has(method)) return "create";
+  if (WRITE_METHODS.has(method)) return "write";
+  if (method === "unlink") return "unlink";
+  return "execute";
+}
+
+const patternList = z
+  .union([z.string(), z.array(z.string())])
+  .transform((v) => (Array.isArray(v) ? v : [v]));
+
+const operationSchema = z.enum([
+  "read",
+  "create",
+  "write",
+  "unlink",
+  "execute",
+]);
+
+export const PolicyRuleSchema = z.object({
+  /**
+   * Optional label reported when the rule blocks a call
+   */
+  name: z.string().optional(),
+  effect: z.enum(["allow", "deny"]),
+  /**
+   * Model glob(s), e.g. "account.*". Default: every model.
+   */
+  model: patternList.optional(),
+  /**
+   * Method glob(s), e.g. "action_*". Default: every method.
+   */
+  method: patternList.optional(),
+  operation: z
+    .union([operationSchema, z.array(operationSchema)])
+    .transform((v) => (Array.isArray(v) ? v : [v]))
+    .optional(),
+  /**
+   * Explanation passed back to the agent when the rule blocks a call
+   */
+  reason: z.string().optional(),
+});
+
+export const PolicySchema = z.object({
+  /**
+   * What happens when no rule matches (default: allow)
+   */
+  default: z.enum(["allow", "deny"]).default("allow"),
+  rules: z.array(PolicyRuleSchema).default([]),
+});
+
+export type PolicyRule = z.infer<typeof PolicyRuleSchema>;
+export type Policy = z.infer<typeof PolicySchema>;
+
+/**
+ * Outcome of checking a call against the policy
+ */
+export interface PolicyDecision {
+  allowed: boolean;
+  /**
+   * The rule that decided, or null when the default applied
+   */
+  rule: PolicyRule | null;
+  /**
+   * 1-based position of the rule in the policy file
+   */
+  ruleIndex: number | null;
+}
+
+/**
+ * Raised when the policy blocks a call
+ */
+export class PolicyViolationError extends Error {
+  override name = "PolicyViolationError";
+
+  constructor(
+    readonly model: string,
+    readonly method: string,
+    readonly operation: PolicyOperation,
+    readonly decision: PolicyDecision,
+  ) {
+    super(describeViolation(model, method, operation, decision));
+  }
+}
+
+function describeViolation(
+  model: string,
+  method: string,
+  operation: PolicyOperation,
+  { rule, ruleIndex }: PolicyDecision,
+): string {
+  const call = `${model}.${method} (${operation})`;
+  if (!rule) {
+    return `Policy blocks ${call}: no rule allows it and the default is deny`;
+  }
+  const label = rule.name ? `"${rule.name}" (#${ruleIndex})` : `#${ruleIndex}`;
+  const reason = rule.reason ? `: ${rule.reason}` : "";
+  return `Policy rule ${label} blocks ${call}${reason}`;
+}
+
+function globToRegExp(glob: string): RegExp {
+  const escaped = glob
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\?/g, ".");
+  return new RegExp(`^${escaped}$`);
+}
+
+function matchesAny(value: string, patterns: string[] | undefined): boolean {
+  return !patterns || patterns.some((p) => globToRegExp(p).test(value));
+}
+
+/**
+ * Check a call against the policy. Deny rules win over allow rules; when no
+ * rule matches, the policy default applies.
+ */
+export function evaluatePolicy(
+  policy: Policy,
+  model: string,
+  method: string,
+): PolicyDecision {
+  const operation = classifyMethod(method);
+  let allowedBy: PolicyDecision | null = null;
+
+  for (const [i, rule] of policy.rules.entries()) {
+    const matches =
+      matchesAny(model, rule.model) &&
+      matchesAny(method, rule.method) &&
+      (!rule.operation || rule.operation.includes(operation));
+    if (!matches) continue;
+
+    if (rule.effect === "deny") {
+      return { allowed: false, rule, ruleIndex: i + 1 };
+    }
+    allowedBy ??= { allowed: true, rule, ruleIndex: i + 1 };
+  }
+
+  return (
+    allowedBy ?? {
+      allowed: policy.default === "allow",
+      rule: null,
+      ruleIndex: null,
+    }
+  );
+}
+
+/**
+ * Load the policy file, or null when there is none
+ * @throws Error if the file exists but is not a valid policy
+ */
+export function loadPolicy(
+  filePath: string = DEFAULT_POLICY_PATH,
+): Policy | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    return PolicySchema.parse(parsed);
+  } catch (error) {
+    throw new Error(`Invalid policy file ${filePath}: ${error}`);
+  }
+}
+
+/**
+ * IOdooClient decorator that checks every model call against the policy
+ * before it reaches Odoo. Reads made through helpers count as the ORM method
+ * they use (searchRead as search_read, getModelFields as fields_get,
+ * getModels as search_read on ir.model).
+ */
+export class PolicyEnforcingClient implements IOdooClient {
+  constructor(
+    private inner: IOdooClient,
+    private policy: Policy,
+  ) {}
+
+  private enforce(model: string, method: string): void {
+    const decision = evaluatePolicy(this.policy, model, method);
+    if (!decision.allowed) {
+      throw new PolicyViolationError(
+        model,
+        method,
+        classifyMethod(method),
+        decision,
+      );
+    }
+  }
+
+  async execute<T>(
+    model: string,
+    method: string,
+    args: unknown[] = [],
+    kwargs: Record<string, unknown> = {},
+  ): Promise<T> {
+    this.enforce(model, method);
+    return this.inner.execute<T>(model, method, args, kwargs);
+  }
+
+  async getModels(): Promise<GetModelsResult> {
+    this.enforce("ir.model", "search_read");
+    return this.inner.getModels();
+  }
+
+  async getModelInfo(
+    modelName: string,
+  ): Promise<OdooModelInfo | { error: string }> {
+    this.enforce("ir.model", "search_read");
+    this.enforce(modelName, "fields_get");
+    return this.inner.getModelInfo(modelName);
+  }
+
+  async getModelFields(
+    modelName: string,
+  ): Promise<Record<string, OdooFieldDef> | { error: string }> {
+    this.enforce(modelName, "fields_get");
+    return this.inner.getModelFields(modelName);
+  }
+
+  async searchRead(
+    modelName: string,
+    domain: Domain,
+    options: SearchReadOptions = {},
+  ): Promise<unknown[]> {
+    this.enforce(modelName, "search_read");
+    return this.inner.searchRead(modelName, domain, options);
+  }
+
+  async readRecords(
+    modelName: string,
+    ids: number[],
+    fields?: string[],
+  ): Promise<unknown[]> {
+    this.enforce(modelName, "read");
+    return this.inner.readRecords(modelName, ids, fields);
+  }
+
+  async clearSchemaCache(model?: string): Promise<number> {
+    if (!this.inner.clearSchemaCache) {
+      throw new Error("Schema caching is not enabled on this server");
+    }
+    return this.inner.clearSchemaCache(model);
+  }
+
+  async getServerInfo(): Promise<OdooServerInfo> {
+    if (!this.inner.getServerInfo) {
+      throw new Error("Server information is not available");
+    }
+    return this.inner.getServerInfo();
+  }
+}
@@ -0,0 +1,180 @@
+import { describe, expect, it, vi } from "vitest";
+import { MockClientBuilder } from "../test-utils/mock-client.js";
+import type { IOdooClient, OdooConfig } from "../types/index.js";
+import { createDeferredClient, ProfileManager } from "./profiles.js";
+
+const prodConfig: OdooConfig = {
+  url: "https://prod.odoo.com",
+  db: "prod",
+  username: "admin",
+  api_key: "prod-key",
+};
+
+const stagingConfig: OdooConfig = {
+  url: "https://staging.odoo.com",
+  db: "staging",
+  username: "admin",
+  password: "secret",
+  protocol: "jsonrpc",
+};
+
+function createManager(
+  factory: (name: string, config: OdooConfig) => Promise<IOdooClient>,
+): ProfileManager {
+  return new ProfileManager(
+    {
+      profiles: { prod: prodConfig, staging: stagingConfig },
+      defaultProfile: "prod",
+    },
+    factory,
+  );
+}
+
+describe("ProfileManager", () => {
+  it("lists configured profile names", () => {
+    const manager = createManager(vi.fn());
+
+    expect(manager.names()).toEqual(["prod", "staging"]);
+    expect(manager.defaultProfile).toBe("prod");
+    expect(manager.has("staging")).toBe(true);
+    expect(manager.has("dev")).toBe(false);
+  });
+
+  it("connects profiles lazily and reuses the client", async () => {
+    const client = new MockClientBuilder().build();
+    const factory = vi.fn().mockResolvedValue(client);
+    const manager = createManager(factory);
+
+    expect(factory).not.toHaveBeenCalled();
+
+    expect(await manager.getClient("staging")).toBe(client);
+    expect(await manager.getClient("staging")).toBe(client);
+    expect(factory).toHaveBeenCalledTimes(1);
+    expect(factory).toHaveBeenCalledWith("staging", stagingConfig);
+  });
+
+  it("uses the default profile when no name is given", async () => {
+    const factory = vi.fn().mockResolvedValue(new MockClientBuilder().build());
+    const manager = createManager(factory);
+
+    await manager.getClient();
+
+    expect(factory).toHaveBeenCalledWith("prod", prodConfig);
+  });
+
+  it("retries connecting after a failure", async () => {
+    const client = new MockClientBuilder().build();
+    const factory = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("Connection refused"))
+      .mockResolvedValueOnce(client);
+    const manager = createManager(factory);
+
+    await expect(manager.getClient("prod")).rejects.toThrow(
+      "Connection refused",
+    );
+    expect(await manager.getClient("prod")).toBe(client);
+  });
+
+  it("rejects unknown profiles", async () => {
+    const manager = createManager(vi.fn());
+
+    await expect(manager.getClient("dev")).rejects.toThrow(
+      'Unknown profile "dev". Configured profiles: prod, staging',
+    );
+  });
+
+  it("describes profiles without credentials", async () => {
+    const manager = createManager(vi.fn());
+
+    const status = await manager.describe("staging", false);
+
+    expect(status).toEqual({
+      name: "staging",
+      default: false,
+      url: "https://staging.odoo.com",
+      db: "staging",
+      username: "admin",
+      protocol: "jsonrpc",
+      connected: false,
+    });
+  });
+
+  it("reports reachability of each profile", async () => {
+    const reachable = new MockClientBuilder()
+      .withExecuteResult("res.users", "context_get", { lang: "en_US" })
+      .build();
+    const manager = createManager(async (name) => {
+      if (name === "staging") {
+        throw new Error("Connection refused");
+      }
+      return reachable;
+    });
+
+    const statuses = await manager.listProfiles();
+
+    expect(statuses[0]).toMatchObject({
+      name: "prod",
+      default: true,
+      connected: true,
+      reachable: true,
+    });
+    expect(statuses[1]).toMatchObject({
+      name: "staging",
+      connected: false,
+      reachable: false,
+      error: "Error: Connection refused",
+    });
+  });
+
+  it("wraps a single client with forClient", async () => {
+    const client = new MockClientBuilder().build();
+    const manager = ProfileManager.forClient(client);
+
+    expect(manager.names()).toEqual(["default"]);
+    expect(await manager.getClient()).toBe(client);
+    expect((await manager.describe("default", false)).connected).toBe(true);
+  });
+});
+
+describe("createDeferredClient", () => {
+  it("does not resolve the client until it is used", async () => {
+    const client = new MockClientBuilder()
+      .withExecuteResult("res.partner", "search_count", 3)
+      .build();
+    const resolve = vi.fn().mockResolvedValue(client);
+
+    const deferred = createDeferredClient(resolve);
+    expect(resolve).not.toHaveBeenCalled();
+
+    expect(await deferred.execute("res.partner", "search_count", [[]])).toBe(3);
+    expect(resolve).toHaveBeenCalledTimes(1);
+  });
+
+  it("propagates resolution errors", async () => {
+    const deferred = createDeferredClient(async () => {
+      throw new Error('Unknown profile "dev"');
+    });
+
+    await expect(deferred.getModels()).rejects.toThrow('Unknown profile "dev"');
+  });
+
+  it("forwards schema cache clearing when supported", async () => {
+    const client = new MockClientBuilder().build();
+    client.clearSchemaCache = vi.fn().mockResolvedValue(4);
+
+    expect(
+      await createDeferredClient(async () => client).clearSchemaCache?.(),
+    ).toBe(4);
+  });
+
+  it("rejects schema cache clearing when unsupported", async () => {
+    const deferred = createDeferredClient(async () =>
+      new MockClientBuilder().build(),
+    );
+
+    await expect(deferred.clearSchemaCache?.()).rejects.toThrow(
+      "Schema caching is not enabled",
+    );
+  });
+});
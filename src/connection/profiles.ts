@@ -0,0 +1,240 @@
+import {
+  DEFAULT_PROFILE,
+  type Domain,
+  type GetModelsResult,
+  type IOdooClient,
+  type OdooConfig,
+  type OdooFieldDef,
+  type OdooModelInfo,
+  type OdooProfiles,
+  type OdooServerInfo,
+  type SearchReadOptions,
+} from "../types/index.js";
+
+/**
+ * Creates and connects a client for a named profile
+ */
+export type ProfileClientFactory = (
+  name: string,
+  config: OdooConfig,
+) => Promise<IOdooClient>;
+
+/**
+ * Connection status of a profile, as reported by list_profiles.
+ * Never includes credentials.
+ */
+export interface ProfileStatus {
+  name: string;
+  default: boolean;
+  url?: string;
+  db?: string;
+  username?: string;
+  protocol?: string;
+  connected: boolean;
+  reachable?: boolean;
+  error?: string;
+}
+
+/**
+ * Holds the configured Odoo connection profiles and lazily connects a
+ * client for each one on first use.
+ */
+export class ProfileManager {
+  private configs: Map<string, OdooConfig>;
+  private clients: Map<string, Promise<IOdooClient>> = new Map();
+  private connected: Set<string> = new Set();
+  readonly defaultProfile: string;
+
+  constructor(
+    profiles: OdooProfiles,
+    private createClient: ProfileClientFactory,
+  ) {
+    this.configs = new Map(Object.entries(profiles.profiles));
+    this.defaultProfile = profiles.defaultProfile;
+  }
+
+  /**
+   * Create a manager holding a single already connected client
+   */
+  static forClient(
+    client: IOdooClient,
+    name: string = DEFAULT_PROFILE,
+  ): ProfileManager {
+    const manager = new ProfileManager(
+      { profiles: {}, defaultProfile: name },
+      async (profileName) => {
+        throw new Error(`Profile "${profileName}" has no configuration`);
+      },
+    );
+    manager.setClient(name, client);
+    return manager;
+  }
+
+  /**
+   * Names of all known profiles
+   */
+  names(): string[] {
+    return Array.from(
+      new Set([...this.configs.keys(), ...this.clients.keys()]),
+    ).sort();
+  }
+
+  /**
+   * Check if a profile is known
+   */
+  has(name: string): boolean {
+    return this.configs.has(name) || this.clients.has(name);
+  }
+
+  /**
+   * Register an already connected client for a profile
+   */
+  setClient(name: string, client: IOdooClient): void {
+    this.clients.set(name, Promise.resolve(client));
+    this.connected.add(name);
+  }
+
+  /**
+   * Get the client for a profile, connecting it on first use.
+   * Failed connections are not cached, so the next call retries.
+   */
+  async getClient(name: string = this.defaultProfile): Promise<IOdooClient> {
+    const existing = this.clients.get(name);
+    if (existing) {
+      return existing;
+    }
+
+    const config = this.configs.get(name);
+    if (!config) {
+      throw new Error(
+        `Unknown profile "${name}". Configured profiles: ${this.names().join(", ")}`,
+      );
+    }
+
+    const pending = this.createClient(name, config);
+    this.clients.set(name, pending);
+
+    try {
+      const client = await pending;
+      this.connected.add(name);
+      return client;
+    } catch (error) {
+      this.clients.delete(name);
+      throw error;
+    }
+  }
+
+  /**
+   * Describe every profile, optionally checking that each one is reachable
+   */
+  async listProfiles(checkReachability = true): Promise<ProfileStatus[]> {
+    return Promise.all(
+      this.names().map((name) => this.describe(name, checkReachability)),
+    );
+  }
+
+  /**
+   * Describe a single profile
+   */
+  async describe(
+    name: string,
+    checkReachability = true,
+  ): Promise<ProfileStatus> {
+    const config = this.configs.get(name);
+    const status: ProfileStatus = {
+      name,
+      default: name === this.defaultProfile,
+      connected: this.connected.has(name),
+    };
+
+    if (config) {
+      status.url = config.url;
+      status.db = config.db;
+      status.username = config.username;
+      status.protocol = config.protocol ?? "xmlrpc";
+    }
+
+    if (!checkReachability) {
+      return status;
+    }
+
+    try {
+      const client = await this.getClient(name);
+      await client.execute("res.users", "context_get");
+      status.connected = true;
+      status.reachable = true;
+    } catch (error) {
+      status.reachable = false;
+      status.error = String(error);
+    }
+
+    return status;
+  }
+}
+
+/**
+ * Create an IOdooClient that resolves its underlying client on first use.
+ * Lets tools that never touch Odoo run without forcing a connection.
+ */
+export function createDeferredClient(
+  resolve: () => Promise<IOdooClient>,
+): IOdooClient {
+  return {
+    async execute<T>(
+      model: string,
+      method: string,
+      args?: unknown[],
+      kwargs?: Record<string, unknown>,
+    ): Promise<T> {
+      return (await resolve()).execute<T>(model, method, args, kwargs);
+    },
+
+    async getModels(): Promise<GetModelsResult> {
+      return (await resolve()).getModels();
+    },
+
+    async getModelInfo(
+      modelName: string,
+    ): Promise<OdooModelInfo | { error: string }> {
+      return (await resolve()).getModelInfo(modelName);
+    },
+
+    async getModelFields(
+      modelName: string,
+    ): Promise<Record<string, OdooFieldDef> | { error: string }> {
+      return (await resolve()).getModelFields(modelName);
+    },
+
+    async searchRead(
+      modelName: string,
+      domain: Domain,
+      options?: SearchReadOptions,
+    ): Promise<unknown[]> {
+      return (await resolve()).searchRead(modelName, domain, options);
+    },
+
+    async readRecords(
+      modelName: string,
+      ids: number[],
+      fields?: string[],
+    ): Promise<unknown[]> {
+      return (await resolve()).readRecords(modelName, ids, fields);
+    },
+
+    async clearSchemaCache(model?: string): Promise<number> {
+      const client = await resolve();
+      if (!client.clearSchemaCache) {
+        throw new Error("Schema caching is not enabled on this server");
+      }
+      return client.clearSchemaCache(model);
+    },
+
+    async getServerInfo(): Promise<OdooServerInfo> {
+      const client = await resolve();
+      if (!client.getServerInfo) {
+        throw new Error("Server information is not available");
+      }
+      return client.getServerInfo();
+    },
+  };
+}
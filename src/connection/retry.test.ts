@@ -0,0 +1,159 @@
+import { describe, expect, it, vi } from "vitest";
+import { CircuitBreaker, CircuitOpenError } from "./circuit-breaker.js";
+import {
+  backoffDelay,
+  DEFAULT_RETRY_OPTIONS,
+  ResilientRpcClient,
+} from "./retry.js";
+
+function connectionReset(): Error {
+  return Object.assign(new Error("read ECONNRESET"), { code: "ECONNRESET" });
+}
+
+function executeKw(method: string): unknown[] {
+  return ["db", 2, "secret", "res.partner", method, [[]], {}];
+}
+
+function createClient(
+  methodCall: ReturnType<typeof vi.fn>,
+  breaker = new CircuitBreaker({ failureThreshold: 0 }),
+) {
+  const wait = vi.fn().mockResolvedValue(undefined);
+  const client = new ResilientRpcClient(
+    { methodCall },
+    { ...DEFAULT_RETRY_OPTIONS, maxRetries: 2 },
+    breaker,
+    wait,
+  );
+  return { client, wait };
+}
+
+describe("backoffDelay", () => {
+  const options = { baseDelay: 100, maxDelay: 1000 };
+
+  it("doubles the ceiling on each attempt", () => {
+    expect(backoffDelay(0, options, () => 0.999)).toBe(99);
+    expect(backoffDelay(1, options, () => 0.999)).toBe(199);
+    expect(backoffDelay(2, options, () => 0.999)).toBe(399);
+  });
+
+  it("caps the delay at maxDelay", () => {
+    expect(backoffDelay(10, options, () => 0.999)).toBe(999);
+  });
+
+  it("applies jitter", () => {
+    expect(backoffDelay(2, options, () => 0.5)).toBe(200);
+    expect(backoffDelay(2, options, () => 0)).toBe(0);
+  });
+});
+
+describe("ResilientRpcClient", () => {
+  it("retries idempotent methods after transient failures", async () => {
+    const methodCall = vi
+      .fn()
+      .mockRejectedValueOnce(connectionReset())
+      .mockResolvedValueOnce([{ id: 1 }]);
+    const { client, wait } = createClient(methodCall);
+
+    const result = await client.methodCall(
+      "execute_kw",
+      executeKw("search_read"),
+    );
+
+    expect(result).toEqual([{ id: 1 }]);
+    expect(methodCall).toHaveBeenCalledTimes(2);
+    expect(wait).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries serialization failures", async () => {
+    const methodCall = vi
+      .fn()
+      .mockRejectedValueOnce(
+        Object.assign(new Error("XML-RPC fault: could not serialize access"), {
+          faultCode: 1,
+          faultString:
+            "psycopg2.errors.SerializationFailure: could not serialize access due to concurrent update",
+        }),
+      )
+      .mockResolvedValueOnce(3);
+    const { client } = createClient(methodCall);
+
+    expect(
+      await client.methodCall("execute_kw", executeKw("search_count")),
+    ).toBe(3);
+  });
+
+  it("does not retry non-idempotent methods", async () => {
+    const methodCall = vi.fn().mockRejectedValue(connectionReset());
+    const { client } = createClient(methodCall);
+
+    await expect(
+      client.methodCall("execute_kw", executeKw("create")),
+    ).rejects.toThrow("ECONNRESET");
+    expect(methodCall).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not retry Odoo faults", async () => {
+    const methodCall = vi
+      .fn()
+      .mockRejectedValue(new Error("XML-RPC fault: Invalid field"));
+    const { client } = createClient(methodCall);
+
+    await expect(
+      client.methodCall("execute_kw", executeKw("read")),
+    ).rejects.toThrow("Invalid field");
+    expect(methodCall).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up after maxRetries", async () => {
+    const methodCall = vi.fn().mockRejectedValue(connectionReset());
+    const { client } = createClient(methodCall);
+
+    await expect(
+      client.methodCall("execute_kw", executeKw("read")),
+    ).rejects.toThrow("ECONNRESET");
+    expect(methodCall).toHaveBeenCalledTimes(3);
+  });
+
+  it("retries read-only service calls", async () => {
+    const methodCall = vi
+      .fn()
+      .mockRejectedValueOnce(connectionReset())
+      .mockResolvedValueOnce(2);
+    const { client } = createClient(methodCall);
+
+    expect(
+      await client.methodCall("authenticate", ["db", "admin", "secret", {}]),
+    ).toBe(2);
+  });
+
+  it("fails fast once the circuit opens", async () => {
+    const methodCall = vi.fn().mockRejectedValue(connectionReset());
+    const breaker = new CircuitBreaker({
+      failureThreshold: 2,
+      resetTimeout: 60000,
+    });
+    const { client } = createClient(methodCall, breaker);
+
+    await expect(
+      client.methodCall("execute_kw", executeKw("read")),
+    ).rejects.toThrow(CircuitOpenError);
+    expect(methodCall).toHaveBeenCalledTimes(2);
+
+    await expect(
+      client.methodCall("execute_kw", executeKw("create")),
+    ).rejects.toThrow(CircuitOpenError);
+    expect(methodCall).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not count Odoo faults towards the circuit", async () => {
+    const methodCall = vi.fn().mockRejectedValue(new Error("XML-RPC fault"));
+    const breaker = new CircuitBreaker({ failureThreshold: 1 });
+    const { client } = createClient(methodCall, breaker);
+
+    await expect(
+      client.methodCall("execute_kw", executeKw("write")),
+    ).rejects.toThrow("XML-RPC fault");
+    expect(breaker.state).toBe("closed");
+  });
+});
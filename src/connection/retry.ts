@@ -0,0 +1,119 @@
+import type { CircuitBreaker } from "./circuit-breaker.js";
+import { isConnectionError, isTransientError } from "./errors.js";
+import type { RpcClient } from "./transport.js";
+
+export interface RetryOptions {
+  /**
+   * Retries after the first attempt (0 disables retrying)
+   */
+  maxRetries: number;
+  /**
+   * Backoff ceiling for the first retry in ms; doubles on each attempt
+   */
+  baseDelay: number;
+  /**
+   * Upper bound for any single backoff in ms
+   */
+  maxDelay: number;
+  /**
+   * ORM methods that are safe to repeat
+   */
+  methods: string[];
+}
+
+export const DEFAULT_RETRY_METHODS = [
+  "read",
+  "search_read",
+  "fields_get",
+  "search_count",
+];
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelay: 250,
+  maxDelay: 5000,
+  methods: DEFAULT_RETRY_METHODS,
+};
+
+/**
+ * Service calls outside execute_kw that only read state
+ */
+const READ_ONLY_SERVICE_METHODS = new Set(["authenticate", "login", "version"]);
+
+/**
+ * Full-jitter exponential backoff: a random delay between zero and
+ * baseDelay * 2^attempt, capped at maxDelay
+ */
+export function backoffDelay(
+  attempt: number,
+  options: Pick<RetryOptions, "baseDelay" | "maxDelay">,
+  random: () => number = Math.random,
+): number {
+  const ceiling = Math.min(options.maxDelay, options.baseDelay * 2 ** attempt);
+  return Math.floor(random() * ceiling);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * RpcClient decorator that retries transient failures of idempotent calls
+ * and consults a circuit breaker before every attempt.
+ */
+export class ResilientRpcClient implements RpcClient {
+  private methods: Set<string>;
+
+  constructor(
+    private inner: RpcClient,
+    private options: RetryOptions,
+    private breaker: CircuitBreaker,
+    private wait: (ms: number) => Promise<void> = sleep,
+  ) {
+    this.methods = new Set(options.methods);
+  }
+
+  async methodCall<T>(method: string, params: unknown[]): Promise<T> {
+    const retryable = this.isRetryable(method, params);
+
+    for (let attempt = 0; ; attempt++) {
+      this.breaker.beforeCall();
+
+      try {
+        const result = await this.inner.methodCall<T>(method, params);
+        this.breaker.recordSuccess();
+        return result;
+      } catch (error) {
+        if (isConnectionError(error)) {
+          this.breaker.recordFailure();
+        } else {
+          // Odoo answered, so it is up
+          this.breaker.recordSuccess();
+        }
+
+        if (
+          !retryable ||
+          attempt >= this.options.maxRetries ||
+          !isTransientError(error)
+        ) {
+          throw error;
+        }
+
+        const delay = backoffDelay(attempt, this.options);
+        console.error(
+          `Transient Odoo error (${error}), retry ${attempt + 1}/${this.options.maxRetries} in ${delay}ms`,
+        );
+        await this.wait(delay);
+      }
+    }
+  }
+
+  private isRetryable(method: string, params: unknown[]): boolean {
+    if (method === "execute_kw" || method === "execute") {
+      // [db, uid, secret, model, method, ...]
+      const ormMethod = params[4];
+      return typeof ormMethod === "string" && this.methods.has(ormMethod);
+    }
+    return READ_ONLY_SERVICE_METHODS.has(method);
+  }
+}
@@ -0,0 +1,255 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { IOdooClient } from "../types/index.js";
+import {
+  type Snapshot,
+  SnapshotStore,
+  SnapshottingClient,
+} from "./snapshots.js";
+
+const partnerFields = {
+  id: { type: "integer", string: "ID" },
+  name: { type: "char", string: "Name" },
+  email: { type: "char", string: "Email" },
+  display_name: { type: "char", string: "Display Name", store: false },
+  image_1920: { type: "binary", string: "Image" },
+};
+
+function snapshot(overrides: Partial<Snapshot> = {}): Snapshot {
+  return {
+    operation_id: "op-1",
+    created_at: "2025-01-14T10:00:00.000Z",
+    tool: "execute_method",
+    profile: "default",
+    undone_at: null,
+    steps: [],
+    ...overrides,
+  };
+}
+
+describe("SnapshotStore", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "odoo-snapshots-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("saves and loads snapshots by operation ID", () => {
+    const store = new SnapshotStore({ directory: dir, retention: 60_000 });
+
+    store.save(snapshot());
+
+    expect(store.load("op-1")).toEqual(snapshot());
+    expect(store.load("op-2")).toBeNull();
+  });
+
+  it("deletes snapshots", () => {
+    const store = new SnapshotStore({ directory: dir, retention: 60_000 });
+    store.save(snapshot());
+
+    store.delete("op-1");
+
+    expect(store.load("op-1")).toBeNull();
+  });
+
+  it("rejects operation IDs that are not plain names", () => {
+    const store = new SnapshotStore({ directory: dir, retention: 60_000 });
+
+    expect(store.load("../policy")).toBeNull();
+  });
+
+  it("prunes snapshots older than the retention", () => {
+    const store = new SnapshotStore({ directory: dir, retention: 60_000 });
+    store.save(snapshot({ operation_id: "old" }));
+    const past = new Date(Date.now() - 120_000);
+    fs.utimesSync(path.join(dir, "old.json"), past, past);
+
+    store.save(snapshot({ operation_id: "new" }));
+
+    expect(store.load("old")).toBeNull();
+    expect(store.load("new")).not.toBeNull();
+  });
+});
+
+describe("SnapshottingClient", () => {
+  let inner: IOdooClient;
+  let store: SnapshotStore;
+  let save: ReturnType<typeof vi.spyOn>;
+  let saved: Snapshot[];
+
+  beforeEach(() => {
+    inner = {
+      execute: vi.fn(async (_model: string, method: string) =>
+        method === "read"
+          ? [{ id: 1, name: "Old", email: "old@example.com" }]
+          : true,
+      ) as IOdooClient["execute"],
+      getModels: vi.fn(),
+      getModelInfo: vi.fn(),
+      getModelFields: vi.fn().mockResolvedValue(partnerFields),
+      searchRead: vi.fn(),
+      readRecords: vi.fn(),
+    };
+    store = new SnapshotStore({ directory: "/unused", retention: 0 });
+    saved = [];
+    save = vi
+      .spyOn(store, "save")
+      .mockImplementation((s: Snapshot) => saved.push(structuredClone(s)));
+    vi.spyOn(store, "delete").mockImplementation(() => {});
+  });
+
+  function client(): SnapshottingClient {
+    return new SnapshottingClient(
+      inner,
+      store,
+      { tool: "execute_method", profile: "default" },
+      () => "op-1",
+    );
+  }
+
+  it("reads the written fields before a write", async () => {
+    const c = client();
+
+    await c.execute("res.partner", "write", [[1], { name: "New" }]);
+
+    expect(inner.execute).toHaveBeenNthCalledWith(
+      1,
+      "res.partner",
+      "read",
+      [[1]],
+      { fields: ["name"], context: { active_test: false } },
+    );
+    expect(c.operationId).toBe("op-1");
+    expect(saved[1]).toEqual(
+      expect.objectContaining({
+        operation_id: "op-1",
+        tool: "execute_method",
+        steps: [
+          {
+            model: "res.partner",
+            method: "write",
+            ids: [1],
+            fields: { name: { type: "char", store: true } },
+            records: [{ id: 1, name: "Old", email: "old@example.com" }],
+            skipped_fields: {},
+          },
+        ],
+      }),
+    );
+  });
+
+  it("captures stored fields before an unlink and reports skipped ones", async () => {
+    const c = client();
+
+    await c.execute("res.partner", "unlink", [[1]]);
+
+    const step = saved[0]?.steps[0];
+    expect(Object.keys(step?.fields ?? {})).toEqual(["name", "email"]);
+    expect(step?.skipped_fields).toEqual({
+      image_1920: "binary fields are not captured",
+    });
+  });
+
+  it("groups every change of one client under one operation", async () => {
+    const c = client();
+
+    await c.execute("res.partner", "write", [[1], { name: "A" }]);
+    await c.execute("res.partner", "unlink", [[1]]);
+
+    expect(saved.at(-1)?.steps.map((s) => s.method)).toEqual([
+      "write",
+      "unlink",
+    ]);
+  });
+
+  it("saves the step as pending before the write and finalizes it after", async () => {
+    vi.mocked(inner.getModelFields).mockResolvedValue({
+      ...partnerFields,
+      write_date: { type: "datetime", string: "Last Updated on" },
+    });
+    vi.mocked(inner.execute).mockImplementation(async (_m, method, _a, kw) => {
+      if (method !== "read") return true;
+      const fields = (kw as { fields: string[] }).fields;
+      return fields.includes("name")
+        ? [{ id: 1, name: "Old", write_date: "2025-01-14 09:00:00" }]
+        : [{ id: 1, write_date: "2025-01-14 10:00:00" }];
+    });
+    const c = client();
+
+    await c.execute("res.partner", "write", [[1], { name: "New" }]);
+
+    expect(inner.execute).toHaveBeenNthCalledWith(
+      1,
+      "res.partner",
+      "read",
+      [[1]],
+      { fields: ["name", "write_date"], context: { active_test: false } },
+    );
+    expect(saved[0]?.steps[0]?.pending).toBe(true);
+    expect(save.mock.invocationCallOrder[0]).toBeLessThan(
+      vi.mocked(inner.execute).mock.invocationCallOrder[1] as number,
+    );
+    expect(saved[1]?.steps[0]).toMatchObject({
+      write_dates: { "1": "2025-01-14 10:00:00" },
+    });
+    expect(saved[1]?.steps[0]?.pending).toBeUndefined();
+  });
+
+  it("does not write when the snapshot cannot be saved", async () => {
+    save.mockImplementation(() => {
+      throw new Error("disk full");
+    });
+    const c = client();
+
+    await expect(
+      c.execute("res.partner", "write", [[1], { name: "New" }]),
+    ).rejects.toThrow("disk full");
+
+    expect(inner.execute).not.toHaveBeenCalledWith(
+      "res.partner",
+      "write",
+      expect.anything(),
+      expect.anything(),
+    );
+    expect(c.operationId).toBeNull();
+  });
+
+  it("keeps the result of a write whose snapshot cannot be finalized", async () => {
+    save
+      .mockImplementationOnce((s: Snapshot) => saved.push(structuredClone(s)))
+      .mockImplementationOnce(() => {
+        throw new Error("disk full");
+      });
+    const c = client();
+
+    await expect(
+      c.execute("res.partner", "write", [[1], { name: "New" }]),
+    ).resolves.toBe(true);
+
+    expect(saved[0]?.steps[0]?.pending).toBe(true);
+    expect(c.operationId).toBe("op-1");
+  });
+
+  it("discards the snapshot of failed calls and ignores other methods", async () => {
+    vi.mocked(inner.execute).mockImplementation(async (_m, method) => {
+      if (method === "write") throw new Error("denied");
+      return [];
+    });
+    const c = client();
+
+    await expect(
+      c.execute("res.partner", "write", [[1], { name: "A" }]),
+    ).rejects.toThrow("denied");
+    await c.execute("res.partner", "create", [{ name: "A" }]);
+
+    expect(save).toHaveBeenCalledTimes(1);
+    expect(store.delete).toHaveBeenCalledWith("op-1");
+    expect(c.operationId).toBeNull();
+  });
+});
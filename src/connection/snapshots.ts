@@ -0,0 +1,389 @@
+import { randomUUID } from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type {
+  Domain,
+  GetModelsResult,
+  IOdooClient,
+  OdooFieldDef,
+  OdooModelInfo,
+  OdooServerInfo,
+  SearchReadOptions,
+} from "../types/index.js";
+
+export interface SnapshotStoreOptions {
+  /**
+   * Directory holding one <operation_id>.json file per operation
+   */
+  directory: string;
+  /**
+   * How long snapshots are kept, in ms
+   */
+  retention: number;
+}
+
+export const DEFAULT_SNAPSHOT_DIR = path.join(
+  process.cwd(),
+  ".odoo-mcp",
+  "snapshots",
+);
+
+export const DEFAULT_SNAPSHOT_RETENTION = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Fields Odoo maintains itself, never captured or restored
+ */
+const MAGIC_FIELDS = new Set([
+  "id",
+  "display_name",
+  "create_uid",
+  "create_date",
+  "write_uid",
+  "write_date",
+  "__last_update",
+]);
+
+/**
+ * Records as they were before one write or unlink call
+ */
+export interface SnapshotStep {
+  model: string;
+  method: "write" | "unlink";
+  ids: number[];
+  /**
+   * Type, storage and writability of each captured field, needed to
+   * restore values
+   */
+  fields: Record<string, { type: string; store: boolean; readonly?: boolean }>;
+  records: Array<Record<string, unknown>>;
+  /**
+   * Fields left out of the snapshot, with the reason
+   */
+  skipped_fields: Record<string, string>;
+  /**
+   * Set while the call is in flight, and left set if it could not be
+   * finalized: the change may or may not have been applied
+   */
+  pending?: boolean;
+  /**
+   * write_date of each written record right after the write, by ID, to
+   * tell whether it was edited again since
+   */
+  write_dates?: Record<string, string>;
+}
+
+/**
+ * Before-images of every write and unlink made by one tool call
+ */
+export interface Snapshot {
+  operation_id: string;
+  created_at: string;
+  tool: string | null;
+  profile: string | null;
+  undone_at: string | null;
+  steps: SnapshotStep[];
+}
+
+const OPERATION_ID = /^[\w-]+$/;
+
+/**
+ * Snapshots stored as JSON files, pruned once older than the retention
+ */
+export class SnapshotStore {
+  constructor(
+    private options: SnapshotStoreOptions,
+    private now: () => number = Date.now,
+  ) {}
+
+  save(snapshot: Snapshot): void {
+    fs.mkdirSync(this.options.directory, { recursive: true });
+    fs.writeFileSync(
+      this.file(snapshot.operation_id),
+      JSON.stringify(snapshot),
+    );
+    this.prune();
+  }
+
+  delete(operationId: string): void {
+    if (OPERATION_ID.test(operationId)) {
+      fs.rmSync(this.file(operationId), { force: true });
+    }
+  }
+
+  /**
+   * Load a snapshot, or null when it does not exist or has expired
+   */
+  load(operationId: string): Snapshot | null {
+    if (!OPERATION_ID.test(operationId)) {
+      return null;
+    }
+    const file = this.file(operationId);
+    if (!fs.existsSync(file)) {
+      return null;
+    }
+    return JSON.parse(fs.readFileSync(file, "utf-8")) as Snapshot;
+  }
+
+  private file(operationId: string): string {
+    return path.join(this.options.directory, `${operationId}.json`);
+  }
+
+  private prune(): void {
+    const cutoff = this.now() - this.options.retention;
+    for (const name of fs.readdirSync(this.options.directory)) {
+      const file = path.join(this.options.directory, name);
+      if (name.endsWith(".json") && fs.statSync(file).mtimeMs < cutoff) {
+        fs.rmSync(file, { force: true });
+      }
+    }
+  }
+}
+
+function toIds(value: unknown): number[] {
+  if (typeof value === "number") {
+    return [value];
+  }
+  if (Array.isArray(value) && value.every((v) => typeof v === "number")) {
+    return value;
+  }
+  return [];
+}
+
+/**
+ * Pick the fields worth capturing; everything else is reported as skipped
+ */
+function captureFields(
+  defs: Record<string, OdooFieldDef>,
+  names: string[],
+): Pick<SnapshotStep, "fields" | "skipped_fields"> {
+  const fields: SnapshotStep["fields"] = {};
+  const skipped: Record<string, string> = {};
+
+  for (const name of names) {
+    const def = defs[name];
+    if (MAGIC_FIELDS.has(name)) continue;
+    if (!def) {
+      skipped[name] = "unknown field";
+    } else if (def.type === "binary") {
+      skipped[name] = "binary fields are not captured";
+    } else {
+      fields[name] = {
+        type: def.type,
+        store: def.store !== false,
+        ...(def.readonly && { readonly: true }),
+      };
+    }
+  }
+
+  return { fields, skipped_fields: skipped };
+}
+
+/**
+ * IOdooClient decorator that reads the affected records before each write
+ * or unlink and stores them as one snapshot per client, so the change can be
+ * undone. Each step is saved as pending before the call is made and
+ * finalized once it returns, so a change is never made without its
+ * before-image on disk. Create one per tool call; operationId is set after
+ * the first snapshotted call succeeds.
+ */
+export class SnapshottingClient implements IOdooClient {
+  private snapshot: Snapshot | null = null;
+
+  constructor(
+    private inner: IOdooClient,
+    private store: SnapshotStore,
+    private context: { tool: string | null; profile: string | null },
+    private newId: () => string = randomUUID,
+  ) {}
+
+  get operationId(): string | null {
+    return this.snapshot?.operation_id ?? null;
+  }
+
+  async execute<T>(
+    model: string,
+    method: string,
+    args: unknown[] = [],
+    kwargs: Record<string, unknown> = {},
+  ): Promise<T> {
+    if (method !== "write" && method !== "unlink") {
+      return this.inner.execute<T>(model, method, args, kwargs);
+    }
+
+    const step = await this.capture(model, method, args, kwargs);
+    if (!step) {
+      return this.inner.execute<T>(model, method, args, kwargs);
+    }
+
+    const snapshot = this.snapshot ?? {
+      operation_id: this.newId(),
+      created_at: new Date().toISOString(),
+      tool: this.context.tool,
+      profile: this.context.profile,
+      undone_at: null,
+      steps: [],
+    };
+    snapshot.steps.push({ ...step, pending: true });
+    try {
+      this.store.save(snapshot);
+    } catch (error) {
+      snapshot.steps.pop();
+      throw error;
+    }
+    this.snapshot = snapshot;
+
+    let result: T;
+    try {
+      result = await this.inner.execute<T>(model, method, args, kwargs);
+    } catch (error) {
+      this.discardPending(snapshot);
+      throw error;
+    }
+    await this.finalize(snapshot, step);
+    return result;
+  }
+
+  /**
+   * Drop the pending step of a call that failed
+   */
+  private discardPending(snapshot: Snapshot): void {
+    snapshot.steps.pop();
+    if (snapshot.steps.length === 0) {
+      this.snapshot = null;
+    }
+    try {
+      if (snapshot.steps.length > 0) {
+        this.store.save(snapshot);
+      } else {
+        this.store.delete(snapshot.operation_id);
+      }
+    } catch {
+      // The step stays pending; undo skips the records it never changed
+    }
+  }
+
+  /**
+   * Record the write_dates the call left and clear the pending flag. The
+   * change is already made, so a failure here leaves the step pending on
+   * disk rather than failing the call.
+   */
+  private async finalize(
+    snapshot: Snapshot,
+    step: SnapshotStep,
+  ): Promise<void> {
+    const done: SnapshotStep = { ...step };
+    snapshot.steps[snapshot.steps.length - 1] = done;
+    try {
+      if (step.records.some((record) => "write_date" in record)) {
+        const records = await this.inner.execute<
+          Array<{ id: number; write_date?: string }>
+        >(step.model, "read", [step.ids], {
+          fields: ["write_date"],
+          context: { active_test: false },
+        });
+        done.write_dates = Object.fromEntries(
+          records
+            .filter((record) => typeof record.write_date === "string")
+            .map((record) => [String(record.id), record.write_date as string]),
+        );
+      }
+      this.store.save(snapshot);
+    } catch {
+      // The pending before-image on disk is still enough to undo
+    }
+  }
+
+  private async capture(
+    model: string,
+    method: "write" | "unlink",
+    args: unknown[],
+    kwargs: Record<string, unknown>,
+  ): Promise<SnapshotStep | null> {
+    const ids = toIds(args[0] ?? kwargs.ids);
+    if (ids.length === 0) {
+      return null;
+    }
+
+    const defs = await this.inner.getModelFields(model);
+    if ("error" in defs && typeof defs.error === "string") {
+      throw new Error(`Cannot snapshot ${model}: ${defs.error}`);
+    }
+    const fieldDefs = defs as Record<string, OdooFieldDef>;
+
+    let names: string[];
+    if (method === "write") {
+      const vals = (args[1] ?? kwargs.vals ?? {}) as Record<string, unknown>;
+      names = Object.keys(vals);
+    } else {
+      // Everything stored, so the record can be recreated
+      names = Object.keys(fieldDefs).filter(
+        (name) => fieldDefs[name]?.store !== false,
+      );
+    }
+
+    const { fields, skipped_fields } = captureFields(fieldDefs, names);
+    // write_date is read alongside but never restored: undo compares it
+    // to tell whether a pending write was applied
+    const readFields =
+      method === "write" && "write_date" in fieldDefs
+        ? [...Object.keys(fields), "write_date"]
+        : Object.keys(fields);
+    const records =
+      Object.keys(fields).length > 0
+        ? await this.inner.execute<Array<Record<string, unknown>>>(
+            model,
+            "read",
+            [ids],
+            { fields: readFields, context: { active_test: false } },
+          )
+        : ids.map((id) => ({ id }));
+
+    return { model, method, ids, fields, records, skipped_fields };
+  }
+
+  async getModels(): Promise<GetModelsResult> {
+    return this.inner.getModels();
+  }
+
+  async getModelInfo(
+    modelName: string,
+  ): Promise<OdooModelInfo | { error: string }> {
+    return this.inner.getModelInfo(modelName);
+  }
+
+  async getModelFields(
+    modelName: string,
+  ): Promise<Record<string, OdooFieldDef> | { error: string }> {
+    return this.inner.getModelFields(modelName);
+  }
+
+  async searchRead(
+    modelName: string,
+    domain: Domain,
+    options: SearchReadOptions = {},
+  ): Promise<unknown[]> {
+    return this.inner.searchRead(modelName, domain, options);
+  }
+
+  async readRecords(
+    modelName: string,
+    ids: number[],
+    fields?: string[],
+  ): Promise<unknown[]> {
+    return this.inner.readRecords(modelName, ids, fields);
+  }
+
+  async clearSchemaCache(model?: string): Promise<number> {
+    if (!this.inner.clearSchemaCache) {
+      throw new Error("Schema caching is not enabled on this server");
+    }
+    return this.inner.clearSchemaCache(model);
+  }
+
+  async getServerInfo(): Promise<OdooServerInfo> {
+    if (!this.inner.getServerInfo) {
+      throw new Error("Server information is not available");
+    }
+    return this.inner.getServerInfo();
+  }
+}
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MockClientBuilder } from "../test-utils/index.js";
+import type { IOdooClient } from "../types/index.js";
+import { SubscriptionManager } from "./subscriptions.js";
+
+const ORDER_URI = "odoo://record/sale.order/7";
+
+describe("SubscriptionManager", () => {
+  let client: IOdooClient;
+  let searchRead: ReturnType<typeof vi.fn>;
+  let notify: ReturnType<typeof vi.fn>;
+  let manager: SubscriptionManager;
+
+  beforeEach(() => {
+    client = new MockClientBuilder().build();
+    searchRead = vi
+      .fn()
+      .mockResolvedValue([{ id: 7, write_date: "2025-01-14 10:00:00" }]);
+    client.searchRead = searchRead;
+    notify = vi.fn().mockResolvedValue(undefined);
+    manager = new SubscriptionManager(() => client, notify, {
+      interval: 60 * 1000,
+      maxRecords: 20,
+    });
+  });
+
+  afterEach(() => {
+    manager.close();
+  });
+
+  it("notifies when a subscribed record's write_date changes", async () => {
+    await manager.subscribe(ORDER_URI);
+
+    await manager.poll();
+    expect(notify).not.toHaveBeenCalled();
+
+    searchRead.mockResolvedValue([
+      { id: 7, write_date: "2025-01-14 11:00:00" },
+    ]);
+    await manager.poll();
+
+    expect(notify).toHaveBeenCalledExactlyOnceWith(ORDER_URI);
+    expect(searchRead).toHaveBeenCalledWith("sale.order", [["id", "=", 7]], {
+      fields: ["write_date"],
+    });
+  });
+
+  it("notifies when a subscribed record is deleted", async () => {
+    await manager.subscribe(ORDER_URI);
+
+    searchRead.mockResolvedValue([]);
+    await manager.poll();
+
+    expect(notify).toHaveBeenCalledWith(ORDER_URI);
+  });
+
+  it("notifies when the records matching a search change", async () => {
+    const uri = `odoo://search/account.move/${encodeURIComponent('[["payment_state","=","paid"]]')}`;
+    await manager.subscribe(uri);
+
+    searchRead.mockResolvedValue([
+      { id: 7, write_date: "2025-01-14 10:00:00" },
+      { id: 9, write_date: "2025-01-14 12:00:00" },
+    ]);
+    await manager.poll();
+
+    expect(notify).toHaveBeenCalledWith(uri);
+    expect(searchRead).toHaveBeenCalledWith(
+      "account.move",
+      [["payment_state", "=", "paid"]],
+      { fields: ["write_date"], limit: 10, offset: 0 },
+    );
+  });
+
+  it("stops notifying after unsubscribe", async () => {
+    await manager.subscribe(ORDER_URI);
+    manager.unsubscribe(ORDER_URI);
+
+    searchRead.mockResolvedValue([]);
+    await manager.poll();
+
+    expect(notify).not.toHaveBeenCalled();
+  });
+
+  it("keeps watching when a check fails", async () => {
+    await manager.subscribe(ORDER_URI);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    searchRead.mockRejectedValueOnce(new Error("offline"));
+    await manager.poll();
+    expect(notify).not.toHaveBeenCalled();
+
+    searchRead.mockResolvedValue([]);
+    await manager.poll();
+    expect(notify).toHaveBeenCalledWith(ORDER_URI);
+  });
+
+  it("watches the same page as a paged search resource", async () => {
+    await manager.subscribe(
+      `odoo://search/sale.order/${encodeURIComponent("[]")}?limit=5&offset=10&order=name`,
+    );
+
+    expect(searchRead).toHaveBeenCalledWith("sale.order", [], {
+      fields: ["write_date"],
+      limit: 5,
+      offset: 10,
+      order: "name",
+    });
+    expect(manager.watchedRecords).toBe(5);
+  });
+
+  it("rejects resources that cannot be watched", async () => {
+    await expect(manager.subscribe("odoo://models")).rejects.toThrow(
+      "only odoo://record and odoo://search",
+    );
+  });
+
+  it("caps the records watched per session", async () => {
+    await manager.subscribe(
+      `odoo://search/sale.order/${encodeURIComponent("[]")}`,
+    );
+    for (let id = 1; id <= 10; id++) {
+      await manager.subscribe(`odoo://record/sale.order/${id}`);
+    }
+
+    expect(manager.watchedRecords).toBe(20);
+    await expect(
+      manager.subscribe("odoo://record/sale.order/11"),
+    ).rejects.toThrow("at most 20 records");
+  });
+
+  it("polls on the configured interval", async () => {
+    vi.useFakeTimers();
+    try {
+      await manager.subscribe(ORDER_URI);
+      searchRead.mockResolvedValue([]);
+
+      await vi.advanceTimersByTimeAsync(60 * 1000);
+
+      expect(notify).toHaveBeenCalledWith(ORDER_URI);
+    } finally {
+      manager.close();
+      vi.useRealTimers();
+    }
+  });
+});
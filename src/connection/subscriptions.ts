@@ -0,0 +1,222 @@
+import {
+  parseSearchResource,
+  type SearchResourceQuery,
+} from "../resources/odoo-resources.js";
+import type { IOdooClient, SearchReadOptions } from "../types/index.js";
+
+export interface SubscriptionOptions {
+  /**
+   * How often subscribed resources are checked for changes, in ms
+   */
+  interval: number;
+  /**
+   * Most records one session may watch
+   */
+  maxRecords: number;
+}
+
+export const DEFAULT_SUBSCRIPTION_INTERVAL = 30 * 1000;
+
+export const DEFAULT_SUBSCRIPTION_MAX_RECORDS = 200;
+
+const RECORD_URI = /^odoo:\/\/record\/([^/]+)\/(\d+)$/;
+
+const SEARCH_URI = /^odoo:\/\/search\/([^/]+)\/(.+)$/;
+
+type Watch =
+  | { kind: "record"; model: string; id: number }
+  | { kind: "search"; model: string; query: SearchResourceQuery };
+
+interface Subscription {
+  watch: Watch;
+  /**
+   * IDs and write dates last seen; null until the first check succeeds
+   */
+  fingerprint: string | null;
+}
+
+/**
+ * Work out what a resource URI watches, or throw when it cannot be
+ * subscribed to
+ */
+function parseWatch(uri: string): Watch {
+  const record = RECORD_URI.exec(uri);
+  if (record?.[1] && record[2]) {
+    return { kind: "record", model: record[1], id: Number(record[2]) };
+  }
+
+  const search = SEARCH_URI.exec(uri);
+  if (search?.[1] && search[2]) {
+    let query: SearchResourceQuery;
+    try {
+      query = parseSearchResource(search[2]);
+    } catch (error) {
+      throw new Error(`Cannot subscribe to ${uri}: ${error}`);
+    }
+    return { kind: "search", model: search[1], query };
+  }
+
+  throw new Error(
+    `Cannot subscribe to ${uri}: only odoo://record and odoo://search resources notify on changes`,
+  );
+}
+
+function watchedRecords(watch: Watch): number {
+  return watch.kind === "record" ? 1 : watch.query.limit;
+}
+
+function fingerprintOf(records: unknown[]): string {
+  return JSON.stringify(
+    (records as Array<{ id: number; write_date?: unknown }>).map((r) => [
+      r.id,
+      r.write_date ?? null,
+    ]),
+  );
+}
+
+/**
+ * Watches subscribed odoo://record and odoo://search resources by polling
+ * write_date, and calls notify with the URI of each one that changed
+ * (including records that were deleted or no longer match).
+ * Create one per session and close it when the session ends.
+ */
+export class SubscriptionManager {
+  private subscriptions = new Map<string, Subscription>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+
+  constructor(
+    private client: () => IOdooClient,
+    private notify: (uri: string) => Promise<void>,
+    private options: SubscriptionOptions,
+  ) {}
+
+  /**
+   * Records currently watched, counting each search as its limit
+   */
+  get watchedRecords(): number {
+    let total = 0;
+    for (const { watch } of this.subscriptions.values()) {
+      total += watchedRecords(watch);
+    }
+    return total;
+  }
+
+  /**
+   * Start watching a resource. Throws when the URI cannot be watched or the
+   * session would exceed its record cap.
+   */
+  async subscribe(uri: string): Promise<void> {
+    if (this.subscriptions.has(uri)) {
+      return;
+    }
+
+    const watch = parseWatch(uri);
+    if (this.watchedRecords + watchedRecords(watch) > this.options.maxRecords) {
+      throw new Error(
+        `Cannot subscribe to ${uri}: this session already watches ${this.watchedRecords} of at most ${this.options.maxRecords} records. Unsubscribe from something first.`,
+      );
+    }
+
+    const subscription: Subscription = { watch, fingerprint: null };
+    this.subscriptions.set(uri, subscription);
+
+    try {
+      subscription.fingerprint = await this.check(watch);
+    } catch (error) {
+      // Picked up by the next poll
+      console.error(`Could not check ${uri}: ${error}`);
+    }
+
+    this.timer ??= setInterval(() => {
+      void this.poll();
+    }, this.options.interval);
+    this.timer.unref?.();
+  }
+
+  unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri);
+    if (this.subscriptions.size === 0) {
+      this.stop();
+    }
+  }
+
+  /**
+   * Check every subscription once, notifying for those that changed
+   */
+  async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      for (const [uri, subscription] of [...this.subscriptions]) {
+        let fingerprint: string;
+        try {
+          fingerprint = await this.check(subscription.watch);
+        } catch (error) {
+          console.error(`Could not check ${uri}: ${error}`);
+          continue;
+        }
+
+        // Unsubscribed while checking
+        if (this.subscriptions.get(uri) !== subscription) continue;
+
+        const changed =
+          subscription.fingerprint !== null &&
+          subscription.fingerprint !== fingerprint;
+        subscription.fingerprint = fingerprint;
+        if (changed) {
+          try {
+            await this.notify(uri);
+          } catch (error) {
+            console.error(`Could not notify ${uri}: ${error}`);
+          }
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Stop watching everything
+   */
+  close(): void {
+    this.subscriptions.clear();
+    this.stop();
+  }
+
+  private stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async check(watch: Watch): Promise<string> {
+    const client = this.client();
+    if (watch.kind === "record") {
+      const records = await client.searchRead(
+        watch.model,
+        [["id", "=", watch.id]],
+        { fields: ["write_date"] },
+      );
+      return fingerprintOf(records);
+    }
+
+    // Same page of records the resource returns
+    const { domain, limit, offset, order } = watch.query;
+    const options: SearchReadOptions = {
+      fields: ["write_date"],
+      limit,
+      offset,
+    };
+    if (order) {
+      options.order = order;
+    }
+    const records = await client.searchRead(watch.model, domain, options);
+    return fingerprintOf(records);
+  }
+}
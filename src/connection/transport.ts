@@ -0,0 +1,63 @@
+import type { OdooProtocol } from "../types/index.js";
+import { Json2Client } from "./json2.js";
+import { JsonRpcClient, WebSessionClient } from "./jsonrpc.js";
+import { XmlRpcClient } from "./xmlrpc.js";
+
+/**
+ * Common surface shared by the XML-RPC, JSON-RPC and JSON-2 transports
+ */
+export interface RpcClient {
+  methodCall<T>(method: string, params: unknown[]): Promise<T>;
+}
+
+export interface RpcClientOptions {
+  url: string;
+  /**
+   * Odoo RPC service ("common" or "object")
+   */
+  service: string;
+  timeout: number;
+  verifySsl: boolean;
+}
+
+/**
+ * Create an RPC client for the given Odoo service using the chosen protocol
+ */
+export function createRpcClient(
+  protocol: OdooProtocol,
+  options: RpcClientOptions,
+): RpcClient {
+  if (protocol === "json2") {
+    return new Json2Client({
+      url: options.url,
+      service: options.service,
+      timeout: options.timeout,
+      verifySsl: options.verifySsl,
+    });
+  }
+
+  if (protocol === "jsonrpc-session") {
+    return new WebSessionClient({
+      url: options.url,
+      service: options.service,
+      timeout: options.timeout,
+      verifySsl: options.verifySsl,
+    });
+  }
+
+  if (protocol === "jsonrpc") {
+    return new JsonRpcClient({
+      url: options.url,
+      service: options.service,
+      timeout: options.timeout,
+      verifySsl: options.verifySsl,
+    });
+  }
+
+  return new XmlRpcClient({
+    url: options.url,
+    path: `/xmlrpc/2/${options.service}`,
+    timeout: options.timeout,
+    verifySsl: options.verifySsl,
+  });
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { createMockClient } from "../test-utils/mock-client.js";
+import { getServerMajorVersion, parseServerInfo } from "./version.js";
+
+describe("parseServerInfo", () => {
+  it("parses a stable release", () => {
+    const info = parseServerInfo(
+      {
+        server_version: "16.0",
+        server_version_info: [16, 0, 0, "final", 0, ""],
+        server_serie: "16.0",
+        protocol_version: 1,
+      },
+      { base: "16.0.1.3" },
+    );
+
+    expect(info).toEqual({
+      server_version: "16.0",
+      server_serie: "16.0",
+      major: 16,
+      minor: 0,
+      protocol_version: 1,
+      edition: "community",
+      modules: { base: "16.0.1.3" },
+    });
+  });
+
+  it("parses SaaS releases", () => {
+    const info = parseServerInfo(
+      {
+        server_version: "saas~17.2+e",
+        server_version_info: ["saas~17", 2, 0, "final", 0, "e"],
+        server_serie: "saas~17.2",
+      },
+      null,
+    );
+
+    expect(info.major).toBe(17);
+    expect(info.minor).toBe(2);
+    expect(info.protocol_version).toBeNull();
+  });
+
+  it("detects enterprise from web_enterprise", () => {
+    const info = parseServerInfo(
+      {
+        server_version: "17.0+e",
+        server_version_info: [17, 0, 0, "final", 0, "e"],
+        server_serie: "17.0",
+      },
+      { base: "17.0.1.3", web_enterprise: "17.0.1.0" },
+    );
+
+    expect(info.edition).toBe("enterprise");
+  });
+
+  it("leaves the edition unknown without module data", () => {
+    const info = parseServerInfo(
+      {
+        server_version: "17.0",
+        server_version_info: [17, 0, 0, "final", 0, ""],
+        server_serie: "17.0",
+      },
+      null,
+    );
+
+    expect(info.edition).toBeNull();
+  });
+});
+
+describe("getServerMajorVersion", () => {
+  it("returns null for clients without server info", async () => {
+    await expect(getServerMajorVersion(createMockClient())).resolves.toBeNull();
+  });
+
+  it("returns the major version", async () => {
+    const client = createMockClient();
+    client.getServerInfo = async () =>
+      parseServerInfo(
+        {
+          server_version: "14.0",
+          server_version_info: [14, 0, 0, "final", 0, ""],
+          server_serie: "14.0",
+        },
+        null,
+      );
+
+    await expect(getServerMajorVersion(client)).resolves.toBe(14);
+  });
+
+  it("returns null when detection fails", async () => {
+    const client = createMockClient();
+    client.getServerInfo = async () => {
+      throw new Error("offline");
+    };
+
+    await expect(getServerMajorVersion(client)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+import type {
+  IOdooClient,
+  OdooServerInfo,
+  OdooVersionInfo,
+} from "../types/index.js";
+
+/**
+ * Build server info from common.version and the installed modules
+ */
+export function parseServerInfo(
+  version: OdooVersionInfo,
+  modules: Record<string, string> | null,
+): OdooServerInfo {
+  // server_version_info is [major, minor, ...]; SaaS majors are "saas~17"
+  const [rawMajor, rawMinor] = version.server_version_info;
+  const major = Number.parseInt(String(rawMajor).replace(/^saas~/, ""), 10);
+  const minor = Number.parseInt(String(rawMinor ?? 0), 10);
+
+  let edition: OdooServerInfo["edition"] = null;
+  if (modules) {
+    edition = "web_enterprise" in modules ? "enterprise" : "community";
+  }
+
+  return {
+    server_version: version.server_version,
+    server_serie: version.server_serie,
+    major: Number.isNaN(major) ? 0 : major,
+    minor: Number.isNaN(minor) ? 0 : minor,
+    protocol_version: version.protocol_version ?? null,
+    edition,
+    modules,
+  };
+}
+
+/**
+ * Get the major Odoo version behind a client, or null when unknown.
+ * Lets tools branch on version without failing when detection does.
+ */
+export async function getServerMajorVersion(
+  client: IOdooClient,
+): Promise<number | null> {
+  if (!client.getServerInfo) {
+    return null;
+  }
+
+  try {
+    const info = await client.getServerInfo();
+    return info.major || null;
+  } catch {
+    return null;
+  }
+}
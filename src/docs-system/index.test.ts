@@ -7,6 +7,7 @@ import {
   deleteEntry,
   listEntries,
   type PathConfig,
+  parseFrontMatter,
   readEntry,
   saveEntry,
 } from "./index.js";
@@ -351,4 +352,33 @@ describe("docs-system", () => {
       expect(sops.map((s) => s.name)).not.toContain("my-doc");
     });
   });
+
+  describe("parseFrontMatter", () => {
+    it("returns the content unchanged without front-matter", () => {
+      expect(parseFrontMatter("# Title\n\nBody")).toEqual({
+        data: {},
+        body: "# Title\n\nBody",
+      });
+    });
+
+    it("parses values and inline lists", () => {
+      const { data, body } = parseFrontMatter(
+        '---\ndescription: "Import partners"\narguments: [csv_path, company]\n---\n# Import\n',
+      );
+
+      expect(data).toEqual({
+        description: "Import partners",
+        arguments: ["csv_path", "company"],
+      });
+      expect(body).toBe("# Import\n");
+    });
+
+    it("parses block lists", () => {
+      const { data } = parseFrontMatter(
+        "---\narguments:\n  - csv_path: Path to the CSV\n  - company\n---\nBody",
+      );
+
+      expect(data.arguments).toEqual(["csv_path: Path to the CSV", "company"]);
+    });
+  });
 });
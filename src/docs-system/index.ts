@@ -172,3 +172,68 @@ export function deleteEntry(
     return { success: false, error: String(error) };
   }
 }
+
+export interface FrontMatter {
+  /**
+   * Parsed `key: value` pairs; `[a, b]` and `- item` lists become arrays
+   */
+  data: Record<string, string | string[]>;
+  /**
+   * Content after the front-matter block
+   */
+  body: string;
+}
+
+function unquote(value: string): string {
+  return value.replace(/^(["'])(.*)\1$/, "$2");
+}
+
+/**
+ * Split a `---` delimited front-matter block off a doc or SOP.
+ * Only flat keys with string or list values are supported.
+ */
+export function parseFrontMatter(content: string): FrontMatter {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/.exec(content);
+  if (!match?.[1]) {
+    return { data: {}, body: content };
+  }
+
+  const data: FrontMatter["data"] = {};
+  let listKey: string | null = null;
+
+  for (const line of match[1].split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith("#")) continue;
+
+    const item = /^\s*-\s+(.*)$/.exec(line);
+    if (item?.[1] !== undefined && listKey) {
+      const list = data[listKey];
+      if (Array.isArray(list)) {
+        list.push(unquote(item[1].trim()));
+      }
+      continue;
+    }
+
+    const pair = /^([\w-]+):\s*(.*)$/.exec(line);
+    if (!pair?.[1]) continue;
+    const [, key, raw = ""] = pair;
+    const value = raw.trim();
+
+    if (value === "") {
+      // Block list follows
+      data[key] = [];
+      listKey = key;
+    } else if (value.startsWith("[") && value.endsWith("]")) {
+      data[key] = value
+        .slice(1, -1)
+        .split(",")
+        .map((v) => unquote(v.trim()))
+        .filter(Boolean);
+      listKey = null;
+    } else {
+      data[key] = unquote(value);
+      listKey = null;
+    }
+  }
+
+  return { data, body: content.slice(match[0].length) };
+}
@@ -6,12 +6,16 @@ import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/
 import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 import type { Express, Request, Response } from "express";
 import type { OdooClient } from "./connection/odoo-client.js";
+import type { ProfileManager } from "./connection/profiles.js";
 import {
   _setClient,
+  _setProfileManager,
   createServer,
   initializeClient,
+  initializeProfiles,
   logEnvironment,
 } from "./server.js";
+import type { IOdooClient } from "./types/index.js";
 
 export interface HttpServerOptions {
   port: number;
@@ -20,6 +24,7 @@ export interface HttpServerOptions {
 
 export interface HttpServerDependencies {
   initClient?: () => Promise<OdooClient>;
+  initProfiles?: (defaultClient: IOdooClient) => ProfileManager;
   createMcpServer?: () => McpServer;
   createExpressApp?: (options: { host: string }) => Express;
 }
@@ -44,6 +49,10 @@ export async function runHttpServer(
   const odooClient = await initClient();
   _setClient(odooClient);
 
+  // Load connection profiles, reusing the connected default client
+  const initProfiles = deps?.initProfiles ?? initializeProfiles;
+  _setProfileManager(initProfiles(odooClient));
+
   // Create Express app with DNS rebinding protection
   const createExpressApp = deps?.createExpressApp ?? createMcpExpressApp;
   const app = createExpressApp({ host: options.host });
@@ -2,11 +2,17 @@
 import { parseArgs } from "./cli.js";
 import { runHttpServer } from "./http-server.js";
 import { runServer } from "./server.js";
+import { ENV_VARS } from "./types/index.js";
 
 async function main(): Promise<number> {
   try {
     const options = parseArgs();
 
+    if (options.readOnly) {
+      // The flag is shorthand for ODOO_READ_ONLY, which both transports read
+      process.env[ENV_VARS.READ_ONLY] = "true";
+    }
+
     if (options.transport === "http") {
       await runHttpServer({ port: options.port, host: options.host });
     } else {
@@ -0,0 +1 @@
+export * from "./sop-prompts.js";
@@ -0,0 +1,109 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  loadSopPrompts,
+  parseSopPrompt,
+  renderSopPrompt,
+} from "./sop-prompts.js";
+
+const partnerImport = `---
+description: Import partners from a CSV file
+arguments:
+  - csv_path: Absolute path to the CSV file
+  - company
+---
+# Partner Import
+
+1. Read {{csv_path}}.
+2. Create partners for {{ company }}.
+`;
+
+describe("SOP prompts", () => {
+  describe("parseSopPrompt", () => {
+    it("reads the description and arguments from front-matter", () => {
+      const prompt = parseSopPrompt("partner-import", partnerImport);
+
+      expect(prompt).toMatchObject({
+        name: "partner-import",
+        title: "Partner Import",
+        description: "Import partners from a CSV file",
+        arguments: [
+          { name: "csv_path", description: "Absolute path to the CSV file" },
+          { name: "company" },
+        ],
+      });
+      expect(prompt.body.startsWith("# Partner Import")).toBe(true);
+    });
+
+    it("falls back to the heading without front-matter", () => {
+      const prompt = parseSopPrompt("query", "# Query Employees\n\nSteps");
+
+      expect(prompt).toMatchObject({
+        title: "Query Employees",
+        description: "Query Employees",
+        arguments: [],
+      });
+    });
+  });
+
+  describe("renderSopPrompt", () => {
+    it("fills in the arguments", () => {
+      const prompt = parseSopPrompt("partner-import", partnerImport);
+
+      const result = renderSopPrompt(prompt, {
+        csv_path: "/tmp/partners.csv",
+        company: "Acme",
+      });
+
+      expect(result.description).toBe("Import partners from a CSV file");
+      expect(result.messages).toEqual([
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text: "# Partner Import\n\n1. Read /tmp/partners.csv.\n2. Create partners for Acme.",
+          },
+        },
+      ]);
+    });
+
+    it("inserts values literally", () => {
+      const prompt = parseSopPrompt("p", "---\narguments: [x]\n---\n{{x}}");
+
+      const result = renderSopPrompt(prompt, { x: "$& cost" });
+
+      expect(result.messages[0]?.content.text).toBe("$& cost");
+    });
+  });
+
+  describe("loadSopPrompts", () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "odoo-mcp-prompts-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("loads every SOP with local overriding global", () => {
+      const globalDir = path.join(tempDir, "global");
+      const localDir = path.join(tempDir, "local");
+      fs.mkdirSync(globalDir);
+      fs.mkdirSync(localDir);
+      fs.writeFileSync(path.join(globalDir, "a.md"), "# Global A");
+      fs.writeFileSync(path.join(globalDir, "b.md"), "# Global B");
+      fs.writeFileSync(path.join(localDir, "a.md"), "# Local A");
+
+      const prompts = loadSopPrompts({ globalDir, localDir });
+
+      expect(prompts.map((p) => [p.name, p.title])).toEqual([
+        ["a", "Local A"],
+        ["b", "Global B"],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  listEntries,
+  type PathConfig,
+  parseFrontMatter,
+  readEntry,
+} from "../docs-system/index.js";
+
+export interface SopPromptArgument {
+  name: string;
+  description?: string;
+}
+
+/**
+ * An SOP offered as an MCP prompt
+ */
+export interface SopPrompt {
+  name: string;
+  title: string;
+  description: string;
+  /**
+   * Declared in front-matter, e.g. `arguments: [csv_path, company]`
+   */
+  arguments: SopPromptArgument[];
+  /**
+   * SOP content without front-matter, with {{argument}} placeholders
+   */
+  body: string;
+}
+
+export interface PromptResult {
+  [key: string]: unknown;
+  description?: string;
+  messages: Array<{
+    role: "user";
+    content: { type: "text"; text: string };
+  }>;
+}
+
+/**
+ * "csv_path" or "csv_path: Path to the CSV file"
+ */
+function parseArgument(item: string): SopPromptArgument {
+  const separator = item.indexOf(":");
+  if (separator === -1) {
+    return { name: item.trim() };
+  }
+  return {
+    name: item.slice(0, separator).trim(),
+    description: item.slice(separator + 1).trim(),
+  };
+}
+
+/**
+ * Build the prompt for one SOP from its content
+ */
+export function parseSopPrompt(name: string, content: string): SopPrompt {
+  const { data, body } = parseFrontMatter(content);
+
+  const heading = /^#\s+(.+)$/m.exec(body)?.[1]?.trim();
+  const title = typeof data.title === "string" ? data.title : (heading ?? name);
+  const description =
+    typeof data.description === "string" ? data.description : title;
+
+  const declared = data.arguments;
+  const args = (Array.isArray(declared) ? declared : declared ? [declared] : [])
+    .map(parseArgument)
+    .filter((arg) => arg.name);
+
+  return { name, title, description, arguments: args, body };
+}
+
+/**
+ * Load every SOP (local overriding global) as a prompt
+ */
+export function loadSopPrompts(config?: PathConfig): SopPrompt[] {
+  const prompts: SopPrompt[] = [];
+  for (const entry of listEntries("sops", config)) {
+    const sop = readEntry("sops", entry.name, config);
+    if (sop) {
+      prompts.push(parseSopPrompt(entry.name, sop.content));
+    }
+  }
+  return prompts;
+}
+
+/**
+ * Fill the SOP's {{argument}} placeholders and wrap it as a prompt message
+ */
+export function renderSopPrompt(
+  prompt: SopPrompt,
+  args: Record<string, string | undefined>,
+): PromptResult {
+  let text = prompt.body;
+  for (const { name } of prompt.arguments) {
+    const value = args[name];
+    if (value === undefined) continue;
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    text = text.replace(
+      new RegExp(`\\{\\{\\s*${escaped}\\s*\\}\\}`, "g"),
+      () => value,
+    );
+  }
+
+  return {
+    description: prompt.description,
+    messages: [{ role: "user", content: { type: "text", text: text.trim() } }],
+  };
+}
@@ -0,0 +1,82 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { PathConfig } from "../docs-system/index.js";
+import {
+  entryUri,
+  handleEntryResource,
+  listEntryResources,
+} from "./docs-resources.js";
+
+describe("docs-resources", () => {
+  let tempDir: string;
+  let config: PathConfig;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "odoo-mcp-resources-"));
+    config = {
+      bundledDir: path.join(tempDir, "bundled"),
+      globalDir: path.join(tempDir, "global"),
+      localDir: path.join(tempDir, "local"),
+    };
+    fs.mkdirSync(config.bundledDir as string);
+    fs.writeFileSync(
+      path.join(config.bundledDir as string, "orm-methods.md"),
+      "# ORM Methods\n\nUse search_read.",
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe("entryUri", () => {
+    it("uses a scheme per entry type", () => {
+      expect(entryUri("docs", "orm-methods")).toBe("odoo-docs://orm-methods");
+      expect(entryUri("sops", "import")).toBe("odoo-sops://import");
+    });
+  });
+
+  describe("listEntryResources", () => {
+    it("lists entries titled by their first heading", () => {
+      expect(listEntryResources("docs", config)).toEqual({
+        resources: [
+          {
+            uri: "odoo-docs://orm-methods",
+            name: "orm-methods",
+            title: "ORM Methods",
+            description: "Doc (bundled)",
+            mimeType: "text/markdown",
+          },
+        ],
+      });
+    });
+
+    it("returns no resources when there are no entries", () => {
+      expect(listEntryResources("sops", config)).toEqual({ resources: [] });
+    });
+  });
+
+  describe("handleEntryResource", () => {
+    it("returns the markdown content", () => {
+      const result = handleEntryResource("docs", "orm-methods", config);
+
+      expect(result.contents).toEqual([
+        {
+          uri: "odoo-docs://orm-methods",
+          mimeType: "text/markdown",
+          text: "# ORM Methods\n\nUse search_read.",
+        },
+      ]);
+    });
+
+    it("returns an error for unknown entries", () => {
+      const result = handleEntryResource("sops", "missing", config);
+
+      expect(JSON.parse(result.contents[0]?.text ?? "")).toEqual({
+        error: 'SOP "missing" not found',
+      });
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  listEntries,
+  type PathConfig,
+  parseFrontMatter,
+  readEntry,
+} from "../docs-system/index.js";
+import type { ResourceResult } from "./odoo-resources.js";
+
+export type EntryType = "docs" | "sops";
+
+const SCHEMES: Record<EntryType, string> = {
+  docs: "odoo-docs",
+  sops: "odoo-sops",
+};
+
+const LABELS: Record<EntryType, string> = {
+  docs: "Doc",
+  sops: "SOP",
+};
+
+/**
+ * odoo-docs://{name} or odoo-sops://{name}
+ */
+export function entryUri(type: EntryType, name: string): string {
+  return `${SCHEMES[type]}://${name}`;
+}
+
+export interface EntryResourceList {
+  [key: string]: unknown;
+  resources: Array<{
+    uri: string;
+    name: string;
+    title?: string;
+    description: string;
+    mimeType: string;
+  }>;
+}
+
+/**
+ * List every doc or SOP as a resource, titled by its first heading
+ */
+export function listEntryResources(
+  type: EntryType,
+  config?: PathConfig,
+): EntryResourceList {
+  const resources = listEntries(type, config).map((entry) => {
+    const content = readEntry(type, entry.name, config)?.content ?? "";
+    const { body } = parseFrontMatter(content);
+    const title = /^#\s+(.+)$/m.exec(body)?.[1]?.trim();
+    return {
+      uri: entryUri(type, entry.name),
+      name: entry.name,
+      ...(title && { title }),
+      description: `${LABELS[type]} (${entry.source})`,
+      mimeType: "text/markdown",
+    };
+  });
+  return { resources };
+}
+
+/**
+ * odoo-docs://{name} / odoo-sops://{name} - Markdown content of one entry
+ */
+export function handleEntryResource(
+  type: EntryType,
+  name: string,
+  config?: PathConfig,
+): ResourceResult {
+  const uri = entryUri(type, name);
+  const entry = readEntry(type, name, config);
+
+  if (!entry) {
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: "application/json",
+          text: JSON.stringify(
+            { error: `${LABELS[type]} "${name}" not found` },
+            null,
+            2,
+          ),
+        },
+      ],
+    };
+  }
+
+  return {
+    contents: [{ uri, mimeType: "text/markdown", text: entry.content }],
+  };
+}
@@ -1 +1,2 @@
+export * from "./docs-resources.js";
 export * from "./odoo-resources.js";
@@ -1,13 +1,47 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 import { MockClientBuilder } from "../test-utils/mock-client.js";
 import {
+  completeModelName,
+  completeRecordId,
   handleModelResource,
   handleModelsResource,
   handleRecordResource,
   handleSearchResource,
+  handleServerResource,
+  listCommonModelResources,
 } from "./odoo-resources.js";
 
 describe("odoo-resources", () => {
+  describe("handleServerResource", () => {
+    it("should return server info from client", async () => {
+      const info = {
+        server_version: "17.0",
+        server_serie: "17.0",
+        major: 17,
+        minor: 0,
+        protocol_version: 1,
+        edition: "community" as const,
+        modules: { base: "17.0.1.3" },
+      };
+      const client = new MockClientBuilder().withServerInfo(info).build();
+
+      const result = await handleServerResource(client);
+
+      expect(result.contents[0].uri).toBe("odoo://server");
+      expect(JSON.parse(result.contents[0].text)).toEqual(info);
+    });
+
+    it("should return an error when server info is unavailable", async () => {
+      const client = new MockClientBuilder().build();
+
+      const result = await handleServerResource(client);
+
+      expect(JSON.parse(result.contents[0].text)).toEqual({
+        error: "Server information is not available",
+      });
+    });
+  });
+
   describe("handleModelsResource", () => {
     it("should return all models from client", async () => {
       const mockModels = [
@@ -150,7 +184,9 @@ describe("odoo-resources", () => {
       const encodedDomain = encodeURIComponent(JSON.stringify(domain));
       const client = new MockClientBuilder()
         .withSearchReadResults("res.partner", mockResults)
+        .withExecuteResult("res.partner", "search_count", 2)
         .build();
+      const searchRead = vi.spyOn(client, "searchRead");
 
       const result = await handleSearchResource(
         client,
@@ -161,7 +197,82 @@ describe("odoo-resources", () => {
       expect(result.contents).toHaveLength(1);
       expect(result.contents[0].uri).toContain("odoo://search/res.partner/");
       expect(result.contents[0].mimeType).toBe("application/json");
-      expect(JSON.parse(result.contents[0].text)).toEqual(mockResults);
+      expect(JSON.parse(result.contents[0].text)).toEqual({
+        records: mockResults,
+        total_count: 2,
+        offset: 0,
+        limit: 10,
+        next: null,
+      });
+      expect(searchRead).toHaveBeenCalledWith("res.partner", domain, {
+        limit: 10,
+        offset: 0,
+      });
+    });
+
+    it("should apply fields, limit, offset and order and link the next page", async () => {
+      const encodedDomain = encodeURIComponent('[["active","=",true]]');
+      const client = new MockClientBuilder()
+        .withSearchReadResults("res.partner", [
+          { id: 3, name: "Carol" },
+          { id: 4, name: "Dave" },
+        ])
+        .withExecuteResult("res.partner", "search_count", 7)
+        .build();
+      const searchRead = vi.spyOn(client, "searchRead");
+
+      const result = await handleSearchResource(
+        client,
+        "res.partner",
+        `${encodedDomain}?fields=name,email&limit=2&offset=2&order=name%20desc`,
+      );
+
+      expect(searchRead).toHaveBeenCalledWith(
+        "res.partner",
+        [["active", "=", true]],
+        { fields: ["name", "email"], limit: 2, offset: 2, order: "name desc" },
+      );
+      const parsed = JSON.parse(result.contents[0].text);
+      expect(parsed.total_count).toBe(7);
+      expect(parsed.next).toBe(
+        `odoo://search/res.partner/${encodedDomain}?fields=name%2Cemail&limit=2&offset=4&order=name+desc`,
+      );
+    });
+
+    it("should accept the domain formats search_records accepts", async () => {
+      const domain = {
+        conditions: [{ field: "is_company", operator: "=", value: true }],
+      };
+      const client = new MockClientBuilder()
+        .withExecuteResult("res.partner", "search_count", 0)
+        .build();
+      const searchRead = vi.spyOn(client, "searchRead");
+
+      await handleSearchResource(
+        client,
+        "res.partner",
+        encodeURIComponent(JSON.stringify(domain)),
+      );
+
+      expect(searchRead).toHaveBeenCalledWith(
+        "res.partner",
+        [["is_company", "=", true]],
+        { limit: 10, offset: 0 },
+      );
+    });
+
+    it("should return error for an invalid limit", async () => {
+      const client = new MockClientBuilder().build();
+
+      const result = await handleSearchResource(
+        client,
+        "res.partner",
+        "[]?limit=-1",
+      );
+
+      expect(JSON.parse(result.contents[0].text).error).toContain(
+        "Invalid limit",
+      );
     });
 
     it("should handle empty search results", async () => {
@@ -169,6 +280,7 @@ describe("odoo-resources", () => {
       const encodedDomain = encodeURIComponent(JSON.stringify(domain));
       const client = new MockClientBuilder()
         .withSearchReadResults("res.partner", [])
+        .withExecuteResult("res.partner", "search_count", 0)
         .build();
 
       const result = await handleSearchResource(
@@ -178,7 +290,10 @@ describe("odoo-resources", () => {
       );
 
       expect(result.contents).toHaveLength(1);
-      expect(JSON.parse(result.contents[0].text)).toEqual([]);
+      const parsed = JSON.parse(result.contents[0].text);
+      expect(parsed.records).toEqual([]);
+      expect(parsed.total_count).toBe(0);
+      expect(parsed.next).toBeNull();
     });
 
     it("should return error for invalid domain JSON", async () => {
@@ -214,4 +329,105 @@ describe("odoo-resources", () => {
       expect(parsed.error).toContain("Query failed");
     });
   });
+
+  describe("listCommonModelResources", () => {
+    it("lists the common models that are installed", async () => {
+      const client = new MockClientBuilder()
+        .withModels({
+          model_names: ["res.partner", "sale.order", "x_custom"],
+          models_details: {
+            "res.partner": { name: "Contact" },
+            "sale.order": { name: "Sales Order" },
+            x_custom: { name: "Custom" },
+          },
+        })
+        .build();
+
+      const result = await listCommonModelResources(client);
+
+      expect(result.resources).toEqual([
+        {
+          uri: "odoo://model/res.partner",
+          name: "Contact",
+          mimeType: "application/json",
+        },
+        {
+          uri: "odoo://model/sale.order",
+          name: "Sales Order",
+          mimeType: "application/json",
+        },
+      ]);
+    });
+
+    it("returns no resources when Odoo is unreachable", async () => {
+      const client = new MockClientBuilder().build();
+      client.getModels = vi.fn().mockRejectedValue(new Error("offline"));
+
+      expect(await listCommonModelResources(client)).toEqual({
+        resources: [],
+      });
+    });
+  });
+
+  describe("completeModelName", () => {
+    it("returns matching models, prefix matches first", async () => {
+      const client = new MockClientBuilder()
+        .withModels({
+          model_names: ["crm.lead", "res.partner", "res.partner.bank"],
+          models_details: {},
+        })
+        .build();
+
+      expect(await completeModelName(client, "partner")).toEqual([
+        "res.partner",
+        "res.partner.bank",
+      ]);
+      expect(await completeModelName(client, "res.p")).toEqual([
+        "res.partner",
+        "res.partner.bank",
+      ]);
+    });
+  });
+
+  describe("completeRecordId", () => {
+    it("returns IDs of records whose name matches", async () => {
+      const client = new MockClientBuilder()
+        .withExecuteResult("res.partner", "name_search", [
+          [7, "Acme"],
+          [12, "Acme Inc"],
+        ])
+        .build();
+      const execute = vi.spyOn(client, "execute");
+
+      const result = await completeRecordId(client, "res.partner", "Acme");
+
+      expect(result).toEqual(["7", "12"]);
+      expect(execute).toHaveBeenCalledWith("res.partner", "name_search", [], {
+        name: "Acme",
+        limit: 100,
+      });
+    });
+
+    it("filters by ID prefix when digits are typed", async () => {
+      const client = new MockClientBuilder()
+        .withExecuteResult("res.partner", "name_search", [
+          [7, "Acme"],
+          [12, "Acme Inc"],
+        ])
+        .build();
+
+      expect(await completeRecordId(client, "res.partner", "1")).toEqual([
+        "12",
+      ]);
+    });
+
+    it("returns nothing without a model or when the search fails", async () => {
+      const client = new MockClientBuilder()
+        .withExecuteError("res.partner", "name_search", new Error("denied"))
+        .build();
+
+      expect(await completeRecordId(client, undefined, "Acme")).toEqual([]);
+      expect(await completeRecordId(client, "res.partner", "Acme")).toEqual([]);
+    });
+  });
 });
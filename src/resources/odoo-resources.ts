@@ -1,4 +1,10 @@
-import type { Domain, IOdooClient } from "../types/index.js";
+import { normalizeDomain, validateDomain } from "../tools/domain-utils.js";
+import type {
+  Domain,
+  GetModelsResult,
+  IOdooClient,
+  SearchReadOptions,
+} from "../types/index.js";
 
 export interface ResourceResult {
   [key: string]: unknown;
@@ -28,6 +34,34 @@ export async function handleModelsResource(
   };
 }
 
+/**
+ * odoo://server - Server version and installed modules
+ */
+export async function handleServerResource(
+  client: IOdooClient,
+): Promise<ResourceResult> {
+  let result: unknown;
+  if (!client.getServerInfo) {
+    result = { error: "Server information is not available" };
+  } else {
+    try {
+      result = await client.getServerInfo();
+    } catch (error) {
+      result = { error: String(error) };
+    }
+  }
+
+  return {
+    contents: [
+      {
+        uri: "odoo://server",
+        mimeType: "application/json",
+        text: JSON.stringify(result, null, 2),
+      },
+    ],
+  };
+}
+
 /**
  * odoo://model/{model_name} - Model info with fields
  */
@@ -130,23 +164,146 @@ export async function handleRecordResource(
 }
 
 /**
- * odoo://search/{model_name}/{domain} - Search records
+ * Records returned by odoo://search when no limit is given
+ */
+export const DEFAULT_SEARCH_LIMIT = 10;
+
+const MAX_SEARCH_LIMIT = 1000;
+
+/**
+ * Query parameters odoo://search accepts after the domain
+ */
+const SEARCH_QUERY = /\?((?:fields|limit|offset|order)=.*)$/;
+
+/**
+ * A parsed odoo://search/{model_name}/{domain}?... resource
+ */
+export interface SearchResourceQuery {
+  /**
+   * The domain part of the URI, as given
+   */
+  rawDomain: string;
+  domain: Domain;
+  fields?: string[];
+  limit: number;
+  offset: number;
+  order?: string;
+}
+
+function parseCount(name: string, value: string, min: number): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  return n;
+}
+
+/**
+ * Parse the part of an odoo://search URI after the model name: the domain,
+ * in any format search_records accepts, then optional fields, limit, offset
+ * and order query parameters
+ */
+export function parseSearchResource(domainStr: string): SearchResourceQuery {
+  const match = SEARCH_QUERY.exec(domainStr);
+  const rawDomain = match ? domainStr.slice(0, match.index) : domainStr;
+  const params = new URLSearchParams(match?.[1] ?? "");
+
+  const query: SearchResourceQuery = {
+    rawDomain,
+    domain: validateDomain(normalizeDomain(decodeURIComponent(rawDomain))),
+    limit: DEFAULT_SEARCH_LIMIT,
+    offset: 0,
+  };
+
+  const fields = params.get("fields");
+  if (fields) {
+    query.fields = fields
+      .split(",")
+      .map((f) => f.trim())
+      .filter(Boolean);
+  }
+  const limit = params.get("limit");
+  if (limit) {
+    query.limit = Math.min(parseCount("limit", limit, 1), MAX_SEARCH_LIMIT);
+  }
+  const offset = params.get("offset");
+  if (offset) {
+    query.offset = parseCount("offset", offset, 0);
+  }
+  const order = params.get("order");
+  if (order) {
+    query.order = order;
+  }
+
+  return query;
+}
+
+/**
+ * URI of an odoo://search resource for the given query
+ */
+export function searchResourceUri(
+  modelName: string,
+  query: SearchResourceQuery,
+): string {
+  const params = new URLSearchParams();
+  if (query.fields) {
+    params.set("fields", query.fields.join(","));
+  }
+  params.set("limit", String(query.limit));
+  params.set("offset", String(query.offset));
+  if (query.order) {
+    params.set("order", query.order);
+  }
+  return `odoo://search/${modelName}/${query.rawDomain}?${params}`;
+}
+
+/**
+ * odoo://search/{model_name}/{domain}?fields=&limit=&offset=&order= -
+ * One page of matching records, the total count and the next page's URI
  */
 export async function handleSearchResource(
   client: IOdooClient,
   modelName: string,
   domainStr: string,
 ): Promise<ResourceResult> {
+  const uri = `odoo://search/${modelName}/${domainStr}`;
+
   try {
-    const domain = JSON.parse(decodeURIComponent(domainStr)) as Domain;
-    const results = await client.searchRead(modelName, domain, { limit: 10 });
+    const query = parseSearchResource(domainStr);
+    const options: SearchReadOptions = {
+      limit: query.limit,
+      offset: query.offset,
+    };
+    if (query.fields) {
+      options.fields = query.fields;
+    }
+    if (query.order) {
+      options.order = query.order;
+    }
+
+    const [records, totalCount] = await Promise.all([
+      client.searchRead(modelName, query.domain, options),
+      client.execute<number>(modelName, "search_count", [query.domain]),
+    ]);
+
+    const nextOffset = query.offset + records.length;
+    const result = {
+      records,
+      total_count: totalCount,
+      offset: query.offset,
+      limit: query.limit,
+      next:
+        records.length > 0 && nextOffset < totalCount
+          ? searchResourceUri(modelName, { ...query, offset: nextOffset })
+          : null,
+    };
 
     return {
       contents: [
         {
-          uri: `odoo://search/${modelName}/${domainStr}`,
+          uri,
           mimeType: "application/json",
-          text: JSON.stringify(results, null, 2),
+          text: JSON.stringify(result, null, 2),
         },
       ],
     };
@@ -154,7 +311,7 @@ export async function handleSearchResource(
     return {
       contents: [
         {
-          uri: `odoo://search/${modelName}/${domainStr}`,
+          uri,
           mimeType: "application/json",
           text: JSON.stringify({ error: String(error) }, null, 2),
         },
@@ -162,3 +319,104 @@ export async function handleSearchResource(
     };
   }
 }
+
+/**
+ * Models offered by the odoo://model/{model_name} resource list, when
+ * installed
+ */
+export const COMMON_MODELS: readonly string[] = [
+  "res.partner",
+  "res.users",
+  "res.company",
+  "product.template",
+  "product.product",
+  "sale.order",
+  "purchase.order",
+  "account.move",
+  "stock.picking",
+  "crm.lead",
+  "project.project",
+  "project.task",
+  "hr.employee",
+];
+
+/**
+ * Most values a completion may return (MCP limit)
+ */
+const MAX_COMPLETIONS = 100;
+
+/**
+ * Resource list for odoo://model/{model_name}: the installed common models.
+ * Empty when Odoo cannot be reached, so other resources still list.
+ */
+export async function listCommonModelResources(client: IOdooClient): Promise<{
+  [key: string]: unknown;
+  resources: Array<{ uri: string; name: string; mimeType: string }>;
+}> {
+  let models: GetModelsResult;
+  try {
+    models = await client.getModels();
+  } catch {
+    return { resources: [] };
+  }
+  const installed = new Set(models.model_names ?? []);
+
+  return {
+    resources: COMMON_MODELS.filter((model) => installed.has(model)).map(
+      (model) => ({
+        uri: `odoo://model/${model}`,
+        name: models.models_details?.[model]?.name ?? model,
+        mimeType: "application/json",
+      }),
+    ),
+  };
+}
+
+/**
+ * Complete model_name: models whose technical name contains the typed text,
+ * prefix matches first
+ */
+export async function completeModelName(
+  client: IOdooClient,
+  value: string,
+): Promise<string[]> {
+  try {
+    const { model_names } = await client.getModels();
+    const typed = value.toLowerCase();
+    const matches = (model_names ?? []).filter((m) => m.includes(typed));
+    const prefixed = matches.filter((m) => m.startsWith(typed));
+    const rest = matches.filter((m) => !m.startsWith(typed));
+    return [...prefixed, ...rest].slice(0, MAX_COMPLETIONS);
+  } catch {
+    // Completion is best effort
+    return [];
+  }
+}
+
+/**
+ * Complete record_id: IDs of records on the chosen model whose display name
+ * matches the typed text
+ */
+export async function completeRecordId(
+  client: IOdooClient,
+  modelName: string | undefined,
+  value: string,
+): Promise<string[]> {
+  if (!modelName) {
+    return [];
+  }
+
+  try {
+    const results = await client.execute<Array<[number, string]>>(
+      modelName,
+      "name_search",
+      [],
+      { name: /^\d+$/.test(value) ? "" : value, limit: MAX_COMPLETIONS },
+    );
+    const ids = results.map(([id]) => String(id));
+    return /^\d+$/.test(value) ? ids.filter((id) => id.startsWith(value)) : ids;
+  } catch {
+    // Completion is best effort
+    return [];
+  }
+}
@@ -1,11 +1,33 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  ElicitRequestSchema,
+  type ElicitResult,
+  PromptListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AuditLog } from "./connection/audit.js";
+import { CachingOdooClient } from "./connection/cache.js";
+import {
+  getClientOptions,
+  getSchemaCacheOptions,
+  isReadOnly,
+} from "./connection/config.js";
 import type { OdooClient } from "./connection/odoo-client.js";
+import { ProfileManager } from "./connection/profiles.js";
+import { SnapshotStore } from "./connection/snapshots.js";
 import {
   _resetClient,
   _setClient,
   createServer,
   formatToolResult,
   getClient,
+  getProfileManager,
   initializeClient,
   logEnvironment,
   runServer,
@@ -17,6 +39,7 @@ import { executeMethodTool } from "./tools/execute.js";
 import {
   createToolRegistry,
   defineTool,
+  type ToolRegistry,
   type ToolResult,
 } from "./tools/registry.js";
 
@@ -32,10 +55,46 @@ vi.mock("./connection/config.js", () => ({
     timeout: 30000,
     verifySsl: true,
   })),
+  getSchemaCacheOptions: vi.fn(() => ({ ttl: 0, disk: false })),
+  isReadOnly: vi.fn(() => false),
+  getAuditOptions: vi.fn(() => ({
+    enabled: false,
+    directory: "/nonexistent/.odoo-mcp/audit",
+    maxFileSize: 1024,
+    maxFiles: 1,
+  })),
+  getSnapshotOptions: vi.fn(() => ({
+    enabled: false,
+    directory: "/nonexistent/.odoo-mcp/snapshots",
+    retention: 0,
+  })),
+  getConfirmationOptions: vi.fn(() => ({ enabled: false, writeThreshold: 50 })),
+  getSubscriptionOptions: vi.fn(() => ({ interval: 30000, maxRecords: 200 })),
+  getPolicyPath: vi.fn(() => "/nonexistent/.odoo-mcp/policy.json"),
+  loadProfiles: vi.fn(() => ({
+    profiles: {
+      default: {
+        url: "https://test.odoo.com",
+        db: "testdb",
+        username: "admin",
+        password: "secret",
+      },
+    },
+    defaultProfile: "default",
+  })),
 }));
 
 // Mock the OdooClient class
 const mockConnect = vi.fn().mockResolvedValue(undefined);
+const mockGetServerInfo = vi.fn().mockResolvedValue({
+  server_version: "17.0+e",
+  server_serie: "17.0",
+  major: 17,
+  minor: 0,
+  protocol_version: 1,
+  edition: "enterprise",
+  modules: { base: "17.0.1.3", web_enterprise: "17.0.1.0" },
+});
 const MockOdooClientConstructor = vi.fn();
 vi.mock("./connection/odoo-client.js", async (importOriginal) => {
   const original =
@@ -44,6 +103,7 @@ vi.mock("./connection/odoo-client.js", async (importOriginal) => {
     ...original,
     OdooClient: class MockOdooClient {
       connect = mockConnect;
+      getServerInfo = mockGetServerInfo;
       constructor(...args: unknown[]) {
         MockOdooClientConstructor(...args);
       }
@@ -104,6 +164,7 @@ describe("server", () => {
       delete process.env.ODOO_URL;
       delete process.env.ODOO_DB;
       delete process.env.ODOO_PASSWORD;
+      delete process.env.ODOO_API_KEY;
     });
 
     it("logs ODOO_ environment variables", () => {
@@ -131,6 +192,19 @@ describe("server", () => {
         expect.stringContaining("supersecret"),
       );
     });
+
+    it("hides API key in logs", () => {
+      process.env.ODOO_API_KEY = "key-123";
+
+      logEnvironment();
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        "  ODOO_API_KEY: ***hidden***",
+      );
+      expect(consoleErrorSpy).not.toHaveBeenCalledWith(
+        expect.stringContaining("key-123"),
+      );
+    });
   });
 
   describe("initializeClient", () => {
@@ -168,6 +242,43 @@ describe("server", () => {
       expect(consoleErrorSpy).toHaveBeenCalledWith("  Verify SSL: true");
     });
 
+    it("logs the detected server version", async () => {
+      await initializeClient();
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        "  Server: Odoo 17.0+e (enterprise)",
+      );
+    });
+
+    it("starts even when version detection fails", async () => {
+      mockGetServerInfo.mockRejectedValueOnce(new Error("denied"));
+
+      const client = await initializeClient();
+
+      expect(client).toBeDefined();
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        "  Server: version detection failed: Error: denied",
+      );
+    });
+
+    it("skips connecting in lazy connect mode", async () => {
+      vi.mocked(getClientOptions).mockReturnValueOnce({
+        timeout: 30000,
+        verifySsl: true,
+        lazyConnect: true,
+        retry: {},
+        circuitBreaker: {},
+      });
+
+      const client = await initializeClient();
+
+      expect(client).toBeDefined();
+      expect(mockConnect).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        "  Lazy connect: will authenticate on first request",
+      );
+    });
+
     it("creates OdooClient with correct config and options", async () => {
       await initializeClient();
 
@@ -246,6 +357,40 @@ describe("server", () => {
         expect.stringContaining("Node.js version:"),
       );
     });
+
+    it("loads profiles reusing the connected default client", async () => {
+      const mockClient =
+        new MockClientBuilder().build() as unknown as OdooClient;
+
+      await runServer({
+        initClient: async () => mockClient,
+        createTransport: () => ({}),
+        createMcpServer: () => ({ connect: vi.fn() }) as never,
+      });
+
+      const profiles = getProfileManager();
+      expect(profiles.names()).toEqual(["default"]);
+      expect(await profiles.getClient()).toBe(mockClient);
+    });
+
+    it("wraps profile clients in the schema cache when enabled", async () => {
+      vi.mocked(getSchemaCacheOptions).mockReturnValueOnce({
+        ttl: 60000,
+        disk: false,
+      });
+      const mockClient =
+        new MockClientBuilder().build() as unknown as OdooClient;
+
+      await runServer({
+        initClient: async () => mockClient,
+        createTransport: () => ({}),
+        createMcpServer: () => ({ connect: vi.fn() }) as never,
+      });
+
+      expect(await getProfileManager().getClient()).toBeInstanceOf(
+        CachingOdooClient,
+      );
+    });
   });
 
   describe("formatToolResult", () => {
@@ -548,6 +693,619 @@ describe("server", () => {
     });
   });
 
+  describe("connection profiles", () => {
+    async function connect(deps: ServerDependencies): Promise<Client> {
+      const server = createServer(deps);
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      const client = new Client({ name: "test", version: "1.0.0" });
+      await client.connect(clientTransport);
+      return client;
+    }
+
+    function resultText(result: unknown): string {
+      const content = (result as { content: Array<{ text: string }> }).content;
+      return content[0]?.text ?? "";
+    }
+
+    const partnerTool = defineTool({
+      name: "read_partner",
+      description: "Reads a partner",
+      inputSchema: {},
+      handler: async (client) => ({
+        success: true,
+        result: await client.execute("res.partner", "read", [[1]]),
+      }),
+    });
+
+    it("adds an optional profile argument to every tool", async () => {
+      const registry = createToolRegistry();
+      registry.register(partnerTool);
+      const mcp = await connect({
+        client: new MockClientBuilder().build(),
+        toolRegistry: registry,
+      });
+
+      const { tools } = await mcp.listTools();
+
+      expect(tools[0]?.inputSchema.properties).toHaveProperty("profile");
+      expect(tools[0]?.inputSchema.required ?? []).not.toContain("profile");
+    });
+
+    it("routes tool calls to the requested profile", async () => {
+      const prod = new MockClientBuilder()
+        .withExecuteResult("res.partner", "read", [{ id: 1, name: "Prod" }])
+        .build();
+      const staging = new MockClientBuilder()
+        .withExecuteResult("res.partner", "read", [{ id: 1, name: "Stage" }])
+        .build();
+      const profiles = ProfileManager.forClient(prod, "prod");
+      profiles.setClient("staging", staging);
+
+      const registry = createToolRegistry();
+      registry.register(partnerTool);
+      const mcp = await connect({
+        client: prod,
+        toolRegistry: registry,
+        profiles,
+      });
+
+      const defaultResult = await mcp.callTool({
+        name: "read_partner",
+        arguments: {},
+      });
+      const stagingResult = await mcp.callTool({
+        name: "read_partner",
+        arguments: { profile: "staging" },
+      });
+
+      expect(JSON.parse(resultText(defaultResult)).result).toEqual([
+        { id: 1, name: "Prod" },
+      ]);
+      expect(JSON.parse(resultText(stagingResult)).result).toEqual([
+        { id: 1, name: "Stage" },
+      ]);
+    });
+
+    it("returns an error result for unknown profiles", async () => {
+      const registry = createToolRegistry();
+      registry.register(partnerTool);
+      const mcp = await connect({
+        client: new MockClientBuilder().build(),
+        toolRegistry: registry,
+      });
+
+      const result = await mcp.callTool({
+        name: "read_partner",
+        arguments: { profile: "missing" },
+      });
+
+      const parsed = JSON.parse(resultText(result));
+      expect(parsed.success).toBe(false);
+      expect(parsed.error).toContain('Unknown profile "missing"');
+    });
+  });
+
+  describe("read-only mode", () => {
+    async function connect(deps: ServerDependencies): Promise<Client> {
+      const server = createServer(deps);
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      const client = new Client({ name: "test", version: "1.0.0" });
+      await client.connect(clientTransport);
+      return client;
+    }
+
+    it("leaves out tools that write", async () => {
+      const mcp = await connect({
+        client: new MockClientBuilder().build(),
+        readOnly: true,
+      });
+
+      const names = (await mcp.listTools()).tools.map((t) => t.name);
+
+      expect(names).toContain("execute_method");
+      expect(names).toContain("search_records");
+      expect(names).not.toContain("bulk_operation");
+      expect(names).not.toContain("execute_action");
+      expect(names).not.toContain("save_doc");
+      expect(names).not.toContain("save_sop");
+    });
+
+    it("blocks write methods in execute_method", async () => {
+      const client = new MockClientBuilder()
+        .withExecuteResult("res.partner", "write", true)
+        .build();
+      const mcp = await connect({ client, readOnly: true });
+
+      const result = await mcp.callTool({
+        name: "execute_method",
+        arguments: { model: "res.partner", method: "write", args: [[1], {}] },
+      });
+
+      const content = (result as { content: Array<{ text: string }> }).content;
+      const parsed = JSON.parse(content[0]?.text ?? "");
+      expect(parsed.success).toBe(false);
+      expect(parsed.error_type).toBe("read_only");
+      expect(parsed.error).toContain("Method 'write' is blocked");
+    });
+
+    it("reads ODOO_READ_ONLY when not set explicitly", async () => {
+      vi.mocked(isReadOnly).mockReturnValueOnce(true);
+      const mcp = await connect({ client: new MockClientBuilder().build() });
+
+      const names = (await mcp.listTools()).tools.map((t) => t.name);
+
+      expect(names).not.toContain("bulk_operation");
+    });
+  });
+
+  describe("policy", () => {
+    it("blocks tool calls denied by the policy", async () => {
+      const client = new MockClientBuilder()
+        .withExecuteResult("res.users", "write", true)
+        .build();
+      const server = createServer({
+        client,
+        policy: {
+          default: "allow",
+          rules: [
+            {
+              name: "protect-users",
+              effect: "deny",
+              model: ["res.users"],
+              operation: ["write"],
+            },
+          ],
+        },
+      });
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      const mcp = new Client({ name: "test", version: "1.0.0" });
+      await mcp.connect(clientTransport);
+
+      const result = await mcp.callTool({
+        name: "execute_method",
+        arguments: { model: "res.users", method: "write", args: [[1], {}] },
+      });
+
+      const content = (result as { content: Array<{ text: string }> }).content;
+      const parsed = JSON.parse(content[0]?.text ?? "");
+      expect(parsed.success).toBe(false);
+      expect(parsed.error_type).toBe("policy_violation");
+      expect(parsed.policy_rule).toEqual({ index: 1, name: "protect-users" });
+    });
+  });
+
+  describe("audit log", () => {
+    it("records changes with the tool and profile that made them", async () => {
+      const client = new MockClientBuilder()
+        .withExecuteResult("res.partner", "write", true)
+        .build();
+      const auditLog = new AuditLog({
+        directory: "/unused",
+        maxFileSize: 1,
+        maxFiles: 1,
+      });
+      const append = vi.spyOn(auditLog, "append").mockImplementation(() => {});
+      const server = createServer({ client, auditLog });
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      const mcp = new Client({ name: "test", version: "1.0.0" });
+      await mcp.connect(clientTransport);
+
+      await mcp.callTool({
+        name: "execute_method",
+        arguments: {
+          model: "res.partner",
+          method: "write",
+          args: [[1], { name: "Acme" }],
+        },
+      });
+
+      expect(append).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tool: "execute_method",
+          profile: "default",
+          model: "res.partner",
+          method: "write",
+          record_ids: [1],
+          outcome: "success",
+        }),
+      );
+    });
+  });
+
+  describe("undo snapshots", () => {
+    it("returns an operation_id for calls that changed records", async () => {
+      const client = new MockClientBuilder()
+        .withModelFields("res.partner", {
+          name: { type: "char", string: "Name" },
+        })
+        .withExecuteResult("res.partner", "read", [{ id: 1, name: "Old" }])
+        .withExecuteResult("res.partner", "write", true)
+        .build();
+      const snapshotStore = new SnapshotStore({
+        directory: "/unused",
+        retention: 0,
+      });
+      const save = vi.spyOn(snapshotStore, "save").mockImplementation(() => {});
+      const server = createServer({ client, snapshotStore });
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      const mcp = new Client({ name: "test", version: "1.0.0" });
+      await mcp.connect(clientTransport);
+
+      const result = await mcp.callTool({
+        name: "execute_method",
+        arguments: {
+          model: "res.partner",
+          method: "write",
+          args: [[1], { name: "New" }],
+        },
+      });
+
+      const content = (result as { content: Array<{ text: string }> }).content;
+      const parsed = JSON.parse(content[0]?.text ?? "");
+      expect(parsed.success).toBe(true);
+      expect(parsed.operation_id).toEqual(expect.any(String));
+      expect(save).toHaveBeenCalledWith(
+        expect.objectContaining({ operation_id: parsed.operation_id }),
+      );
+    });
+  });
+
+  describe("destructive change confirmation", () => {
+    async function connect(elicit?: (summary: string) => ElicitResult) {
+      const client = new MockClientBuilder()
+        .withModelFields("res.partner", {
+          name: { type: "char", string: "Name" },
+        })
+        .withExecuteResult("res.partner", "unlink", true)
+        .build();
+      vi.spyOn(client, "execute");
+      const server = createServer({
+        client,
+        confirmation: { writeThreshold: 50 },
+      });
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      const mcp = new Client(
+        { name: "test", version: "1.0.0" },
+        { capabilities: elicit ? { elicitation: {} } : {} },
+      );
+      if (elicit) {
+        mcp.setRequestHandler(ElicitRequestSchema, async (request) =>
+          elicit(request.params.message),
+        );
+      }
+      await mcp.connect(clientTransport);
+      return { client, mcp };
+    }
+
+    const unlink = {
+      name: "bulk_operation",
+      arguments: { model: "res.partner", operation: "unlink", record_ids: [1] },
+    };
+
+    function parse(result: unknown) {
+      const content = (result as { content: Array<{ text: string }> }).content;
+      return JSON.parse(content[0]?.text ?? "");
+    }
+
+    it("asks the user through elicitation", async () => {
+      const messages: string[] = [];
+      const { mcp } = await connect((message) => {
+        messages.push(message);
+        return { action: "accept", content: { confirm: true } };
+      });
+
+      const result = parse(await mcp.callTool(unlink));
+
+      expect(messages).toEqual(["Confirm: delete 1 res.partner record?"]);
+      expect(result.success).toBe(true);
+      expect(result.result.deleted_ids).toEqual([1]);
+    });
+
+    it("cancels when the user declines", async () => {
+      const { client, mcp } = await connect(() => ({ action: "decline" }));
+
+      const result = parse(await mcp.callTool(unlink));
+
+      expect(result.error_type).toBe("cancelled");
+      expect(client.execute).not.toHaveBeenCalled();
+    });
+
+    it("falls back to a confirm token without elicitation", async () => {
+      const { mcp } = await connect();
+
+      const first = parse(await mcp.callTool(unlink));
+      expect(first.error_type).toBe("confirmation_required");
+
+      const second = parse(
+        await mcp.callTool({
+          ...unlink,
+          arguments: {
+            ...unlink.arguments,
+            confirm_token: first.result.confirm_token,
+          },
+        }),
+      );
+      expect(second.success).toBe(true);
+      expect(second.result.deleted_ids).toEqual([1]);
+    });
+  });
+
+  describe("tool metadata", () => {
+    async function connect(client = new MockClientBuilder().build()) {
+      const server = createServer({ client });
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      const mcp = new Client({ name: "test", version: "1.0.0" });
+      await mcp.connect(clientTransport);
+      return mcp;
+    }
+
+    it("reports annotations and an output schema for every tool", async () => {
+      const mcp = await connect();
+
+      const { tools } = await mcp.listTools();
+
+      for (const tool of tools) {
+        expect(tool.annotations, tool.name).toMatchObject({
+          readOnlyHint: expect.any(Boolean),
+          destructiveHint: expect.any(Boolean),
+          idempotentHint: expect.any(Boolean),
+          openWorldHint: expect.any(Boolean),
+        });
+        expect(tool.outputSchema?.properties, tool.name).toHaveProperty(
+          "success",
+        );
+        // Each tool describes its own result rather than accepting anything
+        expect(tool.outputSchema?.properties?.result, tool.name).not.toEqual(
+          {},
+        );
+      }
+      const readOnly = (name: string) =>
+        tools.find((t) => t.name === name)?.annotations?.readOnlyHint;
+      expect(readOnly("search_records")).toBe(true);
+      expect(readOnly("bulk_operation")).toBe(false);
+      expect(readOnly("execute_method")).toBe(false);
+    });
+
+    it("returns the result as structured content", async () => {
+      const mcp = await connect(
+        new MockClientBuilder()
+          .withExecuteResult("res.partner", "search_count", 3)
+          .build(),
+      );
+
+      const result = await mcp.callTool({
+        name: "execute_method",
+        arguments: { model: "res.partner", method: "search_count", args: [[]] },
+      });
+
+      expect(result.structuredContent).toEqual({ success: true, result: 3 });
+      expect(result.isError).toBe(false);
+    });
+
+    it("flags failed calls as errors", async () => {
+      const mcp = await connect();
+
+      const result = await mcp.callTool({
+        name: "read_doc",
+        arguments: { name: "no-such-doc" },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.structuredContent).toMatchObject({ success: false });
+    });
+
+    it("checks successful results against the tool's output schema", async () => {
+      const mcp = await connect(
+        new MockClientBuilder()
+          .withModelFields("res.partner", {
+            id: { type: "integer", string: "ID" },
+            name: { type: "char", string: "Name" },
+            display_name: { type: "char", string: "Display Name" },
+          })
+          .withExecuteResult("res.partner", "search_count", 1)
+          .build(),
+      );
+
+      const result = await mcp.callTool({
+        name: "search_records",
+        arguments: { model: "res.partner", domain: [], count_only: true },
+      });
+
+      expect(result.isError).toBe(false);
+      expect(result.structuredContent).toEqual({
+        success: true,
+        result: { model: "res.partner", count: 1, domain_used: [] },
+      });
+    });
+  });
+
+  describe("resource subscriptions", () => {
+    it("notifies subscribers when a record changes", async () => {
+      const client = new MockClientBuilder().build();
+      const searchRead = vi
+        .fn()
+        .mockResolvedValueOnce([{ id: 7, write_date: "2025-01-14 10:00:00" }])
+        .mockResolvedValue([{ id: 7, write_date: "2025-01-14 11:00:00" }]);
+      client.searchRead = searchRead;
+      const server = createServer({
+        client,
+        subscriptions: { interval: 10, maxRecords: 10 },
+      });
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      const mcp = new Client({ name: "test", version: "1.0.0" });
+      await mcp.connect(clientTransport);
+
+      const updated = new Promise<string>((resolve) => {
+        mcp.setNotificationHandler(
+          ResourceUpdatedNotificationSchema,
+          (notification) => resolve(notification.params.uri),
+        );
+      });
+
+      expect(mcp.getServerCapabilities()?.resources?.subscribe).toBe(true);
+      await mcp.subscribeResource({ uri: "odoo://record/sale.order/7" });
+
+      expect(await updated).toBe("odoo://record/sale.order/7");
+      await mcp.close();
+    });
+  });
+
+  describe("resource completion", () => {
+    it("completes record IDs for the chosen model", async () => {
+      const client = new MockClientBuilder()
+        .withExecuteResult("res.partner", "name_search", [[7, "Acme"]])
+        .build();
+      const server = createServer({ client });
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      const mcp = new Client({ name: "test", version: "1.0.0" });
+      await mcp.connect(clientTransport);
+
+      const result = await mcp.complete({
+        ref: {
+          type: "ref/resource",
+          uri: "odoo://record/{model_name}/{record_id}",
+        },
+        argument: { name: "record_id", value: "Ac" },
+        context: { arguments: { model_name: "res.partner" } },
+      });
+
+      expect(result.completion.values).toEqual(["7"]);
+    });
+  });
+
+  describe("docs and SOPs", () => {
+    let sopDir: string;
+
+    beforeEach(() => {
+      sopDir = fs.mkdtempSync(path.join(os.tmpdir(), "odoo-mcp-sops-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(sopDir, { recursive: true, force: true });
+    });
+
+    async function connect(toolRegistry?: ToolRegistry) {
+      const server = createServer({
+        client: new MockClientBuilder().build(),
+        docPaths: {
+          bundledDir: path.join(sopDir, "none"),
+          globalDir: path.join(sopDir, "none"),
+          localDir: path.join(sopDir, "none"),
+        },
+        sopPaths: { globalDir: path.join(sopDir, "none"), localDir: sopDir },
+        ...(toolRegistry && { toolRegistry }),
+      });
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      const mcp = new Client({ name: "test", version: "1.0.0" });
+      await mcp.connect(clientTransport);
+      return mcp;
+    }
+
+    it("offers each SOP as a prompt with its arguments filled in", async () => {
+      fs.writeFileSync(
+        path.join(sopDir, "partner-import.md"),
+        "---\narguments: [csv_path]\n---\n# Partner Import\n\nRead {{csv_path}}",
+      );
+      const mcp = await connect();
+
+      const { prompts } = await mcp.listPrompts();
+      const prompt = await mcp.getPrompt({
+        name: "partner-import",
+        arguments: { csv_path: "/tmp/p.csv" },
+      });
+
+      expect(prompts).toEqual([
+        expect.objectContaining({
+          name: "partner-import",
+          title: "Partner Import",
+          arguments: [expect.objectContaining({ name: "csv_path" })],
+        }),
+      ]);
+      expect(prompt.messages[0]?.content).toEqual({
+        type: "text",
+        text: "# Partner Import\n\nRead /tmp/p.csv",
+      });
+    });
+
+    it("lists and reads SOPs as resources", async () => {
+      fs.writeFileSync(path.join(sopDir, "import.md"), "# Import\n\nSteps");
+      const mcp = await connect();
+
+      const { resources } = await mcp.listResources();
+      const { contents } = await mcp.readResource({
+        uri: "odoo-sops://import",
+      });
+
+      expect(resources).toContainEqual(
+        expect.objectContaining({
+          uri: "odoo-sops://import",
+          name: "import",
+          title: "Import",
+        }),
+      );
+      expect(contents[0]).toMatchObject({ text: "# Import\n\nSteps" });
+    });
+
+    it("updates the prompt and resource lists when SOPs are saved", async () => {
+      const registry = createToolRegistry();
+      registry.register(
+        defineTool({
+          name: "save_test_sop",
+          description: "Save a test SOP",
+          inputSchema: {},
+          annotations: {
+            readOnlyHint: false,
+            destructiveHint: false,
+            idempotentHint: true,
+            openWorldHint: false,
+          },
+          handler: async (_client, _input, context) => {
+            fs.writeFileSync(path.join(sopDir, "new-sop.md"), "# New SOP");
+            context?.entriesChanged?.("sops");
+            return { success: true };
+          },
+        }),
+      );
+      const mcp = await connect(registry);
+      const changed = vi.fn();
+      const resourcesChanged = vi.fn();
+      mcp.setNotificationHandler(PromptListChangedNotificationSchema, changed);
+      mcp.setNotificationHandler(
+        ResourceListChangedNotificationSchema,
+        resourcesChanged,
+      );
+
+      expect((await mcp.listPrompts()).prompts).toEqual([]);
+      await mcp.callTool({ name: "save_test_sop", arguments: {} });
+
+      expect((await mcp.listPrompts()).prompts.map((p) => p.name)).toEqual([
+        "new-sop",
+      ]);
+      expect(changed).toHaveBeenCalled();
+      expect(resourcesChanged).toHaveBeenCalled();
+    });
+  });
+
   describe("registry integration", () => {
     it("should register all tools from custom registry", () => {
       const client = new MockClientBuilder().build();
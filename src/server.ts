@@ -1,34 +1,95 @@
 import {
   McpServer,
+  type RegisteredPrompt,
   ResourceTemplate,
 } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { getClientOptions, loadConfig } from "./connection/config.js";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import {
+  type AuditContext,
+  AuditingClient,
+  AuditLog,
+} from "./connection/audit.js";
+import {
+  CachingOdooClient,
+  DEFAULT_SCHEMA_CACHE_DIR,
+} from "./connection/cache.js";
+import {
+  getAuditOptions,
+  getClientOptions,
+  getConfirmationOptions,
+  getPolicyPath,
+  getSchemaCacheOptions,
+  getSnapshotOptions,
+  getSubscriptionOptions,
+  isReadOnly,
+  loadConfig,
+  loadProfiles,
+} from "./connection/config.js";
+import {
+  type ConfirmationContext,
+  type ConfirmationOptions,
+  ConfirmTokenStore,
+} from "./connection/confirmation.js";
 import { OdooClient } from "./connection/odoo-client.js";
+import {
+  loadPolicy,
+  type Policy,
+  PolicyEnforcingClient,
+} from "./connection/policy.js";
+import { createDeferredClient, ProfileManager } from "./connection/profiles.js";
+import { SnapshotStore, SnapshottingClient } from "./connection/snapshots.js";
+import {
+  SubscriptionManager,
+  type SubscriptionOptions,
+} from "./connection/subscriptions.js";
+import type { PathConfig } from "./docs-system/index.js";
+// Prompts
+import {
+  loadSopPrompts,
+  renderSopPrompt,
+  type SopPrompt,
+} from "./prompts/index.js";
 // Resources
 import {
+  completeModelName,
+  completeRecordId,
+  handleEntryResource,
   handleModelResource,
   handleModelsResource,
   handleRecordResource,
   handleSearchResource,
-} from "./resources/odoo-resources.js";
+  handleServerResource,
+  listCommonModelResources,
+  listEntryResources,
+} from "./resources/index.js";
 // Tools
+import { errorResult } from "./tools/errors.js";
 import {
   createOdooToolRegistry,
   type ToolRegistry,
   type ToolResult,
+  toolResultOutputSchema,
 } from "./tools/index.js";
-import type { IOdooClient } from "./types/index.js";
+import type { IOdooClient, OdooConfig } from "./types/index.js";
 
 // Global client instance (mutable for runtime, but testable)
 let odooClient: OdooClient | null = null;
 
+// Global connection profiles (mutable for runtime, but testable)
+let profileManager: ProfileManager | null = null;
+
 /**
- * Reset the global client (for testing only)
+ * Reset the global client and profiles (for testing only)
  * @internal
  */
 export function _resetClient(): void {
   odooClient = null;
+  profileManager = null;
 }
 
 /**
@@ -50,15 +111,102 @@ export async function initializeClient(): Promise<OdooClient> {
   console.error(`  URL: ${config.url}`);
   console.error(`  Database: ${config.db}`);
   console.error(`  Username: ${config.username}`);
+  console.error(`  Protocol: ${config.protocol ?? "xmlrpc"}`);
+  console.error(`  Auth: ${config.api_key ? "API key" : "password"}`);
   console.error(`  Timeout: ${options.timeout}ms`);
   console.error(`  Verify SSL: ${options.verifySsl}`);
 
   const client = new OdooClient(config, options);
-  await client.connect();
+
+  if (options.lazyConnect) {
+    // Start even if Odoo is down; the first request authenticates
+    console.error("  Lazy connect: will authenticate on first request");
+  } else {
+    await client.connect();
+    try {
+      const info = await client.getServerInfo();
+      console.error(
+        `  Server: Odoo ${info.server_version}${info.edition ? ` (${info.edition})` : ""}`,
+      );
+    } catch (error) {
+      // Version-specific behaviour falls back to current Odoo defaults
+      console.error(`  Server: version detection failed: ${error}`);
+    }
+  }
 
   return client;
 }
 
+/**
+ * Set the global profile manager (for testing only)
+ * @internal
+ */
+export function _setProfileManager(manager: ProfileManager | null): void {
+  profileManager = manager;
+}
+
+/**
+ * Load all configured connection profiles.
+ * Profiles connect lazily on first use; an already connected client can be
+ * supplied for the default profile to avoid connecting it twice.
+ */
+export function initializeProfiles(
+  defaultClient?: IOdooClient,
+): ProfileManager {
+  const profiles = loadProfiles();
+  const options = getClientOptions();
+
+  console.error(
+    `Odoo profiles: ${Object.keys(profiles.profiles).join(", ")} (default: ${profiles.defaultProfile})`,
+  );
+
+  const manager = new ProfileManager(profiles, async (name, config) => {
+    console.error(`Connecting profile "${name}"...`);
+    const client = new OdooClient(config, options);
+    if (!options.lazyConnect) {
+      await client.connect();
+    }
+    return withSchemaCache(client, config);
+  });
+
+  const defaultConfig = profiles.profiles[profiles.defaultProfile];
+  if (defaultClient && defaultConfig) {
+    manager.setClient(
+      profiles.defaultProfile,
+      withSchemaCache(defaultClient, defaultConfig),
+    );
+  }
+
+  return manager;
+}
+
+/**
+ * Wrap a client with the model metadata cache, unless caching is disabled
+ */
+function withSchemaCache(client: IOdooClient, config: OdooConfig): IOdooClient {
+  const { ttl, disk } = getSchemaCacheOptions();
+  if (ttl <= 0) {
+    return client;
+  }
+
+  return new CachingOdooClient(client, {
+    ttl,
+    directory: disk ? DEFAULT_SCHEMA_CACHE_DIR : undefined,
+    identity: { url: config.url, db: config.db, username: config.username },
+  });
+}
+
+/**
+ * Get the global profile manager.
+ * Falls back to a single profile wrapping the global client.
+ */
+export function getProfileManager(): ProfileManager {
+  if (profileManager) {
+    return profileManager;
+  }
+  return ProfileManager.forClient(getClient());
+}
+
 /**
  * Get the global Odoo client instance.
  * Throws if not initialized via runServer().
@@ -80,8 +228,64 @@ export interface ServerDependencies {
    * Defaults to the standard Odoo tool registry if not provided.
    */
   toolRegistry?: ToolRegistry;
+  /**
+   * Named connection profiles.
+   * Defaults to a single profile wrapping `client` if not provided.
+   */
+  profiles?: ProfileManager;
+  /**
+   * Refuse to modify Odoo data.
+   * Defaults to the ODOO_READ_ONLY setting if not provided.
+   */
+  readOnly?: boolean;
+  /**
+   * Model/method policy checked before every Odoo call.
+   * Defaults to the policy file if not provided; null disables it.
+   */
+  policy?: Policy | null;
+  /**
+   * Log of mutating calls.
+   * Defaults to the ODOO_AUDIT_* settings if not provided; null disables it.
+   */
+  auditLog?: AuditLog | null;
+  /**
+   * Store for undo snapshots.
+   * Defaults to the ODOO_SNAPSHOT_* settings if not provided; null disables it.
+   */
+  snapshotStore?: SnapshotStore | null;
+  /**
+   * When destructive changes need the user's confirmation.
+   * Defaults to the ODOO_CONFIRM* settings if not provided; null disables it.
+   */
+  confirmation?: ConfirmationOptions | null;
+  /**
+   * How subscribed resources are polled for changes.
+   * Defaults to the ODOO_SUBSCRIPTION_* settings if not provided.
+   */
+  subscriptions?: SubscriptionOptions;
+  /**
+   * Where docs offered as resources are read from.
+   * Defaults to the bundled, ~/.odoo-mcp/docs and ./.odoo-mcp/docs
+   * directories if not provided.
+   */
+  docPaths?: PathConfig;
+  /**
+   * Where SOPs offered as prompts and resources are read from.
+   * Defaults to ~/.odoo-mcp/sops and ./.odoo-mcp/sops if not provided.
+   */
+  sopPaths?: PathConfig;
 }
 
+/**
+ * Optional `profile` argument added to every tool
+ */
+const profileInputSchema = z
+  .string()
+  .optional()
+  .describe(
+    "Connection profile to run against (see list_profiles). Defaults to the default profile.",
+  );
+
 /**
  * Format a ToolResult for MCP response.
  * If result.text exists, return it directly as markdown.
@@ -112,11 +316,108 @@ export function createServer(deps?: ServerDependencies): McpServer {
     version: "1.0.0",
   });
 
-  // Use injected client if provided, otherwise fall back to global
-  const getClientFn = deps ? () => deps.client : getClient;
+  // Use injected client/profiles if provided, otherwise fall back to global
+  let injectedProfiles: ProfileManager | undefined;
+  const getProfiles = deps
+    ? () => {
+        injectedProfiles ??=
+          deps.profiles ?? ProfileManager.forClient(deps.client);
+        return injectedProfiles;
+      }
+    : getProfileManager;
+
+  const readOnly = deps?.readOnly ?? isReadOnly();
+  const policy =
+    deps?.policy !== undefined ? deps.policy : loadPolicy(getPolicyPath());
+
+  const auditOptions = getAuditOptions();
+  const auditLog =
+    deps?.auditLog !== undefined
+      ? deps.auditLog
+      : auditOptions.enabled
+        ? new AuditLog(auditOptions)
+        : null;
+
+  const snapshotOptions = getSnapshotOptions();
+  const snapshotStore =
+    deps?.snapshotStore !== undefined
+      ? deps.snapshotStore
+      : snapshotOptions.enabled
+        ? new SnapshotStore(snapshotOptions)
+        : null;
+
+  const confirmOptions = getConfirmationOptions();
+  const confirmation =
+    deps?.confirmation !== undefined
+      ? deps.confirmation
+      : confirmOptions.enabled
+        ? { writeThreshold: confirmOptions.writeThreshold }
+        : null;
+  const confirmTokens = new ConfirmTokenStore();
+
+  // Ask the user through the client, when it supports elicitation
+  const confirmationFor = (
+    relatedRequestId: string | number,
+  ): ConfirmationContext | null => {
+    if (!confirmation) {
+      return null;
+    }
+    if (!server.server.getClientCapabilities()?.elicitation) {
+      return { ...confirmation, tokens: confirmTokens };
+    }
+    return {
+      ...confirmation,
+      tokens: confirmTokens,
+      elicit: async (summary) => {
+        const response = await server.server.elicitInput(
+          {
+            message: `Confirm: ${summary}?`,
+            requestedSchema: {
+              type: "object",
+              properties: {
+                confirm: {
+                  type: "boolean",
+                  title: "Proceed",
+                  description: summary,
+                },
+              },
+              required: ["confirm"],
+            },
+          },
+          { relatedRequestId },
+        );
+        return (
+          response.action === "accept" && response.content?.confirm === true
+        );
+      },
+    };
+  };
+
+  // Single point where tools and resources reach Odoo: resolve the
+  // profile's client only when it is used, check the policy, snapshot
+  // records before they change, and audit changes (including blocked ones)
+  const clientFor = (
+    profile?: string,
+    context: AuditContext = { sessionId: null, tool: null, profile: null },
+  ): { client: IOdooClient; operationId: () => string | null } => {
+    let client = createDeferredClient(() => getProfiles().getClient(profile));
+    let snapshots: SnapshottingClient | null = null;
+    if (snapshotStore) {
+      snapshots = new SnapshottingClient(client, snapshotStore, context);
+      client = snapshots;
+    }
+    if (policy) {
+      client = new PolicyEnforcingClient(client, policy);
+    }
+    if (auditLog) {
+      client = new AuditingClient(client, auditLog, context);
+    }
+    return { client, operationId: () => snapshots?.operationId ?? null };
+  };
 
   // Use provided registry or create default Odoo tool registry
-  const toolRegistry = deps?.toolRegistry ?? createOdooToolRegistry();
+  const toolRegistry =
+    deps?.toolRegistry ?? createOdooToolRegistry({ readOnly });
 
   // ===== Register All Tools from Registry =====
   for (const tool of toolRegistry.getAll()) {
@@ -124,17 +425,112 @@ export function createServer(deps?: ServerDependencies): McpServer {
       tool.name,
       {
         description: tool.description,
-        inputSchema: tool.inputSchema,
+        inputSchema: {
+          ...tool.inputSchema,
+          profile: tool.inputSchema.profile ?? profileInputSchema,
+        },
+        outputSchema: tool.outputSchema ?? toolResultOutputSchema,
+        annotations: tool.annotations,
       },
-      async (input) => {
-        const result = await tool.handler(getClientFn(), input);
+      async (input, extra) => {
+        let result: ToolResult;
+        try {
+          const profiles = getProfiles();
+          const { profile } = input as { profile?: string };
+          const { client, operationId } = clientFor(profile, {
+            sessionId: extra.sessionId ?? null,
+            tool: tool.name,
+            profile: profile ?? profiles.defaultProfile,
+          });
+          const confirm = confirmationFor(extra.requestId);
+          result = await tool.handler(client, input, {
+            profiles,
+            readOnly,
+            ...(auditLog && { audit: auditLog }),
+            ...(snapshotStore && { snapshots: snapshotStore }),
+            ...(confirm && { confirmation: confirm }),
+            entriesChanged: (type) => {
+              server.sendResourceListChanged();
+              if (type === "sops") {
+                syncSopPrompts();
+              }
+            },
+          });
+          const id = operationId();
+          if (id) {
+            result = { ...result, operation_id: id };
+          }
+        } catch (error) {
+          result = errorResult(error);
+        }
         return {
           content: [{ type: "text", text: formatToolResult(result) }],
+          structuredContent: { ...result },
+          isError: !result.success,
         };
       },
     );
   }
 
+  // ===== Register Prompts =====
+
+  // Every SOP is offered as a prompt. Re-synced when SOPs are saved; the SDK
+  // sends prompts/list_changed for each prompt added, changed or removed.
+  const sopPrompts = new Map<
+    string,
+    { registered: RegisteredPrompt; source: string }
+  >();
+
+  const registerSopPrompt = (prompt: SopPrompt): RegisteredPrompt => {
+    const { title, description } = prompt;
+    if (prompt.arguments.length === 0) {
+      return server.registerPrompt(prompt.name, { title, description }, () =>
+        renderSopPrompt(prompt, {}),
+      );
+    }
+    const argsSchema = Object.fromEntries(
+      prompt.arguments.map((arg) => [
+        arg.name,
+        arg.description ? z.string().describe(arg.description) : z.string(),
+      ]),
+    );
+    return server.registerPrompt(
+      prompt.name,
+      { title, description, argsSchema },
+      (args) => renderSopPrompt(prompt, args),
+    );
+  };
+
+  const syncSopPrompts = (): void => {
+    const prompts = loadSopPrompts(deps?.sopPaths);
+    const names = new Set(prompts.map((p) => p.name));
+
+    for (const [name, { registered }] of sopPrompts) {
+      if (!names.has(name)) {
+        registered.remove();
+        sopPrompts.delete(name);
+      }
+    }
+
+    for (const prompt of prompts) {
+      const source = JSON.stringify(prompt);
+      const existing = sopPrompts.get(prompt.name);
+      if (existing?.source === source) continue;
+      existing?.registered.remove();
+      sopPrompts.set(prompt.name, {
+        registered: registerSopPrompt(prompt),
+        source,
+      });
+    }
+  };
+
+  syncSopPrompts();
+  if (sopPrompts.size === 0) {
+    // Capabilities are fixed once connected, so declare prompts now in case
+    // the first SOP is saved later
+    server.registerPrompt("_", {}, () => ({ messages: [] })).remove();
+  }
+
   // ===== Register Resources =====
 
   // Register static resource
@@ -142,20 +538,35 @@ export function createServer(deps?: ServerDependencies): McpServer {
     "odoo-models",
     "odoo://models",
     { description: "List all available models in the Odoo system" },
-    async () => handleModelsResource(getClientFn()),
+    async () => handleModelsResource(clientFor().client),
+  );
+
+  server.registerResource(
+    "odoo-server",
+    "odoo://server",
+    {
+      description:
+        "Odoo server version, edition and installed modules for the default profile",
+    },
+    async () => handleServerResource(clientFor().client),
   );
 
   // Register dynamic resources with templates
   server.registerResource(
     "odoo-model",
-    new ResourceTemplate("odoo://model/{model_name}", { list: undefined }),
+    new ResourceTemplate("odoo://model/{model_name}", {
+      list: async () => listCommonModelResources(clientFor().client),
+      complete: {
+        model_name: (value) => completeModelName(clientFor().client, value),
+      },
+    }),
     {
       description:
         "Get detailed information about a specific model including fields",
     },
     async (_uri, params) => {
       const modelName = params.model_name as string;
-      return handleModelResource(getClientFn(), modelName);
+      return handleModelResource(clientFor().client, modelName);
     },
   );
 
@@ -163,12 +574,21 @@ export function createServer(deps?: ServerDependencies): McpServer {
     "odoo-record",
     new ResourceTemplate("odoo://record/{model_name}/{record_id}", {
       list: undefined,
+      complete: {
+        model_name: (value) => completeModelName(clientFor().client, value),
+        record_id: (value, context) =>
+          completeRecordId(
+            clientFor().client,
+            context?.arguments?.model_name,
+            value,
+          ),
+      },
     }),
     { description: "Get detailed information of a specific record by ID" },
     async (_uri, params) => {
       const modelName = params.model_name as string;
       const recordId = params.record_id as string;
-      return handleRecordResource(getClientFn(), modelName, recordId);
+      return handleRecordResource(clientFor().client, modelName, recordId);
     },
   );
 
@@ -176,15 +596,70 @@ export function createServer(deps?: ServerDependencies): McpServer {
     "odoo-search",
     new ResourceTemplate("odoo://search/{model_name}/{+domain}", {
       list: undefined,
+      complete: {
+        model_name: (value) => completeModelName(clientFor().client, value),
+      },
     }),
     { description: "Search for records matching the domain" },
     async (_uri, params) => {
       const modelName = params.model_name as string;
       const domain = params.domain as string;
-      return handleSearchResource(getClientFn(), modelName, domain);
+      return handleSearchResource(clientFor().client, modelName, domain);
+    },
+  );
+
+  // Docs and SOPs, listed so clients can browse and attach them
+  server.registerResource(
+    "odoo-docs",
+    new ResourceTemplate("odoo-docs://{name}", {
+      list: async () => listEntryResources("docs", deps?.docPaths),
+    }),
+    {
+      description: "Reference documentation for Odoo patterns (markdown)",
+      mimeType: "text/markdown",
+    },
+    async (_uri, params) =>
+      handleEntryResource("docs", params.name as string, deps?.docPaths),
+  );
+
+  server.registerResource(
+    "odoo-sops",
+    new ResourceTemplate("odoo-sops://{name}", {
+      list: async () => listEntryResources("sops", deps?.sopPaths),
+    }),
+    {
+      description: "Standard Operating Procedures to follow (markdown)",
+      mimeType: "text/markdown",
     },
+    async (_uri, params) =>
+      handleEntryResource("sops", params.name as string, deps?.sopPaths),
   );
 
+  // ===== Resource Subscriptions =====
+
+  // Record and search resources notify when their records change
+  const subscriptions = new SubscriptionManager(
+    () => clientFor().client,
+    (uri) => server.server.sendResourceUpdated({ uri }),
+    deps?.subscriptions ?? getSubscriptionOptions(),
+  );
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    await subscriptions.subscribe(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    subscriptions.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    subscriptions.close();
+    onclose?.();
+  };
+
   return server;
 }
 
@@ -194,6 +669,8 @@ export function createServer(deps?: ServerDependencies): McpServer {
 export interface BootstrapDependencies {
   /** Custom client initializer */
   initClient?: () => Promise<OdooClient>;
+  /** Custom profile loader */
+  initProfiles?: (defaultClient: IOdooClient) => ProfileManager;
   /** Custom transport factory - returns any transport-like object for testing */
   createTransport?: () => unknown;
   /** Custom server factory */
@@ -201,13 +678,13 @@ export interface BootstrapDependencies {
 }
 
 /**
- * Log environment variables (excluding password)
+ * Log environment variables (excluding password and API key)
  */
 export function logEnvironment(): void {
   console.error("Environment variables:");
   for (const [key, value] of Object.entries(process.env)) {
     if (key.startsWith("ODOO_")) {
-      if (key === "ODOO_PASSWORD") {
+      if (key === "ODOO_PASSWORD" || key === "ODOO_API_KEY") {
         console.error(`  ${key}: ***hidden***`);
       } else {
         console.error(`  ${key}: ${value}`);
@@ -226,6 +703,10 @@ export async function runServer(deps?: BootstrapDependencies): Promise<void> {
   const initClient = deps?.initClient ?? initializeClient;
   odooClient = await initClient();
 
+  // Load connection profiles, reusing the connected default client
+  const initProfiles = deps?.initProfiles ?? initializeProfiles;
+  profileManager = initProfiles(odooClient);
+
   // Create and start server
   const createMcpServer = deps?.createMcpServer ?? createServer;
   const server = createMcpServer();
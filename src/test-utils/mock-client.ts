@@ -4,6 +4,7 @@ import type {
   IOdooClient,
   OdooFieldDef,
   OdooModelInfo,
+  OdooServerInfo,
   SearchReadOptions,
 } from "../types/index.js";
 
@@ -45,6 +46,11 @@ export interface MockClientConfig {
    * Map of "model:id1,id2,..." -> results for readRecords() calls
    */
   readRecordsResults?: Map<string, unknown[]>;
+
+  /**
+   * Result for getServerInfo(); the method is omitted when not set
+   */
+  serverInfo?: OdooServerInfo;
 }
 
 /**
@@ -52,7 +58,14 @@ export interface MockClientConfig {
  * Configure responses via the config parameter.
  */
 export function createMockClient(config: MockClientConfig = {}): IOdooClient {
+  const { serverInfo } = config;
   return {
+    ...(serverInfo && {
+      async getServerInfo(): Promise<OdooServerInfo> {
+        return serverInfo;
+      },
+    }),
+
     async execute<T>(
       model: string,
       method: string,
@@ -198,6 +211,14 @@ export class MockClientBuilder {
     return this;
   }
 
+  /**
+   * Configure the result for getServerInfo()
+   */
+  withServerInfo(info: OdooServerInfo): this {
+    this.config.serverInfo = info;
+    return this;
+  }
+
   /**
    * Build the mock client
    */
@@ -100,6 +100,62 @@ describe("access tools", () => {
       expect(data.operation).toBe("read");
     });
 
+    it("uses has_access on Odoo 18 and later", async () => {
+      vi.mocked(mockClient.getModelFields).mockResolvedValue({
+        id: { type: "integer", string: "ID" },
+      });
+      vi.mocked(mockClient.execute).mockResolvedValue(true);
+      mockClient.getServerInfo = vi.fn().mockResolvedValue({
+        server_version: "18.0",
+        server_serie: "18.0",
+        major: 18,
+        minor: 0,
+        protocol_version: 1,
+        edition: "community",
+        modules: null,
+      });
+
+      const result = await checkAccess(mockClient, {
+        model: "res.partner",
+        operation: "write",
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockClient.execute).toHaveBeenCalledWith(
+        "res.partner",
+        "has_access",
+        ["write"],
+      );
+    });
+
+    it("uses check_access_rights before Odoo 18", async () => {
+      vi.mocked(mockClient.getModelFields).mockResolvedValue({
+        id: { type: "integer", string: "ID" },
+      });
+      vi.mocked(mockClient.execute).mockResolvedValue(true);
+      mockClient.getServerInfo = vi.fn().mockResolvedValue({
+        server_version: "17.0",
+        server_serie: "17.0",
+        major: 17,
+        minor: 0,
+        protocol_version: 1,
+        edition: "community",
+        modules: null,
+      });
+
+      await checkAccess(mockClient, {
+        model: "res.partner",
+        operation: "write",
+      });
+
+      expect(mockClient.execute).toHaveBeenCalledWith(
+        "res.partner",
+        "check_access_rights",
+        ["write"],
+        { raise_exception: false },
+      );
+    });
+
     it("returns model-level access when denied", async () => {
       vi.mocked(mockClient.getModelFields).mockResolvedValue({
         id: { type: "integer", string: "ID" },
@@ -3,8 +3,11 @@
  */
 
 import { z } from "zod";
+import { parseOdooFault } from "../connection/errors.js";
+import { getServerMajorVersion } from "../connection/version.js";
 import type { IOdooClient } from "../types/index.js";
-import { defineTool } from "./registry.js";
+import { errorResult } from "./errors.js";
+import { defineTool, type ToolResult, toolResultShape } from "./registry.js";
 
 // ============ Utility Functions ============
 
@@ -68,10 +71,25 @@ export const CheckAccessInputSchema = z.object({
 
 export type CheckAccessInput = z.infer<typeof CheckAccessInputSchema>;
 
+/**
+ * Record-level details are only present when record_ids were given
+ */
+export const CheckAccessOutputSchema = z.object({
+  model: z.string(),
+  operation: z.enum(VALID_OPERATIONS),
+  has_access: z.boolean(),
+  model_access: z.boolean().optional(),
+  record_access: z.record(z.boolean()).optional(),
+  denied_records: z.array(z.number()).optional(),
+  errors: z.record(z.string()).optional(),
+  reason: z.string().optional(),
+  required_groups: z.array(z.string()).optional(),
+});
+
 export async function checkAccess(
   client: IOdooClient,
   input: CheckAccessInput,
-): Promise<{ success: boolean; result?: unknown; error?: string }> {
+): Promise<ToolResult> {
   try {
     const raiseException = input.raise_exception ?? false;
 
@@ -86,21 +104,29 @@ export async function checkAccess(
     let modelAccessError: string | undefined;
 
     try {
-      // Use raise_exception: false to get a boolean return value
-      // With raise_exception=false, returns True if access granted, False if denied
-      // (raise_exception=true would return None on success in Odoo 18, causing XML-RPC issues)
-      const accessResult = await client.execute<boolean>(
-        input.model,
-        "check_access_rights",
-        [input.operation],
-        { raise_exception: false },
-      );
+      // Odoo 18 deprecates check_access_rights in favour of has_access,
+      // which returns a boolean without raising
+      const major = await getServerMajorVersion(client);
+      // Older versions: raise_exception=false returns True/False
+      // (raise_exception=true would return None on success, causing XML-RPC issues)
+      const accessResult =
+        major !== null && major >= 18
+          ? await client.execute<boolean>(input.model, "has_access", [
+              input.operation,
+            ])
+          : await client.execute<boolean>(
+              input.model,
+              "check_access_rights",
+              [input.operation],
+              { raise_exception: false },
+            );
       hasModelAccess = accessResult === true;
       if (!hasModelAccess) {
         modelAccessError = `Access denied: no ${input.operation} permission on ${input.model}`;
       }
     } catch (error) {
-      modelAccessError = String(error);
+      // Prefer Odoo's own message over the transport's wrapping
+      modelAccessError = parseOdooFault(error)?.message ?? String(error);
       hasModelAccess = false;
     }
 
@@ -110,6 +136,7 @@ export async function checkAccess(
       return {
         success: false,
         error: parsed.reason,
+        error_type: "access_error",
       };
     }
 
@@ -183,6 +210,7 @@ export async function checkAccess(
       return {
         success: false,
         error: `Access denied for record(s): ${deniedIds.join(", ")}`,
+        error_type: "access_error",
       };
     }
 
@@ -212,7 +240,7 @@ export async function checkAccess(
 
     return { success: true, result };
   } catch (error) {
-    return { success: false, error: String(error) };
+    return errorResult(error);
   }
 }
 
@@ -239,5 +267,12 @@ export const checkAccessTool = defineTool({
         "If true, check will fail on access denied. If false (default), returns access info without failing.",
       ),
   },
+  outputSchema: toolResultShape(CheckAccessOutputSchema),
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
   handler: async (client, input) => checkAccess(client, input),
 });
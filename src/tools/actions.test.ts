@@ -1,8 +1,11 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ConfirmTokenStore } from "../connection/confirmation.js";
+import { OdooFault, UserError } from "../connection/errors.js";
 import type { IOdooClient } from "../types/index.js";
 import {
   ExecuteActionInputSchema,
   executeAction,
+  executeActionTool,
   ListAvailableActionsInputSchema,
   listAvailableActions,
 } from "./actions.js";
@@ -226,6 +229,53 @@ describe("action tools", () => {
       expect(serverActions[0].name).toBe("Send by Email");
     });
 
+    it("recognises typed AttributeError faults as unknown actions", async () => {
+      vi.mocked(mockClient.getModelFields).mockResolvedValue({
+        id: { type: "integer", string: "ID" },
+      });
+
+      vi.mocked(mockClient.readRecords).mockResolvedValue([]);
+      vi.mocked(mockClient.execute).mockRejectedValue(
+        new OdooFault({
+          message: "The method 'invalid_action' does not exist",
+          exception: "AttributeError",
+        }),
+      );
+
+      const result = await executeAction(mockClient, {
+        model: "sale.order",
+        action: "invalid_action",
+        record_ids: [1],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("list_available_actions");
+    });
+
+    it("returns typed errors for business rule failures", async () => {
+      vi.mocked(mockClient.getModelFields).mockResolvedValue({
+        id: { type: "integer", string: "ID" },
+      });
+
+      vi.mocked(mockClient.readRecords).mockResolvedValue([]);
+      vi.mocked(mockClient.execute).mockRejectedValue(
+        new UserError({
+          message: "Cannot confirm an order without lines",
+          exception: "odoo.exceptions.UserError",
+        }),
+      );
+
+      const result = await executeAction(mockClient, {
+        model: "sale.order",
+        action: "action_confirm",
+        record_ids: [1],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error_type).toBe("user_error");
+      expect(result.hint).toBeDefined();
+    });
+
     it("returns error for non-existent model", async () => {
       vi.mocked(mockClient.getModelFields).mockResolvedValue({
         error: "Model not found",
@@ -487,4 +537,38 @@ describe("action tools", () => {
       expect(data.records_changed).toBe(0);
     });
   });
+
+  describe("executeActionTool - confirmation", () => {
+    const context = {
+      confirmation: { writeThreshold: 50, tokens: new ConfirmTokenStore() },
+    };
+
+    it("asks before cancel or post style actions", async () => {
+      const result = await executeActionTool.handler(
+        mockClient,
+        { model: "account.move", action: "action_post", record_ids: [1, 2] },
+        context,
+      );
+
+      expect(result.error).toBe(
+        "Confirmation required: run action_post on 2 account.move records",
+      );
+      expect(mockClient.execute).not.toHaveBeenCalled();
+    });
+
+    it("runs other actions without asking", async () => {
+      vi.mocked(mockClient.getModelFields).mockResolvedValue({
+        id: { type: "integer", string: "ID" },
+      });
+      vi.mocked(mockClient.execute).mockResolvedValue(true);
+
+      const result = await executeActionTool.handler(
+        mockClient,
+        { model: "sale.order", action: "action_confirm", record_ids: [1] },
+        context,
+      );
+
+      expect(result.success).toBe(true);
+    });
+  });
 });
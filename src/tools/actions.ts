@@ -3,11 +3,36 @@
  */
 
 import { z } from "zod";
+import { parseOdooFault } from "../connection/errors.js";
 import type { IOdooClient, OdooFieldDef } from "../types/index.js";
-import { defineTool } from "./registry.js";
+import {
+  confirmChange,
+  confirmTokenInputSchema,
+  describeRecords,
+  isDestructiveAction,
+} from "./confirmation.js";
+import { errorResult } from "./errors.js";
+import { defineTool, type ToolResult, toolResultShape } from "./registry.js";
 
 // ============ Utility Functions ============
 
+/**
+ * Check whether a failed call means the method does not exist on the model
+ */
+function isMissingMethodError(error: unknown): boolean {
+  const fault = parseOdooFault(error);
+  if (fault) {
+    // Odoo raises AttributeError for unknown methods
+    return /\b(AttributeError|NameError)$/.test(fault.exception);
+  }
+  // Transports that only give us the message text
+  const message = String(error);
+  return (
+    message.includes("object has no attribute") ||
+    message.includes("is not defined")
+  );
+}
+
 function isError(result: unknown): result is { error: string } {
   return (
     typeof result === "object" &&
@@ -148,6 +173,41 @@ interface ServerAction {
   state: string;
 }
 
+export const ListAvailableActionsOutputSchema = z.object({
+  model: z.string(),
+  record_id: z.number().optional(),
+  current_state: z.string().optional(),
+  workflow_actions: z.array(
+    z.object({
+      method: z.string(),
+      label: z.string(),
+      from_states: z.array(z.string()).optional(),
+      to_state: z.string().optional(),
+      available: z.boolean(),
+      source: z.enum(["discovered", "pattern", "server_action"]),
+    }),
+  ),
+  server_actions: z
+    .array(
+      z.object({
+        id: z.number(),
+        name: z.string(),
+        binding_type: z.string(),
+        state: z.string(),
+      }),
+    )
+    .optional(),
+  state_field: z
+    .object({
+      field_name: z.string(),
+      current: z.string().optional(),
+      all_states: z.array(z.object({ value: z.string(), label: z.string() })),
+    })
+    .optional(),
+  discovered_methods: z.array(z.string()).optional(),
+  guidance: z.string(),
+});
+
 export async function listAvailableActions(
   client: IOdooClient,
   input: ListAvailableActionsInput,
@@ -299,7 +359,7 @@ export async function listAvailableActions(
 
     return { success: true, result };
   } catch (error) {
-    return { success: false, error: String(error) };
+    return errorResult(error);
   }
 }
 
@@ -323,6 +383,13 @@ export const listAvailableActionsTool = defineTool({
         "Include ir.actions.server bound to this model (default: true)",
       ),
   },
+  outputSchema: toolResultShape(ListAvailableActionsOutputSchema),
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
   handler: async (client, input) => listAvailableActions(client, input),
 });
 
@@ -345,10 +412,34 @@ export const ExecuteActionInputSchema = z.object({
 
 export type ExecuteActionInput = z.infer<typeof ExecuteActionInputSchema>;
 
+/**
+ * State changes are only reported for models with a state or status field
+ */
+export const ExecuteActionOutputSchema = z.object({
+  model: z.string(),
+  action: z.string(),
+  records_processed: z.number(),
+  action_result: z.unknown(),
+  state_changes: z
+    .array(
+      z.object({
+        record_id: z.number(),
+        before: z.string(),
+        after: z.string(),
+        changed: z.boolean(),
+      }),
+    )
+    .optional(),
+  records_changed: z.number().optional(),
+  errors: z
+    .array(z.object({ record_id: z.number(), error: z.string() }))
+    .optional(),
+});
+
 export async function executeAction(
   client: IOdooClient,
   input: ExecuteActionInput,
-): Promise<{ success: boolean; result?: unknown; error?: string }> {
+): Promise<ToolResult> {
   try {
     // Validate model exists and get fields
     const fields = await client.getModelFields(input.model);
@@ -406,20 +497,17 @@ export async function executeAction(
         input.context || {},
       );
     } catch (error) {
-      // Check if it's a method not found error
-      const errorStr = String(error);
-      if (
-        errorStr.includes("object has no attribute") ||
-        errorStr.includes("is not defined")
-      ) {
+      if (isMissingMethodError(error)) {
         return {
           success: false,
           error:
             `Action '${input.action}' does not exist on model '${input.model}'. ` +
             `Use list_available_actions to discover valid actions.`,
+          error_type: "fault",
+          hint: "Call list_available_actions and pick an action it returns.",
         };
       }
-      return { success: false, error: errorStr };
+      return errorResult(error);
     }
 
     // Read new state of records (after action)
@@ -479,7 +567,7 @@ export async function executeAction(
 
     return { success: true, result };
   } catch (error) {
-    return { success: false, error: String(error) };
+    return errorResult(error);
   }
 }
 
@@ -489,7 +577,8 @@ export const executeActionTool = defineTool({
     "Execute a workflow action on Odoo records. " +
     "Captures state before and after execution to show what changed. " +
     "Common actions: action_confirm, action_post, action_cancel, action_done. " +
-    "Use list_available_actions first to discover valid actions for a model.",
+    "Use list_available_actions first to discover valid actions for a model. " +
+    "Cancel, post and similar actions ask the user to confirm first.",
   inputSchema: {
     model: z.string().describe('Model technical name (e.g., "sale.order")'),
     action: z
@@ -502,6 +591,27 @@ export const executeActionTool = defineTool({
       .record(z.unknown())
       .optional()
       .describe("Additional context to pass to the action"),
+    confirm_token: confirmTokenInputSchema,
+  },
+  outputSchema: toolResultShape(ExecuteActionOutputSchema),
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (client, input, context) => {
+    const { confirm_token: _, ...action } = input;
+    if (isDestructiveAction(action.action)) {
+      const blocked = await confirmChange(
+        context,
+        `run ${action.action} on ${describeRecords(action.record_ids.length, action.model)}`,
+        input,
+      );
+      if (blocked) {
+        return blocked;
+      }
+    }
+    return executeAction(client, action);
   },
-  handler: async (client, input) => executeAction(client, input),
 });
@@ -0,0 +1,238 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { IOdooClient, OdooServerInfo } from "../types/index.js";
+import { aggregateRecords } from "./aggregate.js";
+
+const orderFields = {
+  name: { type: "char", string: "Order Reference" },
+  state: { type: "selection", string: "Status" },
+  amount_total: { type: "monetary", string: "Total" },
+  date_order: { type: "datetime", string: "Order Date" },
+  user_id: { type: "many2one", string: "Salesperson", relation: "res.users" },
+};
+
+function serverInfo(major: number): OdooServerInfo {
+  return {
+    server_version: `${major}.0`,
+    server_serie: `${major}.0`,
+    major,
+    minor: 0,
+    protocol_version: 1,
+    edition: null,
+    modules: null,
+  };
+}
+
+describe("aggregateRecords", () => {
+  let client: IOdooClient;
+
+  beforeEach(() => {
+    client = {
+      execute: vi.fn(),
+      getModels: vi.fn(),
+      getModelInfo: vi.fn(),
+      getModelFields: vi.fn().mockResolvedValue(orderFields),
+      searchRead: vi.fn(),
+      readRecords: vi.fn(),
+      getServerInfo: vi.fn().mockResolvedValue(serverInfo(17)),
+    };
+  });
+
+  it("returns read_group groups as a flat table", async () => {
+    vi.mocked(client.execute).mockResolvedValue([
+      {
+        user_id: [2, "Mitchell Admin"],
+        "date_order:month": "January 2025",
+        amount_total: 1500,
+        __count: 3,
+        __domain: [],
+      },
+      {
+        user_id: false,
+        "date_order:month": "February 2025",
+        amount_total: 200,
+        __count: 1,
+        __domain: [],
+      },
+    ]);
+
+    const result = await aggregateRecords(client, {
+      model: "sale.order",
+      domain: [["state", "=", "sale"]],
+      measures: ["amount_total:sum"],
+      groupby: ["user_id", "date_order:month"],
+    });
+
+    expect(client.execute).toHaveBeenCalledWith(
+      "sale.order",
+      "read_group",
+      [
+        [["state", "=", "sale"]],
+        ["amount_total:sum"],
+        ["user_id", "date_order:month"],
+      ],
+      { offset: 0, limit: 500, lazy: false },
+    );
+    expect(result).toEqual({
+      success: true,
+      result: {
+        model: "sale.order",
+        columns: ["user_id", "date_order:month", "amount_total:sum", "count"],
+        rows: [
+          {
+            user_id: "Mitchell Admin",
+            "date_order:month": "January 2025",
+            "amount_total:sum": 1500,
+            count: 3,
+          },
+          {
+            user_id: null,
+            "date_order:month": "February 2025",
+            "amount_total:sum": 200,
+            count: 1,
+          },
+        ],
+        row_count: 2,
+        has_more: false,
+        method: "read_group",
+        domain_used: [["state", "=", "sale"]],
+      },
+    });
+  });
+
+  it("groups by the first groupby only in lazy mode", async () => {
+    vi.mocked(client.execute).mockResolvedValue([
+      { user_id: [2, "Mitchell Admin"], amount_total: 1700, user_id_count: 4 },
+    ]);
+
+    const result = await aggregateRecords(client, {
+      model: "sale.order",
+      measures: ["amount_total:sum"],
+      groupby: ["user_id", "date_order:month"],
+      lazy: true,
+      order: "amount_total desc",
+    });
+
+    expect(vi.mocked(client.execute).mock.calls[0]?.[3]).toEqual({
+      offset: 0,
+      limit: 500,
+      lazy: true,
+      orderby: "amount_total desc",
+    });
+    expect(result.result).toMatchObject({
+      columns: ["user_id", "amount_total:sum", "count"],
+      rows: [{ user_id: "Mitchell Admin", "amount_total:sum": 1700, count: 4 }],
+    });
+  });
+
+  it("uses formatted_read_group on Odoo 19", async () => {
+    client.getServerInfo = vi.fn().mockResolvedValue(serverInfo(19));
+    vi.mocked(client.execute).mockResolvedValue([
+      {
+        user_id: [2, "Mitchell Admin"],
+        "date_order:month": ["2025-01-01", "January 2025"],
+        "amount_total:sum": 1500,
+        "amount_total:avg": 500,
+        __count: 3,
+        __extra_domain: [],
+      },
+    ]);
+
+    const result = await aggregateRecords(client, {
+      model: "sale.order",
+      measures: ["amount_total:sum", "amount_total:avg"],
+      groupby: ["user_id", "date_order:month"],
+    });
+
+    expect(client.execute).toHaveBeenCalledWith(
+      "sale.order",
+      "formatted_read_group",
+      [],
+      {
+        domain: [],
+        groupby: ["user_id", "date_order:month"],
+        aggregates: ["amount_total:sum", "amount_total:avg", "__count"],
+        offset: 0,
+        limit: 500,
+      },
+    );
+    expect(result.result).toMatchObject({
+      method: "formatted_read_group",
+      rows: [
+        {
+          user_id: "Mitchell Admin",
+          "date_order:month": "January 2025",
+          "amount_total:sum": 1500,
+          "amount_total:avg": 500,
+          count: 3,
+        },
+      ],
+    });
+  });
+
+  it("falls back to read_group when Odoo 18 lacks formatted_read_group", async () => {
+    client.getServerInfo = vi.fn().mockResolvedValue(serverInfo(18));
+    vi.mocked(client.execute)
+      .mockRejectedValueOnce(
+        new Error(
+          "The method 'formatted_read_group' does not exist on the model 'sale.order'",
+        ),
+      )
+      .mockResolvedValueOnce([{ amount_total: 1700, __count: 4 }]);
+
+    const result = await aggregateRecords(client, {
+      model: "sale.order",
+      measures: ["amount_total:sum"],
+    });
+
+    expect(vi.mocked(client.execute).mock.calls[1]?.[1]).toBe("read_group");
+    expect(result.result).toMatchObject({
+      method: "read_group",
+      rows: [{ "amount_total:sum": 1700, count: 4 }],
+    });
+  });
+
+  it("reports unknown fields, aggregates and granularities", async () => {
+    const result = await aggregateRecords(client, {
+      model: "sale.order",
+      measures: ["amount_untaxed:sum", "amount_total:median"],
+      groupby: ["user_id:month", "date_order:hour"],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain(
+      "Measure 'amount_untaxed:sum': field 'amount_untaxed' not found",
+    );
+    expect(result.error).toContain("Measure 'amount_total:median'");
+    expect(result.error).toContain(
+      "Groupby 'user_id:month': only date and datetime fields",
+    );
+    expect(result.error).toContain(
+      "Groupby 'date_order:hour': granularity must be one of",
+    );
+    expect(client.execute).not.toHaveBeenCalled();
+  });
+
+  it("checks the domain like search_records", async () => {
+    const result = await aggregateRecords(client, {
+      model: "sale.order",
+      domain: "[('stage', '=', 'sale')]",
+      measures: ["amount_total:sum"],
+    });
+
+    expect(result).toEqual({
+      success: false,
+      error:
+        "Domain validation errors: Field 'stage' not found on model sale.order. Did you mean: state?",
+    });
+  });
+
+  it("asks for one aggregate per field before formatted_read_group", async () => {
+    const result = await aggregateRecords(client, {
+      model: "sale.order",
+      measures: ["amount_total:sum", "amount_total:avg"],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("one aggregate per field");
+  });
+});
@@ -0,0 +1,468 @@
+/**
+ * Aggregation tools: totals and group-bys computed by Odoo with read_group
+ * or formatted_read_group, returned as a flat table
+ */
+
+import { z } from "zod";
+import { parseOdooFault } from "../connection/errors.js";
+import { getServerMajorVersion } from "../connection/version.js";
+import type { Domain, IOdooClient, OdooFieldDef } from "../types/index.js";
+import { errorResult } from "./errors.js";
+import { defineTool, toolResultShape } from "./registry.js";
+import { checkSearchDomain } from "./search.js";
+
+// ============ Utility Functions ============
+
+/**
+ * Aggregate functions read_group accepts in "field:aggregate"
+ */
+export const AGGREGATE_FUNCTIONS: readonly string[] = [
+  "sum",
+  "avg",
+  "min",
+  "max",
+  "count",
+  "count_distinct",
+  "bool_and",
+  "bool_or",
+  "array_agg",
+];
+
+/**
+ * Granularities for grouping date and datetime fields
+ */
+export const GROUPBY_GRANULARITIES: readonly string[] = [
+  "day",
+  "week",
+  "month",
+  "quarter",
+  "year",
+];
+
+/**
+ * First major version whose models have formatted_read_group
+ */
+const FORMATTED_READ_GROUP_SINCE = 18;
+
+/**
+ * Default and maximum number of groups returned
+ */
+export const DEFAULT_GROUP_LIMIT = 500;
+export const MAX_GROUP_LIMIT = 5000;
+
+/**
+ * A measure such as amount_total:sum
+ */
+export interface Measure {
+  spec: string;
+  field: string;
+  aggregate: string;
+}
+
+/**
+ * A groupby such as user_id or date_order:month
+ */
+export interface Groupby {
+  spec: string;
+  field: string;
+  granularity?: string;
+}
+
+export function parseMeasure(spec: string): Measure {
+  const [field = "", aggregate = ""] = spec.split(":");
+  return { spec, field, aggregate };
+}
+
+export function parseGroupby(spec: string): Groupby {
+  const [field = "", granularity] = spec.split(":");
+  return granularity === undefined
+    ? { spec, field }
+    : { spec, field, granularity };
+}
+
+/**
+ * Check measures and groupbys against the model's fields
+ */
+export function checkGroupSpecs(
+  measures: Measure[],
+  groupbys: Groupby[],
+  fields: Record<string, OdooFieldDef>,
+  model: string,
+): string[] {
+  const errors: string[] = [];
+
+  for (const { spec, field, aggregate } of measures) {
+    if (!(field in fields)) {
+      errors.push(`Measure '${spec}': field '${field}' not found on ${model}`);
+    } else if (!AGGREGATE_FUNCTIONS.includes(aggregate)) {
+      errors.push(
+        `Measure '${spec}': expected field:aggregate with one of ${AGGREGATE_FUNCTIONS.join(", ")}`,
+      );
+    }
+  }
+
+  for (const { spec, field, granularity } of groupbys) {
+    const def = fields[field];
+    if (!def) {
+      errors.push(`Groupby '${spec}': field '${field}' not found on ${model}`);
+    } else if (granularity !== undefined) {
+      if (def.type !== "date" && def.type !== "datetime") {
+        errors.push(
+          `Groupby '${spec}': only date and datetime fields take a granularity`,
+        );
+      } else if (!GROUPBY_GRANULARITIES.includes(granularity)) {
+        errors.push(
+          `Groupby '${spec}': granularity must be one of ${GROUPBY_GRANULARITIES.join(", ")}`,
+        );
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * A group value as a table cell: relations and dates come as [value, label]
+ * pairs and are shown by their label, empty groups as null
+ */
+function cellValue(value: unknown): unknown {
+  if (value === false || value === undefined) {
+    return null;
+  }
+  if (Array.isArray(value) && value.length === 2) {
+    return value[1];
+  }
+  return value;
+}
+
+/**
+ * The value identifying a group: the id of a relation or the range of a
+ * date group, where two groups may share a label
+ */
+function groupValue(value: unknown, range: unknown): unknown {
+  if (value === false || value === undefined) {
+    return null;
+  }
+  if (range !== undefined && range !== null && range !== false) {
+    return range;
+  }
+  if (Array.isArray(value) && value.length === 2) {
+    return value[0];
+  }
+  return value;
+}
+
+export interface GroupQuery {
+  domain: Domain;
+  measures: Measure[];
+  groupbys: Groupby[];
+  lazy: boolean;
+  limit: number;
+  offset: number;
+  order?: string;
+}
+
+/**
+ * Rows of a grouping, and for each row the values identifying its groups,
+ * keyed like the row by groupby spec
+ */
+export interface GroupedRows {
+  rows: Array<Record<string, unknown>>;
+  keys: Array<Record<string, unknown>>;
+}
+
+/**
+ * read_group, available up to and including Odoo 18. Measures come back
+ * under their field name and, in lazy mode, the count under <groupby>_count.
+ */
+async function readGroup(
+  client: IOdooClient,
+  model: string,
+  query: GroupQuery,
+): Promise<GroupedRows> {
+  const groups = await client.execute<Array<Record<string, unknown>>>(
+    model,
+    "read_group",
+    [
+      query.domain,
+      query.measures.map((m) => m.spec),
+      query.groupbys.map((g) => g.spec),
+    ],
+    {
+      offset: query.offset,
+      limit: query.limit,
+      lazy: query.lazy,
+      ...(query.order && { orderby: query.order }),
+    },
+  );
+
+  const first = query.groupbys[0];
+  const keys: Array<Record<string, unknown>> = [];
+  const rows = groups.map((group) => {
+    const row: Record<string, unknown> = {};
+    const key: Record<string, unknown> = {};
+    const ranges = (group.__range ?? {}) as Record<string, unknown>;
+    for (const groupby of query.groupbys) {
+      if (query.lazy && groupby !== first) continue;
+      const value = group[groupby.spec] ?? group[groupby.field];
+      row[groupby.spec] = cellValue(value);
+      key[groupby.spec] = groupValue(
+        value,
+        ranges[groupby.spec] ?? ranges[groupby.field],
+      );
+    }
+    keys.push(key);
+    for (const measure of query.measures) {
+      row[measure.spec] = group[measure.field] ?? null;
+    }
+    row.count =
+      group.__count ??
+      (first &&
+        (group[`${first.spec}_count`] ?? group[`${first.field}_count`])) ??
+      null;
+    return row;
+  });
+  return { rows, keys };
+}
+
+/**
+ * formatted_read_group (Odoo 18+). It has no lazy mode, so lazy grouping
+ * asks for the first groupby only.
+ */
+async function formattedReadGroup(
+  client: IOdooClient,
+  model: string,
+  query: GroupQuery,
+): Promise<GroupedRows> {
+  const groupbys = query.lazy ? query.groupbys.slice(0, 1) : query.groupbys;
+  const groups = await client.execute<Array<Record<string, unknown>>>(
+    model,
+    "formatted_read_group",
+    [],
+    {
+      domain: query.domain,
+      groupby: groupbys.map((g) => g.spec),
+      aggregates: [...query.measures.map((m) => m.spec), "__count"],
+      offset: query.offset,
+      limit: query.limit,
+      ...(query.order && { order: query.order }),
+    },
+  );
+
+  const keys: Array<Record<string, unknown>> = [];
+  const rows = groups.map((group) => {
+    const row: Record<string, unknown> = {};
+    const key: Record<string, unknown> = {};
+    for (const groupby of groupbys) {
+      row[groupby.spec] = cellValue(group[groupby.spec]);
+      key[groupby.spec] = groupValue(group[groupby.spec], undefined);
+    }
+    keys.push(key);
+    for (const measure of query.measures) {
+      row[measure.spec] = group[measure.spec] ?? null;
+    }
+    row.count = group.__count ?? null;
+    return row;
+  });
+  return { rows, keys };
+}
+
+/**
+ * Whether an error means the model has no formatted_read_group, as on
+ * Odoo 18.0 before the method was introduced
+ */
+function isMissingFormattedReadGroup(error: unknown): boolean {
+  const fault = parseOdooFault(error);
+  const message =
+    fault?.message ?? (error instanceof Error ? error.message : String(error));
+  return message.includes("formatted_read_group");
+}
+
+/**
+ * Group records with formatted_read_group where the server has it and
+ * read_group otherwise. Each row has a cell per groupby and measure, and
+ * the record count under "count".
+ */
+export async function readGroups(
+  client: IOdooClient,
+  model: string,
+  query: GroupQuery,
+): Promise<GroupedRows & { method: string }> {
+  const major = await getServerMajorVersion(client);
+  if (major !== null && major >= FORMATTED_READ_GROUP_SINCE) {
+    try {
+      return {
+        ...(await formattedReadGroup(client, model, query)),
+        method: "formatted_read_group",
+      };
+    } catch (error) {
+      if (
+        major > FORMATTED_READ_GROUP_SINCE ||
+        !isMissingFormattedReadGroup(error)
+      ) {
+        throw error;
+      }
+    }
+  }
+
+  const fields = query.measures.map((m) => m.field);
+  if (new Set(fields).size < fields.length) {
+    throw new Error(
+      "read_group returns one aggregate per field on this Odoo version. Ask for each field once.",
+    );
+  }
+  return {
+    ...(await readGroup(client, model, query)),
+    method: "read_group",
+  };
+}
+
+// ============ Tool: aggregate_records ============
+
+export const AggregateRecordsInputSchema = z.object({
+  model: z.string().describe('Model technical name (e.g., "sale.order")'),
+  domain: z
+    .union([z.array(z.unknown()), z.string()])
+    .optional()
+    .describe("Odoo domain filter (default: all records)"),
+  measures: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Aggregates as field:function, e.g. ["amount_total:sum", "amount_total:avg"]. ' +
+        `Functions: ${AGGREGATE_FUNCTIONS.join(", ")}. A record count is always included.`,
+    ),
+  groupby: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Fields to group by, with a granularity for dates, e.g. ["user_id", "date_order:month"]. ' +
+        `Granularities: ${GROUPBY_GRANULARITIES.join(", ")}. Leave empty for grand totals.`,
+    ),
+  lazy: z
+    .boolean()
+    .optional()
+    .describe(
+      "If true, group by the first groupby only (Odoo's lazy mode). Default false: one row per combination of all groupbys",
+    ),
+  limit: z
+    .number()
+    .min(1)
+    .max(MAX_GROUP_LIMIT)
+    .optional()
+    .describe(
+      `Maximum groups to return (default: ${DEFAULT_GROUP_LIMIT}, max: ${MAX_GROUP_LIMIT})`,
+    ),
+  offset: z.number().min(0).optional().describe("Number of groups to skip"),
+  order: z
+    .string()
+    .optional()
+    .describe('Sort order of groups (e.g., "amount_total desc")'),
+});
+
+export type AggregateRecordsInput = z.infer<typeof AggregateRecordsInputSchema>;
+
+export const AggregateRecordsOutputSchema = z.object({
+  model: z.string(),
+  columns: z.array(z.string()),
+  rows: z.array(z.record(z.unknown())),
+  row_count: z.number(),
+  has_more: z.boolean(),
+  method: z.string(),
+  domain_used: z.array(z.unknown()),
+});
+
+export async function aggregateRecords(
+  client: IOdooClient,
+  input: AggregateRecordsInput,
+): Promise<{ success: boolean; result?: unknown; error?: string }> {
+  try {
+    const fields = await client.getModelFields(input.model);
+    if ("error" in fields && typeof fields.error === "string") {
+      return { success: false, error: `Model '${input.model}' not found` };
+    }
+
+    const measures = (input.measures ?? []).map(parseMeasure);
+    const groupbys = (input.groupby ?? []).map(parseGroupby);
+    const errors = checkGroupSpecs(
+      measures,
+      groupbys,
+      fields as Record<string, OdooFieldDef>,
+      input.model,
+    );
+    if (errors.length > 0) {
+      return {
+        success: false,
+        error: `${errors.join("; ")}. Use get_model_schema to see available fields.`,
+      };
+    }
+
+    const checked = await checkSearchDomain(
+      client,
+      input.model,
+      input.domain ?? [],
+      fields as Record<string, OdooFieldDef>,
+    );
+    if ("error" in checked) {
+      return { success: false, error: checked.error };
+    }
+
+    const query: GroupQuery = {
+      domain: checked.domain,
+      measures,
+      groupbys,
+      lazy: input.lazy ?? false,
+      limit: input.limit ?? DEFAULT_GROUP_LIMIT,
+      offset: input.offset ?? 0,
+      ...(input.order && { order: input.order }),
+    };
+    const { rows, method } = await readGroups(client, input.model, query);
+
+    const shownGroupbys = query.lazy ? groupbys.slice(0, 1) : groupbys;
+    return {
+      success: true,
+      result: {
+        model: input.model,
+        columns: [
+          ...shownGroupbys.map((g) => g.spec),
+          ...measures.map((m) => m.spec),
+          "count",
+        ],
+        rows,
+        row_count: rows.length,
+        has_more: rows.length === query.limit,
+        method,
+        domain_used: query.domain,
+      },
+    };
+  } catch (error) {
+    return errorResult(error);
+  }
+}
+
+export const aggregateRecordsTool = defineTool({
+  name: "aggregate_records",
+  description:
+    "Compute totals and group-bys in Odoo (read_group) instead of fetching raw records. " +
+    'Example: revenue by salesperson by month is measures ["amount_total:sum"] with groupby ["user_id", "date_order:month"]. ' +
+    "Returns a flat table: one row per group with a column per groupby, per measure, and a record count. " +
+    "Relational and date groups are shown by their label; empty groups are null.",
+  inputSchema: {
+    model: AggregateRecordsInputSchema.shape.model,
+    domain: AggregateRecordsInputSchema.shape.domain,
+    measures: AggregateRecordsInputSchema.shape.measures,
+    groupby: AggregateRecordsInputSchema.shape.groupby,
+    lazy: AggregateRecordsInputSchema.shape.lazy,
+    limit: AggregateRecordsInputSchema.shape.limit,
+    offset: AggregateRecordsInputSchema.shape.offset,
+    order: AggregateRecordsInputSchema.shape.order,
+  },
+  outputSchema: toolResultShape(AggregateRecordsOutputSchema),
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (client, input) => aggregateRecords(client, input),
+});
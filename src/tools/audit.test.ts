@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from "vitest";
+import { AuditLog } from "../connection/audit.js";
+import { MockClientBuilder } from "../test-utils/mock-client.js";
+import { QueryAuditLogInputSchema, queryAuditLogTool } from "./audit.js";
+
+describe("audit tools", () => {
+  describe("QueryAuditLogInputSchema", () => {
+    it("accepts optional filters", () => {
+      expect(QueryAuditLogInputSchema.parse({})).toEqual({});
+      expect(
+        QueryAuditLogInputSchema.parse({ model: "res.partner", limit: 10 }),
+      ).toEqual({ model: "res.partner", limit: 10 });
+    });
+
+    it("validates limit range", () => {
+      expect(() => QueryAuditLogInputSchema.parse({ limit: 0 })).toThrow();
+      expect(() => QueryAuditLogInputSchema.parse({ limit: 501 })).toThrow();
+    });
+  });
+
+  describe("queryAuditLogTool", () => {
+    const client = new MockClientBuilder().build();
+
+    function auditLog(): AuditLog {
+      return new AuditLog({
+        directory: "/unused",
+        maxFileSize: 1,
+        maxFiles: 1,
+      });
+    }
+
+    it("has correct metadata", () => {
+      expect(queryAuditLogTool.name).toBe("query_audit_log");
+    });
+
+    it("passes filters to the audit log", async () => {
+      const audit = auditLog();
+      const query = vi.spyOn(audit, "query").mockReturnValue([]);
+
+      const result = await queryAuditLogTool.handler(
+        client,
+        {
+          model: "account.move",
+          session_id: "s1",
+          since: "2025-01-14T00:00:00Z",
+          until: "2025-01-15T00:00:00Z",
+        },
+        { audit },
+      );
+
+      expect(result).toEqual({
+        success: true,
+        result: { entries: [], count: 0 },
+      });
+      expect(query).toHaveBeenCalledWith({
+        model: "account.move",
+        session_id: "s1",
+        since: new Date("2025-01-14T00:00:00Z"),
+        until: new Date("2025-01-15T00:00:00Z"),
+      });
+    });
+
+    it("rejects invalid times", async () => {
+      const result = await queryAuditLogTool.handler(
+        client,
+        { since: "last tuesday" },
+        { audit: auditLog() },
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Invalid since time "last tuesday"');
+    });
+
+    it("returns error when auditing is disabled", async () => {
+      const result = await queryAuditLogTool.handler(client, {});
+
+      expect(result).toEqual({
+        success: false,
+        error: "Audit logging is not enabled on this server",
+      });
+    });
+  });
+});
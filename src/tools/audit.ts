@@ -0,0 +1,118 @@
+/**
+ * Audit tools for reviewing changes made through this server
+ */
+
+import { z } from "zod";
+import type { AuditQuery } from "../connection/audit.js";
+import { errorResult } from "./errors.js";
+import { defineTool, toolResultShape } from "./registry.js";
+
+// ============ Tool: query_audit_log ============
+
+export const QueryAuditLogInputSchema = z.object({
+  model: z
+    .string()
+    .optional()
+    .describe('Only changes to this model (e.g., "account.move")'),
+  session_id: z
+    .string()
+    .optional()
+    .describe("Only changes made in this MCP session"),
+  tool: z
+    .string()
+    .optional()
+    .describe('Only changes made by this tool (e.g., "bulk_operation")'),
+  since: z
+    .string()
+    .optional()
+    .describe(
+      'Start of the time range, ISO 8601 (e.g., "2025-01-14T00:00:00Z")',
+    ),
+  until: z.string().optional().describe("End of the time range, ISO 8601"),
+  limit: z
+    .number()
+    .min(1)
+    .max(500)
+    .optional()
+    .describe("Maximum entries to return, newest first (default: 50)"),
+});
+
+export type QueryAuditLogInput = z.infer<typeof QueryAuditLogInputSchema>;
+
+export const QueryAuditLogOutputSchema = z.object({
+  entries: z.array(
+    z.object({
+      timestamp: z.string(),
+      session_id: z.string().nullable(),
+      tool: z.string().nullable(),
+      profile: z.string().nullable(),
+      model: z.string(),
+      method: z.string(),
+      args: z.array(z.unknown()),
+      kwargs: z.record(z.unknown()),
+      record_ids: z.array(z.number()),
+      outcome: z.enum(["success", "error"]),
+      error: z.string().optional(),
+      duration_ms: z.number(),
+    }),
+  ),
+  count: z.number(),
+});
+
+function parseTime(value: string, name: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid ${name} time "${value}". Use ISO 8601.`);
+  }
+  return date;
+}
+
+export const queryAuditLogTool = defineTool({
+  name: "query_audit_log",
+  description:
+    "Search the audit log of changes (creates, writes, deletes and actions) made through this server. " +
+    "Each entry has the time, session, tool, model, method, arguments (secrets redacted), " +
+    "affected record IDs and whether the call succeeded.",
+  inputSchema: {
+    model: QueryAuditLogInputSchema.shape.model,
+    session_id: QueryAuditLogInputSchema.shape.session_id,
+    tool: QueryAuditLogInputSchema.shape.tool,
+    since: QueryAuditLogInputSchema.shape.since,
+    until: QueryAuditLogInputSchema.shape.until,
+    limit: QueryAuditLogInputSchema.shape.limit,
+  },
+  outputSchema: toolResultShape(QueryAuditLogOutputSchema),
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async (_client, input, context) => {
+    const audit = context?.audit;
+    if (!audit) {
+      return {
+        success: false,
+        error: "Audit logging is not enabled on this server",
+      };
+    }
+
+    try {
+      const query: AuditQuery = {
+        ...(input.model && { model: input.model }),
+        ...(input.session_id && { session_id: input.session_id }),
+        ...(input.tool && { tool: input.tool }),
+        ...(input.since && { since: parseTime(input.since, "since") }),
+        ...(input.until && { until: parseTime(input.until, "until") }),
+        ...(input.limit && { limit: input.limit }),
+      };
+      const entries = audit.query(query);
+      return {
+        success: true,
+        result: { entries, count: entries.length },
+      };
+    } catch (error) {
+      return errorResult(error);
+    }
+  },
+});
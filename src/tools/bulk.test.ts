@@ -1,6 +1,12 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ConfirmTokenStore } from "../connection/confirmation.js";
 import type { IOdooClient } from "../types/index.js";
-import { BulkOperationInputSchema, bulkOperation } from "./bulk.js";
+import {
+  BulkOperationInputSchema,
+  bulkOperation,
+  bulkOperationTool,
+} from "./bulk.js";
+import type { ToolContext } from "./registry.js";
 
 describe("bulk tools", () => {
   let mockClient: IOdooClient;
@@ -433,6 +439,106 @@ describe("bulk tools", () => {
     });
   });
 
+  describe("bulkOperationTool - confirmation", () => {
+    let context: ToolContext;
+
+    beforeEach(() => {
+      context = {
+        confirmation: { writeThreshold: 2, tokens: new ConfirmTokenStore() },
+      };
+      vi.mocked(mockClient.getModelFields).mockResolvedValue({
+        id: { type: "integer", string: "ID" },
+        name: { type: "char", string: "Name" },
+      });
+      vi.mocked(mockClient.execute).mockResolvedValue(true);
+    });
+
+    it("asks before deleting and deletes once confirmed", async () => {
+      const input = {
+        model: "res.partner",
+        operation: "unlink" as const,
+        record_ids: [1, 2, 3],
+      };
+
+      const first = await bulkOperationTool.handler(mockClient, input, context);
+
+      expect(first.error).toBe(
+        "Confirmation required: delete 3 res.partner records",
+      );
+      expect(mockClient.execute).not.toHaveBeenCalled();
+
+      const { confirm_token } = first.result as { confirm_token: string };
+      const second = await bulkOperationTool.handler(
+        mockClient,
+        { ...input, confirm_token },
+        context,
+      );
+
+      expect(second.success).toBe(true);
+      expect(mockClient.execute).toHaveBeenCalledWith("res.partner", "unlink", [
+        [1, 2, 3],
+      ]);
+    });
+
+    it("only asks about writes above the threshold", async () => {
+      const small = await bulkOperationTool.handler(
+        mockClient,
+        {
+          model: "res.partner",
+          operation: "write",
+          record_ids: [1, 2],
+          update_values: { name: "X" },
+        },
+        context,
+      );
+      const large = await bulkOperationTool.handler(
+        mockClient,
+        {
+          model: "res.partner",
+          operation: "write",
+          record_ids: [1, 2, 3],
+          update_values: { name: "X" },
+        },
+        context,
+      );
+
+      expect(small.success).toBe(true);
+      expect(large.error).toBe(
+        "Confirmation required: update 3 res.partner records (name)",
+      );
+    });
+
+    it("reports validation errors before asking", async () => {
+      const result = await bulkOperationTool.handler(
+        mockClient,
+        {
+          model: "res.partner",
+          operation: "write",
+          record_ids: [1, 2, 3],
+          update_values: { bogus: 1 },
+        },
+        context,
+      );
+
+      expect(result.error).toContain("Unknown field: bogus");
+    });
+
+    it("does not ask for dry runs", async () => {
+      const result = await bulkOperationTool.handler(
+        mockClient,
+        {
+          model: "res.partner",
+          operation: "unlink",
+          record_ids: [1],
+          validate_only: true,
+        },
+        context,
+      );
+
+      expect(result.success).toBe(true);
+    });
+  });
+
   describe("bulkOperation - common", () => {
     it("returns error for non-existent model", async () => {
       vi.mocked(mockClient.getModelFields).mockResolvedValue({
@@ -4,7 +4,13 @@
 
 import { z } from "zod";
 import type { IOdooClient, OdooFieldDef } from "../types/index.js";
-import { defineTool } from "./registry.js";
+import {
+  confirmChange,
+  confirmTokenInputSchema,
+  describeRecords,
+} from "./confirmation.js";
+import { errorResult } from "./errors.js";
+import { defineTool, toolResultShape } from "./registry.js";
 
 // ============ Utility Functions ============
 
@@ -140,7 +146,6 @@ function validateValues(
 // ============ Tool: bulk_operation ============
 
 const VALID_OPERATIONS = ["create", "write", "unlink"] as const;
-type BulkOperationType = (typeof VALID_OPERATIONS)[number];
 
 export const BulkOperationInputSchema = z.object({
   model: z.string().describe('Model technical name (e.g., "res.partner")'),
@@ -173,25 +178,29 @@ export const BulkOperationInputSchema = z.object({
 
 export type BulkOperationInput = z.infer<typeof BulkOperationInputSchema>;
 
-interface BulkOperationResult {
-  model: string;
-  operation: BulkOperationType;
-  total: number;
-  processed: number;
-  succeeded: number;
-  failed: number;
-  created_ids?: number[];
-  updated_ids?: number[];
-  deleted_ids?: number[];
-  errors: Array<{
-    index: number;
-    record_id?: number;
-    error: string;
-    values?: Record<string, unknown>;
-  }>;
-  validation_only?: boolean;
-  would_affect?: number;
-}
+export const BulkOperationOutputSchema = z.object({
+  model: z.string(),
+  operation: z.enum(VALID_OPERATIONS),
+  total: z.number(),
+  processed: z.number(),
+  succeeded: z.number(),
+  failed: z.number(),
+  created_ids: z.array(z.number()).optional(),
+  updated_ids: z.array(z.number()).optional(),
+  deleted_ids: z.array(z.number()).optional(),
+  errors: z.array(
+    z.object({
+      index: z.number(),
+      record_id: z.number().optional(),
+      error: z.string(),
+      values: z.record(z.unknown()).optional(),
+    }),
+  ),
+  validation_only: z.boolean().optional(),
+  would_affect: z.number().optional(),
+});
+
+type BulkOperationResult = z.infer<typeof BulkOperationOutputSchema>;
 
 export async function bulkOperation(
   client: IOdooClient,
@@ -437,8 +446,28 @@ export async function bulkOperation(
 
     return { success: true, result };
   } catch (error) {
-    return { success: false, error: String(error) };
+    return errorResult(error);
+  }
+}
+
+/**
+ * What the user is asked to confirm, or null when the operation is safe
+ * enough to run without asking: every delete, and writes to more than
+ * writeThreshold records
+ */
+function describeBulkChange(
+  input: BulkOperationInput,
+  writeThreshold: number,
+): string | null {
+  const count = input.record_ids?.length ?? 0;
+  if (input.operation === "unlink") {
+    return `delete ${describeRecords(count, input.model)}`;
+  }
+  if (input.operation === "write" && count > writeThreshold) {
+    const fields = Object.keys(input.update_values ?? {}).join(", ");
+    return `update ${describeRecords(count, input.model)} (${fields})`;
   }
+  return null;
 }
 
 export const bulkOperationTool = defineTool({
@@ -447,7 +476,8 @@ export const bulkOperationTool = defineTool({
     "Perform bulk create, update, or delete operations on Odoo records. " +
     "Each batch is atomic (all-or-nothing) - if any record in a batch fails, " +
     "the entire batch is rolled back. Includes validation and dry-run mode. " +
-    "Use validate_only=true to check for errors before executing.",
+    "Use validate_only=true to check for errors before executing. " +
+    "Deletes and large updates ask the user to confirm first.",
   inputSchema: {
     model: z.string().describe('Model technical name (e.g., "res.partner")'),
     operation: z
@@ -473,6 +503,38 @@ export const bulkOperationTool = defineTool({
       .boolean()
       .optional()
       .describe("If true, only validate without executing (dry run)"),
+    confirm_token: confirmTokenInputSchema,
+  },
+  outputSchema: toolResultShape(BulkOperationOutputSchema),
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (client, input, context) => {
+    const { confirm_token: _, ...operation } = input;
+    const confirmation = context?.confirmation;
+    const summary =
+      confirmation &&
+      !operation.validate_only &&
+      describeBulkChange(operation, confirmation.writeThreshold);
+
+    if (summary) {
+      // Dry run first, so the user is only asked about changes that can run
+      const dryRun = await bulkOperation(client, {
+        ...operation,
+        validate_only: true,
+      });
+      if (!dryRun.success) {
+        return dryRun;
+      }
+      const blocked = await confirmChange(context, summary, input);
+      if (blocked) {
+        return blocked;
+      }
+    }
+
+    return bulkOperation(client, operation);
   },
-  handler: async (client, input) => bulkOperation(client, input),
 });
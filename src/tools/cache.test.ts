@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from "vitest";
+import { MockClientBuilder } from "../test-utils/mock-client.js";
+import {
+  RefreshSchemaCacheInputSchema,
+  refreshSchemaCacheTool,
+} from "./cache.js";
+
+describe("cache tools", () => {
+  describe("RefreshSchemaCacheInputSchema", () => {
+    it("accepts an optional model", () => {
+      expect(RefreshSchemaCacheInputSchema.parse({})).toEqual({});
+      expect(
+        RefreshSchemaCacheInputSchema.parse({ model: "res.partner" }).model,
+      ).toBe("res.partner");
+    });
+  });
+
+  describe("refreshSchemaCacheTool", () => {
+    it("has correct metadata", () => {
+      expect(refreshSchemaCacheTool.name).toBe("refresh_schema_cache");
+    });
+
+    it("clears the whole cache", async () => {
+      const client = new MockClientBuilder().build();
+      client.clearSchemaCache = vi.fn().mockResolvedValue(12);
+
+      const result = await refreshSchemaCacheTool.handler(client, {});
+
+      expect(result).toEqual({
+        success: true,
+        result: { scope: "all", cleared: 12 },
+      });
+      expect(client.clearSchemaCache).toHaveBeenCalledWith(undefined);
+    });
+
+    it("refreshes a single model and re-reads its fields", async () => {
+      const client = new MockClientBuilder()
+        .withModelFields("res.partner", {
+          name: { type: "char", string: "Name" },
+          email: { type: "char", string: "Email" },
+        })
+        .build();
+      client.clearSchemaCache = vi.fn().mockResolvedValue(2);
+
+      const result = await refreshSchemaCacheTool.handler(client, {
+        model: "res.partner",
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result).toEqual({
+        scope: "res.partner",
+        cleared: 2,
+        field_count: 2,
+      });
+    });
+
+    it("returns error for unknown models", async () => {
+      const client = new MockClientBuilder().build();
+      client.clearSchemaCache = vi.fn().mockResolvedValue(0);
+
+      const result = await refreshSchemaCacheTool.handler(client, {
+        model: "x.unknown",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("x.unknown");
+    });
+
+    it("returns error when caching is disabled", async () => {
+      const client = new MockClientBuilder().build();
+
+      const result = await refreshSchemaCacheTool.handler(client, {});
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("not enabled");
+    });
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Schema cache tools for forcing model metadata to be re-read from Odoo
+ */
+
+import { z } from "zod";
+import { errorResult } from "./errors.js";
+import { defineTool, toolResultShape } from "./registry.js";
+
+// ============ Tool: refresh_schema_cache ============
+
+export const RefreshSchemaCacheInputSchema = z.object({
+  model: z
+    .string()
+    .optional()
+    .describe(
+      'Only refresh this model (e.g., "res.partner"). Default: the whole cache.',
+    ),
+});
+
+export type RefreshSchemaCacheInput = z.infer<
+  typeof RefreshSchemaCacheInputSchema
+>;
+
+export const RefreshSchemaCacheOutputSchema = z.object({
+  /**
+   * "all" or the refreshed model
+   */
+  scope: z.string(),
+  cleared: z.number(),
+  field_count: z.number().optional(),
+});
+
+export const refreshSchemaCacheTool = defineTool({
+  name: "refresh_schema_cache",
+  description:
+    "Clear cached model and field metadata so it is re-read from Odoo. " +
+    "Use after adding custom fields or installing/upgrading modules outside this server.",
+  inputSchema: {
+    model: RefreshSchemaCacheInputSchema.shape.model,
+  },
+  outputSchema: toolResultShape(RefreshSchemaCacheOutputSchema),
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (client, input) => {
+    if (!client.clearSchemaCache) {
+      return {
+        success: false,
+        error: "Schema caching is not enabled on this server",
+      };
+    }
+
+    try {
+      const cleared = await client.clearSchemaCache(input.model);
+
+      if (!input.model) {
+        return { success: true, result: { scope: "all", cleared } };
+      }
+
+      // Re-read the model right away so the refreshed schema is confirmed
+      const fields = await client.getModelFields(input.model);
+      if ("error" in fields && typeof fields.error === "string") {
+        return {
+          success: false,
+          error: `Model '${input.model}' not found: ${fields.error}`,
+        };
+      }
+
+      return {
+        success: true,
+        result: {
+          scope: input.model,
+          cleared,
+          field_count: Object.keys(fields).length,
+        },
+      };
+    } catch (error) {
+      return errorResult(error);
+    }
+  },
+});
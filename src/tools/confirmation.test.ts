@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from "vitest";
+import { ConfirmTokenStore } from "../connection/confirmation.js";
+import {
+  confirmChange,
+  describeRecords,
+  isDestructiveAction,
+} from "./confirmation.js";
+import type { ToolContext } from "./registry.js";
+
+function contextWith(
+  elicit?: (summary: string) => Promise<boolean>,
+): ToolContext {
+  return {
+    confirmation: {
+      writeThreshold: 50,
+      tokens: new ConfirmTokenStore(),
+      ...(elicit && { elicit }),
+    },
+  };
+}
+
+const input = { model: "res.partner", operation: "unlink", record_ids: [1] };
+
+describe("confirmation", () => {
+  describe("isDestructiveAction", () => {
+    it("matches cancel and post style actions", () => {
+      expect(isDestructiveAction("action_cancel")).toBe(true);
+      expect(isDestructiveAction("button_cancel")).toBe(true);
+      expect(isDestructiveAction("action_post")).toBe(true);
+      expect(isDestructiveAction("action_reverse")).toBe(true);
+      expect(isDestructiveAction("action_draft_cancel")).toBe(true);
+    });
+
+    it("ignores other actions", () => {
+      expect(isDestructiveAction("action_confirm")).toBe(false);
+      expect(isDestructiveAction("action_postpone")).toBe(false);
+      expect(isDestructiveAction("message_post")).toBe(false);
+      expect(isDestructiveAction("cancel")).toBe(false);
+    });
+  });
+
+  describe("describeRecords", () => {
+    it("pluralizes", () => {
+      expect(describeRecords(1, "res.partner")).toBe("1 res.partner record");
+      expect(describeRecords(340, "res.partner")).toBe(
+        "340 res.partner records",
+      );
+    });
+  });
+
+  describe("confirmChange", () => {
+    it("proceeds when the server does not require confirmation", async () => {
+      expect(await confirmChange(undefined, "delete", input)).toBeNull();
+    });
+
+    it("issues a token the first time and accepts it on retry", async () => {
+      const context = contextWith();
+
+      const first = await confirmChange(context, "delete 1 record", input);
+
+      expect(first).toMatchObject({
+        success: false,
+        error: "Confirmation required: delete 1 record",
+        error_type: "confirmation_required",
+      });
+      const { confirm_token } = first?.result as { confirm_token: string };
+      expect(
+        await confirmChange(context, "delete 1 record", {
+          ...input,
+          confirm_token,
+        }),
+      ).toBeNull();
+    });
+
+    it("does not accept a token for different arguments", async () => {
+      const context = contextWith();
+      const first = await confirmChange(context, "delete 1 record", input);
+      const { confirm_token } = first?.result as { confirm_token: string };
+
+      const second = await confirmChange(context, "delete 1 record", {
+        ...input,
+        record_ids: [2],
+        confirm_token,
+      });
+
+      expect(second?.error_type).toBe("confirmation_required");
+    });
+
+    it("asks the user when the client supports elicitation", async () => {
+      const elicit = vi.fn().mockResolvedValue(true);
+
+      const result = await confirmChange(
+        contextWith(elicit),
+        "delete 1 record",
+        input,
+      );
+
+      expect(result).toBeNull();
+      expect(elicit).toHaveBeenCalledWith("delete 1 record");
+    });
+
+    it("cancels when the user declines", async () => {
+      const result = await confirmChange(
+        contextWith(vi.fn().mockResolvedValue(false)),
+        "delete 1 record",
+        input,
+      );
+
+      expect(result).toMatchObject({
+        success: false,
+        error_type: "cancelled",
+      });
+    });
+
+    it("falls back to a token when elicitation fails", async () => {
+      const result = await confirmChange(
+        contextWith(vi.fn().mockRejectedValue(new Error("timeout"))),
+        "delete 1 record",
+        input,
+      );
+
+      expect(result?.error_type).toBe("confirmation_required");
+    });
+  });
+});
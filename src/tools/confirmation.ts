@@ -0,0 +1,112 @@
+/**
+ * Human confirmation for destructive changes: asked through MCP elicitation
+ * when the client supports it, otherwise through a two-step confirm token
+ */
+
+import { z } from "zod";
+import type { ToolContext, ToolResult } from "./registry.js";
+
+/**
+ * Optional `confirm_token` argument of tools that can need confirmation
+ */
+export const confirmTokenInputSchema = z
+  .string()
+  .optional()
+  .describe(
+    "Token from a confirmation_required result. Only pass it after the user has agreed to the change.",
+  );
+
+/**
+ * Action and button methods that are hard to take back, e.g. action_cancel
+ * or button_post. Other methods such as message_post are not matched.
+ */
+const DESTRUCTIVE_ACTION =
+  /^(action|button)_(\w+_)?(cancel|post|unlink|delete|remove|reverse|refuse|reject|void)(_|$)/;
+
+export function isDestructiveAction(method: string): boolean {
+  return DESTRUCTIVE_ACTION.test(method);
+}
+
+/**
+ * "340 res.partner records"
+ */
+export function describeRecords(count: number, model: string): string {
+  return `${count} ${model} record${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * JSON with sorted keys, so equal requests serialize equally
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Get the user's go-ahead for a destructive change described by `summary`.
+ * Returns null when the change may proceed, otherwise the result to return
+ * instead: a cancellation, or a confirmation_required result carrying a
+ * token to pass back once the user agrees.
+ * Without server confirmation settings the change always proceeds.
+ */
+export async function confirmChange(
+  context: ToolContext | undefined,
+  summary: string,
+  input: Record<string, unknown>,
+): Promise<ToolResult | null> {
+  const confirmation = context?.confirmation;
+  if (!confirmation) {
+    return null;
+  }
+
+  const { confirm_token, ...request } = input;
+  const requestKey = `${summary}\n${stableStringify(request)}`;
+
+  if (
+    typeof confirm_token === "string" &&
+    confirmation.tokens.consume(confirm_token, requestKey)
+  ) {
+    return null;
+  }
+
+  if (confirmation.elicit) {
+    let accepted: boolean | null = null;
+    try {
+      accepted = await confirmation.elicit(summary);
+    } catch (error) {
+      // Fall back to the confirm token below
+      console.error(`Elicitation failed: ${error}`);
+    }
+    if (accepted === true) {
+      return null;
+    }
+    if (accepted === false) {
+      return {
+        success: false,
+        error: `Cancelled: the user did not confirm "${summary}"`,
+        error_type: "cancelled",
+        hint: "Do not retry unless the user asks for the change again.",
+      };
+    }
+  }
+
+  return {
+    success: false,
+    error: `Confirmation required: ${summary}`,
+    error_type: "confirmation_required",
+    hint: "Show the summary to the user. Only if they agree, call the tool again with the same arguments plus confirm_token.",
+    result: {
+      summary,
+      confirm_token: confirmation.tokens.issue(requestKey),
+    },
+  };
+}
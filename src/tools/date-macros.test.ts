@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import {
+  type DateMacroContext,
+  dateInTimeZone,
+  isDateMacro,
+  resolveDateMacro,
+  startOfDayUtc,
+} from "./date-macros.js";
+
+// Wednesday
+const context: DateMacroContext = {
+  today: "2025-01-15",
+  timeZone: "Europe/Brussels",
+  fiscalYearEnd: { month: 12, day: 31 },
+};
+
+describe("date macros", () => {
+  describe("isDateMacro", () => {
+    it("recognizes fixed and day-count macros only", () => {
+      expect(isDateMacro("today")).toBe(true);
+      expect(isDateMacro("last_7_days")).toBe(true);
+      expect(isDateMacro("next_30_days")).toBe(true);
+      expect(isDateMacro("2025-01-15")).toBe(false);
+      expect(isDateMacro(7)).toBe(false);
+    });
+  });
+
+  describe("resolveDateMacro", () => {
+    it.each([
+      ["today", "2025-01-15", "2025-01-16"],
+      ["yesterday", "2025-01-14", "2025-01-15"],
+      ["last_7_days", "2025-01-09", "2025-01-16"],
+      ["next_30_days", "2025-01-15", "2025-02-14"],
+      ["this_week", "2025-01-13", "2025-01-20"],
+      ["last_week", "2025-01-06", "2025-01-13"],
+      ["this_month", "2025-01-01", "2025-02-01"],
+      ["last_month", "2024-12-01", "2025-01-01"],
+      ["this_quarter", "2025-01-01", "2025-04-01"],
+      ["last_quarter", "2024-10-01", "2025-01-01"],
+      ["last_year", "2024-01-01", "2025-01-01"],
+      ["start_of_month", "2025-01-01", "2025-01-02"],
+      ["end_of_month", "2025-01-31", "2025-02-01"],
+      ["end_of_quarter", "2025-03-31", "2025-04-01"],
+    ])("resolves %s", (name, start, end) => {
+      expect(resolveDateMacro(name, context)).toEqual({ start, end });
+    });
+
+    it("uses the company's fiscal year end", () => {
+      const june = { ...context, fiscalYearEnd: { month: 6, day: 30 } };
+
+      expect(resolveDateMacro("this_fiscal_year", june)).toEqual({
+        start: "2024-07-01",
+        end: "2025-07-01",
+      });
+      expect(resolveDateMacro("last_fiscal_year", june)).toEqual({
+        start: "2023-07-01",
+        end: "2024-07-01",
+      });
+      expect(
+        resolveDateMacro("start_of_fiscal_year", {
+          ...june,
+          today: "2025-08-01",
+        }),
+      ).toEqual({ start: "2025-07-01", end: "2025-07-02" });
+    });
+
+    it("clamps fiscal year ends to the month's length", () => {
+      const february = { ...context, fiscalYearEnd: { month: 2, day: 29 } };
+
+      expect(resolveDateMacro("this_fiscal_year", february)).toEqual({
+        start: "2024-03-01",
+        end: "2025-03-01",
+      });
+    });
+  });
+
+  describe("time zones", () => {
+    it("gives the date in the user's timezone", () => {
+      const now = new Date("2025-01-15T23:30:00Z");
+
+      expect(dateInTimeZone(now, "UTC")).toBe("2025-01-15");
+      expect(dateInTimeZone(now, "Europe/Brussels")).toBe("2025-01-16");
+      expect(dateInTimeZone(now, "America/New_York")).toBe("2025-01-15");
+    });
+
+    it("converts local midnight to UTC, across DST", () => {
+      expect(startOfDayUtc("2025-01-15", "Europe/Brussels")).toBe(
+        "2025-01-14 23:00:00",
+      );
+      expect(startOfDayUtc("2025-07-15", "Europe/Brussels")).toBe(
+        "2025-07-14 22:00:00",
+      );
+      expect(startOfDayUtc("2025-01-15", "America/New_York")).toBe(
+        "2025-01-15 05:00:00",
+      );
+      expect(startOfDayUtc("2025-01-15", "UTC")).toBe("2025-01-15 00:00:00");
+    });
+  });
+});
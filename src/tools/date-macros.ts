@@ -0,0 +1,295 @@
+/**
+ * Relative date macros for domains, such as today or last_7_days, resolved
+ * to calendar days in the user's timezone
+ */
+
+/**
+ * What a macro is resolved against
+ */
+export interface DateMacroContext {
+  /**
+   * Current date in the user's timezone, YYYY-MM-DD
+   */
+  today: string;
+  /**
+   * IANA timezone of the user, used to turn days into UTC datetimes
+   */
+  timeZone: string;
+  /**
+   * Last day of the company's fiscal year
+   */
+  fiscalYearEnd: { month: number; day: number };
+}
+
+/**
+ * A span of whole days: from `start` up to but not including `end`
+ */
+export interface DayRange {
+  start: string;
+  end: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FIXED_MACROS = [
+  "today",
+  "yesterday",
+  "tomorrow",
+  "this_week",
+  "last_week",
+  "next_week",
+  "this_month",
+  "last_month",
+  "next_month",
+  "this_quarter",
+  "last_quarter",
+  "this_year",
+  "last_year",
+  "this_fiscal_year",
+  "last_fiscal_year",
+  "start_of_week",
+  "start_of_month",
+  "start_of_quarter",
+  "start_of_year",
+  "start_of_fiscal_year",
+  "end_of_week",
+  "end_of_month",
+  "end_of_quarter",
+  "end_of_year",
+  "end_of_fiscal_year",
+];
+
+const DAYS_MACRO = /^(last|next)_(\d+)_days$/;
+
+export const DATE_MACROS: readonly string[] = [
+  ...FIXED_MACROS,
+  "last_<n>_days",
+  "next_<n>_days",
+];
+
+export function isDateMacro(value: unknown): value is string {
+  return (
+    typeof value === "string" &&
+    (FIXED_MACROS.includes(value) || DAYS_MACRO.test(value))
+  );
+}
+
+/**
+ * Whether a macro needs the fiscal year end to be resolved
+ */
+export function isFiscalMacro(name: string): boolean {
+  return name.endsWith("fiscal_year");
+}
+
+// Days are handled as UTC midnights so arithmetic ignores DST
+
+function toDay(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function fromDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function ymd(year: number, month: number, day: number): Date {
+  // Clamp to the month's length, e.g. February 30 -> February 28/29
+  const last = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month - 1, Math.min(day, last)));
+}
+
+function range(start: Date, end: Date): DayRange {
+  return { start: fromDay(start), end: fromDay(end) };
+}
+
+function day(date: Date): DayRange {
+  return range(date, addDays(date, 1));
+}
+
+function weekOf(today: Date, offset: number): DayRange {
+  // ISO weeks start on Monday
+  const monday = addDays(today, -((today.getUTCDay() + 6) % 7) + 7 * offset);
+  return range(monday, addDays(monday, 7));
+}
+
+function monthOf(today: Date, offset: number): DayRange {
+  const year = today.getUTCFullYear();
+  const month = today.getUTCMonth() + offset;
+  return range(
+    new Date(Date.UTC(year, month, 1)),
+    new Date(Date.UTC(year, month + 1, 1)),
+  );
+}
+
+function quarterOf(today: Date, offset: number): DayRange {
+  const year = today.getUTCFullYear();
+  const month = Math.floor(today.getUTCMonth() / 3) * 3 + 3 * offset;
+  return range(
+    new Date(Date.UTC(year, month, 1)),
+    new Date(Date.UTC(year, month + 3, 1)),
+  );
+}
+
+function yearOf(today: Date, offset: number): DayRange {
+  const year = today.getUTCFullYear() + offset;
+  return range(
+    new Date(Date.UTC(year, 0, 1)),
+    new Date(Date.UTC(year + 1, 0, 1)),
+  );
+}
+
+function fiscalYearOf(
+  today: Date,
+  offset: number,
+  { month, day }: DateMacroContext["fiscalYearEnd"],
+): DayRange {
+  let year = today.getUTCFullYear();
+  if (today > ymd(year, month, day)) {
+    year++;
+  }
+  year += offset;
+  return range(
+    addDays(ymd(year - 1, month, day), 1),
+    addDays(ymd(year, month, day), 1),
+  );
+}
+
+function first(r: DayRange): DayRange {
+  return day(toDay(r.start));
+}
+
+function last(r: DayRange): DayRange {
+  return day(addDays(toDay(r.end), -1));
+}
+
+/**
+ * Resolve a macro to the days it covers. Single-day macros such as
+ * start_of_month cover that one day.
+ */
+export function resolveDateMacro(
+  name: string,
+  context: DateMacroContext,
+): DayRange {
+  const today = toDay(context.today);
+
+  const days = DAYS_MACRO.exec(name);
+  if (days) {
+    const n = Number(days[2]);
+    // last_7_days: the 7 days up to and including today
+    return days[1] === "last"
+      ? range(addDays(today, 1 - n), addDays(today, 1))
+      : range(today, addDays(today, n));
+  }
+
+  const fiscal = (offset: number) =>
+    fiscalYearOf(today, offset, context.fiscalYearEnd);
+
+  switch (name) {
+    case "today":
+      return day(today);
+    case "yesterday":
+      return day(addDays(today, -1));
+    case "tomorrow":
+      return day(addDays(today, 1));
+    case "this_week":
+      return weekOf(today, 0);
+    case "last_week":
+      return weekOf(today, -1);
+    case "next_week":
+      return weekOf(today, 1);
+    case "this_month":
+      return monthOf(today, 0);
+    case "last_month":
+      return monthOf(today, -1);
+    case "next_month":
+      return monthOf(today, 1);
+    case "this_quarter":
+      return quarterOf(today, 0);
+    case "last_quarter":
+      return quarterOf(today, -1);
+    case "this_year":
+      return yearOf(today, 0);
+    case "last_year":
+      return yearOf(today, -1);
+    case "this_fiscal_year":
+      return fiscal(0);
+    case "last_fiscal_year":
+      return fiscal(-1);
+    case "start_of_week":
+      return first(weekOf(today, 0));
+    case "start_of_month":
+      return first(monthOf(today, 0));
+    case "start_of_quarter":
+      return first(quarterOf(today, 0));
+    case "start_of_year":
+      return first(yearOf(today, 0));
+    case "start_of_fiscal_year":
+      return first(fiscal(0));
+    case "end_of_week":
+      return last(weekOf(today, 0));
+    case "end_of_month":
+      return last(monthOf(today, 0));
+    case "end_of_quarter":
+      return last(quarterOf(today, 0));
+    case "end_of_year":
+      return last(yearOf(today, 0));
+    case "end_of_fiscal_year":
+      return last(fiscal(0));
+    default:
+      throw new Error(`Unknown date macro '${name}'`);
+  }
+}
+
+function zonedParts(instant: number, timeZone: string): Record<string, number> {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+  return Object.fromEntries(
+    parts
+      .filter((p) => p.type !== "literal")
+      .map((p) => [p.type, Number(p.value)]),
+  );
+}
+
+/**
+ * The current date in a timezone, YYYY-MM-DD
+ */
+export function dateInTimeZone(now: Date, timeZone: string): string {
+  const { year = 0, month = 1, day = 1 } = zonedParts(now.getTime(), timeZone);
+  return fromDay(new Date(Date.UTC(year, month - 1, day)));
+}
+
+/**
+ * Midnight at the start of a day in a timezone, as an Odoo UTC datetime
+ * ("YYYY-MM-DD HH:MM:SS")
+ */
+export function startOfDayUtc(date: string, timeZone: string): string {
+  const midnight = toDay(date).getTime();
+  const offsetAt = (instant: number) => {
+    const p = zonedParts(instant, timeZone);
+    const local = Date.UTC(
+      p.year ?? 0,
+      (p.month ?? 1) - 1,
+      p.day ?? 1,
+      p.hour ?? 0,
+      p.minute ?? 0,
+      p.second ?? 0,
+    );
+    return local - instant;
+  };
+
+  // Correct once more in case the first guess crossed a DST change
+  let instant = midnight - offsetAt(midnight);
+  instant = midnight - offsetAt(instant);
+  return new Date(instant).toISOString().slice(0, 19).replace("T", " ");
+}
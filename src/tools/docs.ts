@@ -1,6 +1,6 @@
 import { z } from "zod";
 import { listEntries, readEntry, saveEntry } from "../docs-system/index.js";
-import { defineTool } from "./registry.js";
+import { defineTool, TextOutputSchema, toolResultShape } from "./registry.js";
 
 /**
  * Tool to list available documentation
@@ -10,6 +10,13 @@ export const listDocsTool = defineTool({
   description:
     "List available Odoo technical reference docs. These docs contain essential information for correctly calling Odoo methods via XML-RPC - consult them before complex operations. Sources: bundled (core ORM/domain syntax), global (~/.odoo-mcp/docs/), local (.odoo-mcp/docs/).",
   inputSchema: {},
+  outputSchema: toolResultShape(TextOutputSchema),
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
   handler: async () => {
     const docs = listEntries("docs");
     const formatted = docs.map((d) => `- ${d.name} (${d.source})`).join("\n");
@@ -34,6 +41,13 @@ export const readDocTool = defineTool({
       .string()
       .describe("Name of the doc to read (without .md extension)"),
   },
+  outputSchema: toolResultShape(TextOutputSchema),
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
   handler: async (_client, input) => {
     const doc = readEntry("docs", input.name);
     if (!doc) {
@@ -62,9 +76,17 @@ export const saveDocTool = defineTool({
     name: z.string().describe("Name for the doc (without .md extension)"),
     content: z.string().describe("Markdown content of the documentation"),
   },
-  handler: async (_client, input) => {
+  outputSchema: toolResultShape(TextOutputSchema),
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async (_client, input, context) => {
     const result = saveEntry("docs", input.name, input.content);
     if (result.success) {
+      context?.entriesChanged?.("docs");
       return {
         success: true,
         result: { text: `Saved doc "${input.name}" to ${result.path}` },
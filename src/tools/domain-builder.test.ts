@@ -0,0 +1,187 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { IOdooClient } from "../types/index.js";
+import { buildDomain } from "./domain-builder.js";
+
+const orderFields = {
+  name: { type: "char", string: "Order Reference" },
+  state: { type: "selection", string: "Status" },
+  date_order: { type: "datetime", string: "Order Date" },
+  validity_date: { type: "date", string: "Expiration" },
+  partner_id: {
+    type: "many2one",
+    string: "Customer",
+    relation: "res.partner",
+  },
+};
+
+// 2025-01-15 in Brussels
+const now = new Date("2025-01-15T10:00:00Z");
+
+describe("buildDomain", () => {
+  let client: IOdooClient;
+
+  beforeEach(() => {
+    client = {
+      execute: vi.fn().mockResolvedValue({ tz: "Europe/Brussels", uid: 2 }),
+      getModels: vi.fn(),
+      getModelInfo: vi.fn(),
+      getModelFields: vi.fn().mockResolvedValue(orderFields),
+      searchRead: vi.fn(),
+      readRecords: vi.fn(),
+    };
+  });
+
+  it("emits a prefix domain for and / or / not nodes", async () => {
+    const result = await buildDomain(client, {
+      model: "sale.order",
+      filter: {
+        and: [
+          { field: "state", op: "=", value: "sale" },
+          {
+            or: [
+              { field: "partner_id", op: "=", value: 7 },
+              { not: { field: "name", op: "ilike", value: "test" } },
+            ],
+          },
+        ],
+      },
+    });
+
+    expect(result).toEqual({
+      success: true,
+      result: {
+        model: "sale.order",
+        domain: [
+          "&",
+          ["state", "=", "sale"],
+          "|",
+          ["partner_id", "=", 7],
+          "!",
+          ["name", "ilike", "test"],
+        ],
+      },
+    });
+    expect(client.execute).not.toHaveBeenCalled();
+  });
+
+  it("resolves date macros in the user's timezone", async () => {
+    const result = await buildDomain(
+      client,
+      {
+        model: "sale.order",
+        filter: {
+          and: [
+            { field: "date_order", op: "=", value: "last_7_days" },
+            { field: "validity_date", op: "<", value: "today" },
+          ],
+        },
+      },
+      now,
+    );
+
+    expect(client.execute).toHaveBeenCalledWith("res.users", "context_get");
+    expect(result.result).toEqual({
+      model: "sale.order",
+      domain: [
+        "&",
+        "&",
+        ["date_order", ">=", "2025-01-08 23:00:00"],
+        ["date_order", "<", "2025-01-15 23:00:00"],
+        ["validity_date", "<", "2025-01-15"],
+      ],
+      timezone: "Europe/Brussels",
+      resolved_macros: {
+        last_7_days: "2025-01-09 to 2025-01-15",
+        today: "2025-01-15",
+      },
+    });
+  });
+
+  it("reads the fiscal year end from the user's company", async () => {
+    vi.mocked(client.readRecords).mockImplementation(async (model) =>
+      model === "res.users"
+        ? [{ id: 2, company_id: [1, "My Company"] }]
+        : [{ id: 1, fiscalyear_last_day: 31, fiscalyear_last_month: "3" }],
+    );
+
+    const result = await buildDomain(
+      client,
+      {
+        model: "sale.order",
+        filter: {
+          field: "validity_date",
+          op: "=",
+          value: "this_fiscal_year",
+        },
+      },
+      now,
+    );
+
+    expect((result.result as { domain: unknown }).domain).toEqual([
+      "&",
+      ["validity_date", ">=", "2024-04-01"],
+      ["validity_date", "<", "2025-04-01"],
+    ]);
+  });
+
+  it("falls back to UTC without a user timezone", async () => {
+    vi.mocked(client.execute).mockResolvedValue({ tz: false });
+
+    const result = await buildDomain(
+      client,
+      {
+        model: "sale.order",
+        filter: { field: "date_order", op: ">=", value: "today" },
+      },
+      now,
+    );
+
+    expect((result.result as { domain: unknown }).domain).toEqual([
+      ["date_order", ">=", "2025-01-15 00:00:00"],
+    ]);
+  });
+
+  it("keeps macro-like text on non-date fields as is", async () => {
+    const result = await buildDomain(client, {
+      model: "sale.order",
+      filter: { field: "name", op: "=", value: "today" },
+    });
+
+    expect((result.result as { domain: unknown }).domain).toEqual([
+      ["name", "=", "today"],
+    ]);
+  });
+
+  it("reports unknown fields, operators and misused macros", async () => {
+    const result = await buildDomain(client, {
+      model: "sale.order",
+      filter: {
+        and: [
+          { field: "partner_id.bogus", op: "=", value: 1 },
+          { field: "name", op: "contains", value: "x" },
+          { field: "date_order", op: "in", value: "this_month" },
+        ],
+      },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("Field 'bogus' not found on model");
+    expect(result.error).toContain("Invalid operator 'contains'");
+    expect(result.error).toContain(
+      "Operator 'in' cannot compare 'date_order' with date macro 'this_month'",
+    );
+  });
+
+  it("reports malformed nodes by position", async () => {
+    const result = await buildDomain(client, {
+      model: "sale.order",
+      filter: { or: [{ field: "name", op: "=", value: "a" }, { op: "=" }] },
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      error: expect.stringContaining("Invalid filter at filter.or[1]"),
+      error_type: "invalid_domain",
+    });
+  });
+});
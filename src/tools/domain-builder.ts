@@ -0,0 +1,308 @@
+/**
+ * Domain builder: turns a structured filter tree into an Odoo prefix domain,
+ * resolving relative date macros in the user's timezone
+ */
+
+import { z } from "zod";
+import { getServerMajorVersion } from "../connection/version.js";
+import type {
+  Domain,
+  DomainCondition,
+  IOdooClient,
+  OdooFieldDef,
+} from "../types/index.js";
+import {
+  DATE_MACROS,
+  type DateMacroContext,
+  type DayRange,
+  dateInTimeZone,
+  isDateMacro,
+  isFiscalMacro,
+  resolveDateMacro,
+  startOfDayUtc,
+} from "./date-macros.js";
+import {
+  type FilterLeafConverter,
+  filterTreeToDomain,
+  normalizeDomain,
+  operatorsForVersion,
+} from "./domain-utils.js";
+import { errorResult } from "./errors.js";
+import { resolveFieldPath } from "./introspection.js";
+import { defineTool, toolResultShape } from "./registry.js";
+
+// ============ Utility Functions ============
+
+/**
+ * Operators that can compare a field with a date macro
+ */
+const MACRO_OPERATORS = new Set(["=", "!=", ">", ">=", "<", "<="]);
+
+function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== "string" || !timeZone) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Today's date and fiscal year end for the connected user, from
+ * res.users.context_get and their company. Falls back to UTC and a
+ * calendar fiscal year.
+ */
+async function loadMacroContext(
+  client: IOdooClient,
+  needsFiscalYear: boolean,
+  now: Date,
+): Promise<DateMacroContext> {
+  const context = await client.execute<{ tz?: string | false; uid?: number }>(
+    "res.users",
+    "context_get",
+  );
+  const timeZone = isValidTimeZone(context.tz) ? context.tz : "UTC";
+
+  let fiscalYearEnd = { month: 12, day: 31 };
+  if (needsFiscalYear && context.uid) {
+    try {
+      const [user] = (await client.readRecords(
+        "res.users",
+        [context.uid],
+        ["company_id"],
+      )) as Array<{ company_id?: [number, string] | false }>;
+      const companyId = user?.company_id ? user.company_id[0] : null;
+      if (companyId) {
+        const [company] = (await client.readRecords(
+          "res.company",
+          [companyId],
+          ["fiscalyear_last_day", "fiscalyear_last_month"],
+        )) as Array<{
+          fiscalyear_last_day?: number;
+          fiscalyear_last_month?: string;
+        }>;
+        if (company?.fiscalyear_last_day && company.fiscalyear_last_month) {
+          fiscalYearEnd = {
+            month: Number(company.fiscalyear_last_month),
+            day: company.fiscalyear_last_day,
+          };
+        }
+      }
+    } catch {
+      // Without accounting there is no fiscal year setting
+    }
+  }
+
+  return { today: dateInTimeZone(now, timeZone), timeZone, fiscalYearEnd };
+}
+
+/**
+ * Compare a date or datetime field with the days a macro covers. Datetime
+ * bounds are the user's local midnights, in UTC as Odoo stores them.
+ */
+function macroTerm(
+  field: string,
+  operator: string,
+  range: DayRange,
+  type: string,
+  timeZone: string,
+): Domain {
+  const bound = (date: string) =>
+    type === "datetime" ? startOfDayUtc(date, timeZone) : date;
+  const start = bound(range.start);
+  const end = bound(range.end);
+
+  switch (operator) {
+    case "=":
+      return ["&", [field, ">=", start], [field, "<", end]];
+    case "!=":
+      return ["|", [field, "<", start], [field, ">=", end]];
+    case ">":
+      return [[field, ">=", end]];
+    case ">=":
+      return [[field, ">=", start]];
+    case "<":
+      return [[field, "<", start]];
+    default:
+      return [[field, "<", end]];
+  }
+}
+
+/**
+ * "2025-01-08 to 2025-01-14", or one date for single-day macros
+ */
+function describeRange({ start, end }: DayRange): string {
+  const lastDay = new Date(
+    new Date(`${end}T00:00:00Z`).getTime() - 24 * 60 * 60 * 1000,
+  )
+    .toISOString()
+    .slice(0, 10);
+  return lastDay === start ? start : `${start} to ${lastDay}`;
+}
+
+// ============ Tool: build_domain ============
+
+export const BuildDomainInputSchema = z.object({
+  model: z.string().describe('Model technical name (e.g., "sale.order")'),
+  filter: z
+    .record(z.string(), z.unknown())
+    .describe(
+      'Filter tree of {"and": [...]}, {"or": [...]} and {"not": {...}} nodes over {"field", "op", "value"} conditions, ' +
+        'e.g. {"and": [{"field": "state", "op": "=", "value": "sale"}, {"field": "date_order", "op": "=", "value": "last_7_days"}]}',
+    ),
+});
+
+export type BuildDomainInput = z.infer<typeof BuildDomainInputSchema>;
+
+/**
+ * timezone and resolved_macros are only present when date macros were used
+ */
+export const BuildDomainOutputSchema = z.object({
+  model: z.string(),
+  domain: z.array(z.unknown()),
+  timezone: z.string().optional(),
+  resolved_macros: z.record(z.string()).optional(),
+});
+
+export async function buildDomain(
+  client: IOdooClient,
+  input: BuildDomainInput,
+  now: Date = new Date(),
+): Promise<{ success: boolean; result?: unknown; error?: string }> {
+  try {
+    const fields = await client.getModelFields(input.model);
+    if ("error" in fields && typeof fields.error === "string") {
+      return { success: false, error: fields.error };
+    }
+
+    // Check the tree's shape and collect its conditions
+    const leaves: Array<Parameters<FilterLeafConverter>[0]> = [];
+    filterTreeToDomain(input.filter, (leaf) => {
+      leaves.push(leaf);
+      return [];
+    });
+
+    const major = await getServerMajorVersion(client);
+    const operators: string[] = operatorsForVersion(major);
+    const known = new Map([
+      [input.model, fields as Record<string, OdooFieldDef>],
+    ]);
+    const types = new Map<string, string>();
+    const errors: string[] = [];
+    const macros = new Set<string>();
+
+    for (const { field, operator, value } of leaves) {
+      const resolved = await resolveFieldPath(
+        client,
+        input.model,
+        field,
+        major,
+        known,
+      );
+      if ("error" in resolved) {
+        errors.push(resolved.error);
+        continue;
+      }
+      if (!operators.includes(operator)) {
+        errors.push(
+          `Invalid operator '${operator}' for field '${field}'. Valid operators: ${operators.join(", ")}`,
+        );
+        continue;
+      }
+
+      // A date part such as date_order.month_number compares numbers
+      const type = resolved.granularity ? "integer" : resolved.field.type;
+      types.set(field, type);
+      if ((type === "date" || type === "datetime") && isDateMacro(value)) {
+        if (!MACRO_OPERATORS.has(operator)) {
+          errors.push(
+            `Operator '${operator}' cannot compare '${field}' with date macro '${value}'. Use one of: ${[...MACRO_OPERATORS].join(", ")}`,
+          );
+          continue;
+        }
+        macros.add(value);
+      }
+    }
+
+    if (errors.length > 0) {
+      return {
+        success: false,
+        error: `Invalid filter: ${errors.join("; ")}`,
+      };
+    }
+
+    const context =
+      macros.size > 0
+        ? await loadMacroContext(client, [...macros].some(isFiscalMacro), now)
+        : null;
+
+    const domain = filterTreeToDomain(
+      input.filter,
+      ({ field, operator, value }) => {
+        const type = types.get(field);
+        if (
+          context &&
+          (type === "date" || type === "datetime") &&
+          isDateMacro(value)
+        ) {
+          return macroTerm(
+            field,
+            operator,
+            resolveDateMacro(value, context),
+            type,
+            context.timeZone,
+          );
+        }
+        const op = operator as DomainCondition[1];
+        if (op === "any" || op === "not any") {
+          return [[field, op, normalizeDomain(value)]];
+        }
+        return [[field, op, value]];
+      },
+    );
+
+    return {
+      success: true,
+      result: {
+        model: input.model,
+        domain,
+        ...(context && {
+          timezone: context.timeZone,
+          resolved_macros: Object.fromEntries(
+            [...macros].map((name) => [
+              name,
+              describeRange(resolveDateMacro(name, context)),
+            ]),
+          ),
+        }),
+      },
+    };
+  } catch (error) {
+    return errorResult(error);
+  }
+}
+
+export const buildDomainTool = defineTool({
+  name: "build_domain",
+  description:
+    "Build a valid Odoo domain from a structured filter tree instead of writing prefix notation by hand. " +
+    "Checks fields and operators against the model. " +
+    `On date and datetime fields the value can be a relative date macro: ${DATE_MACROS.join(", ")}. ` +
+    "Macros are resolved in the user's timezone; = means within the period, and < / >= compare with its start, > / <= with its end. " +
+    "Pass the returned domain to search_records or execute_method.",
+  inputSchema: {
+    model: BuildDomainInputSchema.shape.model,
+    filter: BuildDomainInputSchema.shape.filter,
+  },
+  outputSchema: toolResultShape(BuildDomainOutputSchema),
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (client, input) => buildDomain(client, input),
+});
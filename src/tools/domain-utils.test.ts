@@ -1,5 +1,14 @@
 import { describe, expect, it } from "vitest";
-import { normalizeDomain, validateDomain } from "./domain-utils.js";
+import {
+  DomainParseError,
+  dateGranularities,
+  filterTreeToDomain,
+  normalizeDomain,
+  operatorsForVersion,
+  parseDomainTree,
+  rawDomainTerms,
+  validateDomain,
+} from "./domain-utils.js";
 
 describe("domain-utils", () => {
   describe("normalizeDomain", () => {
@@ -60,6 +69,27 @@ describe("domain-utils", () => {
       });
     });
 
+    describe("string domain handling (Python)", () => {
+      it("parses domains copied from Odoo", () => {
+        expect(
+          normalizeDomain(
+            "[('state','=','draft'), '|', ('x','=',True), ('y','!=',False)]",
+          ),
+        ).toEqual([
+          ["state", "=", "draft"],
+          "|",
+          ["x", "=", true],
+          ["y", "!=", false],
+        ]);
+      });
+
+      it("throws for expressions Odoo would evaluate", () => {
+        expect(() =>
+          normalizeDomain("[('date', '<', context_today())]"),
+        ).toThrow(/Invalid domain: Unsupported expression "context_today\(\)"/);
+      });
+    });
+
     describe("string domain handling (JSON)", () => {
       it("parses JSON array domain", () => {
         const json = '[["name", "=", "test"]]';
@@ -71,8 +101,13 @@ describe("domain-utils", () => {
         expect(normalizeDomain(json)).toEqual([["name", "=", "test"]]);
       });
 
-      it("returns empty array for invalid JSON", () => {
-        expect(normalizeDomain("not valid json")).toEqual([]);
+      it("throws for text that is not a domain", () => {
+        expect(() => normalizeDomain("not valid json")).toThrow(
+          DomainParseError,
+        );
+        expect(() => normalizeDomain("42")).toThrow(
+          "expected a list of conditions",
+        );
       });
 
       it("returns empty array for empty string", () => {
@@ -184,4 +219,144 @@ describe("domain-utils", () => {
       expect(validateDomain(domain as never)).toEqual([]);
     });
   });
+
+  describe("operatorsForVersion", () => {
+    it("offers any / not any from Odoo 17", () => {
+      expect(operatorsForVersion(16)).not.toContain("any");
+      expect(operatorsForVersion(16)).toContain("not ilike");
+      expect(operatorsForVersion(17)).toContain("not any");
+    });
+
+    it("offers every operator when the version is unknown", () => {
+      expect(operatorsForVersion(null)).toContain("any");
+    });
+  });
+
+  describe("dateGranularities", () => {
+    it("lists time parts only for datetime fields", () => {
+      expect(dateGranularities("date")).toContain("month_number");
+      expect(dateGranularities("date")).not.toContain("hour_number");
+      expect(dateGranularities("datetime")).toContain("hour_number");
+      expect(dateGranularities("char")).toEqual([]);
+    });
+  });
+
+  describe("parseDomainTree", () => {
+    it("ANDs top-level terms and groups prefix operators", () => {
+      const a = ["a", "=", 1];
+      const b = ["b", "=", 2];
+      const c = ["c", "=", 3];
+
+      expect(parseDomainTree(["|", a, b, "!", c]).tree).toEqual({
+        type: "and",
+        children: [
+          {
+            type: "or",
+            children: [
+              { type: "condition", condition: a },
+              { type: "condition", condition: b },
+            ],
+          },
+          { type: "not", child: { type: "condition", condition: c } },
+        ],
+      });
+    });
+
+    it("merges nested groups of the same kind", () => {
+      const { tree } = parseDomainTree([
+        "|",
+        "|",
+        ["a", "=", 1],
+        ["b", "=", 2],
+        ["c", "=", 3],
+      ]);
+
+      expect(tree?.type).toBe("or");
+      expect(tree?.type === "or" && tree.children).toHaveLength(3);
+    });
+
+    it("reports operators missing operands", () => {
+      expect(parseDomainTree(["&", "!"]).errors).toEqual([
+        "'!' at position 1 needs 1 operand but none follow",
+        "'&' at position 0 needs 2 operands but only 1 follows",
+      ]);
+    });
+
+    it("returns no tree for an empty domain", () => {
+      expect(parseDomainTree([])).toEqual({ tree: null, errors: [] });
+    });
+  });
+
+  describe("filterTreeToDomain", () => {
+    it("emits n - 1 prefix operators per group", () => {
+      expect(
+        filterTreeToDomain({
+          or: [
+            { field: "a", op: "=", value: 1 },
+            { field: "b", operator: "=", value: 2 },
+            { and: [{ not: { field: "c", op: "=", value: false } }] },
+          ],
+        }),
+      ).toEqual([
+        "|",
+        "|",
+        ["a", "=", 1],
+        ["b", "=", 2],
+        "!",
+        ["c", "=", false],
+      ]);
+    });
+
+    it("throws for empty groups and incomplete conditions", () => {
+      expect(() => filterTreeToDomain({ and: [] })).toThrow(
+        "Invalid filter at filter.and: expected a non-empty list",
+      );
+      expect(() =>
+        filterTreeToDomain({ not: { field: "a", op: "=" } }),
+      ).toThrow("Invalid filter at filter.not: missing value");
+    });
+  });
+
+  describe("normalizeDomain with filter trees", () => {
+    it("accepts and / or / not nodes inside conditions", () => {
+      expect(
+        normalizeDomain({
+          conditions: [
+            { field: "state", operator: "=", value: "sale" },
+            {
+              or: [
+                { field: "a", op: "=", value: 1 },
+                { field: "b", op: "=", value: 2 },
+              ],
+            },
+          ],
+        }),
+      ).toEqual([["state", "=", "sale"], "|", ["a", "=", 1], ["b", "=", 2]]);
+    });
+
+    it("accepts a filter tree at the top level", () => {
+      expect(
+        normalizeDomain({ not: { field: "active", op: "=", value: true } }),
+      ).toEqual(["!", ["active", "=", true]]);
+    });
+  });
+
+  describe("rawDomainTerms", () => {
+    it("keeps malformed terms that normalizeDomain drops", () => {
+      const domain = ["|", ["a", "="], "x", ["b", "=", 1]];
+
+      expect(rawDomainTerms(domain)).toEqual(domain);
+      expect(normalizeDomain(domain)).toEqual(["|", ["b", "=", 1]]);
+    });
+
+    it("parses strings and unwraps like normalizeDomain", () => {
+      expect(rawDomainTerms("[('a', '=', 1), ('b',)]")).toEqual([
+        ["a", "=", 1],
+        ["b"],
+      ]);
+      expect(rawDomainTerms([[["a", "=", 1]]])).toEqual([["a", "=", 1]]);
+      expect(rawDomainTerms(["a", "=", 1])).toEqual([["a", "=", 1]]);
+      expect(rawDomainTerms("")).toEqual([]);
+    });
+  });
 });
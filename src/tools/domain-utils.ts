@@ -2,7 +2,17 @@ import type {
   Domain,
   DomainCondition,
   DomainOperator,
+  OdooOperator,
 } from "../types/index.js";
+import { PythonLiteralError, parsePythonLiteral } from "./python-literal.js";
+
+/**
+ * Raised when a domain string cannot be parsed, rather than falling back to
+ * an empty domain that would match every record
+ */
+export class DomainParseError extends Error {
+  override name = "DomainParseError";
+}
 
 interface ConditionObject {
   field: string;
@@ -11,9 +21,28 @@ interface ConditionObject {
 }
 
 interface DomainObject {
-  conditions: ConditionObject[];
+  conditions: unknown[];
+}
+
+/**
+ * Leaf of a filter tree; `op` is accepted as an alias of `operator`
+ */
+export interface FilterCondition {
+  field: string;
+  op?: string;
+  operator?: string;
+  value?: unknown;
 }
 
+/**
+ * Structured filter: and / or / not nodes over condition leaves
+ */
+export type FilterNode =
+  | { and: FilterNode[] }
+  | { or: FilterNode[] }
+  | { not: FilterNode }
+  | FilterCondition;
+
 /**
  * Check if a value is a logical operator
  */
@@ -49,25 +78,66 @@ function isValidConditionObject(c: unknown): c is ConditionObject {
 }
 
 /**
- * Convert object format domain to array format
+ * Check if an object is an and / or / not node of a filter tree
+ */
+function isFilterGroup(obj: unknown): boolean {
+  return (
+    typeof obj === "object" &&
+    obj !== null &&
+    !Array.isArray(obj) &&
+    ("and" in obj || "or" in obj || "not" in obj)
+  );
+}
+
+/**
+ * Convert object format domain to array format. Conditions are ANDed and
+ * may include and / or / not nodes.
  */
 function normalizeConditionObject(obj: DomainObject): Domain {
-  return obj.conditions
-    .filter(isValidConditionObject)
-    .map((c) => [c.field, c.operator, c.value] as DomainCondition);
+  return obj.conditions.flatMap((c): Domain => {
+    if (isFilterGroup(c)) {
+      return filterTreeToDomain(c);
+    }
+    if (isValidConditionObject(c)) {
+      return [[c.field, c.operator, c.value] as DomainCondition];
+    }
+    return [];
+  });
 }
 
 /**
- * Parse domain from JSON string
+ * Parse domain from a JSON or Python-literal string, e.g.
+ * [('state', '=', 'draft'), '|', ('x', '=', True), ('y', '!=', False)]
  */
 function normalizeFromString(str: string): Domain {
+  if (!str.trim()) {
+    return [];
+  }
+  return normalizeDomain(parseDomainString(str));
+}
+
+/**
+ * Parse a domain given as JSON or as a Python literal
+ */
+function parseDomainString(str: string): unknown {
+  let parsed: unknown;
   try {
-    const parsed: unknown = JSON.parse(str);
-    return normalizeDomain(parsed);
+    parsed = JSON.parse(str);
   } catch {
-    // Not valid JSON, return empty domain
-    return [];
+    try {
+      parsed = parsePythonLiteral(str);
+    } catch (error) {
+      if (error instanceof PythonLiteralError) {
+        throw new DomainParseError(`Invalid domain: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  if (!Array.isArray(parsed) && !isDomainObject(parsed)) {
+    throw new DomainParseError("Invalid domain: expected a list of conditions");
   }
+  return parsed;
 }
 
 /**
@@ -117,8 +187,10 @@ function normalizeArrayDomain(arr: unknown[]): Domain {
  * 1. null/undefined -> []
  * 2. Array of tuples: [[field, op, val], ...] -> pass through
  * 3. Single tuple: [field, op, val] -> [[field, op, val]]
- * 4. Object with conditions: { conditions: [...] }
- * 5. JSON string of any above format
+ * 4. Object with conditions: { conditions: [...] }, or a filter tree of
+ *    { and: [...] }, { or: [...] } and { not: ... } nodes
+ * 5. JSON or Python-literal string of any above format (throws
+ *    DomainParseError when it cannot be parsed)
  * 6. Operators like '&', '|', '!' preserved
  * 7. Double-wrapped domains [[domain]] -> [domain]
  */
@@ -138,6 +210,11 @@ export function normalizeDomain(input: unknown): Domain {
     return normalizeConditionObject(input);
   }
 
+  // Handle a filter tree: { and: [...] }, { or: [...] } or { not: ... }
+  if (isFilterGroup(input)) {
+    return filterTreeToDomain(input);
+  }
+
   // Handle array input
   if (Array.isArray(input)) {
     // Unwrap double-wrapped domains [[domain]] -> [domain]
@@ -154,6 +231,46 @@ export function normalizeDomain(input: unknown): Domain {
   return [];
 }
 
+/**
+ * The terms of a domain as given, before normalizeDomain drops the
+ * malformed ones, so their positions can be reported. Strings are parsed
+ * and structured inputs converted as normalizeDomain does.
+ */
+export function rawDomainTerms(input: unknown): unknown[] {
+  const value =
+    typeof input === "string"
+      ? input.trim()
+        ? parseDomainString(input)
+        : []
+      : input;
+  if (!Array.isArray(value)) {
+    return normalizeDomain(value);
+  }
+
+  // Unwrap double-wrapped domains [[domain]] -> [domain]
+  if (
+    value.length === 1 &&
+    Array.isArray(value[0]) &&
+    Array.isArray(value[0][0])
+  ) {
+    return value[0] as unknown[];
+  }
+
+  // A single condition tuple: [field, op, value]
+  const hasTerms = value.some(
+    (item) => Array.isArray(item) || isOperator(item),
+  );
+  if (
+    !hasTerms &&
+    value.length >= 3 &&
+    typeof value[0] === "string" &&
+    typeof value[1] === "string"
+  ) {
+    return [[value[0], value[1], value[2]]];
+  }
+  return value;
+}
+
 /**
  * Validate a domain and return only valid conditions/operators
  */
@@ -171,3 +288,227 @@ export function validateDomain(domain: Domain): Domain {
     return false;
   });
 }
+
+/**
+ * Domain operators with the Odoo major version that introduced them
+ */
+const OPERATOR_SINCE: Record<OdooOperator, number> = {
+  "=": 0,
+  "!=": 0,
+  ">": 0,
+  "<": 0,
+  ">=": 0,
+  "<=": 0,
+  "=?": 0,
+  in: 0,
+  "not in": 0,
+  like: 0,
+  "not like": 0,
+  ilike: 0,
+  "not ilike": 0,
+  "=like": 0,
+  "=ilike": 0,
+  child_of: 0,
+  parent_of: 0,
+  any: 17,
+  "not any": 17,
+};
+
+export const DOMAIN_OPERATORS = Object.keys(OPERATOR_SINCE) as OdooOperator[];
+
+/**
+ * Odoo version that introduced an operator, or null for unknown operators
+ */
+export function operatorSince(operator: string): number | null {
+  return operator in OPERATOR_SINCE
+    ? OPERATOR_SINCE[operator as OdooOperator]
+    : null;
+}
+
+/**
+ * Operators the given Odoo major version understands; all of them when the
+ * version is unknown
+ */
+export function operatorsForVersion(major: number | null): OdooOperator[] {
+  return DOMAIN_OPERATORS.filter(
+    (op) => major === null || OPERATOR_SINCE[op] <= major,
+  );
+}
+
+/**
+ * Parts of date and datetime fields that domains can compare directly from
+ * Odoo 18, e.g. ["date_order.month_number", "=", 12]
+ */
+export const DATE_GRANULARITY_SINCE = 18;
+
+const DATE_PARTS = [
+  "year_number",
+  "quarter_number",
+  "month_number",
+  "iso_week_number",
+  "day_of_week",
+  "day_of_month",
+  "day_of_year",
+];
+
+const TIME_PARTS = ["hour_number", "minute_number", "second_number"];
+
+/**
+ * Date parts available on a field type: none for non-date fields
+ */
+export function dateGranularities(fieldType: string): string[] {
+  if (fieldType === "date") return DATE_PARTS;
+  if (fieldType === "datetime") return [...DATE_PARTS, ...TIME_PARTS];
+  return [];
+}
+
+/**
+ * A domain as an expression tree, with prefix operators resolved
+ */
+export type DomainNode =
+  | { type: "condition"; condition: DomainCondition }
+  | { type: "and" | "or"; children: DomainNode[] }
+  | { type: "not"; child: DomainNode };
+
+const ARITY: Record<DomainOperator, number> = { "&": 2, "|": 2, "!": 1 };
+
+/**
+ * Join nodes with AND or OR, merging nested groups of the same kind
+ */
+function combine(type: "and" | "or", nodes: DomainNode[]): DomainNode {
+  const children = nodes.flatMap((node) =>
+    node.type === type ? node.children : [node],
+  );
+  return children.length === 1 && children[0]
+    ? children[0]
+    : { type, children };
+}
+
+/**
+ * Parse a prefix-notation domain into an expression tree. Top-level terms
+ * are ANDed, as Odoo does. Operators with too few operands are reported in
+ * errors; the tree keeps whatever operands they have. The tree is null for
+ * an empty domain, which matches every record.
+ */
+export function parseDomainTree(domain: readonly unknown[]): {
+  tree: DomainNode | null;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  let pos = 0;
+
+  const parseNode = (): DomainNode | null => {
+    const index = pos;
+    const item = domain[pos++];
+
+    if (isOperator(item)) {
+      const arity = ARITY[item];
+      const operands: DomainNode[] = [];
+      for (let i = 0; i < arity; i++) {
+        if (pos >= domain.length) {
+          errors.push(
+            `'${item}' at position ${index} needs ${arity} operand${arity === 1 ? "" : "s"} but ${i === 0 ? "none follow" : `only ${i} follows`}`,
+          );
+          break;
+        }
+        const operand = parseNode();
+        if (operand) operands.push(operand);
+      }
+      if (operands.length === 0) return null;
+      if (item === "!") {
+        return operands[0] ? { type: "not", child: operands[0] } : null;
+      }
+      return combine(item === "&" ? "and" : "or", operands);
+    }
+
+    if (
+      Array.isArray(item) &&
+      item.length === 3 &&
+      typeof item[0] === "string" &&
+      typeof item[1] === "string"
+    ) {
+      return { type: "condition", condition: item as DomainCondition };
+    }
+
+    errors.push(
+      `Invalid condition format at position ${index}: ${JSON.stringify(item)}. Expected [field, operator, value].`,
+    );
+    return null;
+  };
+
+  const terms: DomainNode[] = [];
+  while (pos < domain.length) {
+    const node = parseNode();
+    if (node) terms.push(node);
+  }
+
+  return {
+    tree: terms.length === 0 ? null : combine("and", terms),
+    errors,
+  };
+}
+
+/**
+ * Turn one filter leaf into a single domain term. The default keeps the
+ * condition as is; callers can expand leaves, e.g. date macros to ranges.
+ */
+export type FilterLeafConverter = (condition: {
+  field: string;
+  operator: string;
+  value: unknown;
+}) => Domain;
+
+/**
+ * Convert a structured filter tree to an Odoo prefix domain. Throws a
+ * DomainParseError naming the first malformed node.
+ */
+export function filterTreeToDomain(
+  node: unknown,
+  convertLeaf: FilterLeafConverter = ({ field, operator, value }) => [
+    [field, operator as DomainCondition[1], value],
+  ],
+  path = "filter",
+): Domain {
+  if (typeof node !== "object" || node === null || Array.isArray(node)) {
+    throw new DomainParseError(
+      `Invalid filter at ${path}: expected an object, found ${JSON.stringify(node)}`,
+    );
+  }
+
+  const group = (key: "and" | "or", operator: "&" | "|"): Domain => {
+    const children = (node as Record<string, unknown>)[key];
+    if (!Array.isArray(children) || children.length === 0) {
+      throw new DomainParseError(
+        `Invalid filter at ${path}.${key}: expected a non-empty list`,
+      );
+    }
+    const terms = children.flatMap((child, i) =>
+      filterTreeToDomain(child, convertLeaf, `${path}.${key}[${i}]`),
+    );
+    // n terms need n - 1 prefix operators
+    return [
+      ...Array<DomainOperator>(children.length - 1).fill(operator),
+      ...terms,
+    ];
+  };
+
+  if ("and" in node) return group("and", "&");
+  if ("or" in node) return group("or", "|");
+  if ("not" in node) {
+    return ["!", ...filterTreeToDomain(node.not, convertLeaf, `${path}.not`)];
+  }
+
+  const { field, op, operator = op, value } = node as FilterCondition;
+  if (typeof field !== "string" || !field) {
+    throw new DomainParseError(
+      `Invalid filter at ${path}: expected and, or, not, or a condition with field, op and value`,
+    );
+  }
+  if (typeof operator !== "string") {
+    throw new DomainParseError(`Invalid filter at ${path}: missing op`);
+  }
+  if (!("value" in node)) {
+    throw new DomainParseError(`Invalid filter at ${path}: missing value`);
+  }
+  return convertLeaf({ field, operator, value });
+}
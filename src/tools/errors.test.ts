@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { CircuitOpenError } from "../connection/circuit-breaker.js";
+import { AccessError, ValidationError } from "../connection/errors.js";
+import {
+  evaluatePolicy,
+  PolicySchema,
+  PolicyViolationError,
+} from "../connection/policy.js";
+import { DomainParseError } from "./domain-utils.js";
+import { errorResult } from "./errors.js";
+
+describe("errorResult", () => {
+  it("adds error_type and hint for Odoo faults", () => {
+    const result = errorResult(
+      new ValidationError({
+        message: "The email address is invalid",
+        exception: "odoo.exceptions.ValidationError",
+      }),
+    );
+
+    expect(result).toEqual({
+      success: false,
+      error: "ValidationError: The email address is invalid",
+      error_type: "validation_error",
+      hint: expect.stringContaining("Correct the fields"),
+    });
+  });
+
+  it("parses raw transport faults", () => {
+    const fault = Object.assign(new Error("XML-RPC fault: Not allowed"), {
+      faultCode: 4,
+      faultString: "Not allowed",
+    });
+
+    const result = errorResult(fault);
+
+    expect(result.error).toBe("AccessError: Not allowed");
+    expect(result.error_type).toBe("access_error");
+    expect(result.hint).toContain("check_access");
+  });
+
+  it("classifies connection failures", () => {
+    expect(errorResult(new CircuitOpenError(1000, 5)).error_type).toBe(
+      "connection_error",
+    );
+    expect(
+      errorResult(new Error("Request timeout after 30000ms")).error_type,
+    ).toBe("connection_error");
+  });
+
+  it("keeps other errors as plain messages", () => {
+    expect(errorResult(new Error("Invalid domain"))).toEqual({
+      success: false,
+      error: "Error: Invalid domain",
+    });
+  });
+
+  it("accepts fault subclasses from the connection layer", () => {
+    const result = errorResult(
+      new AccessError({
+        message: "Not allowed",
+        exception: "odoo.exceptions.AccessError",
+        model: "res.partner",
+        method: "write",
+      }),
+    );
+
+    expect(result.error_type).toBe("access_error");
+  });
+
+  it("reports the rule behind policy violations", () => {
+    const policy = PolicySchema.parse({
+      rules: [{ name: "no-unlink", effect: "deny", operation: "unlink" }],
+    });
+    const error = new PolicyViolationError(
+      "account.move",
+      "unlink",
+      "unlink",
+      evaluatePolicy(policy, "account.move", "unlink"),
+    );
+
+    expect(errorResult(error)).toEqual({
+      success: false,
+      error: 'Policy rule "no-unlink" (#1) blocks account.move.unlink (unlink)',
+      error_type: "policy_violation",
+      hint: expect.stringContaining("policy forbids"),
+      policy_rule: { index: 1, name: "no-unlink" },
+    });
+  });
+
+  it("classifies unparseable domains", () => {
+    const result = errorResult(new DomainParseError("Invalid domain: oops"));
+
+    expect(result).toEqual({
+      success: false,
+      error: "Invalid domain: oops",
+      error_type: "invalid_domain",
+      hint: expect.stringContaining("context_today()"),
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Shared error results for tools, classifying Odoo faults so an agent can
+ * decide what to do next
+ */
+
+import { CircuitOpenError } from "../connection/circuit-breaker.js";
+import {
+  isConnectionError,
+  type OdooFaultType,
+  parseOdooFault,
+} from "../connection/errors.js";
+import { PolicyViolationError } from "../connection/policy.js";
+import { DomainParseError } from "./domain-utils.js";
+
+export type ToolErrorType =
+  | OdooFaultType
+  | "connection_error"
+  | "policy_violation"
+  | "invalid_domain";
+
+const HINTS: Record<ToolErrorType, string> = {
+  access_error:
+    "The user lacks permission for this operation. Use check_access to see what is missing; retrying will not help.",
+  validation_error:
+    "The values break a constraint. Correct the fields named in the message and retry.",
+  user_error:
+    "Odoo refused the operation for a business reason. Read the message, fix the input or record state, and retry.",
+  missing_error:
+    "The record does not exist or was deleted. Search again for valid IDs.",
+  access_denied:
+    "Odoo rejected the configured credentials. Check the username and API key.",
+  fault:
+    "Odoo raised an unexpected error. Check the model, method and arguments against get_model_schema.",
+  connection_error:
+    "Odoo could not be reached. Wait and retry, or check that the server is up.",
+  policy_violation:
+    "This server's policy forbids the call. Do not retry or work around it; tell the user which rule blocked it.",
+  invalid_domain:
+    "The domain could not be parsed. Fix the syntax, or replace expressions such as context_today() with literal values, and retry.",
+};
+
+export interface ToolErrorResult {
+  success: false;
+  error: string;
+  error_type?: ToolErrorType;
+  hint?: string;
+  /**
+   * The policy rule that blocked the call, for policy violations
+   */
+  policy_rule?: { index: number | null; name: string | null };
+}
+
+/**
+ * Build a failed tool result from a caught error.
+ * Odoo faults and connection failures get an error_type and hint.
+ */
+export function errorResult(error: unknown): ToolErrorResult {
+  if (error instanceof PolicyViolationError) {
+    const { rule, ruleIndex } = error.decision;
+    return {
+      success: false,
+      error: error.message,
+      error_type: "policy_violation",
+      hint: HINTS.policy_violation,
+      policy_rule: { index: ruleIndex, name: rule?.name ?? null },
+    };
+  }
+
+  if (error instanceof DomainParseError) {
+    return {
+      success: false,
+      error: error.message,
+      error_type: "invalid_domain",
+      hint: HINTS.invalid_domain,
+    };
+  }
+
+  const fault = parseOdooFault(error);
+  if (fault) {
+    return {
+      success: false,
+      error: String(fault),
+      error_type: fault.type,
+      hint: HINTS[fault.type],
+    };
+  }
+
+  if (isConnectionError(error) || error instanceof CircuitOpenError) {
+    return {
+      success: false,
+      error: String(error),
+      error_type: "connection_error",
+      hint: HINTS.connection_error,
+    };
+  }
+
+  return { success: false, error: String(error) };
+}
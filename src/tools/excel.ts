@@ -1,6 +1,20 @@
 import XLSX from "xlsx";
 import { z } from "zod";
-import { defineTool } from "./registry.js";
+import { defineTool, TextOutputSchema, toolResultShape } from "./registry.js";
+
+export const ListExcelSheetsOutputSchema = z.object({
+  sheets: z.array(z.string()),
+  active_sheet: z.string().nullable(),
+  file_path: z.string(),
+});
+
+/**
+ * CSV of one sheet as text, or of every sheet by name
+ */
+export const ConvertExcelOutputSchema = z.union([
+  TextOutputSchema,
+  z.object({ sheets: z.record(z.string()) }),
+]);
 
 /**
  * Tool to list sheets in an Excel file
@@ -14,6 +28,13 @@ export const listExcelSheetsTool = defineTool({
       .string()
       .describe("Absolute path to the Excel file (.xlsx, .xls, .ods)"),
   },
+  outputSchema: toolResultShape(ListExcelSheetsOutputSchema),
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
   handler: async (_client, input) => {
     try {
       const workbook = XLSX.readFile(input.file_path);
@@ -56,6 +77,13 @@ export const convertExcelTool = defineTool({
         "Convert all sheets and return as object with sheet names as keys",
       ),
   },
+  outputSchema: toolResultShape(ConvertExcelOutputSchema),
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
   handler: async (_client, input) => {
     try {
       const workbook = XLSX.readFile(input.file_path);
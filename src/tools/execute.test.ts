@@ -1,6 +1,11 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ConfirmTokenStore } from "../connection/confirmation.js";
 import type { IOdooClient } from "../types/index.js";
-import { ExecuteMethodInputSchema, executeMethod } from "./execute.js";
+import {
+  ExecuteMethodInputSchema,
+  executeMethod,
+  executeMethodTool,
+} from "./execute.js";
 
 describe("execute tool", () => {
   let mockClient: IOdooClient;
@@ -184,6 +189,32 @@ describe("execute tool", () => {
       expect(result.error).toContain("Access denied");
     });
 
+    it("blocks methods outside the allowlist in read-only mode", async () => {
+      const result = await executeMethod(
+        mockClient,
+        { model: "res.partner", method: "unlink", args: [[1]], kwargs: {} },
+        { readOnly: true },
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error_type).toBe("read_only");
+      expect(result.error).toContain("Method 'unlink' is blocked");
+      expect(result.error).toContain("search_read");
+      expect(mockClient.execute).not.toHaveBeenCalled();
+    });
+
+    it("allows read methods in read-only mode", async () => {
+      vi.mocked(mockClient.execute).mockResolvedValue([{ id: 1 }]);
+
+      const result = await executeMethod(
+        mockClient,
+        { model: "res.partner", method: "read_group", args: [[]], kwargs: {} },
+        { readOnly: true },
+      );
+
+      expect(result.success).toBe(true);
+    });
+
     it("handles empty kwargs", async () => {
       vi.mocked(mockClient.execute).mockResolvedValue([]);
 
@@ -202,4 +233,104 @@ describe("execute tool", () => {
       );
     });
   });
+
+  describe("executeMethodTool - confirmation", () => {
+    const context = {
+      confirmation: { writeThreshold: 2, tokens: new ConfirmTokenStore() },
+    };
+
+    it("asks before unlink", async () => {
+      const result = await executeMethodTool.handler(
+        mockClient,
+        { model: "res.partner", method: "unlink", args: [[1, 2]] },
+        context,
+      );
+
+      expect(result.error).toBe(
+        "Confirmation required: delete 2 res.partner records",
+      );
+      expect(mockClient.execute).not.toHaveBeenCalled();
+    });
+
+    it("asks before writes above the threshold only", async () => {
+      vi.mocked(mockClient.execute).mockResolvedValue(true);
+
+      const small = await executeMethodTool.handler(
+        mockClient,
+        { model: "res.partner", method: "write", args: [[1, 2], {}] },
+        context,
+      );
+      const large = await executeMethodTool.handler(
+        mockClient,
+        { model: "res.partner", method: "write", args: [[1, 2, 3], {}] },
+        context,
+      );
+
+      expect(small.success).toBe(true);
+      expect(large.error_type).toBe("confirmation_required");
+    });
+
+    it("finds record IDs passed as the ids keyword argument", async () => {
+      vi.mocked(mockClient.execute).mockResolvedValue(true);
+
+      const unlink = await executeMethodTool.handler(
+        mockClient,
+        {
+          model: "res.partner",
+          method: "unlink",
+          args: [],
+          kwargs: { ids: [1, 2, 3] },
+        },
+        context,
+      );
+      const write = await executeMethodTool.handler(
+        mockClient,
+        {
+          model: "res.partner",
+          method: "write",
+          args: [],
+          kwargs: { ids: [1, 2, 3], vals: { active: false } },
+        },
+        context,
+      );
+
+      expect(unlink.error).toBe(
+        "Confirmation required: delete 3 res.partner records",
+      );
+      expect(write.error).toBe(
+        "Confirmation required: update 3 res.partner records",
+      );
+      expect(mockClient.execute).not.toHaveBeenCalled();
+    });
+
+    it("asks when the records of a write cannot be determined", async () => {
+      const result = await executeMethodTool.handler(
+        mockClient,
+        {
+          model: "res.partner",
+          method: "write",
+          args: [],
+          kwargs: { vals: { active: false } },
+        },
+        context,
+      );
+
+      expect(result.error).toBe(
+        "Confirmation required: update an unknown number of res.partner records",
+      );
+      expect(mockClient.execute).not.toHaveBeenCalled();
+    });
+
+    it("does not ask for reads", async () => {
+      vi.mocked(mockClient.execute).mockResolvedValue([]);
+
+      const result = await executeMethodTool.handler(
+        mockClient,
+        { model: "res.partner", method: "search_read", args: [[]] },
+        context,
+      );
+
+      expect(result.success).toBe(true);
+    });
+  });
 });
@@ -1,7 +1,16 @@
 import { z } from "zod";
+import { affectedRecordIds } from "../connection/audit.js";
+import { READ_METHODS } from "../connection/policy.js";
 import type { IOdooClient } from "../types/index.js";
+import {
+  confirmChange,
+  confirmTokenInputSchema,
+  describeRecords,
+  isDestructiveAction,
+} from "./confirmation.js";
 import { normalizeDomain, validateDomain } from "./domain-utils.js";
-import { defineTool } from "./registry.js";
+import { errorResult } from "./errors.js";
+import { defineTool, type ToolResult, toolResultShape } from "./registry.js";
 
 /**
  * Input schema for execute_method tool
@@ -23,18 +32,46 @@ export const ExecuteMethodInputSchema = z.object({
 
 export type ExecuteMethodInput = z.infer<typeof ExecuteMethodInputSchema>;
 
+/**
+ * Whatever the Odoo method returns, e.g. a list of IDs for search or true
+ * for write
+ */
+export const ExecuteMethodOutputSchema = z
+  .unknown()
+  .describe("Value returned by the Odoo method");
+
 const SEARCH_METHODS = ["search", "search_count", "search_read"];
 
+export interface ExecuteMethodOptions {
+  /**
+   * Reject methods outside READ_METHODS
+   */
+  readOnly?: boolean;
+}
+
 /**
  * Execute a custom method on an Odoo model
  */
 export async function executeMethod(
   client: IOdooClient,
   input: ExecuteMethodInput,
-): Promise<{ success: boolean; result?: unknown; error?: string }> {
+  options: ExecuteMethodOptions = {},
+): Promise<ToolResult> {
+  const { model, method, kwargs } = input;
+
+  if (options.readOnly && !READ_METHODS.includes(method)) {
+    return {
+      success: false,
+      error:
+        `Method '${method}' is blocked: this server is in read-only mode. ` +
+        `Allowed methods: ${READ_METHODS.join(", ")}`,
+      error_type: "read_only",
+      hint: "Use a read method such as search_read, or ask an administrator to run a server without read-only mode.",
+    };
+  }
+
   try {
     const args = [...input.args];
-    const { model, method, kwargs } = input;
 
     // Special handling for search methods (domain normalization)
     if (SEARCH_METHODS.includes(method) && args.length > 0) {
@@ -63,28 +100,80 @@ export async function executeMethod(
     const result = await client.execute(model, method, args, kwargs ?? {});
     return { success: true, result };
   } catch (error) {
-    return { success: false, error: String(error) };
+    return errorResult(error);
   }
 }
 
+/**
+ * What the user is asked to confirm before the call, or null when it needs
+ * no confirmation
+ */
+function describeMethodChange(
+  input: ExecuteMethodInput,
+  writeThreshold: number,
+): string | null {
+  const { model, method } = input;
+  const ids = affectedRecordIds(method, input.args, undefined, input.kwargs);
+  // When the IDs cannot be found, assume the worst and ask
+  const records =
+    ids.length > 0
+      ? describeRecords(ids.length, model)
+      : `an unknown number of ${model} records`;
+  if (method === "unlink") {
+    return `delete ${records}`;
+  }
+  if (method === "write" && (ids.length === 0 || ids.length > writeThreshold)) {
+    return `update ${records}`;
+  }
+  if (isDestructiveAction(method)) {
+    return `run ${method} on ${records}`;
+  }
+  return null;
+}
+
 /**
  * Tool definition for registry
  */
 export const executeMethodTool = defineTool({
   name: "execute_method",
-  description: "Execute a custom method on an Odoo model",
+  description:
+    "Execute a custom method on an Odoo model. " +
+    "Deletes, large writes and cancel/post-like methods ask the user to confirm first.",
   inputSchema: {
     model: ExecuteMethodInputSchema.shape.model,
     method: ExecuteMethodInputSchema.shape.method,
     args: z.array(z.unknown()).optional().describe("Positional arguments"),
     kwargs: z.record(z.unknown()).optional().describe("Keyword arguments"),
+    confirm_token: confirmTokenInputSchema,
   },
-  handler: async (client, input) => {
-    return executeMethod(client, {
+  outputSchema: toolResultShape(ExecuteMethodOutputSchema),
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (client, input, context) => {
+    const call = {
       model: input.model,
       method: input.method,
       args: input.args ?? [],
       kwargs: input.kwargs ?? {},
-    });
+    };
+    const readOnly = context?.readOnly ?? false;
+
+    const confirmation = context?.confirmation;
+    const summary =
+      confirmation &&
+      !readOnly &&
+      describeMethodChange(call, confirmation.writeThreshold);
+    if (summary) {
+      const blocked = await confirmChange(context, summary, input);
+      if (blocked) {
+        return blocked;
+      }
+    }
+
+    return executeMethod(client, call, { readOnly });
   },
 });
@@ -1,23 +1,38 @@
 export * from "./access.js";
 export * from "./actions.js";
+export * from "./aggregate.js";
+export * from "./audit.js";
 export * from "./bulk.js";
+export * from "./cache.js";
+export * from "./confirmation.js";
+export * from "./date-macros.js";
 export * from "./docs.js";
+export * from "./domain-builder.js";
 export * from "./domain-utils.js";
 export * from "./excel.js";
 export * from "./execute.js";
 export * from "./introspection.js";
+export * from "./pivot.js";
+export * from "./profiles.js";
 export * from "./registry.js";
 export * from "./search.js";
+export * from "./server-info.js";
 export * from "./sops.js";
+export * from "./undo.js";
 
 // Import tool definitions for the default registry
 import { checkAccessTool } from "./access.js";
 import { executeActionTool, listAvailableActionsTool } from "./actions.js";
+import { aggregateRecordsTool } from "./aggregate.js";
+import { queryAuditLogTool } from "./audit.js";
 import { bulkOperationTool } from "./bulk.js";
+import { refreshSchemaCacheTool } from "./cache.js";
 import { listDocsTool, readDocTool, saveDocTool } from "./docs.js";
+import { buildDomainTool } from "./domain-builder.js";
 import { convertExcelTool, listExcelSheetsTool } from "./excel.js";
 import { executeMethodTool } from "./execute.js";
 import {
+  explainDomainTool,
   explainFieldTool,
   getCreateRequirementsTool,
   getModelRelationsTool,
@@ -27,13 +42,17 @@ import {
   listModelsTool,
   validateDomainTool,
 } from "./introspection.js";
+import { pivotReportTool } from "./pivot.js";
+import { listProfilesTool } from "./profiles.js";
 import {
   createToolRegistry,
   type ToolDefinition,
   type ToolRegistry,
 } from "./registry.js";
 import { findRecordByNameTool, searchRecordsTool } from "./search.js";
+import { getServerInfoTool } from "./server-info.js";
 import { listSopsTool, readSopTool, saveSopTool } from "./sops.js";
+import { undoOperationTool } from "./undo.js";
 
 /**
  * All built-in tool definitions (Odoo + Docs + SOPs)
@@ -41,6 +60,9 @@ import { listSopsTool, readSopTool, saveSopTool } from "./sops.js";
 export const allToolDefinitions: ToolDefinition[] = [
   // Core Odoo tool
   executeMethodTool,
+  // Connection profile tools
+  listProfilesTool,
+  getServerInfoTool,
   // Model introspection tools
   listModelsTool,
   getModelSchemaTool,
@@ -50,9 +72,14 @@ export const allToolDefinitions: ToolDefinition[] = [
   explainFieldTool,
   getRecordSampleTool,
   validateDomainTool,
+  explainDomainTool,
+  buildDomainTool,
+  refreshSchemaCacheTool,
   // Search and record resolution tools
   findRecordByNameTool,
   searchRecordsTool,
+  aggregateRecordsTool,
+  pivotReportTool,
   // Access control tools
   checkAccessTool,
   // Workflow action tools
@@ -60,6 +87,9 @@ export const allToolDefinitions: ToolDefinition[] = [
   executeActionTool,
   // Bulk operation tools
   bulkOperationTool,
+  undoOperationTool,
+  // Audit tools
+  queryAuditLogTool,
   // Documentation tools
   listDocsTool,
   readDocTool,
@@ -73,12 +103,36 @@ export const allToolDefinitions: ToolDefinition[] = [
   convertExcelTool,
 ];
 
+/**
+ * Tools that modify Odoo data or local files, left out in read-only mode.
+ * execute_method stays and enforces its own method allowlist.
+ */
+export const WRITE_TOOL_NAMES: ReadonlySet<string> = new Set([
+  "bulk_operation",
+  "execute_action",
+  "save_doc",
+  "save_sop",
+  "undo_operation",
+]);
+
+export interface OdooToolRegistryOptions {
+  /**
+   * Leave out tools that write (see WRITE_TOOL_NAMES)
+   */
+  readOnly?: boolean;
+}
+
 /**
  * Create a tool registry pre-populated with all tools
  */
-export function createOdooToolRegistry(): ToolRegistry {
+export function createOdooToolRegistry(
+  options: OdooToolRegistryOptions = {},
+): ToolRegistry {
   const registry = createToolRegistry();
   for (const tool of allToolDefinitions) {
+    if (options.readOnly && WRITE_TOOL_NAMES.has(tool.name)) {
+      continue;
+    }
     registry.register(tool);
   }
   return registry;
@@ -3,6 +3,7 @@ import type { IOdooClient } from "../types/index.js";
 import {
   checkDomainValidity,
   ExplainFieldInputSchema,
+  explainDomain,
   explainField,
   GetCreateRequirementsInputSchema,
   GetModelRelationsInputSchema,
@@ -933,6 +934,163 @@ describe("introspection tools", () => {
       expect(execResult.count).toBe(5);
     });
 
+    it("reports a bad segment deep in a dotted path", async () => {
+      const fields: Record<string, Record<string, unknown>> = {
+        "sale.order": {
+          partner_id: {
+            type: "many2one",
+            string: "Customer",
+            relation: "res.partner",
+          },
+        },
+        "res.partner": {
+          country_id: {
+            type: "many2one",
+            string: "Country",
+            relation: "res.country",
+          },
+        },
+        "res.country": { code: { type: "char", string: "Country Code" } },
+      };
+      vi.mocked(mockClient.getModelFields).mockImplementation(
+        async (model: string) => fields[model] as never,
+      );
+
+      const result = await checkDomainValidity(mockClient, {
+        model: "sale.order",
+        domain: [
+          ["partner_id.country_id.code", "=", "US"],
+          ["partner_id.country_id.cod", "=", "US"],
+          ["partner_id.country_id.code.x", "=", "US"],
+        ],
+        test_execution: false,
+      });
+
+      const data = result.result as Record<string, unknown>;
+      const errors = data.errors as string[];
+      expect(errors).toHaveLength(2);
+      expect(errors[0]).toContain(
+        "Field 'cod' not found on model res.country (in 'partner_id.country_id.cod')",
+      );
+      expect(errors[1]).toContain("'code' on res.country is a char field");
+      expect(data.validated_conditions).toHaveLength(1);
+    });
+
+    it("checks the sub-domain of any", async () => {
+      const fields: Record<string, Record<string, unknown>> = {
+        "sale.order": {
+          order_line: {
+            type: "one2many",
+            string: "Order Lines",
+            relation: "sale.order.line",
+          },
+          name: { type: "char", string: "Name" },
+        },
+        "sale.order.line": {
+          product_id: {
+            type: "many2one",
+            string: "Product",
+            relation: "product.product",
+          },
+        },
+      };
+      vi.mocked(mockClient.getModelFields).mockImplementation(
+        async (model: string) => fields[model] as never,
+      );
+
+      const result = await checkDomainValidity(mockClient, {
+        model: "sale.order",
+        domain: [
+          ["order_line", "any", [["product_id", "=", 5]]],
+          ["order_line", "not any", [["price", ">", 0]]],
+          ["name", "any", []],
+        ],
+        test_execution: false,
+      });
+
+      const errors = (result.result as Record<string, unknown>)
+        .errors as string[];
+      expect(errors).toEqual([
+        expect.stringContaining(
+          "Field 'price' not found on model sale.order.line",
+        ),
+        "Operator 'any' needs a relational field, but 'name' is char",
+      ]);
+    });
+
+    it("rejects operators and date parts the server version lacks", async () => {
+      vi.mocked(mockClient.getModelFields).mockResolvedValue({
+        child_ids: {
+          type: "one2many",
+          string: "Contacts",
+          relation: "res.partner",
+        },
+        create_date: { type: "datetime", string: "Created on" },
+        name: { type: "char", string: "Name" },
+      });
+      const client = {
+        ...mockClient,
+        getServerInfo: vi.fn().mockResolvedValue({ major: 16 }),
+      };
+
+      const result = await checkDomainValidity(client, {
+        model: "res.partner",
+        domain: [
+          ["name", "not ilike", "test"],
+          ["name", "=?", false],
+          ["child_ids", "any", [["name", "=", "x"]]],
+          ["create_date.month_number", "=", 12],
+        ],
+        test_execution: false,
+      });
+
+      const errors = (result.result as Record<string, unknown>)
+        .errors as string[];
+      expect(errors).toEqual([
+        "Operator 'any' for field 'child_ids' needs Odoo 17 or later (server is 16)",
+        "Date part 'month_number' of 'create_date.month_number' needs Odoo 18 or later (server is 16)",
+      ]);
+    });
+
+    it("accepts date parts on Odoo 18", async () => {
+      vi.mocked(mockClient.getModelFields).mockResolvedValue({
+        date_order: { type: "datetime", string: "Order Date" },
+      });
+      const client = {
+        ...mockClient,
+        getServerInfo: vi.fn().mockResolvedValue({ major: 18 }),
+      };
+
+      const result = await checkDomainValidity(client, {
+        model: "sale.order",
+        domain: [
+          ["date_order.hour_number", ">=", 9],
+          ["date_order.year_number", "=", 2025],
+        ],
+        test_execution: false,
+      });
+
+      expect((result.result as Record<string, unknown>).valid).toBe(true);
+    });
+
+    it("reports operators missing operands", async () => {
+      vi.mocked(mockClient.getModelFields).mockResolvedValue({
+        name: { type: "char", string: "Name" },
+      });
+
+      const result = await checkDomainValidity(mockClient, {
+        model: "res.partner",
+        domain: ["|", ["name", "=", "a"]],
+        test_execution: false,
+      });
+
+      const data = result.result as Record<string, unknown>;
+      expect(data.valid).toBe(false);
+      expect(data.errors).toEqual([
+        "'|' at position 0 needs 2 operands but only 1 follows",
+      ]);
+    });
+
     it("handles invalid condition format", async () => {
       vi.mocked(mockClient.getModelFields).mockResolvedValue({
         name: { type: "char", string: "Name" },
@@ -952,4 +1110,148 @@ describe("introspection tools", () => {
       );
     });
   });
+
+  describe("explainDomain", () => {
+    const partnerFields = {
+      country_id: {
+        type: "many2one",
+        string: "Country",
+        relation: "res.country",
+      },
+      category_id: {
+        type: "many2many",
+        string: "Tags",
+        relation: "res.partner.category",
+      },
+      customer_rank: { type: "integer", string: "Customer Rank" },
+      type: {
+        type: "selection",
+        string: "Address Type",
+        selection: [
+          ["contact", "Contact"],
+          ["invoice", "Invoice Address"],
+        ],
+      },
+      email: { type: "char", string: "Email" },
+    };
+
+    beforeEach(() => {
+      vi.mocked(mockClient.getModelFields).mockResolvedValue(partnerFields);
+      vi.mocked(mockClient.getModelInfo).mockResolvedValue({
+        id: 1,
+        name: "Contact",
+        model: "res.partner",
+      });
+      vi.mocked(mockClient.readRecords).mockImplementation(
+        async (model: string) =>
+          model === "res.country"
+            ? [{ id: 20, display_name: "Belgium" }]
+            : [{ id: 3, display_name: "VIP" }],
+      );
+    });
+
+    it("renders prefix operators as grouped plain English", async () => {
+      const result = await explainDomain(mockClient, {
+        model: "res.partner",
+        domain: [
+          ["customer_rank", ">", 0],
+          "|",
+          ["country_id", "=", 20],
+          ["category_id", "in", [3]],
+        ],
+      });
+
+      const data = result.result as Record<string, unknown>;
+      expect(data.explanation).toBe(
+        "Contact records where Customer Rank is greater than 0 AND (Country is Belgium OR Tags is one of VIP)",
+      );
+      expect(data.valid).toBe(true);
+    });
+
+    it("uses selection labels and describes empty values", async () => {
+      const result = await explainDomain(mockClient, {
+        model: "res.partner",
+        domain: "['!', ('type', '=', 'invoice'), ('email', '=', False)]",
+      });
+
+      expect((result.result as Record<string, unknown>).explanation).toBe(
+        'Contact records where NOT (Address Type is "Invoice Address") AND Email is not set',
+      );
+    });
+
+    it("flags operators missing operands", async () => {
+      const result = await explainDomain(mockClient, {
+        model: "res.partner",
+        domain: ["|", ["email", "ilike", "@acme.com"]],
+      });
+
+      const data = result.result as Record<string, unknown>;
+      expect(data.valid).toBe(false);
+      expect(data.errors).toEqual([
+        "'|' at position 0 needs 2 operands but only 1 follows",
+      ]);
+      expect(data.explanation).toBe(
+        'Contact records where Email contains "@acme.com"',
+      );
+    });
+
+    it("reports malformed terms instead of dropping them", async () => {
+      const result = await explainDomain(mockClient, {
+        model: "res.partner",
+        domain: ["|", ["email", "ilike"], "or", ["customer_rank", ">", 0]],
+      });
+
+      const data = result.result as Record<string, unknown>;
+      expect(data.valid).toBe(false);
+      expect(data.errors).toEqual([
+        'Invalid condition format at position 1: ["email","ilike"]. Expected [field, operator, value].',
+        'Invalid condition format at position 2: "or". Expected [field, operator, value].',
+      ]);
+      expect(data.explanation).toBe(
+        "Contact records where Customer Rank is greater than 0",
+      );
+    });
+
+    it("flags unknown operators", async () => {
+      const result = await explainDomain(mockClient, {
+        model: "res.partner",
+        domain: [["email", "likes", "x"]],
+      });
+
+      const data = result.result as Record<string, unknown>;
+      expect(data.valid).toBe(false);
+      expect(data.errors).toEqual([
+        expect.stringContaining("Invalid operator 'likes' for field 'email'"),
+      ]);
+    });
+
+    it("flags operators the server version lacks", async () => {
+      const client = {
+        ...mockClient,
+        getServerInfo: vi.fn().mockResolvedValue({ major: 16 }),
+      };
+
+      const result = await explainDomain(client, {
+        model: "res.partner",
+        domain: [["category_id", "any", [["name", "=", "VIP"]]]],
+      });
+
+      const data = result.result as Record<string, unknown>;
+      expect(data.valid).toBe(false);
+      expect(data.errors).toContain(
+        "Operator 'any' for field 'category_id' needs Odoo 17 or later (server is 16)",
+      );
+    });
+
+    it("explains an empty domain as all records", async () => {
+      const result = await explainDomain(mockClient, {
+        model: "res.partner",
+        domain: [],
+      });
+
+      expect((result.result as Record<string, unknown>).explanation).toBe(
+        "All Contact records (the domain is empty)",
+      );
+    });
+  });
 });
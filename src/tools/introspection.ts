@@ -1,6 +1,23 @@
 import { z } from "zod";
-import type { IOdooClient, OdooFieldDef } from "../types/index.js";
-import { defineTool } from "./registry.js";
+import { getServerMajorVersion } from "../connection/version.js";
+import type {
+  DomainCondition,
+  IOdooClient,
+  OdooFieldDef,
+  OdooOperator,
+} from "../types/index.js";
+import {
+  DATE_GRANULARITY_SINCE,
+  type DomainNode,
+  dateGranularities,
+  normalizeDomain,
+  operatorSince,
+  operatorsForVersion,
+  parseDomainTree,
+  rawDomainTerms,
+} from "./domain-utils.js";
+import { errorResult } from "./errors.js";
+import { defineTool, toolResultShape } from "./registry.js";
 
 // ============ Types ============
 
@@ -31,23 +48,6 @@ const KEY_FIELD_NAMES = [
 ];
 const TECHNICAL_MODEL_PREFIXES = ["ir.", "mail.", "bus.", "base."];
 
-const VALID_OPERATORS = [
-  "=",
-  "!=",
-  ">",
-  "<",
-  ">=",
-  "<=",
-  "in",
-  "not in",
-  "like",
-  "ilike",
-  "=like",
-  "=ilike",
-  "child_of",
-  "parent_of",
-];
-
 const DEFAULT_SAMPLE_FIELDS = [
   "id",
   "name",
@@ -207,6 +207,21 @@ function getExampleValue(fieldDef: OdooFieldDef): unknown {
   }
 }
 
+/**
+ * A field definition as fields_get returns it
+ */
+const FieldDefOutputSchema = z
+  .object({ type: z.string(), string: z.string() })
+  .passthrough();
+
+/**
+ * A selection option; keys are usually strings but some fields use integers
+ */
+const SelectionValueOutputSchema = z.object({
+  value: z.union([z.string(), z.number()]),
+  label: z.string(),
+});
+
 // ============ Tool 1: list_models ============
 
 export const ListModelsInputSchema = z.object({
@@ -232,6 +247,19 @@ export const ListModelsInputSchema = z.object({
 
 export type ListModelsInput = z.infer<typeof ListModelsInputSchema>;
 
+export const ListModelsOutputSchema = z.object({
+  total_matched: z.number(),
+  showing: z.number(),
+  models: z.array(
+    z.object({
+      model: z.string(),
+      name: z.string(),
+      transient: z.boolean(),
+      field_count: z.number(),
+    }),
+  ),
+});
+
 export async function listModels(
   client: IOdooClient,
   input: ListModelsInput,
@@ -290,7 +318,7 @@ export async function listModels(
       },
     };
   } catch (error) {
-    return { success: false, error: String(error) };
+    return errorResult(error);
   }
 }
 
@@ -317,6 +345,13 @@ export const listModelsTool = defineTool({
       .optional()
       .describe("Max models to return (default: 50, max: 200)"),
   },
+  outputSchema: toolResultShape(ListModelsOutputSchema),
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
   handler: async (client, input) =>
     listModels(client, {
       filter: input.filter,
@@ -337,6 +372,25 @@ export const GetModelSchemaInputSchema = z.object({
 
 export type GetModelSchemaInput = z.infer<typeof GetModelSchemaInputSchema>;
 
+export const GetModelSchemaOutputSchema = z.object({
+  model: z.string(),
+  name: z.string(),
+  key_fields: z.record(FieldDefOutputSchema),
+  relations: z.object({
+    outgoing: z.record(
+      z.object({
+        type: z.string(),
+        string: z.string(),
+        relation: z.string().optional(),
+        help: z.string().optional(),
+        required: z.boolean().optional(),
+      }),
+    ),
+  }),
+  data_fields: z.record(FieldDefOutputSchema),
+  field_count: z.number(),
+});
+
 export async function getModelSchema(
   client: IOdooClient,
   input: GetModelSchemaInput,
@@ -391,7 +445,7 @@ export async function getModelSchema(
       },
     };
   } catch (error) {
-    return { success: false, error: String(error) };
+    return errorResult(error);
   }
 }
 
@@ -408,6 +462,13 @@ export const getModelSchemaTool = defineTool({
       .optional()
       .describe('Filter to specific types (e.g., ["many2one", "char"])'),
   },
+  outputSchema: toolResultShape(GetModelSchemaOutputSchema),
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
   handler: async (client, input) =>
     getModelSchema(client, {
       model: input.model,
@@ -437,6 +498,38 @@ export type GetModelRelationsInput = z.infer<
   typeof GetModelRelationsInputSchema
 >;
 
+/**
+ * Only the requested directions are present
+ */
+export const GetModelRelationsOutputSchema = z.object({
+  model: z.string(),
+  name: z.string(),
+  outgoing_relations: z
+    .array(
+      z.object({
+        field: z.string(),
+        target_model: z.string(),
+        type: z.string(),
+        label: z.string(),
+      }),
+    )
+    .optional(),
+  incoming_relations: z
+    .array(
+      z.object({
+        source_model: z.string(),
+        field: z.string(),
+        type: z.string(),
+        label: z.string(),
+      }),
+    )
+    .optional(),
+  summary: z.object({
+    outgoing_count: z.number(),
+    incoming_count: z.number(),
+  }),
+});
+
 export async function getModelRelations(
   client: IOdooClient,
   input: GetModelRelationsInput,
@@ -536,7 +629,7 @@ export async function getModelRelations(
 
     return { success: true, result };
   } catch (error) {
-    return { success: false, error: String(error) };
+    return errorResult(error);
   }
 }
 
@@ -559,6 +652,13 @@ export const getModelRelationsTool = defineTool({
       .optional()
       .describe("Include technical models (ir.*, mail.*, etc.)"),
   },
+  outputSchema: toolResultShape(GetModelRelationsOutputSchema),
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
   handler: async (client, input) =>
     getModelRelations(client, {
       model: input.model,
@@ -577,6 +677,23 @@ export type GetCreateRequirementsInput = z.infer<
   typeof GetCreateRequirementsInputSchema
 >;
 
+const RequiredFieldOutputSchema = z.object({
+  type: z.string(),
+  label: z.string(),
+  relation: z.string().optional(),
+});
+
+export const GetCreateRequirementsOutputSchema = z.object({
+  model: z.string(),
+  must_provide: z.record(RequiredFieldOutputSchema),
+  has_defaults: z.record(
+    RequiredFieldOutputSchema.extend({ default_value: z.unknown() }),
+  ),
+  minimal_payload_example: z.record(z.unknown()),
+  optional_field_count: z.number(),
+  guidance: z.string(),
+});
+
 export async function getCreateRequirements(
   client: IOdooClient,
   input: GetCreateRequirementsInput,
@@ -669,7 +786,7 @@ export async function getCreateRequirements(
       },
     };
   } catch (error) {
-    return { success: false, error: String(error) };
+    return errorResult(error);
   }
 }
 
@@ -682,6 +799,13 @@ export const getCreateRequirementsTool = defineTool({
   inputSchema: {
     model: z.string().describe('Model technical name (e.g., "res.partner")'),
   },
+  outputSchema: toolResultShape(GetCreateRequirementsOutputSchema),
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
   handler: async (client, input) => getCreateRequirements(client, input),
 });
 
@@ -701,6 +825,34 @@ export type GetSelectionValuesInput = z.infer<
   typeof GetSelectionValuesInputSchema
 >;
 
+/**
+ * The values of one field when a field is given, otherwise a summary of
+ * every selection field
+ */
+export const GetSelectionValuesOutputSchema = z.union([
+  z.object({
+    model: z.string(),
+    field: z.string(),
+    label: z.string(),
+    required: z.boolean(),
+    values: z.array(SelectionValueOutputSchema),
+    value_count: z.number(),
+  }),
+  z.object({
+    model: z.string(),
+    selection_fields: z.array(
+      z.object({
+        field: z.string(),
+        label: z.string(),
+        value_count: z.number(),
+        required: z.boolean(),
+      }),
+    ),
+    count: z.number(),
+    guidance: z.string(),
+  }),
+]);
+
 export async function getSelectionValues(
   client: IOdooClient,
   input: GetSelectionValuesInput,
@@ -773,7 +925,7 @@ export async function getSelectionValues(
       },
     };
   } catch (error) {
-    return { success: false, error: String(error) };
+    return errorResult(error);
   }
 }
 
@@ -792,6 +944,13 @@ export const getSelectionValuesTool = defineTool({
         "Specific field name. If omitted, returns all selection fields on the model.",
       ),
   },
+  outputSchema: toolResultShape(GetSelectionValuesOutputSchema),
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
   handler: async (client, input) => getSelectionValues(client, input),
 });
 
@@ -804,6 +963,26 @@ export const ExplainFieldInputSchema = z.object({
 
 export type ExplainFieldInput = z.infer<typeof ExplainFieldInputSchema>;
 
+export const ExplainFieldOutputSchema = z.object({
+  model: z.string(),
+  field: z.string(),
+  label: z.string(),
+  type: z.string(),
+  required: z.boolean(),
+  readonly: z.boolean(),
+  help: z.string().nullable(),
+  usage_guidance: z.string(),
+  example_value: z.unknown(),
+  relation: z
+    .object({
+      target_model: z.string(),
+      relationship_type: z.string(),
+      description: z.string(),
+    })
+    .optional(),
+  selection_values: z.array(SelectionValueOutputSchema).optional(),
+});
+
 export async function explainField(
   client: IOdooClient,
   input: ExplainFieldInput,
@@ -864,7 +1043,7 @@ export async function explainField(
 
     return { success: true, result };
   } catch (error) {
-    return { success: false, error: String(error) };
+    return errorResult(error);
   }
 }
 
@@ -878,6 +1057,13 @@ export const explainFieldTool = defineTool({
     model: z.string().describe('Model technical name (e.g., "res.partner")'),
     field: z.string().describe('Field name (e.g., "partner_id", "state")'),
   },
+  outputSchema: toolResultShape(ExplainFieldOutputSchema),
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
   handler: async (client, input) => explainField(client, input),
 });
 
@@ -901,6 +1087,20 @@ export const GetRecordSampleInputSchema = z.object({
 
 export type GetRecordSampleInput = z.infer<typeof GetRecordSampleInputSchema>;
 
+/**
+ * record is null, with a message, when nothing matches the domain
+ */
+export const GetRecordSampleOutputSchema = z.object({
+  model: z.string(),
+  record: z
+    .record(z.object({ value: z.unknown(), type: z.string() }))
+    .nullable(),
+  field_count: z.number().optional(),
+  message: z.string().optional(),
+  available_fields: z.array(z.string()).optional(),
+  guidance: z.string().optional(),
+});
+
 export async function getRecordSample(
   client: IOdooClient,
   input: GetRecordSampleInput,
@@ -977,7 +1177,7 @@ export async function getRecordSample(
       },
     };
   } catch (error) {
-    return { success: false, error: String(error) };
+    return errorResult(error);
   }
 }
 
@@ -1002,6 +1202,13 @@ export const getRecordSampleTool = defineTool({
         "Optional field names to include. Defaults to: id, name, display_name, active, state, create_date, write_date.",
       ),
   },
+  outputSchema: toolResultShape(GetRecordSampleOutputSchema),
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
   handler: async (client, input) => getRecordSample(client, input),
 });
 
@@ -1024,98 +1231,279 @@ export const ValidateDomainInputSchema = z.object({
 
 export type ValidateDomainInput = z.infer<typeof ValidateDomainInputSchema>;
 
-export async function checkDomainValidity(
+export const ValidateDomainOutputSchema = z.object({
+  model: z.string(),
+  valid: z.boolean(),
+  errors: z.array(z.string()),
+  warnings: z.array(z.string()),
+  validated_conditions: z.array(
+    z.object({ field: z.string(), operator: z.string(), value: z.unknown() }),
+  ),
+  execution_test: z
+    .object({
+      success: z.boolean(),
+      count: z.number().optional(),
+      error: z.string().optional(),
+    })
+    .optional(),
+  guidance: z.string(),
+});
+
+type FieldsByModel = Map<string, Record<string, OdooFieldDef>>;
+
+/**
+ * A field path resolved to its last field, or why it could not be
+ */
+export type ResolvedFieldPath =
+  | {
+      /** The model holding the last field */
+      model: string;
+      field: OdooFieldDef;
+      /** Date part compared instead of the field, e.g. month_number */
+      granularity?: string;
+    }
+  | { error: string };
+
+function suggestFields(
+  fields: Record<string, OdooFieldDef>,
+  name: string,
+): string {
+  const suggestions = Object.keys(fields)
+    .filter((f) => f.includes(name) || name.includes(f.slice(0, 3)))
+    .slice(0, 3);
+  return suggestions.length > 0
+    ? ` Did you mean: ${suggestions.join(", ")}?`
+    : "";
+}
+
+/**
+ * Walk a dotted field path such as partner_id.country_id.code through the
+ * relation of each segment, so a bad segment anywhere in the chain is
+ * reported by name. Fields of each model are fetched once per `known` map.
+ */
+export async function resolveFieldPath(
   client: IOdooClient,
-  input: ValidateDomainInput,
-): Promise<{ success: boolean; result?: unknown; error?: string }> {
-  try {
-    // Get model fields for validation
-    const fields = await client.getModelFields(input.model);
-    if (isError(fields)) {
-      return { success: false, error: fields.error };
+  model: string,
+  path: string,
+  major: number | null,
+  known: FieldsByModel = new Map(),
+): Promise<ResolvedFieldPath> {
+  const segments = path.split(".");
+  const where = segments.length > 1 ? ` (in '${path}')` : "";
+  let current = model;
+
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i] ?? "";
+    let fields = known.get(current);
+    if (!fields) {
+      const result = await client.getModelFields(current);
+      if (isError(result)) {
+        return { error: `Cannot read fields of ${current}: ${result.error}` };
+      }
+      fields = result;
+      known.set(current, fields);
     }
 
-    const errors: string[] = [];
-    const warnings: string[] = [];
-    const validConditions: Array<{
-      field: string;
-      operator: string;
-      value: unknown;
-    }> = [];
+    const field = fields[segment];
+    if (!field) {
+      return {
+        error: `Field '${segment}' not found on model ${current}${where}.${suggestFields(fields, segment)}`,
+      };
+    }
 
-    // Validate each condition in the domain
-    for (const item of input.domain) {
-      // Skip logical operators
-      if (item === "&" || item === "|" || item === "!") {
-        continue;
-      }
+    const next = segments[i + 1];
+    if (next === undefined) {
+      return { model: current, field };
+    }
 
-      // Check if it's a valid condition tuple
-      if (!Array.isArray(item) || item.length !== 3) {
-        errors.push(
-          `Invalid condition format: ${JSON.stringify(item)}. Expected [field, operator, value].`,
-        );
-        continue;
+    if (field.relation) {
+      current = field.relation;
+      continue;
+    }
+
+    const parts = dateGranularities(field.type);
+    if (parts.includes(next)) {
+      if (major !== null && major < DATE_GRANULARITY_SINCE) {
+        return {
+          error: `Date part '${next}' of '${path}' needs Odoo ${DATE_GRANULARITY_SINCE} or later (server is ${major})`,
+        };
       }
+      if (i + 2 < segments.length) {
+        return {
+          error: `Nothing can follow date part '${next}' in '${path}'`,
+        };
+      }
+      return { model: current, field, granularity: next };
+    }
 
-      const [field, operator, value] = item as [string, string, unknown];
+    return {
+      error:
+        `Field '${segment}' on ${current} is a ${field.type} field, so '${path}' cannot continue past it.` +
+        (parts.length > 0 ? ` Date parts: ${parts.join(", ")}` : ""),
+    };
+  }
 
-      // Check field exists (supporting dot notation for related fields)
-      const baseFieldName = field.split(".")[0] ?? field;
-      if (!(baseFieldName in fields)) {
-        const suggestions = Object.keys(fields)
-          .filter(
-            (name) =>
-              name.includes(baseFieldName) ||
-              baseFieldName.includes(name.slice(0, 3)),
-          )
-          .slice(0, 3);
-        errors.push(
-          `Field '${baseFieldName}' not found on model ${input.model}.${suggestions.length > 0 ? ` Did you mean: ${suggestions.join(", ")}?` : ""}`,
+  return { error: `Empty field path${where}` };
+}
+
+/**
+ * Why an operator cannot be used on this Odoo version, if it cannot
+ */
+function operatorError(
+  operator: string,
+  field: string,
+  major: number | null,
+): string | null {
+  const operators = operatorsForVersion(major);
+  if ((operators as string[]).includes(operator)) {
+    return null;
+  }
+  const since = operatorSince(operator);
+  return since !== null
+    ? `Operator '${operator}' for field '${field}' needs Odoo ${since} or later (server is ${major})`
+    : `Invalid operator '${operator}' for field '${field}'. Valid operators: ${operators.join(", ")}`;
+}
+
+interface DomainCheck {
+  errors: string[];
+  warnings: string[];
+  validConditions: Array<{ field: string; operator: string; value: unknown }>;
+}
+
+/**
+ * Check each condition of a domain on a model, descending into the
+ * sub-domains of any / not any. `prefix` names the enclosing path.
+ */
+async function checkConditions(
+  client: IOdooClient,
+  model: string,
+  domain: unknown[],
+  major: number | null,
+  known: FieldsByModel,
+  check: DomainCheck,
+  prefix = "",
+): Promise<void> {
+  // Check & | ! have their operands and the rest are conditions
+  for (const error of parseDomainTree(domain).errors) {
+    check.errors.push(
+      prefix ? `In the sub-domain of '${prefix.trim()}': ${error}` : error,
+    );
+  }
+
+  for (const item of domain) {
+    // Skip logical operators
+    if (item === "&" || item === "|" || item === "!") {
+      continue;
+    }
+
+    // Malformed items are reported with the structure above
+    if (!Array.isArray(item) || item.length !== 3) {
+      continue;
+    }
+
+    const [path, operator, value] = item as [string, string, unknown];
+    const field = `${prefix}${path}`;
+
+    // Check every segment of the field path exists
+    const resolved = await resolveFieldPath(
+      client,
+      model,
+      String(path),
+      major,
+      known,
+    );
+    if ("error" in resolved) {
+      check.errors.push(resolved.error);
+      continue;
+    }
+
+    // Check operator is valid for this Odoo version
+    const invalid = operatorError(operator, field, major);
+    if (invalid) {
+      check.errors.push(invalid);
+      continue;
+    }
+
+    // Type-specific checks
+    const fieldDef = resolved.field;
+    if (operator === "any" || operator === "not any") {
+      if (!fieldDef.relation) {
+        check.errors.push(
+          `Operator '${operator}' needs a relational field, but '${field}' is ${fieldDef.type}`,
         );
         continue;
       }
-
-      // Check operator is valid
-      if (!VALID_OPERATORS.includes(operator)) {
-        errors.push(
-          `Invalid operator '${operator}' for field '${field}'. Valid operators: ${VALID_OPERATORS.join(", ")}`,
+      if (!Array.isArray(value)) {
+        check.errors.push(
+          `Operator '${operator}' on '${field}' expects a domain as its value`,
         );
         continue;
       }
+      await checkConditions(
+        client,
+        fieldDef.relation,
+        value,
+        major,
+        known,
+        check,
+        `${field} ${operator} `,
+      );
+    }
 
-      // Type-specific warnings
-      const fieldDef = fields[baseFieldName];
-      if (
-        fieldDef &&
-        fieldDef.type === "many2one" &&
-        operator === "=" &&
-        typeof value === "string"
-      ) {
-        warnings.push(
-          `Field '${field}' is many2one - use integer ID instead of string '${value}'`,
-        );
-      }
+    if (
+      !resolved.granularity &&
+      fieldDef.type === "many2one" &&
+      operator === "=" &&
+      typeof value === "string"
+    ) {
+      check.warnings.push(
+        `Field '${field}' is many2one - use integer ID instead of string '${value}'`,
+      );
+    }
 
-      if (
-        fieldDef &&
-        fieldDef.type === "selection" &&
-        fieldDef.selection &&
-        (operator === "=" || operator === "!=")
-      ) {
-        const validValues = fieldDef.selection.map(
-          ([v]: [string, string]) => v,
+    if (
+      fieldDef.type === "selection" &&
+      fieldDef.selection &&
+      (operator === "=" || operator === "!=")
+    ) {
+      const validValues = fieldDef.selection.map(([v]: [string, string]) => v);
+      if (!validValues.includes(value as string)) {
+        check.warnings.push(
+          `Field '${field}' selection value '${value}' may be invalid. Valid: ${validValues.join(", ")}`,
         );
-        if (!validValues.includes(value as string)) {
-          warnings.push(
-            `Field '${field}' selection value '${value}' may be invalid. Valid: ${validValues.join(", ")}`,
-          );
-        }
       }
+    }
 
-      validConditions.push({ field, operator, value });
+    check.validConditions.push({ field, operator, value });
+  }
+}
+
+export async function checkDomainValidity(
+  client: IOdooClient,
+  input: ValidateDomainInput,
+): Promise<{ success: boolean; result?: unknown; error?: string }> {
+  try {
+    // Get model fields for validation
+    const fields = await client.getModelFields(input.model);
+    if (isError(fields)) {
+      return { success: false, error: fields.error };
     }
 
+    const check: DomainCheck = {
+      errors: [],
+      warnings: [],
+      validConditions: [],
+    };
+    await checkConditions(
+      client,
+      input.model,
+      input.domain,
+      await getServerMajorVersion(client),
+      new Map([[input.model, fields]]),
+      check,
+    );
+    const { errors, warnings, validConditions } = check;
+
     // Optionally test execution
     let executionResult: {
       success: boolean;
@@ -1151,7 +1539,7 @@ export async function checkDomainValidity(
       },
     };
   } catch (error) {
-    return { success: false, error: String(error) };
+    return errorResult(error);
   }
 }
 
@@ -1160,6 +1548,7 @@ export const validateDomainTool = defineTool({
   description:
     "Check if an Odoo domain filter is syntactically valid and fields exist. " +
     "Catches common errors like invalid field names, wrong operators, and type mismatches. " +
+    "Each segment of dotted paths such as partner_id.country_id.code is checked, and operators such as any / not any are checked against the server's Odoo version. " +
     "Optionally test-executes the domain to verify it works at runtime.",
   inputSchema: {
     model: z.string().describe('Model technical name (e.g., "res.partner")'),
@@ -1175,6 +1564,13 @@ export const validateDomainTool = defineTool({
         "If true, also executes search_count to verify domain works. Default: false.",
       ),
   },
+  outputSchema: toolResultShape(ValidateDomainOutputSchema),
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
   handler: async (client, input) =>
     checkDomainValidity(client, {
       model: input.model,
@@ -1182,3 +1578,282 @@ export const validateDomainTool = defineTool({
       test_execution: input.test_execution ?? false,
     }),
 });
+
+// ============ Tool 9: explain_domain ============
+
+const OPERATOR_PHRASES: Record<OdooOperator, string> = {
+  "=": "is",
+  "!=": "is not",
+  ">": "is greater than",
+  ">=": "is at least",
+  "<": "is less than",
+  "<=": "is at most",
+  "=?": "is (when given)",
+  in: "is one of",
+  "not in": "is none of",
+  like: "contains (case-sensitive)",
+  "not like": "does not contain (case-sensitive)",
+  ilike: "contains",
+  "not ilike": "does not contain",
+  "=like": "matches the pattern (case-sensitive)",
+  "=ilike": "matches the pattern",
+  child_of: "is or is under",
+  parent_of: "is or is above",
+  any: "has a record where",
+  "not any": "has no record where",
+};
+
+/**
+ * Operators whose value is a record ID or list of IDs on relational fields
+ */
+const ID_OPERATORS = new Set([
+  "=",
+  "!=",
+  "in",
+  "not in",
+  "child_of",
+  "parent_of",
+]);
+
+interface ExplainContext {
+  client: IOdooClient;
+  major: number | null;
+  known: FieldsByModel;
+  errors: string[];
+}
+
+/**
+ * Field labels along a resolved path, e.g. ["Customer", "Country"]
+ */
+function pathLabels(
+  known: FieldsByModel,
+  model: string,
+  path: string,
+): string[] {
+  const labels: string[] = [];
+  let current: string | undefined = model;
+  for (const segment of path.split(".")) {
+    const field: OdooFieldDef | undefined = current
+      ? known.get(current)?.[segment]
+      : undefined;
+    if (!field) {
+      // Date part of the previous field
+      labels.push(`(${segment.replace(/_number$/, "").replace(/_/g, " ")})`);
+      break;
+    }
+    labels.push(field.string || segment);
+    current = field.relation;
+  }
+  return labels;
+}
+
+/**
+ * Display names of related records, best effort
+ */
+async function lookupNames(
+  client: IOdooClient,
+  model: string,
+  ids: number[],
+): Promise<Map<number, string>> {
+  const names = new Map<number, string>();
+  if (ids.length === 0) {
+    return names;
+  }
+  try {
+    const records = (await client.readRecords(model, ids, [
+      "display_name",
+    ])) as Array<{ id: number; display_name?: string }>;
+    for (const record of records) {
+      if (record.display_name) {
+        names.set(record.id, record.display_name);
+      }
+    }
+  } catch {
+    // Fall back to showing IDs
+  }
+  return names;
+}
+
+function formatValue(
+  value: unknown,
+  field: OdooFieldDef | null,
+  names: Map<number, string>,
+): string {
+  if (Array.isArray(value)) {
+    return value.map((v) => formatValue(v, field, names)).join(", ");
+  }
+  if (typeof value === "number" && field?.relation) {
+    return names.get(value) ?? `#${value}`;
+  }
+  if (typeof value === "string") {
+    const label = field?.selection?.find(([key]) => key === value)?.[1];
+    return `"${label ?? value}"`;
+  }
+  return JSON.stringify(value);
+}
+
+async function describeCondition(
+  ctx: ExplainContext,
+  model: string,
+  [path, operator, value]: DomainCondition,
+): Promise<string> {
+  const resolved = await resolveFieldPath(
+    ctx.client,
+    model,
+    String(path),
+    ctx.major,
+    ctx.known,
+  );
+  if ("error" in resolved) {
+    ctx.errors.push(resolved.error);
+  }
+  const invalid = operatorError(operator, String(path), ctx.major);
+  if (invalid) {
+    ctx.errors.push(invalid);
+  }
+  const field = "error" in resolved ? null : resolved.field;
+  const label =
+    "error" in resolved
+      ? String(path)
+      : pathLabels(ctx.known, model, String(path)).join(" → ");
+  const phrase = OPERATOR_PHRASES[operator] ?? operator;
+
+  if (
+    (operator === "any" || operator === "not any") &&
+    field?.relation &&
+    Array.isArray(value)
+  ) {
+    const { tree, errors } = parseDomainTree(value);
+    ctx.errors.push(...errors);
+    const inner = tree
+      ? await renderNode(ctx, field.relation, tree)
+      : "anything";
+    return `${label} ${phrase} (${inner})`;
+  }
+
+  // false stands for "empty" on every field type but booleans
+  if (value === false && field?.type !== "boolean") {
+    if (operator === "=") return `${label} is not set`;
+    if (operator === "!=") return `${label} is set`;
+    if (operator === "=?") return "(no condition)";
+  }
+
+  let names = new Map<number, string>();
+  if (field?.relation && ID_OPERATORS.has(operator)) {
+    const ids = (Array.isArray(value) ? value : [value]).filter(
+      (v): v is number => typeof v === "number",
+    );
+    names = await lookupNames(ctx.client, field.relation, ids);
+  }
+
+  return `${label} ${phrase} ${formatValue(value, "error" in resolved ? null : field, names)}`;
+}
+
+async function renderNode(
+  ctx: ExplainContext,
+  model: string,
+  node: DomainNode,
+): Promise<string> {
+  if (node.type === "condition") {
+    return describeCondition(ctx, model, node.condition);
+  }
+  if (node.type === "not") {
+    return `NOT (${await renderNode(ctx, model, node.child)})`;
+  }
+
+  const parts: string[] = [];
+  for (const child of node.children) {
+    const text = await renderNode(ctx, model, child);
+    // Groups of the other kind need parentheses to keep their meaning
+    parts.push(
+      child.type === "and" || child.type === "or" ? `(${text})` : text,
+    );
+  }
+  return parts.join(node.type === "and" ? " AND " : " OR ");
+}
+
+export const ExplainDomainInputSchema = z.object({
+  model: z.string().describe('Model technical name (e.g., "res.partner")'),
+  domain: z
+    .union([z.array(z.unknown()), z.string()])
+    .describe(
+      "Domain to explain, as JSON or in Odoo's Python syntax " +
+        '(e.g., ["|", ["country_id", "=", 20], ["category_id", "in", [3]]])',
+    ),
+});
+
+export type ExplainDomainInput = z.infer<typeof ExplainDomainInputSchema>;
+
+export const ExplainDomainOutputSchema = z.object({
+  model: z.string(),
+  explanation: z.string(),
+  valid: z.boolean(),
+  errors: z.array(z.string()),
+  tree: z
+    .unknown()
+    .describe("The domain as a tree of and/or/not nodes, null when empty"),
+  domain_used: z.array(z.unknown()),
+});
+
+export async function explainDomain(
+  client: IOdooClient,
+  input: ExplainDomainInput,
+): Promise<{ success: boolean; result?: unknown; error?: string }> {
+  try {
+    const fields = await client.getModelFields(input.model);
+    if (isError(fields)) {
+      return { success: false, error: fields.error };
+    }
+
+    // Parse the terms as given: normalizeDomain would silently drop the
+    // malformed ones and the explanation would describe another domain
+    const domain = normalizeDomain(input.domain);
+    const { tree, errors } = parseDomainTree(rawDomainTerms(input.domain));
+    const ctx: ExplainContext = {
+      client,
+      major: await getServerMajorVersion(client),
+      known: new Map([[input.model, fields]]),
+      errors,
+    };
+
+    const info = await client.getModelInfo(input.model);
+    const modelLabel = isError(info) ? input.model : info.name;
+    const explanation = tree
+      ? `${modelLabel} records where ${await renderNode(ctx, input.model, tree)}`
+      : `All ${modelLabel} records (the domain is empty)`;
+
+    return {
+      success: true,
+      result: {
+        model: input.model,
+        explanation,
+        valid: ctx.errors.length === 0,
+        errors: ctx.errors,
+        tree,
+        domain_used: domain,
+      },
+    };
+  } catch (error) {
+    return errorResult(error);
+  }
+}
+
+export const explainDomainTool = defineTool({
+  name: "explain_domain",
+  description:
+    "Explain an Odoo domain in plain English, using field and selection labels and the names of referenced records. " +
+    "Resolves the prefix notation of '&', '|' and '!' into a grouped sentence, and reports operators that are missing operands. " +
+    "Use it to check a domain means what you intend before searching or changing records with it.",
+  inputSchema: {
+    model: ExplainDomainInputSchema.shape.model,
+    domain: ExplainDomainInputSchema.shape.domain,
+  },
+  outputSchema: toolResultShape(ExplainDomainOutputSchema),
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (client, input) => explainDomain(client, input),
+});
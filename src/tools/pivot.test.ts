@@ -0,0 +1,304 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { IOdooClient } from "../types/index.js";
+import { MAX_GROUP_LIMIT } from "./aggregate.js";
+import { pivotReport } from "./pivot.js";
+
+const orderFields = {
+  state: { type: "selection", string: "Status" },
+  amount_total: { type: "monetary", string: "Total" },
+  date_order: { type: "datetime", string: "Order Date" },
+  user_id: { type: "many2one", string: "Salesperson", relation: "res.users" },
+  locked: { type: "boolean", string: "Locked" },
+};
+
+const MITCHELL = [2, "Mitchell Admin"];
+const MARC = [7, "Marc Demo"];
+
+/**
+ * read_group results by groupby, as Odoo 17 returns them
+ */
+const GROUPS: Record<string, Array<Record<string, unknown>>> = {
+  "": [{ amount_total: 1750.5, __count: 6 }],
+  user_id: [
+    { user_id: MITCHELL, amount_total: 1500, __count: 4 },
+    { user_id: MARC, amount_total: 250.5, __count: 2 },
+  ],
+  "date_order:month": [
+    { "date_order:month": "January 2025", amount_total: 1000, __count: 3 },
+    { "date_order:month": "February 2025", amount_total: 750.5, __count: 3 },
+  ],
+  "user_id,date_order:month": [
+    {
+      user_id: MITCHELL,
+      "date_order:month": "January 2025",
+      amount_total: 1000,
+      __count: 3,
+    },
+    {
+      user_id: MITCHELL,
+      "date_order:month": "February 2025",
+      amount_total: 500,
+      __count: 1,
+    },
+    {
+      user_id: MARC,
+      "date_order:month": "February 2025",
+      amount_total: 250.5,
+      __count: 2,
+    },
+  ],
+};
+
+describe("pivotReport", () => {
+  let client: IOdooClient;
+
+  beforeEach(() => {
+    client = {
+      execute: vi.fn(async (_model, _method, args) => {
+        const groupby = (args?.[2] as string[]).join(",");
+        return GROUPS[groupby] ?? [];
+      }),
+      getModels: vi.fn(),
+      getModelInfo: vi.fn(),
+      getModelFields: vi.fn().mockResolvedValue(orderFields),
+      searchRead: vi.fn(),
+      readRecords: vi.fn(),
+    };
+  });
+
+  it("renders a cross-tab with row and column totals as markdown", async () => {
+    const result = await pivotReport(client, {
+      model: "sale.order",
+      rows: ["user_id"],
+      columns: ["date_order:month"],
+      measures: ["amount_total:sum"],
+    });
+
+    expect(result.success).toBe(true);
+    expect((result.result as { text: string }).text).toBe(
+      [
+        "| Salesperson | January 2025 | February 2025 | Total |",
+        "| --- | ---: | ---: | ---: |",
+        "| Mitchell Admin | 1000 | 500 | 1500 |",
+        "| Marc Demo |  | 250.50 | 250.50 |",
+        "| Total | 1000 | 750.50 | 1750.50 |",
+      ].join("\n"),
+    );
+    expect(result.result).toMatchObject({
+      headers: ["Salesperson", "January 2025", "February 2025", "Total"],
+      rows: [
+        ["Mitchell Admin", 1000, 500, 1500],
+        ["Marc Demo", null, 250.5, 250.5],
+        ["Total", 1000, 750.5, 1750.5],
+      ],
+      truncated: false,
+      cells_truncated: false,
+      method: "read_group",
+    });
+  });
+
+  it("totals come from their own groupings, not sums of cells", async () => {
+    await pivotReport(client, {
+      model: "sale.order",
+      rows: ["user_id"],
+      columns: ["date_order:month"],
+      measures: ["amount_total:avg"],
+    });
+
+    const groupbys = vi
+      .mocked(client.execute)
+      .mock.calls.map((call) => call[2]?.[2]);
+    expect(groupbys).toEqual([
+      [],
+      ["user_id"],
+      ["date_order:month"],
+      ["user_id", "date_order:month"],
+    ]);
+  });
+
+  it("returns CSV with a column per measure", async () => {
+    const result = await pivotReport(client, {
+      model: "sale.order",
+      rows: ["user_id"],
+      measures: ["amount_total:sum"],
+      format: "csv",
+    });
+
+    expect((result.result as { text: string }).text).toBe(
+      [
+        "Salesperson,Total (sum)",
+        "Mitchell Admin,1500",
+        "Marc Demo,250.5",
+        "Total,1750.5",
+      ].join("\n"),
+    );
+  });
+
+  it("headers columns by group and counts records by default", async () => {
+    const result = await pivotReport(client, {
+      model: "sale.order",
+      columns: ["date_order:month"],
+      measures: ["amount_total:sum"],
+      format: "csv",
+    });
+    expect((result.result as { headers: string[] }).headers).toEqual([
+      "",
+      "January 2025",
+      "February 2025",
+      "Total",
+    ]);
+
+    vi.mocked(client.execute).mockClear();
+    const counted = await pivotReport(client, {
+      model: "sale.order",
+      rows: ["user_id"],
+    });
+    expect((counted.result as { headers: string[] }).headers).toEqual([
+      "Salesperson",
+      "Count",
+    ]);
+    expect(vi.mocked(client.execute).mock.calls[0]?.[2]?.[1]).toEqual([]);
+  });
+
+  it("validates the domain like search_records", async () => {
+    const result = await pivotReport(client, {
+      model: "sale.order",
+      domain: [["stage", "=", "sale"]],
+      rows: ["user_id"],
+    });
+
+    expect(result).toEqual({
+      success: false,
+      error:
+        "Domain validation errors: Field 'stage' not found on model sale.order. Did you mean: state?",
+    });
+    expect(client.execute).not.toHaveBeenCalled();
+  });
+
+  it("reports invalid groupbys and measures", async () => {
+    const result = await pivotReport(client, {
+      model: "sale.order",
+      rows: ["team_id"],
+      measures: ["amount_total:total"],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("Groupby 'team_id'");
+    expect(result.error).toContain("Measure 'amount_total:total'");
+  });
+
+  it("flags tables cut off at the row limit", async () => {
+    const result = await pivotReport(client, {
+      model: "sale.order",
+      rows: ["user_id"],
+      limit: 2,
+    });
+
+    expect(result.result).toMatchObject({ truncated: true });
+    expect((result.result as { text: string }).text).toContain(
+      "Only the first 2 row groups",
+    );
+  });
+
+  it("notes truncation in CSV output too", async () => {
+    const result = await pivotReport(client, {
+      model: "sale.order",
+      rows: ["user_id"],
+      format: "csv",
+      limit: 2,
+    });
+
+    expect((result.result as { text: string }).text).toMatch(
+      /\n# Only the first 2 row groups .*$/,
+    );
+  });
+
+  it("flags cells cut off while the totals are complete", async () => {
+    const cell = GROUPS["user_id,date_order:month"]?.[0];
+    vi.mocked(client.execute).mockImplementation(
+      async (_model, _method, args) => {
+        const groupby = (args?.[2] as string[]).join(",");
+        return groupby === "user_id,date_order:month"
+          ? Array.from({ length: MAX_GROUP_LIMIT }, () => cell)
+          : (GROUPS[groupby] ?? []);
+      },
+    );
+
+    const result = await pivotReport(client, {
+      model: "sale.order",
+      rows: ["user_id"],
+      columns: ["date_order:month"],
+      measures: ["amount_total:sum"],
+    });
+
+    expect(result.result).toMatchObject({
+      truncated: true,
+      cells_truncated: true,
+    });
+    expect((result.result as { text: string }).text).toContain(
+      `Only the first ${MAX_GROUP_LIMIT} row and column combinations were read, so some cells are blank`,
+    );
+  });
+
+  it("shows boolean aggregates as true or false", async () => {
+    const groups: Record<string, Array<Record<string, unknown>>> = {
+      "": [{ locked: true, __count: 6 }],
+      user_id: [
+        { user_id: MITCHELL, locked: true, __count: 4 },
+        { user_id: MARC, locked: false, __count: 2 },
+      ],
+    };
+    vi.mocked(client.execute).mockImplementation(
+      async (_model, _method, args) =>
+        groups[(args?.[2] as string[]).join(",")] ?? [],
+    );
+
+    const result = await pivotReport(client, {
+      model: "sale.order",
+      rows: ["user_id"],
+      measures: ["locked:bool_or"],
+    });
+
+    expect((result.result as { rows: unknown[][] }).rows).toEqual([
+      ["Mitchell Admin", true],
+      ["Marc Demo", false],
+      ["Total", true],
+    ]);
+    expect((result.result as { text: string }).text).toContain(
+      "| Marc Demo | false |",
+    );
+  });
+
+  it("keeps groups that share a label apart", async () => {
+    const smith = [3, "John Smith"];
+    const otherSmith = [9, "John Smith"];
+    const groups: Record<string, Array<Record<string, unknown>>> = {
+      "": [{ __count: 5 }],
+      user_id: [
+        { user_id: smith, __count: 2 },
+        { user_id: otherSmith, __count: 3 },
+      ],
+      "date_order:month": [{ "date_order:month": "January 2025", __count: 5 }],
+      "user_id,date_order:month": [
+        { user_id: smith, "date_order:month": "January 2025", __count: 2 },
+        { user_id: otherSmith, "date_order:month": "January 2025", __count: 3 },
+      ],
+    };
+    vi.mocked(client.execute).mockImplementation(
+      async (_model, _method, args) =>
+        groups[(args?.[2] as string[]).join(",")] ?? [],
+    );
+
+    const result = await pivotReport(client, {
+      model: "sale.order",
+      rows: ["user_id"],
+      columns: ["date_order:month"],
+    });
+
+    expect((result.result as { rows: unknown[][] }).rows).toEqual([
+      ["John Smith", 2, 2],
+      ["John Smith", 3, 3],
+      ["Total", 5, 5],
+    ]);
+  });
+});
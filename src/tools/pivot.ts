@@ -0,0 +1,367 @@
+/**
+ * Pivot tool: cross-tabs of grouped measures with row and column totals,
+ * as in Odoo's pivot view
+ */
+
+import { z } from "zod";
+import type { IOdooClient, OdooFieldDef } from "../types/index.js";
+import {
+  checkGroupSpecs,
+  type Groupby,
+  type GroupQuery,
+  MAX_GROUP_LIMIT,
+  parseGroupby,
+  parseMeasure,
+  readGroups,
+} from "./aggregate.js";
+import { errorResult } from "./errors.js";
+import { defineTool, toolResultShape } from "./registry.js";
+import { checkSearchDomain, SearchRecordsInputSchema } from "./search.js";
+
+// ============ Utility Functions ============
+
+/**
+ * Default and maximum number of row groups in a pivot
+ */
+const DEFAULT_PIVOT_ROWS = 100;
+const MAX_PIVOT_ROWS = 1000;
+
+/**
+ * Maximum number of column groups; wider tables are unreadable
+ */
+const MAX_PIVOT_COLUMNS = 50;
+
+type Cell = string | number | boolean | null;
+
+type GroupRow = Record<string, unknown>;
+
+/**
+ * A value column of the table: a measure, or the record count
+ */
+interface PivotMeasure {
+  key: string;
+  label: string;
+}
+
+function fieldLabel(
+  fields: Record<string, OdooFieldDef>,
+  { field, granularity }: Groupby,
+): string {
+  const label = fields[field]?.string ?? field;
+  return granularity ? `${label} (${granularity})` : label;
+}
+
+/**
+ * Identifies a group by its raw values rather than its labels, which
+ * two groups can share
+ */
+function groupKey(key: GroupRow | undefined, groupbys: Groupby[]): string {
+  return JSON.stringify(groupbys.map((g) => key?.[g.spec] ?? null));
+}
+
+function groupLabel(row: GroupRow, groupby: Groupby): string {
+  const value = row[groupby.spec];
+  return value === null || value === undefined ? "None" : String(value);
+}
+
+function measureCell(row: GroupRow | undefined, key: string): Cell {
+  const value = row?.[key];
+  return typeof value === "number" ||
+    typeof value === "string" ||
+    typeof value === "boolean"
+    ? value
+    : null;
+}
+
+function formatNumber(value: Cell): string {
+  if (value === null) return "";
+  if (typeof value === "number" && !Number.isInteger(value)) {
+    return value.toFixed(2);
+  }
+  return String(value);
+}
+
+function toMarkdown(
+  headers: string[],
+  rows: Cell[][],
+  labelColumns: number,
+): string {
+  const escapeCell = (text: string) =>
+    text.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+  const line = (cells: string[]) => `| ${cells.map(escapeCell).join(" | ")} |`;
+  return [
+    line(headers),
+    `|${headers.map((_, i) => (i < labelColumns ? " --- " : " ---: ")).join("|")}|`,
+    ...rows.map((row) => line(row.map(formatNumber))),
+  ].join("\n");
+}
+
+function toCsv(headers: string[], rows: Cell[][]): string {
+  const quote = (cell: Cell) => {
+    const text = cell === null ? "" : String(cell);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [headers, ...rows].map((row) => row.map(quote).join(",")).join("\n");
+}
+
+// ============ Tool: pivot_report ============
+
+export const PivotReportInputSchema = z.object({
+  model: z.string().describe('Model technical name (e.g., "sale.order")'),
+  domain: SearchRecordsInputSchema.shape.domain
+    .optional()
+    .describe(
+      "Odoo domain filter, validated as in search_records (default: all records)",
+    ),
+  rows: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Groupbys down the side, with a granularity for dates, e.g. ["user_id"]',
+    ),
+  columns: z
+    .array(z.string())
+    .optional()
+    .describe('Groupbys across the top, e.g. ["date_order:month"]'),
+  measures: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Aggregates as field:function, e.g. ["amount_total:sum"] (default: record count)',
+    ),
+  format: z
+    .enum(["markdown", "csv"])
+    .optional()
+    .describe('Output format (default: "markdown")'),
+  limit: z
+    .number()
+    .min(1)
+    .max(MAX_PIVOT_ROWS)
+    .optional()
+    .describe(
+      `Maximum row groups (default: ${DEFAULT_PIVOT_ROWS}, max: ${MAX_PIVOT_ROWS}). At most ${MAX_PIVOT_COLUMNS} column groups are shown.`,
+    ),
+});
+
+export type PivotReportInput = z.infer<typeof PivotReportInputSchema>;
+
+export const PivotReportOutputSchema = z.object({
+  text: z.string(),
+  model: z.string(),
+  format: z.enum(["markdown", "csv"]),
+  headers: z.array(z.string()),
+  rows: z.array(
+    z.array(z.union([z.string(), z.number(), z.boolean(), z.null()])),
+  ),
+  truncated: z.boolean(),
+  cells_truncated: z.boolean(),
+  method: z.string(),
+  domain_used: z.array(z.unknown()),
+});
+
+export async function pivotReport(
+  client: IOdooClient,
+  input: PivotReportInput,
+): Promise<{ success: boolean; result?: unknown; error?: string }> {
+  try {
+    const result = await client.getModelFields(input.model);
+    if ("error" in result && typeof result.error === "string") {
+      return { success: false, error: `Model '${input.model}' not found` };
+    }
+    const fields = result as Record<string, OdooFieldDef>;
+
+    const measures = (input.measures ?? []).map(parseMeasure);
+    const rowGroupbys = (input.rows ?? []).map(parseGroupby);
+    const columnGroupbys = (input.columns ?? []).map(parseGroupby);
+    const errors = checkGroupSpecs(
+      measures,
+      [...rowGroupbys, ...columnGroupbys],
+      fields,
+      input.model,
+    );
+    if (errors.length > 0) {
+      return {
+        success: false,
+        error: `${errors.join("; ")}. Use get_model_schema to see available fields.`,
+      };
+    }
+
+    const checked = await checkSearchDomain(
+      client,
+      input.model,
+      input.domain ?? [],
+      fields,
+    );
+    if ("error" in checked) {
+      return { success: false, error: checked.error };
+    }
+
+    // Totals are grouped separately: averages and maximums cannot be
+    // added up from the cells
+    const group = (groupbys: Groupby[], limit: number) => {
+      const query: GroupQuery = {
+        domain: checked.domain,
+        measures,
+        groupbys,
+        lazy: false,
+        limit,
+        offset: 0,
+      };
+      return readGroups(client, input.model, query);
+    };
+    const rowLimit = input.limit ?? DEFAULT_PIVOT_ROWS;
+    const grand = await group([], 1);
+    const rowTotals =
+      rowGroupbys.length > 0 ? await group(rowGroupbys, rowLimit) : null;
+    const columnTotals =
+      columnGroupbys.length > 0
+        ? await group(columnGroupbys, MAX_PIVOT_COLUMNS)
+        : null;
+    const cells =
+      rowTotals && columnTotals
+        ? await group([...rowGroupbys, ...columnGroupbys], MAX_GROUP_LIMIT)
+        : null;
+
+    const cellIndex = new Map<string, Map<string, GroupRow>>();
+    for (const [i, row] of (cells?.rows ?? []).entries()) {
+      const key = cells?.keys[i];
+      const rowKey = groupKey(key, rowGroupbys);
+      const byColumn = cellIndex.get(rowKey) ?? new Map<string, GroupRow>();
+      byColumn.set(groupKey(key, columnGroupbys), row);
+      cellIndex.set(rowKey, byColumn);
+    }
+
+    const values: PivotMeasure[] =
+      measures.length > 0
+        ? measures.map((m) => ({
+            key: m.spec,
+            label: `${fields[m.field]?.string ?? m.field} (${m.aggregate})`,
+          }))
+        : [{ key: "count", label: "Count" }];
+    const columnHeads = columnTotals?.rows ?? [];
+    const columnKeys = (columnTotals?.keys ?? []).map((key) =>
+      groupKey(key, columnGroupbys),
+    );
+    const valueHeader = (head: string, value: PivotMeasure) =>
+      values.length > 1 ? `${head} / ${value.label}` : head;
+
+    const labelHeaders =
+      rowGroupbys.length > 0
+        ? rowGroupbys.map((g) => fieldLabel(fields, g))
+        : [""];
+    const headers = [
+      ...labelHeaders,
+      ...(columnTotals
+        ? [
+            ...columnHeads.flatMap((head) =>
+              values.map((value) =>
+                valueHeader(
+                  columnGroupbys.map((g) => groupLabel(head, g)).join(" / "),
+                  value,
+                ),
+              ),
+            ),
+            ...values.map((value) => valueHeader("Total", value)),
+          ]
+        : values.map((value) => value.label)),
+    ];
+
+    // One table line: the cells under each column group, then the total
+    const tableLine = (
+      labels: Cell[],
+      cellFor: (column: number) => GroupRow | undefined,
+      total: GroupRow | undefined,
+    ): Cell[] => [
+      ...labels,
+      ...columnHeads.flatMap((_, column) =>
+        values.map((value) => measureCell(cellFor(column), value.key)),
+      ),
+      ...values.map((value) => measureCell(total, value.key)),
+    ];
+
+    const table: Cell[][] = (rowTotals?.rows ?? []).map((row, i) => {
+      const byColumn = cellIndex.get(groupKey(rowTotals?.keys[i], rowGroupbys));
+      return tableLine(
+        rowGroupbys.map((g) => groupLabel(row, g)),
+        (column) => byColumn?.get(columnKeys[column] ?? ""),
+        row,
+      );
+    });
+    table.push(
+      tableLine(
+        labelHeaders.map((_, i) => (i === 0 ? "Total" : "")),
+        (column) => columnHeads[column],
+        grand.rows[0],
+      ),
+    );
+
+    const groupsTruncated =
+      rowTotals?.rows.length === rowLimit ||
+      columnHeads.length === MAX_PIVOT_COLUMNS;
+    // The totals are complete even when the cells between them are not
+    const cellsTruncated = cells?.rows.length === MAX_GROUP_LIMIT;
+    const notes = [
+      ...(groupsTruncated
+        ? [
+            `Only the first ${rowLimit} row groups and ${MAX_PIVOT_COLUMNS} column groups are shown.`,
+          ]
+        : []),
+      ...(cellsTruncated
+        ? [
+            `Only the first ${MAX_GROUP_LIMIT} row and column combinations were read, so some cells are blank; the totals cover every record.`,
+          ]
+        : []),
+    ];
+    const format = input.format ?? "markdown";
+    let text =
+      format === "csv"
+        ? toCsv(headers, table)
+        : toMarkdown(headers, table, labelHeaders.length);
+    if (notes.length > 0) {
+      const note = `${notes.join(" ")} Narrow the domain or use coarser groupbys.`;
+      text += format === "csv" ? `\n# ${note}` : `\n\n_${note}_`;
+    }
+
+    return {
+      success: true,
+      result: {
+        text,
+        model: input.model,
+        format,
+        headers,
+        rows: table,
+        truncated: groupsTruncated || cellsTruncated,
+        cells_truncated: cellsTruncated,
+        method: grand.method,
+        domain_used: checked.domain,
+      },
+    };
+  } catch (error) {
+    return errorResult(error);
+  }
+}
+
+export const pivotReportTool = defineTool({
+  name: "pivot_report",
+  description:
+    "Build a pivot table (cross-tab) of any model, like Odoo's pivot view: row groupbys down the side, column groupbys across the top, measures in the cells, with row and column totals. " +
+    'Example: revenue by salesperson per month is rows ["user_id"], columns ["date_order:month"], measures ["amount_total:sum"]. ' +
+    "Returns a markdown table, or CSV with format: csv. Use aggregate_records for a flat list of groups instead.",
+  inputSchema: {
+    model: PivotReportInputSchema.shape.model,
+    domain: PivotReportInputSchema.shape.domain,
+    rows: PivotReportInputSchema.shape.rows,
+    columns: PivotReportInputSchema.shape.columns,
+    measures: PivotReportInputSchema.shape.measures,
+    format: PivotReportInputSchema.shape.format,
+    limit: PivotReportInputSchema.shape.limit,
+  },
+  outputSchema: toolResultShape(PivotReportOutputSchema),
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (client, input) => pivotReport(client, input),
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { ProfileManager } from "../connection/profiles.js";
+import { MockClientBuilder } from "../test-utils/mock-client.js";
+import { ListProfilesInputSchema, listProfilesTool } from "./profiles.js";
+
+describe("profile tools", () => {
+  describe("ListProfilesInputSchema", () => {
+    it("accepts empty input", () => {
+      expect(ListProfilesInputSchema.parse({})).toEqual({});
+    });
+
+    it("accepts a profile and reachability flag", () => {
+      const result = ListProfilesInputSchema.parse({
+        profile: "staging",
+        check_reachability: false,
+      });
+
+      expect(result.profile).toBe("staging");
+      expect(result.check_reachability).toBe(false);
+    });
+  });
+
+  describe("listProfilesTool", () => {
+    const client = new MockClientBuilder()
+      .withExecuteResult("res.users", "context_get", {})
+      .build();
+
+    function createProfiles(): ProfileManager {
+      const profiles = new ProfileManager(
+        {
+          profiles: {
+            prod: {
+              url: "https://prod.odoo.com",
+              db: "prod",
+              username: "admin",
+              password: "secret",
+            },
+          },
+          defaultProfile: "prod",
+        },
+        async () => client,
+      );
+      profiles.setClient("staging", client);
+      return profiles;
+    }
+
+    it("has correct metadata", () => {
+      expect(listProfilesTool.name).toBe("list_profiles");
+      expect(listProfilesTool.description).toContain("profile");
+    });
+
+    it("lists all profiles with reachability", async () => {
+      const result = await listProfilesTool.handler(
+        client,
+        {},
+        { profiles: createProfiles() },
+      );
+
+      expect(result.success).toBe(true);
+      const data = result.result as {
+        default_profile: string;
+        profiles: Array<{ name: string; reachable?: boolean }>;
+        count: number;
+      };
+      expect(data.default_profile).toBe("prod");
+      expect(data.count).toBe(2);
+      expect(data.profiles.map((p) => p.name)).toEqual(["prod", "staging"]);
+      expect(data.profiles.every((p) => p.reachable)).toBe(true);
+    });
+
+    it("never exposes credentials", async () => {
+      const result = await listProfilesTool.handler(
+        client,
+        {},
+        { profiles: createProfiles() },
+      );
+
+      expect(JSON.stringify(result)).not.toContain("secret");
+    });
+
+    it("skips the reachability check when asked", async () => {
+      const result = await listProfilesTool.handler(
+        client,
+        { profile: "prod", check_reachability: false },
+        { profiles: createProfiles() },
+      );
+
+      const data = result.result as {
+        profiles: Array<{ reachable?: boolean; connected: boolean }>;
+      };
+      expect(data.profiles).toHaveLength(1);
+      expect(data.profiles[0]?.reachable).toBeUndefined();
+      expect(data.profiles[0]?.connected).toBe(false);
+    });
+
+    it("returns error for an unknown profile", async () => {
+      const result = await listProfilesTool.handler(
+        client,
+        { profile: "dev" },
+        { profiles: createProfiles() },
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Unknown profile "dev"');
+    });
+
+    it("returns error when profiles are unavailable", async () => {
+      const result = await listProfilesTool.handler(client, {});
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("not available");
+    });
+  });
+});
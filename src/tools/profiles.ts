@@ -0,0 +1,106 @@
+/**
+ * Profile tools for inspecting configured Odoo connections
+ */
+
+import { z } from "zod";
+import { errorResult } from "./errors.js";
+import { defineTool, toolResultShape } from "./registry.js";
+
+// ============ Tool: list_profiles ============
+
+export const ListProfilesInputSchema = z.object({
+  profile: z
+    .string()
+    .optional()
+    .describe("Only report on this profile (default: all profiles)"),
+  check_reachability: z
+    .boolean()
+    .optional()
+    .describe(
+      "If true (default), connect to each profile and report whether it is reachable",
+    ),
+});
+
+export type ListProfilesInput = z.infer<typeof ListProfilesInputSchema>;
+
+export const ListProfilesOutputSchema = z.object({
+  default_profile: z.string(),
+  profiles: z.array(
+    z.object({
+      name: z.string(),
+      default: z.boolean(),
+      url: z.string().optional(),
+      db: z.string().optional(),
+      username: z.string().optional(),
+      protocol: z.string().optional(),
+      connected: z.boolean(),
+      reachable: z.boolean().optional(),
+      error: z.string().optional(),
+    }),
+  ),
+  count: z.number().optional(),
+});
+
+export const listProfilesTool = defineTool({
+  name: "list_profiles",
+  description:
+    "List the Odoo connection profiles configured on this server (e.g. prod, staging) " +
+    "and whether each instance is reachable. " +
+    "Pass a profile name as the 'profile' argument of any other tool to target that instance.",
+  inputSchema: {
+    profile: ListProfilesInputSchema.shape.profile,
+    check_reachability: ListProfilesInputSchema.shape.check_reachability,
+  },
+  outputSchema: toolResultShape(ListProfilesOutputSchema),
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (_client, input, context) => {
+    const profiles = context?.profiles;
+    if (!profiles) {
+      return {
+        success: false,
+        error: "Connection profiles are not available on this server",
+      };
+    }
+
+    const checkReachability = input.check_reachability ?? true;
+
+    try {
+      if (input.profile) {
+        if (!profiles.has(input.profile)) {
+          return {
+            success: false,
+            error: `Unknown profile "${input.profile}". Configured profiles: ${profiles.names().join(", ")}`,
+          };
+        }
+        const status = await profiles.describe(
+          input.profile,
+          checkReachability,
+        );
+        return {
+          success: true,
+          result: {
+            default_profile: profiles.defaultProfile,
+            profiles: [status],
+          },
+        };
+      }
+
+      const statuses = await profiles.listProfiles(checkReachability);
+      return {
+        success: true,
+        result: {
+          default_profile: profiles.defaultProfile,
+          profiles: statuses,
+          count: statuses.length,
+        },
+      };
+    } catch (error) {
+      return errorResult(error);
+    }
+  },
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { PythonLiteralError, parsePythonLiteral } from "./python-literal.js";
+
+describe("parsePythonLiteral", () => {
+  it("parses a domain with tuples, operators and constants", () => {
+    expect(
+      parsePythonLiteral(
+        "[('state','=','draft'), '|', ('x','=',True), ('y','!=',False)]",
+      ),
+    ).toEqual([
+      ["state", "=", "draft"],
+      "|",
+      ["x", "=", true],
+      ["y", "!=", false],
+    ]);
+  });
+
+  it("parses numbers, None and nested lists", () => {
+    expect(
+      parsePythonLiteral(
+        "[('id', 'in', [1, 2, 3]), ('amount', '>=', -1.5), ('user_id', '=', None)]",
+      ),
+    ).toEqual([
+      ["id", "in", [1, 2, 3]],
+      ["amount", ">=", -1.5],
+      ["user_id", "=", null],
+    ]);
+  });
+
+  it("handles both quote styles, escapes and trailing commas", () => {
+    expect(parsePythonLiteral(`["it's", 'say \\'hi\\'', ]`)).toEqual([
+      "it's",
+      "say 'hi'",
+    ]);
+  });
+
+  it("treats (x,) as a tuple and (x) as the value", () => {
+    expect(parsePythonLiteral("[(1,), (2)]")).toEqual([[1], 2]);
+  });
+
+  it("flags expressions that need Odoo to evaluate them", () => {
+    expect(() =>
+      parsePythonLiteral("[('date', '>=', context_today())]"),
+    ).toThrow('Unsupported expression "context_today()"');
+    expect(() => parsePythonLiteral("[('user_id', '=', uid)]")).toThrow(
+      'Unsupported expression "uid"',
+    );
+  });
+
+  it("reports where the syntax is wrong", () => {
+    let error: unknown;
+    try {
+      parsePythonLiteral("[('name', '=' 'x')]");
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(PythonLiteralError);
+    expect((error as PythonLiteralError).position).toBe(14);
+    expect((error as Error).message).toContain('Expected "," or ")"');
+  });
+
+  it("rejects unterminated input", () => {
+    expect(() => parsePythonLiteral("[('name', '=', 'x')")).toThrow(
+      'Missing "]"',
+    );
+    expect(() => parsePythonLiteral("['abc")).toThrow("Unterminated string");
+  });
+});
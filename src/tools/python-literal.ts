@@ -0,0 +1,166 @@
+/**
+ * Safe parser for Python literals as found in Odoo domains copied from the
+ * UI, ir.rule and ir.filters. Only literal values are read; nothing is
+ * evaluated.
+ */
+
+/**
+ * Raised when text is not a Python literal, or uses an expression that
+ * needs Odoo to evaluate it
+ */
+export class PythonLiteralError extends Error {
+  override name = "PythonLiteralError";
+
+  constructor(
+    message: string,
+    readonly position: number,
+  ) {
+    super(message);
+  }
+}
+
+const CONSTANTS: Record<string, unknown> = {
+  True: true,
+  False: false,
+  None: null,
+};
+
+const ESCAPES: Record<string, string> = {
+  n: "\n",
+  t: "\t",
+  r: "\r",
+  "\\": "\\",
+  "'": "'",
+  '"': '"',
+};
+
+const NUMBER = /^-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/;
+
+const NAME = /^[A-Za-z_][\w.]*/;
+
+class Parser {
+  private pos = 0;
+
+  constructor(private text: string) {}
+
+  parse(): unknown {
+    const value = this.value();
+    this.skipSpace();
+    if (this.pos < this.text.length) {
+      this.fail(`Unexpected "${this.text[this.pos]}"`);
+    }
+    return value;
+  }
+
+  private value(): unknown {
+    this.skipSpace();
+    const char = this.text[this.pos];
+
+    if (char === "[") return this.sequence("]");
+    if (char === "(") return this.sequence(")");
+    if (char === "'" || char === '"') return this.string(char);
+
+    const rest = this.text.slice(this.pos);
+    const number = NUMBER.exec(rest);
+    if (number) {
+      this.pos += number[0].length;
+      return Number(number[0]);
+    }
+
+    const name = NAME.exec(rest);
+    if (name) {
+      if (name[0] in CONSTANTS) {
+        this.pos += name[0].length;
+        return CONSTANTS[name[0]];
+      }
+      const call = this.text[this.pos + name[0].length] === "(" ? "()" : "";
+      this.fail(
+        `Unsupported expression "${name[0]}${call}": only literal values can be used. Odoo evaluates expressions like context_today() or uid in the client; replace them with actual values`,
+      );
+    }
+
+    this.fail(
+      char === undefined ? "Unexpected end of input" : `Unexpected "${char}"`,
+    );
+  }
+
+  /**
+   * A list or tuple; both become arrays. A parenthesized value without a
+   * comma is just that value.
+   */
+  private sequence(close: "]" | ")"): unknown {
+    this.pos++;
+    const items: unknown[] = [];
+    let sawComma = false;
+
+    for (;;) {
+      this.skipSpace();
+      if (this.text[this.pos] === close) {
+        this.pos++;
+        break;
+      }
+      items.push(this.value());
+      this.skipSpace();
+
+      const next = this.text[this.pos];
+      if (next === ",") {
+        this.pos++;
+        sawComma = true;
+      } else if (next !== close) {
+        this.fail(
+          next === undefined
+            ? `Missing "${close}"`
+            : `Expected "," or "${close}" but found "${next}"`,
+        );
+      }
+    }
+
+    if (close === ")" && items.length === 1 && !sawComma) {
+      return items[0];
+    }
+    return items;
+  }
+
+  private string(quote: string): string {
+    const start = this.pos;
+    this.pos++;
+    let result = "";
+
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos++];
+      if (char === quote) {
+        return result;
+      }
+      if (char === "\\") {
+        const escaped = this.text[this.pos++] ?? "";
+        result += ESCAPES[escaped] ?? `\\${escaped}`;
+      } else {
+        result += char;
+      }
+    }
+
+    this.pos = start;
+    return this.fail("Unterminated string");
+  }
+
+  private skipSpace(): void {
+    while (/\s/.test(this.text[this.pos] ?? "")) {
+      this.pos++;
+    }
+  }
+
+  private fail(message: string): never {
+    throw new PythonLiteralError(
+      `${message} at position ${this.pos}`,
+      this.pos,
+    );
+  }
+}
+
+/**
+ * Parse a Python literal: lists, tuples, strings, numbers, True, False and
+ * None. Tuples become arrays.
+ */
+export function parsePythonLiteral(text: string): unknown {
+  return new Parser(text).parse();
+}
@@ -5,6 +5,7 @@ import {
   defineTool,
   type ToolDefinition,
   ToolRegistry,
+  toolResultShape,
 } from "./registry.js";
 
 describe("ToolRegistry", () => {
@@ -16,6 +17,12 @@ describe("ToolRegistry", () => {
       name,
       description: `Description for ${name}`,
       inputSchema: { input: z.string() },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
       handler: async () => ({ success: true }),
     };
   }
@@ -247,3 +254,30 @@ describe("defineTool", () => {
     expect(result.result).toBe(42);
   });
 });
+
+describe("toolResultShape", () => {
+  it("accepts success and error results", () => {
+    const schema = z.object(toolResultShape());
+
+    expect(schema.safeParse({ success: true, result: [1] }).success).toBe(true);
+    expect(
+      schema.safeParse({
+        success: false,
+        error: "Denied",
+        error_type: "access_error",
+        hint: "Check access",
+      }).success,
+    ).toBe(true);
+  });
+
+  it("checks the result against the given schema", () => {
+    const schema = z.object(toolResultShape(z.object({ count: z.number() })));
+
+    expect(
+      schema.safeParse({ success: true, result: { count: 1 } }).success,
+    ).toBe(true);
+    expect(
+      schema.safeParse({ success: true, result: { count: "1" } }).success,
+    ).toBe(false);
+  });
+});
@@ -1,4 +1,8 @@
-import type { ZodRawShape, z } from "zod";
+import { type ZodRawShape, type ZodTypeAny, z } from "zod";
+import type { AuditLog } from "../connection/audit.js";
+import type { ConfirmationContext } from "../connection/confirmation.js";
+import type { ProfileManager } from "../connection/profiles.js";
+import type { SnapshotStore } from "../connection/snapshots.js";
 import type { IOdooClient } from "../types/index.js";
 
 /**
@@ -8,6 +12,95 @@ export interface ToolResult {
   success: boolean;
   result?: unknown;
   error?: string | null;
+  /**
+   * Kind of failure, e.g. "access_error" or "validation_error"
+   */
+  error_type?: string;
+  /**
+   * Suggested next step for the failure
+   */
+  hint?: string;
+  /**
+   * Set when the call wrote or deleted records; pass to undo_operation
+   */
+  operation_id?: string;
+}
+
+/**
+ * Output schema shape for a ToolResult whose `result` matches `result`
+ */
+export function toolResultShape(result: ZodTypeAny = z.unknown()) {
+  return {
+    success: z.boolean(),
+    result: result.optional(),
+    error: z.string().nullable().optional(),
+    error_type: z.string().optional(),
+    hint: z.string().optional(),
+    operation_id: z.string().optional(),
+  };
+}
+
+/**
+ * Output schema used for tools that do not declare their own
+ */
+export const toolResultOutputSchema = toolResultShape();
+
+/**
+ * Result of tools that return one block of text
+ */
+export const TextOutputSchema = z.object({ text: z.string() });
+
+/**
+ * Hints that let MCP clients decide how to treat a tool, e.g. auto-approving
+ * tools that only read
+ */
+export interface ToolAnnotations {
+  /**
+   * The tool does not modify Odoo data or local files
+   */
+  readOnlyHint: boolean;
+  /**
+   * The tool may delete or overwrite data (only meaningful when not read-only)
+   */
+  destructiveHint: boolean;
+  /**
+   * Repeating a call with the same arguments has no further effect
+   */
+  idempotentHint: boolean;
+  /**
+   * The tool talks to the Odoo server rather than only local files
+   */
+  openWorldHint: boolean;
+}
+
+/**
+ * Server-provided context passed to tool handlers alongside the client
+ */
+export interface ToolContext {
+  /**
+   * Configured Odoo connection profiles
+   */
+  profiles?: ProfileManager;
+  /**
+   * True when the server must not modify Odoo data
+   */
+  readOnly?: boolean;
+  /**
+   * Log of mutating calls, when auditing is enabled
+   */
+  audit?: AuditLog;
+  /**
+   * Before-image snapshots of writes and deletes, when undo is enabled
+   */
+  snapshots?: SnapshotStore;
+  /**
+   * How to confirm destructive changes with the user, when required
+   */
+  confirmation?: ConfirmationContext;
+  /**
+   * Tell the server that local docs or SOPs were added or changed
+   */
+  entriesChanged?: (type: "docs" | "sops") => void;
 }
 
 /**
@@ -30,11 +123,26 @@ export interface ToolDefinition {
    */
   inputSchema: ZodRawShape;
 
+  /**
+   * Zod schema shape of the structured result.
+   * Defaults to toolResultOutputSchema.
+   */
+  outputSchema?: ZodRawShape;
+
+  /**
+   * Behaviour hints reported to MCP clients
+   */
+  annotations: ToolAnnotations;
+
   /**
    * Handler function that executes the tool logic.
    * Input is typed as unknown since different tools have different schemas.
    */
-  handler: (client: IOdooClient, input: unknown) => Promise<ToolResult>;
+  handler: (
+    client: IOdooClient,
+    input: unknown,
+    context?: ToolContext,
+  ) => Promise<ToolResult>;
 }
 
 /**
@@ -45,9 +153,12 @@ export interface TypedToolDefinition<TShape extends ZodRawShape> {
   name: string;
   description: string;
   inputSchema: TShape;
+  outputSchema?: ZodRawShape;
+  annotations: ToolAnnotations;
   handler: (
     client: IOdooClient,
     input: z.infer<z.ZodObject<TShape>>,
+    context?: ToolContext,
   ) => Promise<ToolResult>;
 }
 
@@ -207,6 +207,60 @@ describe("search tools", () => {
       expect(matches[0].is_company).toBe(true);
     });
 
+    it("uses user_id for task assignees before Odoo 15", async () => {
+      vi.mocked(mockClient.getModelFields).mockResolvedValue({
+        id: { type: "integer", string: "ID" },
+        name: { type: "char", string: "Name" },
+        user_id: { type: "many2one", string: "Assigned to" },
+        user_ids: { type: "many2many", string: "Followers' users" },
+      });
+      vi.mocked(mockClient.searchRead).mockResolvedValue([]);
+      mockClient.getServerInfo = vi.fn().mockResolvedValue({
+        server_version: "14.0",
+        server_serie: "14.0",
+        major: 14,
+        minor: 0,
+        protocol_version: 1,
+        edition: "community",
+        modules: null,
+      });
+
+      await findRecordByName(mockClient, {
+        model: "project.task",
+        name: "Fix",
+      });
+
+      const options = vi.mocked(mockClient.searchRead).mock.calls[0]?.[2];
+      expect(options?.fields).toContain("user_id");
+      expect(options?.fields).not.toContain("user_ids");
+    });
+
+    it("uses user_ids for task assignees from Odoo 15", async () => {
+      vi.mocked(mockClient.getModelFields).mockResolvedValue({
+        id: { type: "integer", string: "ID" },
+        name: { type: "char", string: "Name" },
+        user_ids: { type: "many2many", string: "Assignees" },
+      });
+      vi.mocked(mockClient.searchRead).mockResolvedValue([]);
+      mockClient.getServerInfo = vi.fn().mockResolvedValue({
+        server_version: "17.0",
+        server_serie: "17.0",
+        major: 17,
+        minor: 0,
+        protocol_version: 1,
+        edition: "community",
+        modules: null,
+      });
+
+      await findRecordByName(mockClient, {
+        model: "project.task",
+        name: "Fix",
+      });
+
+      const options = vi.mocked(mockClient.searchRead).mock.calls[0]?.[2];
+      expect(options?.fields).toContain("user_ids");
+    });
+
     it("adds wildcards for ilike operator", async () => {
       vi.mocked(mockClient.getModelFields).mockResolvedValue({
         id: { type: "integer", string: "ID" },
@@ -342,6 +396,44 @@ describe("search tools", () => {
       expect(data.records).toHaveLength(2);
     });
 
+    it("accepts a Python-syntax domain string", async () => {
+      vi.mocked(mockClient.getModelFields).mockResolvedValue({
+        id: { type: "integer", string: "ID" },
+        state: { type: "selection", string: "Status" },
+      });
+      vi.mocked(mockClient.execute).mockResolvedValue(3);
+
+      const result = await searchRecords(mockClient, {
+        model: "sale.order",
+        domain: "[('state', '=', 'draft')]",
+        fields: ["id", "state"],
+        count_only: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockClient.execute).toHaveBeenCalledWith(
+        "sale.order",
+        "search_count",
+        [[["state", "=", "draft"]]],
+      );
+    });
+
+    it("fails instead of matching everything when the domain is unparseable", async () => {
+      vi.mocked(mockClient.getModelFields).mockResolvedValue({
+        id: { type: "integer", string: "ID" },
+      });
+
+      const result = await searchRecords(mockClient, {
+        model: "sale.order",
+        domain: "[('date', '>=', context_today())]",
+        fields: ["id"],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("context_today()");
+      expect(mockClient.searchRead).not.toHaveBeenCalled();
+    });
+
     it("returns count only when count_only is true", async () => {
       vi.mocked(mockClient.getModelFields).mockResolvedValue({
         id: { type: "integer", string: "ID" },
@@ -397,16 +489,20 @@ describe("search tools", () => {
     });
 
     it("handles dotted field names in domain", async () => {
-      vi.mocked(mockClient.getModelFields).mockResolvedValue({
-        id: { type: "integer", string: "ID" },
-        name: { type: "char", string: "Name" },
-        display_name: { type: "char", string: "Display Name" },
-        country_id: {
-          type: "many2one",
-          string: "Country",
-          relation: "res.country",
-        },
-      });
+      vi.mocked(mockClient.getModelFields).mockImplementation(async (model) =>
+        model === "res.country"
+          ? { code: { type: "char", string: "Country Code" } }
+          : {
+              id: { type: "integer", string: "ID" },
+              name: { type: "char", string: "Name" },
+              display_name: { type: "char", string: "Display Name" },
+              country_id: {
+                type: "many2one",
+                string: "Country",
+                relation: "res.country",
+              },
+            },
+      );
 
       vi.mocked(mockClient.searchRead).mockResolvedValue([]);
       vi.mocked(mockClient.execute).mockResolvedValue(0);
@@ -419,6 +515,34 @@ describe("search tools", () => {
       expect(result.success).toBe(true);
     });
 
+    it("rejects unknown fields further down a dotted path", async () => {
+      vi.mocked(mockClient.getModelFields).mockImplementation(async (model) =>
+        model === "res.country"
+          ? { code: { type: "char", string: "Country Code" } }
+          : {
+              id: { type: "integer", string: "ID" },
+              name: { type: "char", string: "Name" },
+              display_name: { type: "char", string: "Display Name" },
+              country_id: {
+                type: "many2one",
+                string: "Country",
+                relation: "res.country",
+              },
+            },
+      );
+
+      const result = await searchRecords(mockClient, {
+        model: "res.partner",
+        domain: [["country_id.no_such_field", "=", "US"]],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain(
+        "Field 'no_such_field' not found on model res.country",
+      );
+      expect(mockClient.searchRead).not.toHaveBeenCalled();
+    });
+
     it("indicates has_more when more records exist", async () => {
       vi.mocked(mockClient.getModelFields).mockResolvedValue({
         id: { type: "integer", string: "ID" },
@@ -3,9 +3,12 @@
  */
 
 import { z } from "zod";
+import { getServerMajorVersion } from "../connection/version.js";
 import type { Domain, IOdooClient, OdooFieldDef } from "../types/index.js";
 import { normalizeDomain, validateDomain } from "./domain-utils.js";
-import { defineTool } from "./registry.js";
+import { errorResult } from "./errors.js";
+import { resolveFieldPath } from "./introspection.js";
+import { defineTool, toolResultShape } from "./registry.js";
 
 // ============ Utility Functions ============
 
@@ -36,6 +39,17 @@ const MODEL_IDENTIFYING_FIELDS: Record<string, string[]> = {
   "project.task": ["project_id", "user_ids", "stage_id"],
 };
 
+/**
+ * Identifying fields that were renamed between Odoo versions:
+ * current name -> the major version it appeared in and its earlier name
+ */
+const VERSIONED_FIELDS: Record<
+  string,
+  Record<string, { since: number; before: string }>
+> = {
+  "project.task": { user_ids: { since: 15, before: "user_id" } },
+};
+
 /**
  * Default fields to always include in search results
  */
@@ -47,12 +61,57 @@ const DEFAULT_FIELDS = ["id", "name", "display_name"];
 function getIdentifyingFields(
   model: string,
   availableFields: Record<string, OdooFieldDef>,
+  majorVersion: number | null,
 ): string[] {
-  const modelFields = MODEL_IDENTIFYING_FIELDS[model] || [];
+  const renamed = VERSIONED_FIELDS[model] ?? {};
+  const modelFields = (MODEL_IDENTIFYING_FIELDS[model] || []).map((f) => {
+    const rename = renamed[f];
+    return rename && majorVersion !== null && majorVersion < rename.since
+      ? rename.before
+      : f;
+  });
   const validFields = modelFields.filter((f) => f in availableFields);
   return [...DEFAULT_FIELDS, ...validFields];
 }
 
+/**
+ * Normalize and validate a domain as search_records does, checking every
+ * segment of each condition's field path against the models it walks.
+ * Shared by the tools that take a search filter so they accept and reject
+ * the same domains.
+ */
+export async function checkSearchDomain(
+  client: IOdooClient,
+  model: string,
+  domain: unknown,
+  fields: Record<string, OdooFieldDef>,
+): Promise<{ domain: Domain } | { error: string }> {
+  const validatedDomain = validateDomain(normalizeDomain(domain));
+  const major = await getServerMajorVersion(client);
+  const known = new Map([[model, fields]]);
+
+  // Validate domain field paths (e.g., "partner_id.country_id.code")
+  const domainErrors: string[] = [];
+  for (const condition of validatedDomain) {
+    if (Array.isArray(condition) && condition.length >= 1) {
+      const resolved = await resolveFieldPath(
+        client,
+        model,
+        String(condition[0]),
+        major,
+        known,
+      );
+      if ("error" in resolved) {
+        domainErrors.push(resolved.error);
+      }
+    }
+  }
+  if (domainErrors.length > 0) {
+    return { error: `Domain validation errors: ${domainErrors.join("; ")}` };
+  }
+  return { domain: validatedDomain };
+}
+
 // ============ Tool 1: find_record_by_name ============
 
 export const FindRecordByNameInputSchema = z.object({
@@ -75,6 +134,17 @@ export const FindRecordByNameInputSchema = z.object({
 
 export type FindRecordByNameInput = z.infer<typeof FindRecordByNameInputSchema>;
 
+export const FindRecordByNameOutputSchema = z.object({
+  model: z.string(),
+  search_term: z.string(),
+  search_field: z.string(),
+  operator: z.string(),
+  matches: z.array(z.record(z.unknown())),
+  count: z.number(),
+  exact_match: z.object({ id: z.number(), name: z.unknown() }).optional(),
+  guidance: z.string(),
+});
+
 export async function findRecordByName(
   client: IOdooClient,
   input: FindRecordByNameInput,
@@ -119,7 +189,11 @@ export async function findRecordByName(
     const domain: Domain = [[searchField, operator as "ilike", searchValue]];
 
     // Determine fields to return
-    const returnFields = getIdentifyingFields(input.model, fields);
+    const returnFields = getIdentifyingFields(
+      input.model,
+      fields,
+      await getServerMajorVersion(client),
+    );
 
     // Execute search
     const records = await client.searchRead(input.model, domain, {
@@ -173,7 +247,7 @@ export async function findRecordByName(
       },
     };
   } catch (error) {
-    return { success: false, error: String(error) };
+    return errorResult(error);
   }
 }
 
@@ -204,6 +278,13 @@ export const findRecordByNameTool = defineTool({
       .optional()
       .describe("Maximum results to return (default: 10, max: 100)"),
   },
+  outputSchema: toolResultShape(FindRecordByNameOutputSchema),
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
   handler: async (client, input) => findRecordByName(client, input),
 });
 
@@ -212,9 +293,10 @@ export const findRecordByNameTool = defineTool({
 export const SearchRecordsInputSchema = z.object({
   model: z.string().describe('Model technical name (e.g., "res.partner")'),
   domain: z
-    .array(z.unknown())
+    .union([z.array(z.unknown()), z.string()])
     .describe(
-      'Odoo domain filter (e.g., [["is_company", "=", true], ["country_id.code", "=", "US"]])',
+      'Odoo domain filter (e.g., [["is_company", "=", true], ["country_id.code", "=", "US"]]). ' +
+        "Python syntax copied from Odoo is also accepted as a string, e.g. \"[('state', '=', 'draft')]\"",
     ),
   fields: z
     .array(z.string())
@@ -239,6 +321,21 @@ export const SearchRecordsInputSchema = z.object({
 
 export type SearchRecordsInput = z.infer<typeof SearchRecordsInputSchema>;
 
+/**
+ * With count_only, only model, count and domain_used are returned
+ */
+export const SearchRecordsOutputSchema = z.object({
+  model: z.string(),
+  count: z.number(),
+  domain_used: z.array(z.unknown()),
+  records: z.array(z.record(z.unknown())).optional(),
+  total_count: z.number().optional(),
+  has_more: z.boolean().optional(),
+  offset: z.number().optional(),
+  limit: z.number().optional(),
+  fields_returned: z.array(z.string()).optional(),
+});
+
 export async function searchRecords(
   client: IOdooClient,
   input: SearchRecordsInput,
@@ -255,7 +352,12 @@ export async function searchRecords(
 
     // Validate requested fields exist
     const requestedFields =
-      input.fields || getIdentifyingFields(input.model, fields);
+      input.fields ||
+      getIdentifyingFields(
+        input.model,
+        fields,
+        await getServerMajorVersion(client),
+      );
     const invalidFields = requestedFields.filter((f) => !(f in fields));
     if (invalidFields.length > 0) {
       return {
@@ -272,27 +374,16 @@ export async function searchRecords(
     }
 
     // Normalize and validate domain
-    const normalizedDomain = normalizeDomain(input.domain);
-    const validatedDomain = validateDomain(normalizedDomain);
-
-    // Validate domain field names
-    const domainErrors: string[] = [];
-    for (const condition of validatedDomain) {
-      if (Array.isArray(condition) && condition.length >= 1) {
-        const fieldName = String(condition[0]);
-        // Handle dotted field names (e.g., "partner_id.name")
-        const baseField = fieldName.split(".")[0] || fieldName;
-        if (!(baseField in fields)) {
-          domainErrors.push(`Field '${baseField}' not found on model`);
-        }
-      }
-    }
-    if (domainErrors.length > 0) {
-      return {
-        success: false,
-        error: `Domain validation errors: ${domainErrors.join("; ")}`,
-      };
+    const checked = await checkSearchDomain(
+      client,
+      input.model,
+      input.domain,
+      fields,
+    );
+    if ("error" in checked) {
+      return { success: false, error: checked.error };
     }
+    const validatedDomain = checked.domain;
 
     // If count_only, just return count
     if (input.count_only) {
@@ -355,7 +446,7 @@ export async function searchRecords(
       },
     };
   } catch (error) {
-    return { success: false, error: String(error) };
+    return errorResult(error);
   }
 }
 
@@ -368,11 +459,7 @@ export const searchRecordsTool = defineTool({
     "More user-friendly than raw execute_method with built-in error checking.",
   inputSchema: {
     model: z.string().describe('Model technical name (e.g., "res.partner")'),
-    domain: z
-      .array(z.unknown())
-      .describe(
-        'Odoo domain filter (e.g., [["is_company", "=", true], ["country_id.code", "=", "US"]])',
-      ),
+    domain: SearchRecordsInputSchema.shape.domain,
     fields: z
       .array(z.string())
       .optional()
@@ -393,5 +480,12 @@ export const searchRecordsTool = defineTool({
       .optional()
       .describe("If true, only return count without records"),
   },
+  outputSchema: toolResultShape(SearchRecordsOutputSchema),
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
   handler: async (client, input) => searchRecords(client, input),
 });
@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { MockClientBuilder } from "../test-utils/mock-client.js";
+import { GetServerInfoInputSchema, getServerInfoTool } from "./server-info.js";
+
+const serverInfo = {
+  server_version: "17.0+e",
+  server_serie: "17.0",
+  major: 17,
+  minor: 0,
+  protocol_version: 1,
+  edition: "enterprise" as const,
+  modules: { base: "17.0.1.3", web_enterprise: "17.0.1.0" },
+};
+
+describe("server info tools", () => {
+  describe("GetServerInfoInputSchema", () => {
+    it("accepts an optional include_modules flag", () => {
+      expect(GetServerInfoInputSchema.parse({})).toEqual({});
+      expect(
+        GetServerInfoInputSchema.parse({ include_modules: true })
+          .include_modules,
+      ).toBe(true);
+    });
+  });
+
+  describe("getServerInfoTool", () => {
+    it("has correct metadata", () => {
+      expect(getServerInfoTool.name).toBe("get_server_info");
+    });
+
+    it("returns the version with a module count", async () => {
+      const client = new MockClientBuilder().withServerInfo(serverInfo).build();
+
+      const result = await getServerInfoTool.handler(client, {});
+
+      expect(result).toEqual({
+        success: true,
+        result: {
+          server_version: "17.0+e",
+          server_serie: "17.0",
+          major: 17,
+          minor: 0,
+          protocol_version: 1,
+          edition: "enterprise",
+          installed_module_count: 2,
+        },
+      });
+    });
+
+    it("lists modules when asked", async () => {
+      const client = new MockClientBuilder().withServerInfo(serverInfo).build();
+
+      const result = await getServerInfoTool.handler(client, {
+        include_modules: true,
+      });
+
+      expect(result.result).toMatchObject({ modules: serverInfo.modules });
+    });
+
+    it("returns results matching its output schema", async () => {
+      const client = new MockClientBuilder().withServerInfo(serverInfo).build();
+      const outputSchema = z.object(getServerInfoTool.outputSchema ?? {});
+
+      const result = await getServerInfoTool.handler(client, {
+        include_modules: true,
+      });
+
+      expect(outputSchema.safeParse(result).success).toBe(true);
+    });
+
+    it("returns error when the client has no server info", async () => {
+      const client = new MockClientBuilder().build();
+
+      const result = await getServerInfoTool.handler(client, {});
+
+      expect(result).toEqual({
+        success: false,
+        error: "Server information is not available",
+      });
+    });
+
+    it("returns error when detection fails", async () => {
+      const client = new MockClientBuilder().build();
+      client.getServerInfo = vi.fn().mockRejectedValue(new Error("offline"));
+
+      const result = await getServerInfoTool.handler(client, {});
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("offline");
+    });
+  });
+});
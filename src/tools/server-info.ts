@@ -0,0 +1,70 @@
+/**
+ * Server information tools for checking the Odoo version and installed modules
+ */
+
+import { z } from "zod";
+import { errorResult } from "./errors.js";
+import { defineTool, toolResultShape } from "./registry.js";
+
+// ============ Tool: get_server_info ============
+
+export const GetServerInfoInputSchema = z.object({
+  include_modules: z
+    .boolean()
+    .optional()
+    .describe(
+      "If true, include every installed module and its version (default: false, count only)",
+    ),
+});
+
+export type GetServerInfoInput = z.infer<typeof GetServerInfoInputSchema>;
+
+export const GetServerInfoOutputSchema = z.object({
+  server_version: z.string(),
+  server_serie: z.string(),
+  major: z.number(),
+  minor: z.number(),
+  protocol_version: z.number().nullable(),
+  edition: z.enum(["community", "enterprise"]).nullable(),
+  installed_module_count: z.number().nullable(),
+  modules: z.record(z.string()).nullable().optional(),
+});
+
+export const getServerInfoTool = defineTool({
+  name: "get_server_info",
+  description:
+    "Get the Odoo server version (e.g. 17.0), edition (community or enterprise) and installed modules. " +
+    "Check this before relying on fields or methods that differ between Odoo versions.",
+  inputSchema: {
+    include_modules: GetServerInfoInputSchema.shape.include_modules,
+  },
+  outputSchema: toolResultShape(GetServerInfoOutputSchema),
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (client, input) => {
+    if (!client.getServerInfo) {
+      return {
+        success: false,
+        error: "Server information is not available",
+      };
+    }
+
+    try {
+      const { modules, ...info } = await client.getServerInfo();
+      return {
+        success: true,
+        result: {
+          ...info,
+          installed_module_count: modules ? Object.keys(modules).length : null,
+          ...(input.include_modules ? { modules } : {}),
+        },
+      };
+    } catch (error) {
+      return errorResult(error);
+    }
+  },
+});
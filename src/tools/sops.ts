@@ -1,6 +1,6 @@
 import { z } from "zod";
 import { listEntries, readEntry, saveEntry } from "../docs-system/index.js";
-import { defineTool } from "./registry.js";
+import { defineTool, TextOutputSchema, toolResultShape } from "./registry.js";
 
 /**
  * Tool to list available SOPs
@@ -10,6 +10,13 @@ export const listSopsTool = defineTool({
   description:
     "List available Standard Operating Procedures. SOPs are step-by-step instructions you should FOLLOW when performing specific Odoo operations. Check for relevant SOPs before complex tasks like data migrations, integrations, or multi-step workflows.",
   inputSchema: {},
+  outputSchema: toolResultShape(TextOutputSchema),
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
   handler: async () => {
     const sops = listEntries("sops");
     const formatted = sops.map((s) => `- ${s.name} (${s.source})`).join("\n");
@@ -34,6 +41,13 @@ export const readSopTool = defineTool({
       .string()
       .describe("Name of the SOP to read (without .md extension)"),
   },
+  outputSchema: toolResultShape(TextOutputSchema),
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
   handler: async (_client, input) => {
     const sop = readEntry("sops", input.name);
     if (!sop) {
@@ -62,9 +76,17 @@ export const saveSopTool = defineTool({
     name: z.string().describe("Name for the SOP (without .md extension)"),
     content: z.string().describe("Markdown content of the procedure"),
   },
-  handler: async (_client, input) => {
+  outputSchema: toolResultShape(TextOutputSchema),
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async (_client, input, context) => {
     const result = saveEntry("sops", input.name, input.content);
     if (result.success) {
+      context?.entriesChanged?.("sops");
       return {
         success: true,
         result: { text: `Saved SOP "${input.name}" to ${result.path}` },
@@ -0,0 +1,383 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  type Snapshot,
+  type SnapshotStep,
+  SnapshotStore,
+} from "../connection/snapshots.js";
+import type { IOdooClient } from "../types/index.js";
+import {
+  restoreSnapshot,
+  UndoOperationInputSchema,
+  undoOperationTool,
+} from "./undo.js";
+
+const writeSnapshot: Snapshot = {
+  operation_id: "op-1",
+  created_at: "2025-01-14T10:00:00.000Z",
+  tool: "bulk_operation",
+  profile: "default",
+  undone_at: null,
+  steps: [
+    {
+      model: "res.partner",
+      method: "write",
+      ids: [1, 2],
+      fields: {
+        name: { type: "char", store: true },
+        ref: { type: "char", store: true, readonly: true },
+        parent_id: { type: "many2one", store: true },
+        category_id: { type: "many2many", store: true },
+        display_name: { type: "char", store: false },
+      },
+      records: [
+        {
+          id: 1,
+          name: "Old",
+          ref: "P-1",
+          parent_id: [7, "Acme"],
+          category_id: [3, 4],
+          display_name: "Old",
+        },
+        { id: 2, name: "Gone", parent_id: false, category_id: [] },
+      ],
+      skipped_fields: {},
+      write_dates: { "1": "2025-01-14 10:00:00", "2": "2025-01-14 10:00:00" },
+    },
+  ],
+};
+
+const unlinkSnapshot: Snapshot = {
+  ...writeSnapshot,
+  steps: [
+    {
+      model: "sale.order",
+      method: "unlink",
+      ids: [5],
+      fields: {
+        name: { type: "char", store: true },
+        order_line: { type: "one2many", store: true },
+      },
+      records: [{ id: 5, name: "S005", order_line: [11, 12] }],
+      skipped_fields: { signature: "binary fields are not captured" },
+    },
+  ],
+};
+
+describe("undo tools", () => {
+  let client: IOdooClient;
+
+  beforeEach(() => {
+    client = {
+      execute: vi.fn(async (_model: string, method: string) => {
+        if (method === "search_read") {
+          return [{ id: 1, write_date: "2025-01-14 10:00:00" }];
+        }
+        if (method === "create") return 99;
+        return true;
+      }) as IOdooClient["execute"],
+      getModels: vi.fn(),
+      getModelInfo: vi.fn(),
+      getModelFields: vi.fn(),
+      searchRead: vi.fn(),
+      readRecords: vi.fn(),
+    };
+  });
+
+  describe("UndoOperationInputSchema", () => {
+    it("requires an operation_id", () => {
+      expect(() => UndoOperationInputSchema.parse({})).toThrow();
+      expect(UndoOperationInputSchema.parse({ operation_id: "op-1" })).toEqual({
+        operation_id: "op-1",
+      });
+    });
+  });
+
+  describe("restoreSnapshot", () => {
+    it("writes old values back, converting relational fields", async () => {
+      const report = await restoreSnapshot(client, writeSnapshot);
+
+      expect(client.execute).toHaveBeenCalledWith("res.partner", "write", [
+        [1],
+        { name: "Old", parent_id: 7, category_id: [[6, 0, [3, 4]]] },
+      ]);
+      expect(report.restored).toEqual([
+        {
+          model: "res.partner",
+          id: 1,
+          fields: ["name", "parent_id", "category_id"],
+        },
+      ]);
+      expect(report.not_restored).toEqual([
+        { model: "res.partner", id: 2, reason: "record no longer exists" },
+      ]);
+      expect(report.skipped_fields).toContainEqual({
+        model: "res.partner",
+        field: "display_name",
+        reason: "computed field, recomputed by Odoo",
+      });
+      expect(report.skipped_fields).toContainEqual({
+        model: "res.partner",
+        field: "ref",
+        reason: "readonly field, cannot be written back",
+      });
+    });
+
+    it("does not overwrite records edited since the operation", async () => {
+      vi.mocked(client.execute).mockImplementation(async (_m, method) =>
+        method === "search_read"
+          ? [
+              { id: 1, write_date: "2025-01-14 12:30:00" },
+              { id: 2, write_date: "2025-01-14 10:00:00" },
+            ]
+          : true,
+      );
+
+      const report = await restoreSnapshot(client, writeSnapshot);
+
+      expect(report.not_restored).toEqual([
+        {
+          model: "res.partner",
+          id: 1,
+          reason:
+            "edited since the operation (write_date 2025-01-14 12:30:00, expected 2025-01-14 10:00:00); not overwritten",
+        },
+      ]);
+      expect(report.restored.map((r) => r.id)).toEqual([2]);
+    });
+
+    it("checks a record written by several steps against the last one", async () => {
+      const [step] = writeSnapshot.steps as [SnapshotStep];
+      const snapshot: Snapshot = {
+        ...writeSnapshot,
+        steps: [step, { ...step, write_dates: { "1": "2025-01-14 10:05:00" } }],
+      };
+      vi.mocked(client.execute).mockImplementation(async (_m, method) =>
+        method === "search_read"
+          ? [{ id: 1, write_date: "2025-01-14 10:05:00" }]
+          : true,
+      );
+
+      const report = await restoreSnapshot(client, snapshot);
+
+      expect(report.restored.map((r) => r.id)).toEqual([1, 1]);
+    });
+
+    it("skips records a pending write never changed", async () => {
+      const [step] = writeSnapshot.steps as [SnapshotStep];
+      const snapshot: Snapshot = {
+        ...writeSnapshot,
+        steps: [
+          {
+            ...step,
+            pending: true,
+            records: [
+              { id: 1, name: "Old", write_date: "2025-01-14 09:00:00" },
+            ],
+            write_dates: undefined,
+          },
+        ],
+      };
+      vi.mocked(client.execute).mockImplementation(async (_m, method) =>
+        method === "search_read"
+          ? [{ id: 1, write_date: "2025-01-14 09:00:00" }]
+          : true,
+      );
+
+      const report = await restoreSnapshot(client, snapshot);
+
+      expect(report.restored).toEqual([]);
+      expect(client.execute).not.toHaveBeenCalledWith(
+        "res.partner",
+        "write",
+        expect.anything(),
+      );
+    });
+
+    it("reports each skipped field once across records and steps", async () => {
+      const step: SnapshotStep = {
+        ...writeSnapshot.steps[0],
+        records: [
+          { id: 1, name: "A", ref: "P-1", display_name: "A" },
+          { id: 2, name: "B", ref: "P-2", display_name: "B" },
+        ],
+      };
+      const snapshot: Snapshot = {
+        ...writeSnapshot,
+        steps: [
+          { ...step, skipped_fields: { display_name: "not captured" } },
+          step,
+        ],
+      };
+      vi.mocked(client.execute).mockImplementation(async (_m, method) =>
+        method === "search_read"
+          ? [
+              { id: 1, write_date: "2025-01-14 10:00:00" },
+              { id: 2, write_date: "2025-01-14 10:00:00" },
+            ]
+          : true,
+      );
+
+      const report = await restoreSnapshot(client, snapshot);
+
+      expect(report.skipped_fields).toEqual([
+        {
+          model: "res.partner",
+          field: "ref",
+          reason: "readonly field, cannot be written back",
+        },
+        {
+          model: "res.partner",
+          field: "display_name",
+          reason: "computed field, recomputed by Odoo",
+        },
+      ]);
+    });
+
+    it("recreates deleted records and reports what is lost", async () => {
+      const report = await restoreSnapshot(client, unlinkSnapshot);
+
+      expect(client.execute).toHaveBeenCalledWith("sale.order", "create", [
+        { name: "S005" },
+      ]);
+      expect(report.recreated).toEqual([
+        { model: "sale.order", old_id: 5, new_id: 99 },
+      ]);
+      expect(report.skipped_fields).toEqual([
+        {
+          model: "sale.order",
+          field: "signature",
+          reason: "binary fields are not captured",
+        },
+        {
+          model: "sale.order",
+          field: "order_line",
+          reason:
+            "one2many children are not restored; recreate them separately",
+        },
+      ]);
+    });
+
+    it("does not recreate records a pending unlink left in place", async () => {
+      const [step] = unlinkSnapshot.steps as [SnapshotStep];
+      vi.mocked(client.execute).mockImplementation(async (_m, method) =>
+        method === "search" ? [5] : 99,
+      );
+
+      const report = await restoreSnapshot(client, {
+        ...unlinkSnapshot,
+        steps: [{ ...step, pending: true }],
+      });
+
+      expect(report.recreated).toEqual([]);
+      expect(client.execute).not.toHaveBeenCalledWith(
+        "sale.order",
+        "create",
+        expect.anything(),
+      );
+    });
+
+    it("reports records Odoo refuses to restore", async () => {
+      vi.mocked(client.execute).mockImplementation(async (_m, method) => {
+        if (method === "create") throw new Error("Missing customer");
+        return [];
+      });
+
+      const report = await restoreSnapshot(client, unlinkSnapshot);
+
+      expect(report.not_restored).toEqual([
+        { model: "sale.order", id: 5, reason: "Error: Missing customer" },
+      ]);
+    });
+  });
+
+  describe("undoOperationTool", () => {
+    let snapshots: SnapshotStore;
+
+    beforeEach(() => {
+      snapshots = new SnapshotStore({ directory: "/unused", retention: 0 });
+      vi.spyOn(snapshots, "save").mockImplementation(() => {});
+    });
+
+    it("has correct metadata", () => {
+      expect(undoOperationTool.name).toBe("undo_operation");
+    });
+
+    it("restores the snapshot and marks it undone", async () => {
+      vi.spyOn(snapshots, "load").mockReturnValue(writeSnapshot);
+      vi.mocked(client.execute).mockImplementation(async (_m, method) =>
+        method === "search_read"
+          ? [
+              { id: 1, write_date: "2025-01-14 10:00:00" },
+              { id: 2, write_date: "2025-01-14 10:00:00" },
+            ]
+          : true,
+      );
+
+      const result = await undoOperationTool.handler(
+        client,
+        { operation_id: "op-1" },
+        { snapshots },
+      );
+
+      expect(result.success).toBe(true);
+      expect(snapshots.save).toHaveBeenCalledWith(
+        expect.objectContaining({ undone_at: expect.any(String) }),
+      );
+    });
+
+    it("refuses operations that were already undone", async () => {
+      vi.spyOn(snapshots, "load").mockReturnValue({
+        ...writeSnapshot,
+        undone_at: "2025-01-14T11:00:00.000Z",
+      });
+
+      const result = await undoOperationTool.handler(
+        client,
+        { operation_id: "op-1" },
+        { snapshots },
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("already undone");
+      expect(client.execute).not.toHaveBeenCalled();
+    });
+
+    it("refuses to undo on a different profile", async () => {
+      vi.spyOn(snapshots, "load").mockReturnValue({
+        ...writeSnapshot,
+        profile: "prod",
+      });
+
+      const result = await undoOperationTool.handler(
+        client,
+        { operation_id: "op-1", profile: "staging" } as never,
+        { snapshots },
+      );
+
+      expect(result.error).toContain('Pass profile: "prod"');
+    });
+
+    it("returns error for unknown operations", async () => {
+      vi.spyOn(snapshots, "load").mockReturnValue(null);
+
+      const result = await undoOperationTool.handler(
+        client,
+        { operation_id: "nope" },
+        { snapshots },
+      );
+
+      expect(result.error).toContain("No snapshot found for operation 'nope'");
+    });
+
+    it("returns error when snapshots are disabled", async () => {
+      const result = await undoOperationTool.handler(client, {
+        operation_id: "op-1",
+      });
+
+      expect(result).toEqual({
+        success: false,
+        error: "Undo snapshots are not enabled on this server",
+      });
+    });
+  });
+});
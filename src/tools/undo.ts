@@ -0,0 +1,353 @@
+/**
+ * Undo tools for reverting writes and deletes from their before-image snapshots
+ */
+
+import { z } from "zod";
+import type { Snapshot, SnapshotStep } from "../connection/snapshots.js";
+import type { IOdooClient } from "../types/index.js";
+import { errorResult } from "./errors.js";
+import { defineTool, toolResultShape } from "./registry.js";
+
+// ============ Utility Functions ============
+
+export const UndoOperationOutputSchema = z.object({
+  operation_id: z.string(),
+  restored: z.array(
+    z.object({
+      model: z.string(),
+      id: z.number(),
+      fields: z.array(z.string()),
+    }),
+  ),
+  recreated: z.array(
+    z.object({ model: z.string(), old_id: z.number(), new_id: z.number() }),
+  ),
+  not_restored: z.array(
+    z.object({ model: z.string(), id: z.number(), reason: z.string() }),
+  ),
+  skipped_fields: z.array(
+    z.object({ model: z.string(), field: z.string(), reason: z.string() }),
+  ),
+});
+
+type UndoReport = z.infer<typeof UndoOperationOutputSchema>;
+
+/**
+ * Turn a value as returned by read() into one write()/create() accepts,
+ * or explain why it cannot be written back
+ */
+function toWritable(
+  type: string,
+  value: unknown,
+): { value: unknown } | { reason: string } {
+  switch (type) {
+    case "many2one":
+      return { value: Array.isArray(value) ? value[0] : value };
+    case "many2many":
+      return { value: [[6, 0, Array.isArray(value) ? value : []]] };
+    case "one2many":
+      return {
+        reason: "one2many children are not restored; recreate them separately",
+      };
+    default:
+      return { value };
+  }
+}
+
+/**
+ * Report a field that is not restored, once per model and field however
+ * many records it was skipped on
+ */
+function skipField(
+  report: UndoReport,
+  model: string,
+  field: string,
+  reason: string,
+): void {
+  const reported = report.skipped_fields.some(
+    (skipped) => skipped.model === model && skipped.field === field,
+  );
+  if (!reported) {
+    report.skipped_fields.push({ model, field, reason });
+  }
+}
+
+/**
+ * Build the values to write back for one record of a step
+ */
+function restorableValues(
+  step: SnapshotStep,
+  record: Record<string, unknown>,
+  report: UndoReport,
+): Record<string, unknown> {
+  const vals: Record<string, unknown> = {};
+
+  for (const [field, meta] of Object.entries(step.fields)) {
+    if (!(field in record)) continue;
+
+    if (!meta.store) {
+      skipField(
+        report,
+        step.model,
+        field,
+        "computed field, recomputed by Odoo",
+      );
+      continue;
+    }
+    if (meta.readonly) {
+      skipField(
+        report,
+        step.model,
+        field,
+        "readonly field, cannot be written back",
+      );
+      continue;
+    }
+
+    const writable = toWritable(meta.type, record[field]);
+    if ("reason" in writable) {
+      const value = record[field];
+      // Only worth reporting when there were children to lose
+      if (!Array.isArray(value) || value.length > 0) {
+        skipField(report, step.model, field, writable.reason);
+      }
+      continue;
+    }
+    vals[field] = writable.value;
+  }
+
+  return vals;
+}
+
+/**
+ * Why a record must not be written back, if it was edited after the
+ * operation. A record is checked once, against the last step that wrote
+ * it; earlier steps follow that decision, since restoring the later step
+ * moves its write_date on.
+ */
+function conflictReason(
+  step: SnapshotStep,
+  id: number,
+  current: string | undefined,
+  checked: Map<string, string | null>,
+): string | null {
+  const key = `${step.model},${id}`;
+  const decided = checked.get(key);
+  if (decided !== undefined) {
+    return decided;
+  }
+
+  const expected = step.write_dates?.[String(id)];
+  const reason =
+    expected !== undefined && current !== expected
+      ? `edited since the operation (write_date ${current}, expected ${expected}); not overwritten`
+      : null;
+  checked.set(key, reason);
+  return reason;
+}
+
+async function undoWrite(
+  client: IOdooClient,
+  step: SnapshotStep,
+  report: UndoReport,
+  checked: Map<string, string | null>,
+): Promise<void> {
+  const current = await client.execute<
+    Array<{ id: number; write_date?: string }>
+  >(step.model, "search_read", [[["id", "in", step.ids]]], {
+    fields: ["write_date"],
+    context: { active_test: false },
+  });
+  const writeDates = new Map(current.map((r) => [r.id, r.write_date]));
+
+  for (const record of step.records) {
+    const id = record.id as number;
+    if (!writeDates.has(id)) {
+      report.not_restored.push({
+        model: step.model,
+        id,
+        reason: "record no longer exists",
+      });
+      continue;
+    }
+
+    // A pending step whose call failed left the record untouched
+    const writeDate = writeDates.get(id);
+    if (
+      step.pending &&
+      record.write_date !== undefined &&
+      record.write_date === writeDate
+    ) {
+      continue;
+    }
+
+    const conflict = conflictReason(step, id, writeDate, checked);
+    if (conflict) {
+      report.not_restored.push({ model: step.model, id, reason: conflict });
+      continue;
+    }
+
+    const vals = restorableValues(step, record, report);
+    if (Object.keys(vals).length === 0) continue;
+
+    try {
+      await client.execute(step.model, "write", [[id], vals]);
+      report.restored.push({
+        model: step.model,
+        id,
+        fields: Object.keys(vals),
+      });
+    } catch (error) {
+      report.not_restored.push({
+        model: step.model,
+        id,
+        reason: errorResult(error).error,
+      });
+    }
+  }
+}
+
+async function undoUnlink(
+  client: IOdooClient,
+  step: SnapshotStep,
+  report: UndoReport,
+): Promise<void> {
+  // A pending step whose call failed left its records in place
+  const remaining = new Set(
+    step.pending
+      ? await client.execute<number[]>(
+          step.model,
+          "search",
+          [[["id", "in", step.ids]]],
+          { context: { active_test: false } },
+        )
+      : [],
+  );
+
+  for (const record of step.records) {
+    const id = record.id as number;
+    if (remaining.has(id)) continue;
+    const vals = restorableValues(step, record, report);
+
+    try {
+      const newId = await client.execute<number>(step.model, "create", [vals]);
+      report.recreated.push({ model: step.model, old_id: id, new_id: newId });
+    } catch (error) {
+      report.not_restored.push({
+        model: step.model,
+        id,
+        reason: errorResult(error).error,
+      });
+    }
+  }
+}
+
+/**
+ * Restore a snapshot, newest change first. Records edited again since the
+ * operation are left as they are and reported in not_restored.
+ */
+export async function restoreSnapshot(
+  client: IOdooClient,
+  snapshot: Snapshot,
+): Promise<UndoReport> {
+  const report: UndoReport = {
+    operation_id: snapshot.operation_id,
+    restored: [],
+    recreated: [],
+    not_restored: [],
+    skipped_fields: [],
+  };
+
+  const checked = new Map<string, string | null>();
+  for (const step of [...snapshot.steps].reverse()) {
+    for (const [field, reason] of Object.entries(step.skipped_fields)) {
+      skipField(report, step.model, field, reason);
+    }
+    if (step.method === "write") {
+      await undoWrite(client, step, report, checked);
+    } else {
+      await undoUnlink(client, step, report);
+    }
+  }
+
+  return report;
+}
+
+// ============ Tool: undo_operation ============
+
+export const UndoOperationInputSchema = z.object({
+  operation_id: z
+    .string()
+    .describe(
+      "The operation_id returned by the tool call that wrote or deleted the records",
+    ),
+});
+
+export type UndoOperationInput = z.infer<typeof UndoOperationInputSchema>;
+
+export const undoOperationTool = defineTool({
+  name: "undo_operation",
+  description:
+    "Undo a write or delete made through this server, using the before-image snapshot taken for its operation_id. " +
+    "Written fields are set back to their old values and deleted records are recreated (with new IDs). " +
+    "Records edited again since the operation are not overwritten. " +
+    "The result lists anything that could not be restored, such as computed or readonly fields and one2many children.",
+  inputSchema: {
+    operation_id: UndoOperationInputSchema.shape.operation_id,
+  },
+  outputSchema: toolResultShape(UndoOperationOutputSchema),
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (client, input, context) => {
+    const snapshots = context?.snapshots;
+    if (!snapshots) {
+      return {
+        success: false,
+        error: "Undo snapshots are not enabled on this server",
+      };
+    }
+
+    try {
+      const snapshot = snapshots.load(input.operation_id);
+      if (!snapshot) {
+        return {
+          success: false,
+          error: `No snapshot found for operation '${input.operation_id}'. It may have expired.`,
+        };
+      }
+      if (snapshot.undone_at) {
+        return {
+          success: false,
+          error: `Operation '${input.operation_id}' was already undone at ${snapshot.undone_at}`,
+        };
+      }
+
+      const { profile } = input as { profile?: string };
+      const target = profile ?? context.profiles?.defaultProfile ?? null;
+      if (snapshot.profile && target && snapshot.profile !== target) {
+        return {
+          success: false,
+          error: `Operation '${input.operation_id}' was made on profile '${snapshot.profile}'. Pass profile: "${snapshot.profile}" to undo it.`,
+        };
+      }
+
+      const report = await restoreSnapshot(client, snapshot);
+      snapshots.save({ ...snapshot, undone_at: new Date().toISOString() });
+
+      if (report.not_restored.length > 0) {
+        return {
+          success: false,
+          error: `${report.not_restored.length} record(s) could not be restored; see not_restored`,
+          result: report,
+        };
+      }
+      return { success: true, result: report };
+    } catch (error) {
+      return errorResult(error);
+    }
+  },
+});
@@ -1,4 +1,9 @@
-import type { Domain, OdooFieldDef, OdooModelInfo } from "./odoo.js";
+import type {
+  Domain,
+  OdooFieldDef,
+  OdooModelInfo,
+  OdooServerInfo,
+} from "./odoo.js";
 
 /**
  * Options for searchRead operations
@@ -68,4 +73,16 @@ export interface IOdooClient {
     ids: number[],
     fields?: string[],
   ): Promise<unknown[]>;
+
+  /**
+   * Drop cached model metadata for one model, or all of it.
+   * Only implemented by clients that cache; returns the entries removed.
+   */
+  clearSchemaCache?(model?: string): Promise<number>;
+
+  /**
+   * Get the server version and installed modules.
+   * Only implemented by clients connected to a real server.
+   */
+  getServerInfo?(): Promise<OdooServerInfo>;
 }
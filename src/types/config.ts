@@ -1,17 +1,78 @@
 import { z } from "zod";
 
+/**
+ * RPC protocols supported for talking to Odoo.
+ * "json2" is the Odoo 19+ JSON-2 external API and requires an API key.
+ * "jsonrpc-session" logs in to a web session and calls /web/dataset/call_kw;
+ * Odoo only opens web sessions with a password.
+ */
+export const ODOO_PROTOCOLS = [
+  "xmlrpc",
+  "jsonrpc",
+  "jsonrpc-session",
+  "json2",
+] as const;
+
+export type OdooProtocol = (typeof ODOO_PROTOCOLS)[number];
+
 /**
  * Configuration schema for Odoo connection
  */
-export const OdooConfigSchema = z.object({
-  url: z.string().min(1),
-  db: z.string().min(1),
-  username: z.string().min(1),
-  password: z.string().min(1),
-});
+export const OdooConfigSchema = z
+  .object({
+    url: z.string().min(1),
+    db: z.string().min(1),
+    username: z.string().min(1),
+    password: z.string().min(1).optional(),
+    api_key: z.string().min(1).optional(),
+    protocol: z.enum(ODOO_PROTOCOLS).optional(),
+  })
+  .refine((config) => config.password || config.api_key, {
+    message: "Either password or api_key must be provided",
+    path: ["api_key"],
+  })
+  .refine((config) => config.protocol !== "json2" || config.api_key, {
+    message: "The json2 protocol requires an api_key",
+    path: ["api_key"],
+  })
+  .refine(
+    (config) =>
+      config.protocol !== "jsonrpc-session" ||
+      (config.password && !config.api_key),
+    {
+      message:
+        "The jsonrpc-session protocol logs in with a password; API keys cannot open web sessions",
+      path: ["password"],
+    },
+  );
 
 export type OdooConfig = z.infer<typeof OdooConfigSchema>;
 
+/**
+ * Name of the profile used for single-instance configurations
+ */
+export const DEFAULT_PROFILE = "default";
+
+/**
+ * Config file schema for multiple named connection profiles
+ */
+export const OdooProfilesFileSchema = z.object({
+  profiles: z
+    .record(OdooConfigSchema)
+    .refine((profiles) => Object.keys(profiles).length > 0, {
+      message: "At least one profile must be configured",
+    }),
+  default_profile: z.string().min(1).optional(),
+});
+
+/**
+ * Loaded connection profiles and the name of the default one
+ */
+export interface OdooProfiles {
+  profiles: Record<string, OdooConfig>;
+  defaultProfile: string;
+}
+
 /**
  * Environment variable names for configuration
  */
@@ -20,8 +81,31 @@ export const ENV_VARS = {
   DB: "ODOO_DB",
   USERNAME: "ODOO_USERNAME",
   PASSWORD: "ODOO_PASSWORD",
+  API_KEY: "ODOO_API_KEY",
   TIMEOUT: "ODOO_TIMEOUT",
   VERIFY_SSL: "ODOO_VERIFY_SSL",
+  PROTOCOL: "ODOO_PROTOCOL",
+  PROFILE: "ODOO_PROFILE",
+  LAZY_CONNECT: "ODOO_LAZY_CONNECT",
+  MAX_RETRIES: "ODOO_MAX_RETRIES",
+  RETRY_METHODS: "ODOO_RETRY_METHODS",
+  CIRCUIT_BREAKER_THRESHOLD: "ODOO_CIRCUIT_BREAKER_THRESHOLD",
+  CIRCUIT_BREAKER_RESET: "ODOO_CIRCUIT_BREAKER_RESET",
+  SCHEMA_CACHE_TTL: "ODOO_SCHEMA_CACHE_TTL",
+  SCHEMA_CACHE_DISK: "ODOO_SCHEMA_CACHE_DISK",
+  READ_ONLY: "ODOO_READ_ONLY",
+  POLICY_FILE: "ODOO_POLICY_FILE",
+  AUDIT_LOG: "ODOO_AUDIT_LOG",
+  AUDIT_DIR: "ODOO_AUDIT_DIR",
+  AUDIT_MAX_SIZE: "ODOO_AUDIT_MAX_SIZE",
+  AUDIT_MAX_FILES: "ODOO_AUDIT_MAX_FILES",
+  SNAPSHOTS: "ODOO_SNAPSHOTS",
+  SNAPSHOT_DIR: "ODOO_SNAPSHOT_DIR",
+  SNAPSHOT_RETENTION_DAYS: "ODOO_SNAPSHOT_RETENTION_DAYS",
+  CONFIRM: "ODOO_CONFIRM",
+  CONFIRM_WRITE_THRESHOLD: "ODOO_CONFIRM_WRITE_THRESHOLD",
+  SUBSCRIPTION_INTERVAL: "ODOO_SUBSCRIPTION_INTERVAL",
+  SUBSCRIPTION_MAX_RECORDS: "ODOO_SUBSCRIPTION_MAX_RECORDS",
   // HTTP transport config
   MCP_PORT: "ODOO_MCP_PORT",
   MCP_HOST: "ODOO_MCP_HOST",
@@ -8,14 +8,19 @@ export type OdooOperator =
   | "<"
   | ">="
   | "<="
+  | "=?"
   | "in"
   | "not in"
   | "like"
+  | "not like"
   | "ilike"
+  | "not ilike"
   | "=like"
   | "=ilike"
   | "child_of"
-  | "parent_of";
+  | "parent_of"
+  | "any"
+  | "not any";
 
 /**
  * A single domain condition: [field, operator, value]
@@ -41,6 +46,10 @@ export interface OdooFieldDef {
   help?: string;
   required?: boolean;
   readonly?: boolean;
+  /**
+   * False for computed fields that are not stored
+   */
+  store?: boolean;
   relation?: string;
   selection?: Array<[string, string]>;
 }
@@ -62,5 +71,45 @@ export interface OdooConnection {
   url: string;
   db: string;
   uid: number;
+  /**
+   * Credential sent with every call: the API key when configured,
+   * otherwise the user password
+   */
   password: string;
 }
+
+/**
+ * Raw result of common.version
+ */
+export interface OdooVersionInfo {
+  server_version: string;
+  server_version_info: Array<number | string>;
+  server_serie: string;
+  protocol_version?: number;
+}
+
+/**
+ * What the client knows about the Odoo server it talks to
+ */
+export interface OdooServerInfo {
+  /**
+   * Full version string, e.g. "17.0+e"
+   */
+  server_version: string;
+  /**
+   * Release series, e.g. "17.0" or "saas~17.2"
+   */
+  server_serie: string;
+  major: number;
+  minor: number;
+  protocol_version: number | null;
+  /**
+   * Null when installed modules could not be read
+   */
+  edition: "community" | "enterprise" | null;
+  /**
+   * Installed module names mapped to their versions.
+   * Null when the user cannot read ir.module.module.
+   */
+  modules: Record<string, string> | null;
+}